@@ -0,0 +1,257 @@
+/**
+ * Service worker - keeps the app usable with no signal
+ * Precaches the app shell, the data manifest, artists, venues, indexes and
+ * the current and next month's event chunks. Data files are cached under
+ * `<file>?v=<checksum>` from the manifest, so a cached copy is served as long
+ * as its checksum is current and dropped once a new dataset replaces it.
+ * Pages are told when data comes from the cache because the network failed.
+ */
+
+const SHELL_CACHE = "zivv-shell-v1";
+const DATA_CACHE = "zivv-data-v1";
+const CONNECTIVITY_MESSAGE = "zivv:connectivity";
+
+const SCOPE = new URL(self.registration.scope);
+const INDEX_URL = SCOPE.href;
+const DATA_URL = new URL("data/", SCOPE).href;
+const MANIFEST_URL = new URL("manifest.json", DATA_URL).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([precacheShell(), fetchManifest().then(precacheData)])
+      .catch((error) => console.warn("Precache incomplete:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("zivv-") && key !== SHELL_CACHE && key !== DATA_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== SCOPE.origin || !url.href.startsWith(SCOPE.href)) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.href === MANIFEST_URL) {
+    event.respondWith(handleManifest(event));
+  } else if (url.href.startsWith(DATA_URL) && url.pathname.endsWith(".json")) {
+    event.respondWith(handleDataFile(request));
+  } else {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+/**
+ * index.html and the hashed scripts and styles it references
+ */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch(INDEX_URL, { cache: "no-cache" });
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${INDEX_URL}`);
+
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map((match) => new URL(match[1], INDEX_URL))
+    .filter((url) => url.origin === SCOPE.origin && url.href.startsWith(SCOPE.href))
+    .map((url) => url.href);
+
+  await cache.put(INDEX_URL, response);
+  await Promise.all(
+    [...new Set(assets)].map((asset) =>
+      cache.add(asset).catch((error) => console.warn(`Could not precache ${asset}:`, error))
+    )
+  );
+}
+
+/**
+ * Cache the manifest's core files and the current and next month's chunks,
+ * then drop cached data whose checksum the manifest no longer lists
+ */
+async function precacheData(manifest) {
+  const cache = await caches.open(DATA_CACHE);
+  const { chunks } = manifest;
+
+  const now = new Date();
+  const months = [0, 1].map((offset) => {
+    const date = new Date(now.getFullYear(), now.getMonth() + offset, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  });
+
+  const wanted = [
+    chunks.artists,
+    chunks.venues,
+    chunks.indexes,
+    ...chunks.events.filter((chunk) => months.includes(chunk.chunkId)),
+  ].filter(Boolean);
+
+  await Promise.all(
+    wanted.map(async (file) => {
+      const key = versionedUrl(file);
+      if (await cache.match(key)) return;
+      const response = await fetch(new URL(file.filename, DATA_URL).href, { cache: "no-cache" });
+      if (response.ok) await cache.put(key, response);
+    })
+  );
+
+  const current = new Set(manifestFiles(manifest).map(versionedUrl));
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .filter((request) => new URL(request.url).searchParams.has("v") && !current.has(request.url))
+      .map((request) => cache.delete(request))
+  );
+}
+
+async function fetchManifest() {
+  const response = await fetch(MANIFEST_URL, { cache: "no-cache" });
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${MANIFEST_URL}`);
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(MANIFEST_URL, response.clone());
+  return response.json();
+}
+
+/**
+ * Network first, so a new dataset shows up as soon as it's published;
+ * a fresh manifest also refreshes the precached data in the background
+ */
+async function handleManifest(event) {
+  try {
+    const response = await fetch(event.request, { cache: "no-cache" });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const cache = await caches.open(DATA_CACHE);
+    await cache.put(MANIFEST_URL, response.clone());
+    event.waitUntil(
+      response
+        .clone()
+        .json()
+        .then(precacheData)
+        .catch((error) => console.warn("Data precache failed:", error))
+    );
+    notifyConnectivity(true);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(MANIFEST_URL);
+    if (!cached) throw error;
+    notifyConnectivity(false);
+    return cached;
+  }
+}
+
+/**
+ * Files the cached manifest lists are served from the cache while their
+ * checksum matches; anything else, a cache miss or a page refetching a copy
+ * that failed verification goes to the network and falls back to whatever
+ * copy is cached
+ */
+async function handleDataFile(request) {
+  const cache = await caches.open(DATA_CACHE);
+  const url = new URL(request.url);
+  url.search = "";
+
+  const file = await cachedManifestFile(url.href);
+  const key = file ? versionedUrl(file) : url.href;
+  if (file && request.cache !== "reload") {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+  }
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(key, response.clone());
+    notifyConnectivity(true);
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(key)) ?? (await cache.match(url.href, { ignoreSearch: true }));
+    if (!cached) throw error;
+    notifyConnectivity(false);
+    return cached;
+  }
+}
+
+/**
+ * Client-side routes all load index.html; serve the cached copy offline
+ */
+async function handleNavigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).href === INDEX_URL) {
+      await cache.put(INDEX_URL, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(INDEX_URL);
+    if (!cached) throw error;
+    return cached;
+  }
+}
+
+/**
+ * Build assets are content-hashed, so a cached copy is always current
+ */
+async function handleAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok && new URL(request.url).pathname.includes("/assets/")) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function cachedManifestFile(href) {
+  const cached = await caches.match(MANIFEST_URL);
+  if (!cached) return undefined;
+  try {
+    const manifest = await cached.json();
+    return manifestFiles(manifest).find((file) => new URL(file.filename, DATA_URL).href === href);
+  } catch {
+    return undefined;
+  }
+}
+
+function manifestFiles(manifest) {
+  const { chunks } = manifest;
+  return [
+    ...chunks.events,
+    chunks.artists,
+    chunks.venues,
+    chunks.indexes,
+    chunks.search?.documents,
+    chunks.search?.terms,
+    chunks.history,
+    chunks.radio,
+    chunks.redirects,
+  ].filter((file) => file?.filename && file.checksum);
+}
+
+function versionedUrl(file) {
+  const url = new URL(file.filename, DATA_URL);
+  url.searchParams.set("v", file.checksum);
+  return url.href;
+}
+
+function notifyConnectivity(online) {
+  self.clients
+    .matchAll({ type: "window" })
+    .then((clients) => clients.forEach((client) => client.postMessage({ type: CONNECTIVITY_MESSAGE, online })));
+}
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+
+/**
+ * Correction rules report
+ *
+ * Checks every rule in data/line-corrections.json against its example, runs
+ * the rules over latest.txt and events.txt, and lists which rules fired on
+ * which lines and which no longer match anything.
+ *
+ * Usage:
+ *   node scripts/corrections-report.js
+ *   npm run corrections
+ *
+ * Exit codes:
+ *   0 — every rule passes its example (stale rules are advisory only)
+ *   1 — a rule fails its example, doesn't compile or reuses an id
+ */
+
+import { CorrectionEngine } from '../dist/lib/etl/corrections.js';
+import { normalizeLatestContent } from '../dist/lib/etl/latest-content.js';
+import { readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = resolve(__dirname, '..');
+const dataDir = resolve(projectRoot, 'data');
+
+function main() {
+  const correctionsPath = resolve(dataDir, 'line-corrections.json');
+  const latestPath = resolve(dataDir, 'latest.txt');
+  const eventsPath = resolve(dataDir, 'events.txt');
+
+  if (!existsSync(correctionsPath)) {
+    console.log('No data/line-corrections.json — nothing to report.');
+    return;
+  }
+
+  const rules = JSON.parse(readFileSync(correctionsPath, 'utf-8'));
+  let engine;
+  try {
+    engine = CorrectionEngine.load(rules);
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${rules.length} rule(s) pass their examples\n`);
+
+  if (existsSync(latestPath)) {
+    engine.applyToContent(normalizeLatestContent(readFileSync(latestPath, 'utf-8')), 'latest.txt');
+  }
+  if (existsSync(eventsPath)) {
+    engine.applyToContent(readFileSync(eventsPath, 'utf-8'), 'events.txt');
+  }
+
+  console.log(CorrectionEngine.formatReport(engine.report()));
+}
+
+main();
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Review Workbench
+ *
+ * Steps through the validation findings for data/latest.txt one at a time —
+ * event issues, near-duplicate venue groups and address-only venues — and
+ * records each decision before merging.
+ *
+ * Usage:
+ *   node scripts/review-latest.js
+ *   npm run review
+ *
+ * Actions per item:
+ *   accept, add a venue alias, add a line correction, or edit the line
+ *
+ * Output:
+ *   data/venue-aliases.json    — new aliases
+ *   data/line-corrections.json — new corrections, including hand edits
+ *   then runs scripts/merge-latest.js
+ */
+
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = resolve(__dirname, '..');
+
+const args = process.argv.slice(2);
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Review data/latest.txt interactively, then merge it into events.txt.
+
+Usage:
+  node scripts/review-latest.js
+  npm run review
+
+Keys:
+  a  accept           l  add a venue alias     c  add a line correction
+  e  edit the line    n  next open item        s  save
+  m  save and merge   q  quit without saving
+`);
+  process.exit(0);
+}
+
+try {
+  // Dynamic import of TUI
+  const { ReviewTUI } = await import('../dist/review/ReviewTUI.js');
+  const tui = new ReviewTUI(projectRoot);
+
+  // Start the TUI (this will take over the terminal)
+  await tui.start();
+} catch (error) {
+  console.error(`❌ Review failed: ${error.message}`);
+  console.error('\n💡 Try \'npm run validate\' and the .err.txt files instead');
+  process.exit(1);
+}
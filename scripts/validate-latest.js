@@ -20,6 +20,7 @@
 
 import { LatestValidator } from '../dist/lib/etl/validator.js';
 import { normalizeLatestContent } from '../dist/lib/etl/latest-content.js';
+import { CorrectionEngine } from '../dist/lib/etl/corrections.js';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
@@ -208,22 +209,22 @@ async function main() {
     process.exit(1);
   }
 
-  // Load and apply line corrections before validation
+  // Load and apply line corrections before validation; a rule whose
+  // example no longer holds stops the run
   const correctionsPath = resolve(dataDir, 'line-corrections.json');
-  const corrections = existsSync(correctionsPath)
-    ? JSON.parse(readFileSync(correctionsPath, 'utf-8')).map(c => ({
-        re: new RegExp(c.pattern, 'gi'),
-        replacement: c.replacement,
-      }))
-    : [];
-  const applyCorrections = line => corrections.reduce((l, c) => l.replace(c.re, c.replacement), line);
+  let engine;
+  try {
+    engine = CorrectionEngine.load(
+      existsSync(correctionsPath) ? JSON.parse(readFileSync(correctionsPath, 'utf-8')) : []
+    );
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
 
   const rawLatestContent = readFileSync(latestPath, 'utf-8');
-  // Apply corrections line-by-line so patterns work on individual event strings
-  const latestContent = normalizeLatestContent(rawLatestContent)
-    .split('\n')
-    .map(applyCorrections)
-    .join('\n');
+  // Corrections work on whole entries, wrapped lines joined
+  const latestContent = engine.applyToContent(normalizeLatestContent(rawLatestContent), 'latest.txt');
 
   const venuesContent = readFileSync(venuesPath, 'utf-8');
   const existingAliases = existsSync(aliasesPath)
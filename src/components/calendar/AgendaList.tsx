@@ -0,0 +1,216 @@
+/**
+ * AgendaList - Day cards with compact event rows, loading more days on scroll
+ */
+
+import React, { useEffect, useRef } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import PriceWidget from "@/components/ui/PriceWidget.js";
+import NewBadge from "@/components/ui/NewBadge.js";
+import UpdatedBadge from "@/components/ui/UpdatedBadge.js";
+import EventStatusBadge from "@/components/ui/EventStatusBadge.js";
+import { useAppStore } from "@/stores/appStore.js";
+import { useFilterStore } from "@/stores/filterStore.js";
+import type { Event } from "@/types/events.js";
+import { parseDateKey, todayKey } from "@/utils/calendar.js";
+import { calledOffClass } from "@/utils/eventStatus.js";
+import { getCityColors } from "./cityColors.js";
+
+interface AgendaListProps {
+  days: [string, Event[]][]; // sorted by date
+  hasMore?: boolean; // more days exist past the end of the list
+  onLoadMore?: () => void;
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const FULL_DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const AgendaList: React.FC<AgendaListProps> = ({ days, hasMore = false, onLoadMore }) => {
+  const artists = useAppStore((state) => state.artists);
+  const venues = useAppStore((state) => state.venues);
+  const manifest = useAppStore((state) => state.manifest);
+  const updateFilter = useFilterStore((state) => state.updateFilter);
+  const navigate = useNavigate();
+  const listRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const goToVenue = (venueName: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    updateFilter("venues", [venueName]);
+    navigate("/");
+  };
+
+  // Infinite scroll
+  useEffect(() => {
+    const el = loadMoreRef.current;
+    if (!el || !hasMore || !onLoadMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      },
+      { threshold: 0.1 }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, days.length]);
+
+  // j/k and arrows move between rows, PageUp/PageDown jump between days
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const rows = Array.from(
+      listRef.current?.querySelectorAll<HTMLElement>("a[data-agenda-row]") ?? []
+    );
+    if (rows.length === 0) return;
+    const index = rows.indexOf(document.activeElement as HTMLElement);
+    let next: number;
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "j":
+        next = Math.min(index + 1, rows.length - 1);
+        break;
+      case "ArrowUp":
+      case "k":
+        next = Math.max(index - 1, 0);
+        break;
+      case "PageDown":
+      case "PageUp": {
+        const currentDay = rows[index]?.dataset.agendaRow;
+        const dayKeys = [...new Set(rows.map((r) => r.dataset.agendaRow))];
+        const dayIndex = currentDay ? dayKeys.indexOf(currentDay) : -1;
+        const targetDay =
+          e.key === "PageDown"
+            ? dayKeys[Math.min(dayIndex + 1, dayKeys.length - 1)]
+            : dayKeys[Math.max(dayIndex - 1, 0)];
+        next = rows.findIndex((r) => r.dataset.agendaRow === targetDay);
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    rows[next]?.focus();
+  };
+
+  const today = todayKey();
+
+  return (
+    <div
+      ref={listRef}
+      onKeyDown={handleKeyDown}
+      className="grid grid-cols-1 md:grid-cols-2 gap-3 items-stretch"
+    >
+      {days.map(([date, dayEvents]) => {
+        const d = parseDateKey(date);
+        const isToday = date === today;
+        const isWeekend = d.getDay() === 0 || d.getDay() === 6;
+
+        const venueIds = new Set(dayEvents.map((e) => e.venueId));
+        const freeCount = dayEvents.filter((e) => e.isFree).length;
+
+        // Badge colors
+        const badgeBg = isToday
+          ? "bg-purple-600"
+          : isWeekend
+          ? "bg-blue-500"
+          : "bg-gray-500 dark:bg-gray-600";
+
+        return (
+          <section
+            key={date}
+            aria-label={d.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 h-full"
+          >
+            {/* Day header */}
+            <div className="flex items-center gap-3 mb-2">
+              <div className={`text-center w-10 shrink-0 rounded ${badgeBg}`}>
+                <div className="text-xs font-bold uppercase pt-0.5 text-white/70">
+                  {DAY_NAMES[d.getDay()]}
+                </div>
+                <div className="text-lg font-bold leading-tight pb-0.5 text-white">
+                  {d.getDate()}
+                </div>
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {isToday ? "Today" : FULL_DAY_NAMES[d.getDay()]},{" "}
+                  {d.toLocaleDateString("en-US", { month: "long", day: "numeric" })}
+                </div>
+                <div className="text-xs text-gray-400 dark:text-gray-500">
+                  {dayEvents.length} show{dayEvents.length !== 1 ? "s" : ""} · {venueIds.size} venue{venueIds.size !== 1 ? "s" : ""}
+                  {freeCount > 0 && ` · ${freeCount} free`}
+                </div>
+              </div>
+            </div>
+
+            {/* Event rows */}
+            <div className="border-t border-gray-100 dark:border-gray-700 pt-1 space-y-0">
+              {dayEvents.map((event) => {
+                const headliner = event.headlinerArtistId ? artists.get(event.headlinerArtistId) : null;
+                const venue = event.venueId ? venues.get(event.venueId) : null;
+                const venueColors = getCityColors(venue?.city);
+                const otherCount = event.artistIds.length - 1;
+
+                return (
+                  <Link
+                    key={event.id}
+                    to={`/events/${event.slug}`}
+                    data-agenda-row={date}
+                    className="flex items-center gap-1.5 py-0.5 rounded hover:bg-gray-50 dark:hover:bg-gray-700 focus:bg-gray-50 dark:focus:bg-gray-700 outline-none transition-colors group"
+                  >
+                    {/* Time */}
+                    <span className="text-xs text-gray-400 dark:text-gray-500 w-14 shrink-0 tabular-nums">
+                      {event.startTimeEpochMs
+                        ? new Date(event.startTimeEpochMs).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "UTC" })
+                        : "TBA"}
+                    </span>
+                    {/* Artist */}
+                    <span className={`text-xs font-medium text-gray-900 dark:text-gray-100 truncate flex-1 ${calledOffClass(event)}`}>
+                      {headliner?.name ?? "Show"}
+                      {otherCount > 0 && (
+                        <span className="text-gray-400 dark:text-gray-500 font-normal"> +{otherCount}</span>
+                      )}
+                    </span>
+                    <EventStatusBadge event={event} />
+                    {/* Venue */}
+                    <button
+                      type="button"
+                      tabIndex={-1}
+                      onClick={(e) => venue && goToVenue(venue.name, e)}
+                      className={`text-xs truncate max-w-[120px] shrink-0 font-medium text-left hover:underline ${venueColors.text}`}
+                    >
+                      {venue?.name ?? ""}
+                    </button>
+                    {/* Price */}
+                    <PriceWidget
+                      isFree={event.isFree}
+                      isSoldOut={event.status === "sold-out" || event.tags?.includes("sold-out")}
+                      priceMin={event.priceMin}
+                      priceMax={event.priceMax}
+                      price={event.price}
+                      className="text-xs shrink-0"
+                    />
+                    {manifest?.latestIngestionDate && (
+                      <>
+                        <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                        <UpdatedBadge changedAtEpochMs={event.changedAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                      </>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
+
+      {hasMore && (
+        <div ref={loadMoreRef} className="col-span-full text-center py-6">
+          <div className="inline-flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-500" />
+            <span className="text-sm">Loading more days…</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
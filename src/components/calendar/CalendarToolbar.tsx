@@ -0,0 +1,84 @@
+/**
+ * CalendarToolbar - Period title, prev/today/next controls and view switcher
+ */
+
+import React from "react";
+import { NavLink } from "react-router-dom";
+import type { CalendarView } from "@/types/frontend.js";
+
+interface CalendarToolbarProps {
+  title: string;
+  view: CalendarView;
+  cursor: string; // YYYY-MM-DD, carried across view switches
+  onPrev: () => void;
+  onNext: () => void;
+  onToday: () => void;
+  className?: string;
+}
+
+const VIEWS: { view: CalendarView; label: string }[] = [
+  { view: "month", label: "Month" },
+  { view: "week", label: "Week" },
+  { view: "agenda", label: "Agenda" },
+];
+
+export const CalendarToolbar: React.FC<CalendarToolbarProps> = ({
+  title,
+  view,
+  cursor,
+  onPrev,
+  onNext,
+  onToday,
+  className = "",
+}) => {
+  const unit = view === "month" ? "month" : "week";
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-2 ${className}`}>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onPrev}
+          aria-label={`Previous ${unit}`}
+          className="px-2 py-1 rounded text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          onClick={onToday}
+          className="px-2.5 py-1 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={onNext}
+          aria-label={`Next ${unit}`}
+          className="px-2 py-1 rounded text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          ›
+        </button>
+        <h2 className="ml-2 text-base font-semibold text-gray-900 dark:text-white">{title}</h2>
+      </div>
+
+      <nav aria-label="Calendar view" className="flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5">
+        {VIEWS.map(({ view: v, label }) => (
+          <NavLink
+            key={v}
+            to={`/calendar/${v}?date=${cursor}`}
+            className={({ isActive }) =>
+              `px-2.5 py-1 rounded text-xs font-medium transition-colors ${
+                isActive
+                  ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm"
+                  : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              }`
+            }
+          >
+            {label}
+          </NavLink>
+        ))}
+      </nav>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+/**
+ * MonthGrid - Six-week month grid with per-day show counts and overflow popovers
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAppStore } from "@/stores/appStore.js";
+import type { Event } from "@/types/events.js";
+import {
+  addDays,
+  addMonths,
+  getMonthGridKeys,
+  isSameMonth,
+  parseDateKey,
+  startOfWeek,
+  todayKey,
+} from "@/utils/calendar.js";
+import { calledOffClass, statusSuffix } from "@/utils/eventStatus.js";
+import { getCityColors } from "./cityColors.js";
+
+interface MonthGridProps {
+  cursor: string; // focused day, YYYY-MM-DD
+  eventsByDate: Map<string, Event[]>;
+  onCursorChange: (dateKey: string) => void;
+  maxVisible?: number; // shows listed per cell before "+N more"
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const MonthGrid: React.FC<MonthGridProps> = ({
+  cursor,
+  eventsByDate,
+  onCursorChange,
+  maxVisible = 3,
+}) => {
+  const artists = useAppStore((state) => state.artists);
+  const venues = useAppStore((state) => state.venues);
+  const [openDay, setOpenDay] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const popoverTrigger = useRef<HTMLElement | null>(null); // refocused when the popover closes
+  const hasFocus = useRef(false);
+
+  const days = getMonthGridKeys(cursor);
+  const today = todayKey();
+
+  // Keep DOM focus on the cursor cell while the grid is being navigated
+  useEffect(() => {
+    if (!hasFocus.current) return;
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-date="${cursor}"]`)
+      ?.focus();
+  }, [cursor]);
+
+  // Move focus into the popover so its shows can be tabbed through
+  useEffect(() => {
+    if (!openDay) return;
+    const popover = popoverRef.current;
+    (popover?.querySelector<HTMLElement>("a") ?? popover)?.focus();
+  }, [openDay]);
+
+  const openPopover = (day: string, trigger: HTMLElement | null) => {
+    popoverTrigger.current = trigger;
+    setOpenDay(day);
+  };
+
+  const closePopover = () => {
+    const trigger = popoverTrigger.current;
+    popoverTrigger.current = null;
+    setOpenDay(null);
+    trigger?.focus();
+  };
+
+  // Close the popover on outside click
+  useEffect(() => {
+    if (!openDay) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) setOpenDay(null);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [openDay]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      if (openDay) {
+        e.preventDefault();
+        closePopover();
+      }
+      return;
+    }
+    // Keys inside the popover belong to its links
+    if (openDay && popoverRef.current?.contains(e.target as Node)) return;
+
+    let next: string | null = null;
+    switch (e.key) {
+      case "ArrowLeft": next = addDays(cursor, -1); break;
+      case "ArrowRight": next = addDays(cursor, 1); break;
+      case "ArrowUp": next = addDays(cursor, -7); break;
+      case "ArrowDown": next = addDays(cursor, 7); break;
+      case "Home": next = startOfWeek(cursor); break;
+      case "End": next = addDays(startOfWeek(cursor), 6); break;
+      case "PageUp": next = addMonths(cursor, -1); break;
+      case "PageDown": next = addMonths(cursor, 1); break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        openPopover(cursor, gridRef.current?.querySelector<HTMLElement>(`[data-date="${cursor}"]`) ?? null);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    hasFocus.current = true;
+    setOpenDay(null);
+    onCursorChange(next);
+  };
+
+  // Cell shows stay out of the tab order, which belongs to the cursor cell; popover shows are tabbable
+  const renderShow = (event: Event, inPopover = false) => {
+    const headliner = artists.get(event.headlinerArtistId);
+    const venue = venues.get(event.venueId);
+    return (
+      <Link
+        key={event.id}
+        to={`/events/${event.slug}`}
+        tabIndex={inPopover ? undefined : -1}
+        className={`block truncate text-xs leading-snug text-gray-800 dark:text-gray-200 hover:underline ${calledOffClass(event)}`}
+        title={venue ? `${headliner?.name ?? "Show"} at ${venue.name}${statusSuffix(event)}` : undefined}
+      >
+        <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1 align-middle ${getCityColors(venue?.city).bg}`} />
+        {headliner?.name ?? "Show"}
+      </Link>
+    );
+  };
+
+  const weeks = Array.from({ length: 6 }, (_, i) => days.slice(i * 7, i * 7 + 7));
+
+  return (
+    <div
+      ref={gridRef}
+      role="grid"
+      aria-label={parseDateKey(cursor).toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+      onKeyDown={handleKeyDown}
+      onFocus={() => { hasFocus.current = true; }}
+      onBlur={(e) => {
+        if (!gridRef.current?.contains(e.relatedTarget as Node)) hasFocus.current = false;
+      }}
+      className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-visible"
+    >
+      <div role="row" className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-700">
+        {DAY_NAMES.map((name) => (
+          <div
+            key={name}
+            role="columnheader"
+            className="py-1.5 text-center text-xs font-semibold uppercase text-gray-500 dark:text-gray-400"
+          >
+            {name}
+          </div>
+        ))}
+      </div>
+
+      {weeks.map((week) => (
+        <div key={week[0]} role="row" className="grid grid-cols-7">
+          {week.map((day) => {
+            const dayEvents = eventsByDate.get(day) ?? [];
+            const overflow = dayEvents.length - maxVisible;
+            const isCursor = day === cursor;
+            const inMonth = isSameMonth(day, cursor);
+            const date = parseDateKey(day);
+
+            return (
+              <div
+                key={day}
+                role="gridcell"
+                data-date={day}
+                tabIndex={isCursor ? 0 : -1}
+                aria-selected={isCursor}
+                aria-label={`${date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}, ${dayEvents.length} show${dayEvents.length !== 1 ? "s" : ""}`}
+                onClick={() => onCursorChange(day)}
+                className={`relative min-h-24 p-1 border-b border-r border-gray-100 dark:border-gray-700 outline-none focus:ring-2 focus:ring-inset focus:ring-purple-500 ${
+                  inMonth ? "" : "bg-gray-50 dark:bg-gray-900/40"
+                } ${isCursor ? "bg-purple-50 dark:bg-purple-900/20" : ""}`}
+              >
+                <div className="flex items-center justify-between mb-0.5">
+                  <span
+                    className={`text-xs font-semibold ${
+                      day === today
+                        ? "rounded-full bg-purple-600 text-white px-1.5"
+                        : inMonth
+                        ? "text-gray-900 dark:text-white"
+                        : "text-gray-400 dark:text-gray-600"
+                    }`}
+                  >
+                    {date.getDate()}
+                  </span>
+                  {dayEvents.length > 0 && (
+                    <span className="text-[10px] text-gray-400 dark:text-gray-500 tabular-nums">
+                      {dayEvents.length}
+                    </span>
+                  )}
+                </div>
+
+                <div className="space-y-0.5">
+                  {dayEvents.slice(0, maxVisible).map((event) => renderShow(event))}
+                </div>
+
+                {overflow > 0 && (
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCursorChange(day);
+                      openPopover(day, e.currentTarget);
+                    }}
+                    className="mt-0.5 text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                  >
+                    +{overflow} more
+                  </button>
+                )}
+
+                {openDay === day && (
+                  <div
+                    ref={popoverRef}
+                    role="dialog"
+                    tabIndex={-1}
+                    aria-label={`Shows on ${date.toLocaleDateString("en-US", { month: "long", day: "numeric" })}`}
+                    className="absolute z-20 left-0 top-0 w-56 max-h-72 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 shadow-lg p-2 space-y-1"
+                  >
+                    <div className="text-xs font-semibold text-gray-900 dark:text-white mb-1">
+                      {date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                    </div>
+                    {dayEvents.length === 0 ? (
+                      <div className="text-xs text-gray-400">No shows</div>
+                    ) : (
+                      dayEvents.map((event) => renderShow(event, true))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
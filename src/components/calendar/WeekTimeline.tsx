@@ -0,0 +1,248 @@
+/**
+ * WeekTimeline - Seven day columns with shows positioned by start time
+ */
+
+import React, { useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
+import { useAppStore } from "@/stores/appStore.js";
+import type { Event } from "@/types/events.js";
+import {
+  addDays,
+  formatMinutes,
+  getEndMinutes,
+  getStartMinutes,
+  getWeekKeys,
+  layoutDayTimeline,
+  parseDateKey,
+  todayKey,
+  toMinutes,
+} from "@/utils/calendar.js";
+import { calledOffClass, statusSuffix } from "@/utils/eventStatus.js";
+import { getCityColors } from "./cityColors.js";
+
+interface WeekTimelineProps {
+  cursor: string; // focused day, YYYY-MM-DD
+  eventsByDate: Map<string, Event[]>;
+  onCursorChange: (dateKey: string) => void;
+}
+
+const HOUR_HEIGHT_PX = 48;
+const DEFAULT_FIRST_HOUR = 17;
+const DEFAULT_LAST_HOUR = 24;
+const EARLIEST_HOUR = 10;
+const LATEST_HOUR = 26; // 2am the next morning
+
+export const WeekTimeline: React.FC<WeekTimelineProps> = ({
+  cursor,
+  eventsByDate,
+  onCursorChange,
+}) => {
+  const artists = useAppStore((state) => state.artists);
+  const venues = useAppStore((state) => state.venues);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const hasFocus = useRef(false);
+
+  const days = getWeekKeys(cursor);
+  const today = todayKey();
+
+  const layouts = days.map((day) => {
+    const dayEvents = eventsByDate.get(day) ?? [];
+    return {
+      day,
+      blocks: layoutDayTimeline(dayEvents),
+      untimed: dayEvents.filter((e) => getStartMinutes(e) === null),
+    };
+  });
+
+  // Fit the visible hours to the week's shows, within sane bounds
+  const starts = layouts.flatMap((l) => l.blocks.map((b) => b.startMinutes));
+  const ends = layouts.flatMap((l) =>
+    l.blocks.filter((b) => getEndMinutes(b.event) !== null).map((b) => b.endMinutes)
+  );
+  const firstHour = Math.max(
+    EARLIEST_HOUR,
+    Math.min(DEFAULT_FIRST_HOUR, ...starts.map((m) => Math.floor(m / 60)))
+  );
+  const lastHour = Math.min(
+    LATEST_HOUR,
+    Math.max(
+      DEFAULT_LAST_HOUR,
+      ...starts.map((m) => Math.ceil(m / 60) + 1),
+      ...ends.map((m) => Math.ceil(m / 60))
+    )
+  );
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const hasUntimed = layouts.some((l) => l.untimed.length > 0);
+
+  // Move focus to the first show of the cursor day when navigating by keyboard
+  useEffect(() => {
+    if (!hasFocus.current) return;
+    const target =
+      containerRef.current?.querySelector<HTMLElement>(`a[data-day="${cursor}"]`) ??
+      containerRef.current?.querySelector<HTMLElement>(`[data-column="${cursor}"]`);
+    target?.focus();
+  }, [cursor]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowRight":
+      case "PageUp":
+      case "PageDown": {
+        const offset = { ArrowLeft: -1, ArrowRight: 1, PageUp: -7, PageDown: 7 }[e.key];
+        e.preventDefault();
+        hasFocus.current = true;
+        onCursorChange(addDays(cursor, offset));
+        return;
+      }
+      case "ArrowUp":
+      case "ArrowDown": {
+        const links = Array.from(
+          containerRef.current?.querySelectorAll<HTMLElement>(`a[data-day="${cursor}"]`) ?? []
+        );
+        if (links.length === 0) return;
+        e.preventDefault();
+        const index = links.indexOf(document.activeElement as HTMLElement);
+        const next =
+          e.key === "ArrowDown"
+            ? Math.min(index + 1, links.length - 1)
+            : Math.max(index - 1, 0);
+        links[next].focus();
+        return;
+      }
+    }
+  };
+
+  const renderLink = (event: Event, day: string, className: string, style?: React.CSSProperties) => {
+    const headliner = artists.get(event.headlinerArtistId);
+    const venue = venues.get(event.venueId);
+    const minutes = getStartMinutes(event);
+    const endMinutes = getEndMinutes(event);
+    const doors = event.doorsTime ? ` · doors ${formatMinutes(toMinutes(event.doorsTime))}` : "";
+    const ends = endMinutes !== null ? ` · over by ${formatMinutes(endMinutes)}` : "";
+    return (
+      <Link
+        key={event.id}
+        to={`/events/${event.slug}`}
+        data-day={day}
+        tabIndex={day === cursor ? 0 : -1}
+        style={style}
+        title={`${headliner?.name ?? "Show"}${venue ? ` at ${venue.name}` : ""}${doors}${ends}${statusSuffix(event)}`}
+        className={`block overflow-hidden rounded px-1 py-0.5 text-[11px] leading-tight text-white outline-none focus:ring-2 focus:ring-purple-400 ${getCityColors(venue?.city).bg} ${className}`}
+      >
+        {minutes !== null && (
+          <span className="block opacity-80 tabular-nums">
+            {formatMinutes(minutes)}
+            {endMinutes !== null && endMinutes > minutes && `–${formatMinutes(endMinutes)}`}
+          </span>
+        )}
+        <span className={`block font-medium truncate ${calledOffClass(event)}`}>{headliner?.name ?? "Show"}</span>
+        {venue && <span className="block truncate opacity-80">{venue.name}</span>}
+      </Link>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      role="group"
+      aria-label="Week timeline"
+      onKeyDown={handleKeyDown}
+      onFocus={() => { hasFocus.current = true; }}
+      onBlur={(e) => {
+        if (!containerRef.current?.contains(e.relatedTarget as Node)) hasFocus.current = false;
+      }}
+      className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-x-auto"
+    >
+      <div className="min-w-[640px]">
+        {/* Day headers */}
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] border-b border-gray-200 dark:border-gray-700">
+          <div />
+          {days.map((day) => {
+            const date = parseDateKey(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                tabIndex={-1}
+                onClick={() => onCursorChange(day)}
+                className={`py-1.5 text-center text-xs ${
+                  day === cursor ? "bg-purple-50 dark:bg-purple-900/20" : ""
+                }`}
+              >
+                <span className="block font-semibold uppercase text-gray-500 dark:text-gray-400">
+                  {date.toLocaleDateString("en-US", { weekday: "short" })}
+                </span>
+                <span
+                  className={`inline-block text-sm font-bold ${
+                    day === today ? "rounded-full bg-purple-600 text-white px-1.5" : "text-gray-900 dark:text-white"
+                  }`}
+                >
+                  {date.getDate()}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Shows without a start time */}
+        {hasUntimed && (
+          <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] border-b border-gray-200 dark:border-gray-700">
+            <div className="pr-1 pt-1 text-right text-[10px] text-gray-400">TBA</div>
+            {layouts.map(({ day, untimed }) => (
+              <div key={day} className="p-0.5 space-y-0.5 border-l border-gray-100 dark:border-gray-700">
+                {untimed.map((event) => renderLink(event, day, ""))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Hour grid */}
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+          <div>
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                style={{ height: HOUR_HEIGHT_PX }}
+                className="pr-1 text-right text-[10px] text-gray-400 -translate-y-1.5"
+              >
+                {formatMinutes((hour % 24) * 60)}
+              </div>
+            ))}
+          </div>
+          {layouts.map(({ day, blocks }) => (
+            <div
+              key={day}
+              data-column={day}
+              tabIndex={day === cursor && blocks.length === 0 ? 0 : -1}
+              aria-label={parseDateKey(day).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}
+              className={`relative border-l border-gray-100 dark:border-gray-700 outline-none ${
+                day === cursor ? "bg-purple-50/50 dark:bg-purple-900/10" : ""
+              }`}
+              style={{ height: hours.length * HOUR_HEIGHT_PX }}
+            >
+              {hours.map((hour, i) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-gray-100 dark:border-gray-700"
+                  style={{ top: i * HOUR_HEIGHT_PX }}
+                />
+              ))}
+              {blocks.map((block) => {
+                const top = ((block.startMinutes - firstHour * 60) / 60) * HOUR_HEIGHT_PX;
+                const height = ((Math.min(block.endMinutes, lastHour * 60) - block.startMinutes) / 60) * HOUR_HEIGHT_PX;
+                const width = 100 / block.laneCount;
+                return renderLink(block.event, day, "absolute", {
+                  top: Math.max(top, 0),
+                  height: Math.max(height - 2, 18),
+                  left: `calc(${block.lane * width}% + 1px)`,
+                  width: `calc(${width}% - 2px)`,
+                });
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+/**
+ * City colors shared by the calendar views — bg for fills, text for venue labels
+ */
+
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+
+export const CITY_COLORS: Record<string, { bg: string; text: string }> = {
+  "San Francisco": { bg: "bg-rose-600",    text: "text-rose-500 dark:text-rose-400" },
+  "Oakland":       { bg: "bg-amber-600",   text: "text-amber-500 dark:text-amber-400" },
+  "Berkeley":      { bg: "bg-green-600",   text: "text-green-500 dark:text-green-400" },
+  "San Jose":      { bg: "bg-sky-600",     text: "text-sky-500 dark:text-sky-400" },
+  "Santa Rosa":    { bg: "bg-violet-600",  text: "text-violet-500 dark:text-violet-400" },
+  "Napa":          { bg: "bg-pink-600",    text: "text-pink-500 dark:text-pink-400" },
+  "Petaluma":      { bg: "bg-teal-600",    text: "text-teal-500 dark:text-teal-400" },
+  "Felton":        { bg: "bg-lime-600",    text: "text-lime-500 dark:text-lime-400" },
+  "Santa Cruz":    { bg: "bg-cyan-600",    text: "text-cyan-500 dark:text-cyan-400" },
+  "Other":         { bg: "bg-gray-500",    text: "text-gray-500 dark:text-gray-400" },
+};
+
+export function getCityColors(city: string | undefined): { bg: string; text: string } {
+  const name = Gazetteer.resolve(city ?? "")?.name ?? "Other";
+  return CITY_COLORS[name] ?? CITY_COLORS["Other"];
+}
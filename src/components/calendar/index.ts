@@ -0,0 +1,9 @@
+/**
+ * Calendar components exports
+ */
+
+export { MonthGrid } from "./MonthGrid";
+export { WeekTimeline } from "./WeekTimeline";
+export { AgendaList } from "./AgendaList";
+export { CalendarToolbar } from "./CalendarToolbar";
+export { CITY_COLORS, getCityColors } from "./cityColors";
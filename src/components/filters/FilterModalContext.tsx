@@ -6,11 +6,20 @@ import React, { createContext, useContext, useEffect, useRef, useState } from "r
 import { useLocation } from "react-router-dom";
 import { FilterBadge } from "./FilterBadge";
 import { useFilterStore } from "@/stores/filterStore";
+import type { Event } from "@/types/events";
+
+// What the current page's filters matched; pages that hold one page of it pass a loader for the rest
+export interface FilterResults {
+  events: Event[] | (() => Promise<Event[]>);
+  total: number;
+}
 
 interface FilterModalContextType {
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
   toggleModal: () => void;
+  results: FilterResults | null; // null on pages without a list
+  setResults: (results: FilterResults | null) => void;
 }
 
 const FilterModalContext = createContext<FilterModalContextType | undefined>(undefined);
@@ -29,6 +38,7 @@ interface FilterModalProviderProps {
 
 export const FilterModalProvider: React.FC<FilterModalProviderProps> = ({ children }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [results, setResults] = useState<FilterResults | null>(null);
   const location = useLocation();
 
   // Close modal on route change
@@ -73,7 +83,7 @@ export const FilterModalProvider: React.FC<FilterModalProviderProps> = ({ childr
   const toggleModal = () => setIsOpen(!isOpen);
 
   return (
-    <FilterModalContext.Provider value={{ isOpen, setIsOpen, toggleModal }}>
+    <FilterModalContext.Provider value={{ isOpen, setIsOpen, toggleModal, results, setResults }}>
       {children}
     </FilterModalContext.Provider>
   );
@@ -8,30 +8,54 @@ import { CityPagination } from "@/components/ui/CityPagination";
 import { VenueFilter } from "@/components/ui/VenueFilter";
 import { AgeRestrictionToggle } from "@/components/ui/AgeRestrictionToggle";
 import { UpcomingToggle } from "@/components/ui/UpcomingToggle";
+import { AdvisoryFilter } from "@/components/ui/AdvisoryFilter";
+import { BartToggle } from "@/components/ui/BartToggle";
+import { DistanceFilter } from "@/components/ui/DistanceFilter";
+import { AddToCalendarButton } from "@/components/ui/AddToCalendarButton";
+import type { FilterResults } from "./FilterModalContext";
 
 interface SearchFilterToolbarProps {
+  results?: FilterResults; // the page's filtered events, offered as an .ics export
   className?: string;
 }
 
 export const SearchFilterToolbar: React.FC<SearchFilterToolbarProps> = ({
+  results,
   className = "",
 }) => {
   return (
     <div className={`space-y-4 ${className}`}>
-      {/* Toggles - Upcoming and Age restriction */}
-      <div className="flex flex-row gap-4">
+      {/* Toggles - Upcoming, Age restriction and last BART */}
+      <div className="flex flex-row flex-wrap gap-4">
         <UpcomingToggle />
         <AgeRestrictionToggle />
+        <BartToggle />
       </div>
 
       {/* City filters */}
       <CityPagination />
 
+      {/* Near a BART station or the browser's location */}
+      <DistanceFilter />
+
       {/* Date filters */}
       <DatePagination />
 
       {/* Venue filter */}
       <VenueFilter />
+
+      {/* Legend advisories ($ @ ^ #) */}
+      <AdvisoryFilter />
+
+      {/* Everything the filters select, as one .ics file */}
+      {results && (
+        <AddToCalendarButton
+          events={results.events}
+          filename="zivv-shows"
+          calendarName="Shows"
+          label={`Export ${results.total} shows to calendar`}
+        />
+      )}
     </div>
   );
 };
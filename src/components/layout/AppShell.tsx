@@ -10,10 +10,17 @@ import { SideNavigation } from "./SideNavigation.tsx";
 import { useAppStore } from "@/stores/appStore.ts";
 import { useDarkMode } from "@/hooks/useDarkMode";
 import { PageLoading } from "@/components/ui/LoadingSpinner.tsx";
+import { OfflineBanner } from "@/components/ui/OfflineBanner.tsx";
 import { ErrorBoundary } from "@/components/error/ErrorBoundary.tsx";
-import { FilterModalProvider, FilterModal } from "@/components/filters/FilterModalContext";
+import { FilterModalProvider, FilterModal, useFilterModal } from "@/components/filters/FilterModalContext";
 import { SearchFilterToolbar } from "@/components/filters";
 
+// Filter panel that exports whatever the current page's filters matched
+const FilterPanel: React.FC = () => {
+  const { results } = useFilterModal();
+  return <SearchFilterToolbar results={results ?? undefined} />;
+};
+
 export const AppShell: React.FC = () => {
   const location = useLocation();
   const initialize = useAppStore((state) => state.initialize);
@@ -155,6 +162,9 @@ export const AppShell: React.FC = () => {
             className="flex-shrink-0"
           />
 
+          {/* Running on the service worker's cached data */}
+          <OfflineBanner className="flex-shrink-0" />
+
           {/* Page Content */}
           <main
             className="flex-1 pb-16 lg:pb-0 overflow-auto [&::-webkit-scrollbar]:hidden"
@@ -175,7 +185,7 @@ export const AppShell: React.FC = () => {
 
       {/* Filter Modal — rendered at app level so mobile full-screen works */}
       <FilterModal>
-        <SearchFilterToolbar />
+        <FilterPanel />
       </FilterModal>
       </div>
     </FilterModalProvider>
@@ -9,7 +9,7 @@ import { useAppStore } from "@/stores/appStore.ts";
 import { CompactDarkModeToggle } from "@/components/ui/DarkModeToggle.tsx";
 import { FilterButton, FilterModal } from "@/components/filters/FilterModalContext";
 import { SearchFilterToolbar } from "@/components/filters";
-import type { Event } from "@/types/events";
+import type { SearchResults } from "@/types/frontend";
 
 interface HeaderProps {
   onMenuToggle: () => void;
@@ -149,41 +149,83 @@ const LanguageDropdown: React.FC = () => {
   );
 };
 
+// Search dropdown section and row
+const SearchResultGroup: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <div role="group" aria-label={label}>
+    <div className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+      {label}
+    </div>
+    {children}
+  </div>
+);
+
+const SearchResultButton: React.FC<{
+  title: string;
+  detail?: string;
+  onSelect: () => void;
+}> = ({ title, detail, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className="w-full text-left px-4 py-2 hover:bg-gray-50 focus:bg-gray-50 dark:hover:bg-gray-700 dark:focus:bg-gray-700 focus:outline-none"
+  >
+    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{title}</div>
+    {detail && (
+      <div className="text-sm text-gray-500 dark:text-gray-400 truncate">{detail}</div>
+    )}
+  </button>
+);
+
 export const Header: React.FC<HeaderProps> = ({
   onMenuToggle,
   className = "",
 }) => {
   const navigate = useNavigate();
   const { searchQuery, setSearchQuery } = useFilterStore();
-  const { searchEvents, loading } = useAppStore();
+  const { search, getArtist, getVenue, loading } = useAppStore();
 
   const [isSearchFocused, setIsSearchFocused] = useState(false);
-  const [searchResults, setSearchResults] = useState<Event[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
 
   // Handle search input
   const handleSearchChange = async (query: string) => {
     setSearchQuery(query);
 
-    if (query.trim().length > 2) {
+    if (query.trim().length > 1) {
       try {
-        const results = await searchEvents(query);
-        setSearchResults(results.slice(0, 5)); // Show top 5 results
+        const results = await search(query, 5); // Top 5 per group
+        // Ignore responses for queries the user has already typed past
+        if (useFilterStore.getState().searchQuery === query) {
+          setSearchResults(results);
+        }
       } catch (error) {
         console.error("Search failed:", error);
-        setSearchResults([]);
+        setSearchResults(null);
       }
     } else {
-      setSearchResults([]);
+      setSearchResults(null);
     }
   };
 
+  const openResult = (path: string) => {
+    navigate(path);
+    setIsSearchFocused(false);
+    setSearchResults(null);
+  };
+
+  const hasResults =
+    !!searchResults &&
+    searchResults.events.length + searchResults.artists.length + searchResults.venues.length > 0;
+
   // Handle search submit
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
       navigate(`/?q=${encodeURIComponent(searchQuery.trim())}`);
       setIsSearchFocused(false);
-      setSearchResults([]);
+      setSearchResults(null);
     }
   };
 
@@ -262,27 +304,52 @@ export const Header: React.FC<HeaderProps> = ({
             </form>
 
             {/* Search Results Dropdown */}
-            {isSearchFocused && searchResults.length > 0 && (
-              <div className="absolute z-50 mt-1 w-full bg-white rounded-md shadow-lg border border-gray-200">
-                <div className="py-1 max-h-64 overflow-y-auto">
-                  {searchResults.map((result, index) => (
-                    <button
-                      key={index}
-                      onClick={() => {
-                        navigate(`/event/${result.slug}`);
-                        setIsSearchFocused(false);
-                      }}
-                      className="w-full text-left px-4 py-2 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none"
-                    >
-                      <div className="text-sm font-medium text-gray-900">
-                        {/* This would show artist names - placeholder for now */}
-                        Event {result.id}
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        {new Date(result.dateEpochMs).toLocaleDateString()}
-                      </div>
-                    </button>
-                  ))}
+            {isSearchFocused && hasResults && searchResults && (
+              <div className="absolute z-50 mt-1 w-full bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700">
+                <div className="py-1 max-h-80 overflow-y-auto">
+                  {searchResults.events.length > 0 && (
+                    <SearchResultGroup label="Shows">
+                      {searchResults.events.map(({ item: event }) => {
+                        const headliner = getArtist(event.headlinerArtistId);
+                        const venue = getVenue(event.venueId);
+                        return (
+                          <SearchResultButton
+                            key={`event-${event.id}`}
+                            title={headliner?.name ?? "Show"}
+                            detail={[
+                              new Date(event.date + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+                              venue?.name,
+                            ].filter(Boolean).join(" · ")}
+                            onSelect={() => openResult(`/events/${event.slug}`)}
+                          />
+                        );
+                      })}
+                    </SearchResultGroup>
+                  )}
+                  {searchResults.artists.length > 0 && (
+                    <SearchResultGroup label="Artists">
+                      {searchResults.artists.map(({ item: artist }) => (
+                        <SearchResultButton
+                          key={`artist-${artist.id}`}
+                          title={artist.name}
+                          detail={`${artist.upcomingEventCount} upcoming`}
+                          onSelect={() => openResult(`/artists/${artist.slug}`)}
+                        />
+                      ))}
+                    </SearchResultGroup>
+                  )}
+                  {searchResults.venues.length > 0 && (
+                    <SearchResultGroup label="Venues">
+                      {searchResults.venues.map(({ item: venue }) => (
+                        <SearchResultButton
+                          key={`venue-${venue.id}`}
+                          title={venue.name}
+                          detail={venue.city}
+                          onSelect={() => openResult(`/venues/${venue.slug}`)}
+                        />
+                      ))}
+                    </SearchResultGroup>
+                  )}
                 </div>
               </div>
             )}
@@ -47,6 +47,15 @@ export const SideNavigation: React.FC<SideNavigationProps> = ({
         </svg>
       ),
     },
+    {
+      name: "Map",
+      to: "/map",
+      icon: (
+        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+        </svg>
+      ),
+    },
     {
       name: "Just Added",
       to: "/new",
@@ -65,6 +74,15 @@ export const SideNavigation: React.FC<SideNavigationProps> = ({
         </svg>
       ),
     },
+    {
+      name: "Radio",
+      to: "/radio",
+      icon: (
+        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+        </svg>
+      ),
+    },
     {
       name: "Local Artists",
       to: "/local-artists",
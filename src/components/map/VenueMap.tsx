@@ -0,0 +1,263 @@
+/**
+ * VenueMap - SVG map of the Bay Area with a pin per venue, clustered when zoomed out
+ * Draws the bundled basemap, so it works offline; drag to pan, scroll or use
+ * the buttons to zoom, click a cluster to zoom into it
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Event, Venue, VenueId } from "@/types/events.js";
+import { MAP_HEIGHT, MAP_WIDTH, clusterPins, project, ringPath } from "@/utils/map.js";
+import { CITY_LABELS, WATER, WATER_LABELS } from "./basemap.js";
+
+export interface VenuePin {
+  venue: Venue; // with coordinates
+  events: Event[];
+}
+
+interface VenueMapProps {
+  pins: VenuePin[];
+  selectedVenueId?: VenueId | null;
+  onSelect: (venueId: VenueId | null) => void;
+  className?: string;
+}
+
+interface View {
+  zoom: number;
+  x: number; // viewBox point at the center
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 24;
+const CLUSTER_RADIUS = 36; // viewBox units at zoom 1
+const PIN_RADIUS = 7;
+const INITIAL_VIEW: View = { zoom: 1, x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 };
+
+const clampView = ({ zoom, x, y }: View): View => {
+  const z = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  const halfW = MAP_WIDTH / (2 * z);
+  const halfH = MAP_HEIGHT / (2 * z);
+  return {
+    zoom: z,
+    x: Math.min(MAP_WIDTH - halfW, Math.max(halfW, x)),
+    y: Math.min(MAP_HEIGHT - halfH, Math.max(halfH, y)),
+  };
+};
+
+export const VenueMap: React.FC<VenueMapProps> = ({ pins, selectedVenueId, onSelect, className = "" }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ clientX: number; clientY: number; view: View; moved: boolean } | null>(null);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+
+  const width = MAP_WIDTH / view.zoom;
+  const height = MAP_HEIGHT / view.zoom;
+  const left = view.x - width / 2;
+  const top = view.y - height / 2;
+  const unit = 1 / view.zoom; // one viewBox unit at zoom 1, for sizes that stay put on screen
+
+  const water = useMemo(() => WATER.map(ringPath), []);
+
+  const clusters = useMemo(
+    () =>
+      clusterPins(
+        pins.flatMap((pin) => (pin.venue.coordinates ? [{ ...project(pin.venue.coordinates), item: pin }] : [])),
+        CLUSTER_RADIUS / view.zoom
+      ),
+    [pins, view.zoom]
+  );
+
+  // Client position to a viewBox point
+  const toMapPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = svgRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return { x: view.x, y: view.y };
+      return {
+        x: left + ((clientX - rect.left) / rect.width) * width,
+        y: top + ((clientY - rect.top) / rect.height) * height,
+      };
+    },
+    [view, left, top, width, height]
+  );
+
+  // Zoom by a factor, keeping the given viewBox point where it is on screen
+  const zoomAt = useCallback(
+    (factor: number, anchor = { x: view.x, y: view.y }) => {
+      setView((current) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+        const scale = current.zoom / zoom;
+        return clampView({
+          zoom,
+          x: anchor.x + (current.x - anchor.x) * scale,
+          y: anchor.y + (current.y - anchor.y) * scale,
+        });
+      });
+    },
+    [view.x, view.y]
+  );
+
+  // React's wheel listener is passive, so the page would scroll along with the zoom
+  const handleWheel = useRef<(e: WheelEvent) => void>(() => {});
+  handleWheel.current = (e: WheelEvent) => {
+    e.preventDefault();
+    zoomAt(e.deltaY < 0 ? 1.25 : 0.8, toMapPoint(e.clientX, e.clientY));
+  };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const listener = (e: WheelEvent) => handleWheel.current(e);
+    svg.addEventListener("wheel", listener, { passive: false });
+    return () => svg.removeEventListener("wheel", listener);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    drag.current = { clientX: e.clientX, clientY: e.clientY, view, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const start = drag.current;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!start || !rect || rect.width === 0) return;
+    const dx = e.clientX - start.clientX;
+    const dy = e.clientY - start.clientY;
+    if (!start.moved && Math.hypot(dx, dy) < 4) return;
+    if (!start.moved) svgRef.current?.setPointerCapture?.(e.pointerId);
+    start.moved = true;
+    setView(
+      clampView({
+        ...start.view,
+        x: start.view.x - (dx / rect.width) * width,
+        y: start.view.y - (dy / rect.height) * height,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    // Let the click that ends a drag through to the pins only when it wasn't one
+    setTimeout(() => {
+      drag.current = null;
+    });
+  };
+
+  const wasDrag = () => drag.current?.moved ?? false;
+
+  return (
+    <div className={`relative rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 ${className}`}>
+      <svg
+        ref={svgRef}
+        viewBox={`${left} ${top} ${width} ${height}`}
+        className="block w-full h-auto touch-none select-none bg-stone-100 dark:bg-gray-800 cursor-grab active:cursor-grabbing"
+        role="img"
+        aria-label="Map of Bay Area venues with shows"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onClick={() => !wasDrag() && onSelect(null)}
+      >
+        {water.map((d, i) => (
+          <path key={i} d={d} className="fill-sky-200 dark:fill-slate-700" />
+        ))}
+
+        {WATER_LABELS.map(({ name, point }) => {
+          const { x, y } = project(point);
+          return (
+            <text key={name} x={x} y={y} fontSize={14 * unit} textAnchor="middle" className="fill-sky-600 dark:fill-slate-400 italic pointer-events-none">
+              {name}
+            </text>
+          );
+        })}
+
+        {CITY_LABELS.map(({ name, point }) => {
+          const { x, y } = project(point);
+          return (
+            <text key={name} x={x} y={y - 10 * unit} fontSize={11 * unit} textAnchor="middle" className="fill-gray-500 dark:fill-gray-400 pointer-events-none">
+              {name}
+            </text>
+          );
+        })}
+
+        {clusters.map((cluster) => {
+          const showCount = cluster.items.reduce((sum, pin) => sum + pin.events.length, 0);
+
+          if (cluster.items.length > 1) {
+            const r = (PIN_RADIUS + 3 + Math.min(10, Math.sqrt(showCount) * 2)) * unit;
+            return (
+              <g
+                key={cluster.items.map((pin) => pin.venue.id).join("-")}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!wasDrag()) setView((current) => clampView({ zoom: current.zoom * 2.5, x: cluster.x, y: cluster.y }));
+                }}
+              >
+                <title>{cluster.items.map((pin) => pin.venue.name).join(", ")}</title>
+                <circle cx={cluster.x} cy={cluster.y} r={r} className="fill-purple-600/80 stroke-white" strokeWidth={2 * unit} />
+                <text x={cluster.x} y={cluster.y} dy="0.35em" fontSize={11 * unit} textAnchor="middle" className="fill-white font-semibold pointer-events-none">
+                  {showCount}
+                </text>
+              </g>
+            );
+          }
+
+          const [pin] = cluster.items;
+          const selected = pin.venue.id === selectedVenueId;
+          const approximate = pin.venue.coordinates?.precision === "city";
+          return (
+            <g
+              key={pin.venue.id}
+              className="cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                if (!wasDrag()) onSelect(selected ? null : pin.venue.id);
+              }}
+            >
+              <title>
+                {`${pin.venue.name} — ${pin.events.length} show${pin.events.length !== 1 ? "s" : ""}${approximate ? ` (placed at ${pin.venue.city}'s center)` : ""}`}
+              </title>
+              <circle
+                cx={cluster.x}
+                cy={cluster.y}
+                r={(selected ? PIN_RADIUS + 2 : PIN_RADIUS) * unit}
+                className={selected ? "fill-amber-500 stroke-white" : approximate ? "fill-blue-600/50 stroke-white" : "fill-blue-600 stroke-white"}
+                strokeWidth={2 * unit}
+                strokeDasharray={approximate ? `${3 * unit} ${2 * unit}` : undefined}
+              />
+              {pin.events.length > 1 && (
+                <text x={cluster.x} y={cluster.y} dy="0.35em" fontSize={9 * unit} textAnchor="middle" className="fill-white font-semibold pointer-events-none">
+                  {pin.events.length}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <button
+          type="button"
+          onClick={() => zoomAt(1.5)}
+          className="w-8 h-8 rounded bg-white dark:bg-gray-900 shadow text-lg leading-none text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          aria-label="Zoom in"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomAt(1 / 1.5)}
+          className="w-8 h-8 rounded bg-white dark:bg-gray-900 shadow text-lg leading-none text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          aria-label="Zoom out"
+        >
+          −
+        </button>
+        <button
+          type="button"
+          onClick={() => setView(INITIAL_VIEW)}
+          className="w-8 h-8 rounded bg-white dark:bg-gray-900 shadow text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          aria-label="Show the whole Bay Area"
+        >
+          ⤢
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * Bundled Bay Area basemap — simplified shoreline as [lng, lat] rings, so the
+ * map draws without a tile server. Accurate to a few hundred meters, which
+ * is plenty at city zoom; venues are placed by their own coordinates
+ */
+
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+import type { GeoPoint } from "@/types/events.js";
+
+type Ring = [number, number][];
+
+// Coast from the Sonoma coast down to Moss Landing, closed out to sea
+const PACIFIC: Ring = [
+  [-123.45, 38.75], [-123.25, 38.52], [-123.12, 38.45], [-123.07, 38.33], [-123.05, 38.3],
+  [-122.97, 38.24], [-122.99, 38.17], [-123.02, 38.0], [-122.88, 38.03], [-122.8, 37.96],
+  [-122.7, 37.9], [-122.62, 37.88], [-122.58, 37.86], [-122.53, 37.82], [-122.48, 37.825],
+  [-122.51, 37.79], [-122.51, 37.77], [-122.5, 37.72], [-122.5, 37.67], [-122.5, 37.6],
+  [-122.5, 37.5], [-122.45, 37.46], [-122.41, 37.33], [-122.4, 37.25], [-122.33, 37.11],
+  [-122.25, 37.05], [-122.1, 36.96], [-122.03, 36.955], [-121.95, 36.965], [-121.88, 36.95],
+  [-121.82, 36.88], [-121.79, 36.8], [-121.8, 36.6], [-123.6, 36.6], [-123.6, 38.9], [-123.45, 38.9],
+];
+
+// San Francisco and San Pablo bays, from the Golden Gate around clockwise
+const BAY: Ring = [
+  [-122.52, 37.81], [-122.477, 37.808], [-122.45, 37.806], [-122.42, 37.808], [-122.4, 37.806],
+  [-122.388, 37.79], [-122.387, 37.775], [-122.385, 37.755], [-122.375, 37.74], [-122.36, 37.725],
+  [-122.38, 37.708], [-122.39, 37.68], [-122.38, 37.64], [-122.37, 37.615], [-122.33, 37.59],
+  [-122.29, 37.57], [-122.25, 37.54], [-122.2, 37.5], [-122.13, 37.47], [-122.08, 37.45],
+  [-122.02, 37.43], [-121.98, 37.435], [-122.0, 37.47], [-122.07, 37.51], [-122.12, 37.56],
+  [-122.15, 37.62], [-122.18, 37.67], [-122.21, 37.7], [-122.24, 37.72], [-122.27, 37.75],
+  [-122.3, 37.765], [-122.33, 37.79], [-122.31, 37.81], [-122.3, 37.83], [-122.31, 37.86],
+  [-122.31, 37.88], [-122.32, 37.9], [-122.35, 37.91], [-122.38, 37.905], [-122.4, 37.92],
+  [-122.42, 37.95], [-122.43, 37.97], [-122.4, 38.0], [-122.33, 38.01], [-122.27, 38.03],
+  [-122.23, 38.055], [-122.27, 38.08], [-122.3, 38.11], [-122.4, 38.13], [-122.48, 38.1],
+  [-122.5, 38.05], [-122.49, 38.0], [-122.46, 37.96], [-122.44, 37.92], [-122.47, 37.89],
+  [-122.5, 37.88], [-122.48, 37.86], [-122.47, 37.835], [-122.48, 37.826],
+];
+
+// Carquinez Strait into Suisun Bay
+const STRAIT: Ring = [
+  [-122.23, 38.06], [-122.12, 38.045], [-122.02, 38.05], [-121.92, 38.075], [-121.85, 38.07],
+  [-121.85, 38.05], [-121.95, 38.05], [-122.05, 38.035], [-122.14, 38.03], [-122.23, 38.045],
+];
+
+export const WATER: Ring[] = [PACIFIC, BAY, STRAIT];
+
+const LABELLED_CITIES = [
+  "San Francisco", "Oakland", "Berkeley", "San Jose", "Palo Alto", "San Mateo", "Walnut Creek",
+  "San Rafael", "Petaluma", "Santa Rosa", "Napa", "Vallejo", "Half Moon Bay", "Santa Cruz", "Fremont",
+];
+
+export const CITY_LABELS: { name: string; point: GeoPoint }[] = LABELLED_CITIES.flatMap((name) => {
+  const locality = Gazetteer.lookup(name);
+  return locality ? [{ name, point: locality.center }] : [];
+});
+
+export const WATER_LABELS: { name: string; point: GeoPoint }[] = [
+  { name: "Pacific Ocean", point: { lat: 37.45, lng: -122.85 } },
+  { name: "San Pablo Bay", point: { lat: 38.06, lng: -122.38 } },
+];
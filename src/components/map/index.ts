@@ -0,0 +1,6 @@
+/**
+ * Map components exports
+ */
+
+export { VenueMap } from "./VenueMap";
+export type { VenuePin } from "./VenueMap";
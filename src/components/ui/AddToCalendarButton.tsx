@@ -0,0 +1,60 @@
+/**
+ * Button that downloads events as an .ics file for phone and desktop calendars
+ */
+
+import React, { useState } from "react";
+import { useAppStore } from "@/stores/appStore";
+import type { Event } from "@/types/events";
+import { downloadIcs } from "@/utils/calendarExport";
+
+interface AddToCalendarButtonProps {
+  events: Event[] | (() => Promise<Event[]>); // a loader fetches the events on click
+  filename: string;
+  calendarName: string; // shown by calendar apps that import it as a new calendar
+  label?: string;
+  className?: string;
+}
+
+export const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({
+  events,
+  filename,
+  calendarName,
+  label = "Add to calendar",
+  className = "",
+}) => {
+  const artists = useAppStore((state) => state.artists);
+  const venues = useAppStore((state) => state.venues);
+  const [exporting, setExporting] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (Array.isArray(events)) {
+      downloadIcs(filename, events, { name: calendarName, artists, venues });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      downloadIcs(filename, await events(), { name: calendarName, artists, venues });
+    } catch (error) {
+      console.error("Calendar export failed:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={exporting || (Array.isArray(events) && events.length === 0)}
+      className={`inline-flex items-center gap-1 text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline disabled:opacity-40 disabled:no-underline ${className}`}
+    >
+      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+      {label}
+    </button>
+  );
+};
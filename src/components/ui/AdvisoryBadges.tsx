@@ -0,0 +1,52 @@
+import React from "react";
+import type { AdvisoryFlag, EventAdvisory } from "@/types/events";
+import { ADVISORY_LABELS } from "@/stores/filterStore";
+
+// Same symbols The List uses in its legend
+const ADVISORY_SYMBOLS: Record<AdvisoryFlag, string> = {
+  likelySellout: "$",
+  moshPit: "@",
+  under21Surcharge: "^",
+  noInsOuts: "#",
+};
+
+const ADVISORY_ORDER: AdvisoryFlag[] = ["likelySellout", "moshPit", "under21Surcharge", "noInsOuts"];
+
+interface AdvisoryBadgesProps {
+  advisories?: EventAdvisory;
+  showLabels?: boolean; // symbol only by default, with the label as tooltip
+  className?: string;
+}
+
+const AdvisoryBadges: React.FC<AdvisoryBadgesProps> = ({ advisories, showLabels = false, className = "" }) => {
+  if (!advisories) return null;
+
+  const flags = ADVISORY_ORDER.filter((flag) => advisories[flag]);
+  const stars = advisories.starRating ?? 0;
+  if (flags.length === 0 && stars === 0) return null;
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-1 ${className}`}>
+      {stars > 0 && (
+        <span
+          className="font-mono text-xs px-1.5 py-0.5 rounded border border-dashed border-yellow-400 text-yellow-700 dark:text-yellow-300"
+          title={`${stars} star${stars === 1 ? "" : "s"}`}
+        >
+          {"*".repeat(stars)}
+        </span>
+      )}
+      {flags.map((flag) => (
+        <span
+          key={flag}
+          className="font-mono text-xs px-1.5 py-0.5 rounded border border-dashed border-gray-400 dark:border-gray-500 text-gray-700 dark:text-gray-300"
+          title={ADVISORY_LABELS[flag]}
+        >
+          {ADVISORY_SYMBOLS[flag]}
+          {showLabels && <span className="ml-1 font-sans">{ADVISORY_LABELS[flag]}</span>}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default AdvisoryBadges;
@@ -0,0 +1,68 @@
+/**
+ * Advisory filter for The List's legend symbols ($ @ ^ #)
+ * Selected flags narrow the list to shows carrying every one of them
+ */
+
+import React from "react";
+import { useFilterStore, ADVISORY_LABELS } from "@/stores/filterStore";
+import type { AdvisoryFlag } from "@/types/events";
+
+interface AdvisoryFilterProps {
+  className?: string;
+}
+
+const ADVISORY_OPTIONS: Array<{ flag: AdvisoryFlag; symbol: string }> = [
+  { flag: "likelySellout", symbol: "$" },
+  { flag: "moshPit", symbol: "@" },
+  { flag: "under21Surcharge", symbol: "^" },
+  { flag: "noInsOuts", symbol: "#" },
+];
+
+export const AdvisoryFilter: React.FC<AdvisoryFilterProps> = ({ className = "" }) => {
+  const filters = useFilterStore(state => state.filters);
+  const updateFilter = useFilterStore(state => state.updateFilter);
+  const clearFilter = useFilterStore(state => state.clearFilter);
+
+  const selected = filters.advisories || [];
+
+  const toggleAdvisory = (flag: AdvisoryFlag) => {
+    if (selected.includes(flag)) {
+      const updated = selected.filter((f) => f !== flag);
+      if (updated.length === 0) {
+        clearFilter("advisories");
+      } else {
+        updateFilter("advisories", updated);
+      }
+    } else {
+      updateFilter("advisories", [...selected, flag]);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap gap-2 items-center ${className}`}>
+      {ADVISORY_OPTIONS.map(({ flag, symbol }) => {
+        const isSelected = selected.includes(flag);
+        return (
+          <button
+            key={flag}
+            onClick={() => toggleAdvisory(flag)}
+            className={`
+              px-3 py-2 rounded-md font-mono text-sm font-bold
+              border border-dashed transition-all duration-200
+              ${
+                isSelected
+                  ? "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-300 dark:border-red-600"
+                  : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              }
+            `}
+            title={ADVISORY_LABELS[flag]}
+            aria-pressed={isSelected}
+          >
+            <span>{symbol}</span>
+            <span className="hidden sm:inline ml-1 text-xs font-normal">{ADVISORY_LABELS[flag]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+/**
+ * Toggle for showing only shows that end before the last BART train
+ */
+
+import React from "react";
+import { useFilterStore } from "@/stores/filterStore";
+
+interface BartToggleProps {
+  className?: string;
+}
+
+export const BartToggle: React.FC<BartToggleProps> = ({ className = "" }) => {
+  const filters = useFilterStore(state => state.filters);
+  const updateFilter = useFilterStore(state => state.updateFilter);
+  const clearFilter = useFilterStore(state => state.clearFilter);
+
+  const isBartOnly = filters.endsBeforeBart === true;
+
+  const toggleBart = () => {
+    if (isBartOnly) {
+      clearFilter('endsBeforeBart');
+    } else {
+      updateFilter('endsBeforeBart', true);
+    }
+  };
+
+  return (
+    <div className={`flex items-center space-x-2 ${className}`}>
+      <span
+        className="text-sm text-gray-600 dark:text-gray-300"
+        title="Shows with a listed end time or venue curfew before the last BART train"
+      >
+        {isBartOnly ? "Done by BART" : "Any end"}
+      </span>
+      <button
+        onClick={toggleBart}
+        className="relative inline-flex h-5 w-9 items-center rounded-full border-2 border-gray-300 dark:border-gray-500 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800"
+        aria-label={isBartOnly ? "Show all end times" : "Show only shows done before BART closes"}
+        role="switch"
+        aria-checked={isBartOnly}
+      >
+        <span
+          className={`
+            inline-block h-4 w-4 transform rounded-full shadow-lg border-2
+            transition-all duration-200 ease-in-out
+            ${isBartOnly
+              ? "translate-x-4 bg-blue-600 border-blue-600 dark:bg-blue-400 dark:border-blue-400"
+              : "translate-x-0 bg-white border-gray-300 dark:border-gray-500"
+            }
+          `}
+        />
+      </button>
+    </div>
+  );
+};
@@ -5,6 +5,13 @@
 
 import React, { useMemo } from "react";
 import { useFilterStore } from "@/stores/filterStore";
+import { Gazetteer } from "@/lib/etl/gazetteer";
+
+// Major Bay Area cities get their own button; every other gazetteer locality is "Other"
+const MAIN_CITIES = ["San Francisco", "Oakland", "Berkeley", "Santa Cruz"];
+const OTHER_CITIES = Gazetteer.all()
+  .map((locality) => locality.name)
+  .filter((name) => !MAIN_CITIES.includes(name));
 
 interface CityPaginationProps {
   className?: string;
@@ -15,16 +22,15 @@ export const CityPagination: React.FC<CityPaginationProps> = ({
 }) => {
   const { filters, updateFilter, clearFilter } = useFilterStore();
 
-  // Define city categories
-  const otherCities = ["Albany", "Napa", "Novato", "140", "2045"]; // Other cities from the data
+  const otherCities = OTHER_CITIES;
 
   // Major Bay Area cities as requested
   const cities = useMemo(
     () => [
-      { name: "San Francisco", normalizedName: "S.f", slug: "sf", shortName: "SF" },
+      { name: "San Francisco", normalizedName: "San Francisco", slug: "sf", shortName: "SF" },
       { name: "Oakland", normalizedName: "Oakland", slug: "oakland", shortName: "OAK" },
       { name: "Berkeley", normalizedName: "Berkeley", slug: "berkeley", shortName: "BRK" },
-      { name: "Santa Cruz", normalizedName: "Santa", slug: "santa-cruz", shortName: "SCZ" },
+      { name: "Santa Cruz", normalizedName: "Santa Cruz", slug: "santa-cruz", shortName: "SCZ" },
       { name: "Other", normalizedName: "Other", slug: "other", shortName: "OTHER" },
     ],
     []
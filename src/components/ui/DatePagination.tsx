@@ -5,6 +5,7 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useFilterStore } from "@/stores/filterStore";
+import { parseDateKey, toDateKey } from "@/utils/calendar";
 
 // Checkpoint offsets in days from today
 const CHECKPOINTS = [0, 1, 7, 30, 90, 365];
@@ -16,15 +17,6 @@ function addDays(base: Date, n: number): Date {
   return d;
 }
 
-function toISO(d: Date): string {
-  return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}-${String(d.getDate()).padStart(2,"0")}`;
-}
-
-function parseLocalDate(iso: string): Date {
-  const [y, m, day] = iso.split("-").map(Number);
-  return new Date(y, m - 1, day);
-}
-
 function clamp(v: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, v));
 }
@@ -41,21 +33,21 @@ export const DatePagination: React.FC<DatePaginationProps> = ({ className = "" }
   // Derive current start/end offsets from filter store
   const startOffset = useMemo(() => {
     if (!filters.dateRange?.startDate) return 0;
-    const diff = Math.round((parseLocalDate(filters.dateRange.startDate).getTime() - today.getTime()) / 86400000);
+    const diff = Math.floor((parseDateKey(filters.dateRange.startDate).getTime() - today.getTime()) / 86400000);
     return clamp(diff, 0, maxOffset);
   }, [filters.dateRange?.startDate, today, maxOffset]);
 
   const endOffset = useMemo(() => {
     // No endDate means "All" is selected (filter was cleared)
     if (!filters.dateRange?.endDate) return maxOffset;
-    const diff = Math.round((parseLocalDate(filters.dateRange.endDate).getTime() - today.getTime()) / 86400000);
+    const diff = Math.floor((parseDateKey(filters.dateRange.endDate).getTime() - today.getTime()) / 86400000);
     return clamp(diff, 0, maxOffset);
   }, [filters.dateRange?.endDate, today, maxOffset]);
 
   // Initialize to this week if no date filter set
   useEffect(() => {
     if (!filters.dateRange?.startDate && !filters.dateRange?.endDate && !filters.dates?.length) {
-      updateFilter("dateRange", { startDate: toISO(today), endDate: toISO(addDays(today, 7)) });
+      updateFilter("dateRange", { startDate: toDateKey(today), endDate: toDateKey(addDays(today, 7)) });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -110,8 +102,8 @@ export const DatePagination: React.FC<DatePaginationProps> = ({ className = "" }
       clearFilter("dateRange");
     } else {
       updateFilter("dateRange", {
-        startDate: toISO(addDays(today, start)),
-        endDate: toISO(addDays(today, end)),
+        startDate: toDateKey(addDays(today, start)),
+        endDate: toDateKey(addDays(today, end)),
       });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -150,8 +142,8 @@ export const DatePagination: React.FC<DatePaginationProps> = ({ className = "" }
   const startPct = offsetToPercent(startOffset);
   const endPct = offsetToPercent(endOffset);
 
-  const startLabel = startOffset === 0 ? "Today" : toISO(addDays(today, startOffset)).slice(5).replace("-", "/");
-  const endLabel = toISO(addDays(today, endOffset)).slice(5).replace("-", "/");
+  const startLabel = startOffset === 0 ? "Today" : toDateKey(addDays(today, startOffset)).slice(5).replace("-", "/");
+  const endLabel = toDateKey(addDays(today, endOffset)).slice(5).replace("-", "/");
 
   return (
     <div className={`select-none ${className}`}>
@@ -0,0 +1,125 @@
+/**
+ * Distance filter - shows within a radius of a BART station or the browser's location
+ * Venues that are only placed at their city's center are left out while it's on
+ */
+
+import React, { useMemo, useState } from "react";
+import { useFilterStore } from "@/stores/filterStore";
+import { DISTANCE_RADII_MILES } from "@/utils/distance";
+import { BART_STATIONS, HERE_ANCHOR_ID, getTransitAnchor } from "@/utils/transit";
+
+interface DistanceFilterProps {
+  className?: string;
+}
+
+const DEFAULT_RADIUS_MILES = 1;
+
+export const DistanceFilter: React.FC<DistanceFilterProps> = ({ className = "" }) => {
+  const distance = useFilterStore(state => state.filters.distance);
+  const updateFilter = useFilterStore(state => state.updateFilter);
+  const clearFilter = useFilterStore(state => state.clearFilter);
+
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stations = useMemo(
+    () => [...BART_STATIONS].sort((a, b) => a.label.localeCompare(b.label)),
+    []
+  );
+
+  const radiusMiles = distance?.radiusMiles ?? DEFAULT_RADIUS_MILES;
+  const canLocate = typeof navigator !== "undefined" && "geolocation" in navigator;
+
+  const locate = () => {
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        updateFilter("distance", {
+          anchor: {
+            id: HERE_ANCHOR_ID,
+            label: "My location",
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          },
+          radiusMiles,
+        });
+      },
+      (positionError) => {
+        setLocating(false);
+        setError(
+          positionError.code === positionError.PERMISSION_DENIED
+            ? "Location access was denied"
+            : "Couldn't find your location"
+        );
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handleAnchorChange = (id: string) => {
+    setError(null);
+    if (id === "") {
+      clearFilter("distance");
+    } else if (id === HERE_ANCHOR_ID) {
+      locate();
+    } else {
+      const anchor = getTransitAnchor(id);
+      if (anchor) updateFilter("distance", { anchor, radiusMiles });
+    }
+  };
+
+  const handleRadiusChange = (miles: number) => {
+    if (distance) updateFilter("distance", { ...distance, radiusMiles: miles });
+  };
+
+  const selectClass =
+    "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <label htmlFor="distance-radius" className="text-sm text-gray-600 dark:text-gray-300">
+        Within
+      </label>
+      <select
+        id="distance-radius"
+        value={radiusMiles}
+        onChange={(e) => handleRadiusChange(Number(e.target.value))}
+        disabled={!distance}
+        className={`${selectClass} disabled:opacity-50`}
+      >
+        {DISTANCE_RADII_MILES.map((miles) => (
+          <option key={miles} value={miles}>
+            {miles} mi
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-gray-600 dark:text-gray-300">of</span>
+      <select
+        aria-label="Distance from"
+        value={distance?.anchor.id ?? ""}
+        onChange={(e) => handleAnchorChange(e.target.value)}
+        disabled={locating}
+        className={selectClass}
+      >
+        <option value="">Anywhere</option>
+        {canLocate && (
+          <option value={HERE_ANCHOR_ID}>{locating ? "Locating…" : "My location"}</option>
+        )}
+        <optgroup label="BART">
+          {stations.map((station) => (
+            <option key={station.id} value={station.id}>
+              {station.label}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
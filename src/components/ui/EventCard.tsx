@@ -7,23 +7,11 @@ import React from "react";
 import { useAppStore } from "@/stores/appStore.ts";
 import type { Event, Artist, ArtistId } from "@/types/events";
 import PriceWidget from "@/components/ui/PriceWidget.js";
-
-// City display name mapping
-const getCityDisplayName = (cityName: string): string => {
-  const cityMappings: Record<string, string> = {
-    Santa: "Santa Cruz",
-    "S.f": "San Francisco",
-    Uc: "Berkeley", // UC Berkeley area
-    San: "San Jose", // Partial city names
-    "140": "San Francisco", // Venue address codes
-    "2045": "San Francisco",
-    "23": "Petaluma",
-    "27826": "Unknown",
-    Mountain: "Mountain View",
-  };
-
-  return cityMappings[cityName] || cityName;
-};
+import AdvisoryBadges from "@/components/ui/AdvisoryBadges.js";
+import LineupChips from "@/components/ui/LineupChips.js";
+import EventStatusBadge from "@/components/ui/EventStatusBadge.js";
+import { AddToCalendarButton } from "@/components/ui/AddToCalendarButton.js";
+import { calledOffClass } from "@/utils/eventStatus.js";
 
 interface EventCardProps {
   event: Event;
@@ -190,11 +178,13 @@ const EventCard: React.FC<EventCardProps> = ({
           <h2
             className={`font-bold text-gray-900 mb-3 tracking-tight ${
               viewMode === "narrow" ? "text-lg" : "text-2xl"
-            }`}
+            } ${calledOffClass(event)}`}
             style={{ textShadow: "1px 1px 0px rgba(0,0,0,0.1)" }}
           >
             {headlinerArtist?.name || `Event ${event.id}`}
           </h2>
+          <EventStatusBadge event={event} className="-mt-2 mb-3" />
+          <LineupChips event={event} showNames={viewMode !== "narrow"} className="-mt-1 mb-3" />
 
           {/* Date/Time Info (Wide View Only) */}
           {viewMode !== "narrow" && (
@@ -240,10 +230,25 @@ const EventCard: React.FC<EventCardProps> = ({
                 isFree={event.isFree}
                 priceMin={event.priceMin}
                 priceMax={event.priceMax}
+                price={event.price}
                 className={viewMode === "narrow" ? "text-sm" : "text-lg"}
               />
             </div>
           )}
+
+          <AddToCalendarButton
+            events={[event]}
+            filename={event.slug}
+            calendarName={headlinerArtist?.name ?? "Show"}
+            className="mt-3"
+          />
+
+          {/* Legend advisories */}
+          <AdvisoryBadges
+            advisories={event.advisories}
+            showLabels={viewMode !== "narrow"}
+            className="mt-3"
+          />
         </div>
 
         {/* Ticket Footer - Venue Info */}
@@ -257,7 +262,7 @@ const EventCard: React.FC<EventCardProps> = ({
           <div className="text-center">
             <span className="font-mono font-bold">
               {venue
-                ? `${venue.name.toUpperCase()} • ${getCityDisplayName(venue.city).toUpperCase()}`
+                ? `${venue.name.toUpperCase()} • ${venue.city.toUpperCase()}`
                 : "VENUE TBA"}
             </span>
           </div>
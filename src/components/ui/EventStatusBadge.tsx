@@ -0,0 +1,33 @@
+import React from "react";
+import type { Event } from "@/types/events.js";
+import { EVENT_STATUS_LABELS, isCalledOff } from "@/utils/eventStatus.js";
+
+interface EventStatusBadgeProps {
+  event: Pick<Event, "status" | "statusNote" | "rescheduledTo">;
+  className?: string;
+}
+
+const badgeColors: Record<string, string> = {
+  cancelled: "text-red-600 dark:text-red-400",
+  postponed: "text-yellow-600 dark:text-yellow-400",
+  rescheduled: "text-blue-600 dark:text-blue-400",
+};
+
+const EventStatusBadge: React.FC<EventStatusBadgeProps> = ({ event, className = "" }) => {
+  if (!isCalledOff(event)) return null;
+
+  const title = event.rescheduledTo
+    ? `Moved to ${new Date(event.rescheduledTo.date + "T00:00:00Z").toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}`
+    : event.statusNote ?? EVENT_STATUS_LABELS[event.status];
+
+  return (
+    <span
+      className={`inline-flex items-center text-[10px] font-semibold uppercase tracking-wide shrink-0 ${badgeColors[event.status] ?? ""} ${className}`}
+      title={title}
+    >
+      {EVENT_STATUS_LABELS[event.status]}
+    </span>
+  );
+};
+
+export default EventStatusBadge;
@@ -0,0 +1,43 @@
+import React from "react";
+import type { Event } from "@/types/events.js";
+import { LINEUP_ANNOTATION_LABELS, annotatedEntries } from "@/utils/lineup.js";
+
+interface LineupChipsProps {
+  event: Pick<Event, "lineup">;
+  showNames?: boolean; // prefix support acts' chips with the act's name
+  className?: string;
+}
+
+const chipColors: Record<string, string> = {
+  "record-release": "border-emerald-500 text-emerald-700 dark:text-emerald-300",
+  debut: "border-sky-500 text-sky-700 dark:text-sky-300",
+  farewell: "border-rose-500 text-rose-700 dark:text-rose-300",
+  "tribute-to": "border-purple-500 text-purple-700 dark:text-purple-300",
+  reunion: "border-amber-500 text-amber-700 dark:text-amber-300",
+  "solo-set": "border-gray-400 text-gray-700 dark:text-gray-300",
+  featuring: "border-gray-400 text-gray-700 dark:text-gray-300",
+};
+
+const LineupChips: React.FC<LineupChipsProps> = ({ event, showNames = true, className = "" }) => {
+  const entries = annotatedEntries(event);
+  if (entries.length === 0) return null;
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-1 ${className}`}>
+      {entries.flatMap((entry) =>
+        entry.annotations.map((annotation, i) => (
+          <span
+            key={`${entry.order}-${i}`}
+            className={`font-mono text-xs px-1.5 py-0.5 rounded border border-dashed ${chipColors[annotation.type] ?? ""}`}
+            title={`${entry.name} — ${LINEUP_ANNOTATION_LABELS[annotation.type]}`}
+          >
+            {showNames && entry.role !== "headliner" && <span className="font-bold">{entry.name}: </span>}
+            {annotation.text}
+          </span>
+        ))
+      )}
+    </span>
+  );
+};
+
+export default LineupChips;
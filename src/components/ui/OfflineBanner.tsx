@@ -0,0 +1,35 @@
+/**
+ * Banner shown while the app runs on cached data with no connection
+ */
+
+import React from "react";
+import { useConnectivity } from "@/hooks/useConnectivity";
+import { hasError } from "@/utils/loadingState";
+
+interface OfflineBannerProps {
+  className?: string;
+}
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ className = "" }) => {
+  const connectivity = useConnectivity();
+  if (!connectivity || !hasError(connectivity)) return null;
+
+  const asOf = connectivity.data
+    ? new Date(connectivity.data).toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : "the last visit";
+
+  return (
+    <div
+      role="status"
+      className={`px-4 py-2 text-sm text-center bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200 border-b border-amber-200 dark:border-amber-800 ${className}`}
+    >
+      Offline, data as of {asOf}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 import React from "react";
+import { PriceUtils } from "@/lib/etl/utils.js";
+import type { PriceInfo } from "@/types/events.js";
 
 interface PriceWidgetProps {
   isFree?: boolean;
   isSoldOut?: boolean;
   priceMin?: number | null;
   priceMax?: number | null;
+  price?: PriceInfo; // preferred; priceMin/priceMax are used when absent
   className?: string;
 }
 
@@ -21,6 +24,7 @@ const PriceWidget: React.FC<PriceWidgetProps> = ({
   isSoldOut,
   priceMin,
   priceMax,
+  price,
   className = "",
 }) => {
   if (isSoldOut) {
@@ -34,9 +38,14 @@ const PriceWidget: React.FC<PriceWidgetProps> = ({
     );
   }
 
-  const hasPrice = priceMin != null || priceMax != null;
-  const price = priceMin ?? priceMax ?? 0;
-  const tier = isFree ? 0 : hasPrice && price === 0 ? 0 : hasPrice ? priceTier(price) : null;
+  const info = PriceUtils.fromEvent({
+    price,
+    priceMin: priceMin ?? priceMax ?? undefined,
+    priceMax: priceMax ?? priceMin ?? undefined,
+    isFree: !!isFree,
+  });
+  const entry = PriceUtils.entryPrice(info);
+  const tier = entry === undefined ? null : entry === 0 ? 0 : priceTier(entry);
   const maxSigns = 4;
 
   if (tier === null) return null;
@@ -55,7 +64,7 @@ const PriceWidget: React.FC<PriceWidgetProps> = ({
   return (
     <span
       className={`inline-flex items-center font-semibold tabular-nums ${className}`}
-      title={priceMin != null ? `$${Math.ceil(priceMin)}${priceMax && priceMax !== priceMin ? `–$${Math.ceil(priceMax)}` : ""}` : ""}
+      title={PriceUtils.describe(info)}
     >
       {Array.from({ length: maxSigns }).map((_, i) => (
         <span
@@ -69,6 +78,11 @@ const PriceWidget: React.FC<PriceWidgetProps> = ({
           $
         </span>
       ))}
+      {(info.isOpenEnded || info.isSlidingScale || info.isDonation) && (
+        <span className="text-gray-400 dark:text-gray-500" aria-hidden="true">
+          +
+        </span>
+      )}
     </span>
   );
 };
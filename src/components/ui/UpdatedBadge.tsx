@@ -0,0 +1,21 @@
+import React from "react";
+
+interface UpdatedBadgeProps {
+  changedAtEpochMs?: number;
+  latestIngestionDate: string; // YYYY-MM-DD
+  className?: string;
+}
+
+const UpdatedBadge: React.FC<UpdatedBadgeProps> = ({ changedAtEpochMs, latestIngestionDate, className = "" }) => {
+  if (!changedAtEpochMs) return null;
+  const changedDay = new Date(changedAtEpochMs).toISOString().split("T")[0];
+  if (changedDay !== latestIngestionDate) return null;
+
+  return (
+    <span className={`text-amber-500 dark:text-amber-400 shrink-0 leading-none inline-flex items-center ${className}`} title="Updated in the latest list">
+      ↻
+    </span>
+  );
+};
+
+export default UpdatedBadge;
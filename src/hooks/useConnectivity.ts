@@ -0,0 +1,41 @@
+/**
+ * Whether the app is showing live data, as an AsyncState of the dataset version
+ * Offline (an error state) when the browser reports no connection or the
+ * service worker had to answer a data request from its cache
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useAppStore } from "@/stores/appStore.js";
+import { createErrorState, createSuccessState } from "@/utils/loadingState.js";
+import { isConnectivityMessage } from "@/utils/serviceWorker.js";
+import type { AsyncState } from "@/types/frontend.js";
+
+export const OFFLINE_ERROR = "offline";
+
+export const useConnectivity = (): AsyncState<string> | null => {
+  const manifest = useAppStore((state) => state.manifest);
+  const [online, setOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
+
+  useEffect(() => {
+    const goOnline = () => setOnline(true);
+    const goOffline = () => setOnline(false);
+    const handleMessage = (e: MessageEvent) => {
+      if (isConnectivityMessage(e.data)) setOnline(e.data.online);
+    };
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, []);
+
+  return useMemo(() => {
+    if (!manifest) return null;
+    if (online) return { ...createSuccessState(manifest.datasetVersion), lastUpdated: manifest.lastUpdated };
+    return createErrorState(OFFLINE_ERROR, manifest.datasetVersion);
+  }, [manifest, online]);
+};
@@ -0,0 +1,19 @@
+/**
+ * Share a page's filtered events with the filter panel, which exports them
+ */
+
+import { useEffect } from "react";
+import { useFilterModal } from "@/components/filters/FilterModalContext";
+import type { Event } from "@/types/events.js";
+
+export const useFilterResults = (
+  events: Event[] | (() => Promise<Event[]>),
+  total = Array.isArray(events) ? events.length : 0
+): void => {
+  const { setResults } = useFilterModal();
+
+  useEffect(() => {
+    setResults({ events, total });
+    return () => setResults(null);
+  }, [events, total, setResults]);
+};
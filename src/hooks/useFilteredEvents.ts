@@ -0,0 +1,77 @@
+/**
+ * Loaded events narrowed by the active filter store filters and search query
+ * Shared by the list and calendar pages so they agree on what a filter means.
+ * Matching runs in the data worker against its resident copy of the loaded
+ * events; only the query goes over and a page of IDs comes back.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAppStore } from "@/stores/appStore.js";
+import { useFilterStore } from "@/stores/filterStore.js";
+import type { Event, SearchQuery } from "@/types/events.js";
+import type { EventQueryResult } from "@/types/frontend.js";
+
+export type EventQueryOptions = Pick<SearchQuery, "fromDate" | "sortBy" | "sortOrder" | "offset" | "limit">;
+
+export interface FilteredEvents {
+  events: Event[]; // the requested page
+  total: number; // matches across all pages
+  pending: boolean; // a newer query is still running; events are the last results
+  error: Error | null; // the last query failed; events are from the one before it
+  loadAll: () => Promise<Event[]>; // every match, not just this page, for exports
+}
+
+export const useEventQuery = ({ fromDate, sortBy, sortOrder, offset, limit }: EventQueryOptions = {}): FilteredEvents => {
+  const events = useAppStore((state) => state.events); // requery as chunks load
+  const artists = useAppStore((state) => state.artists);
+  const venues = useAppStore((state) => state.venues);
+  const queryEvents = useAppStore((state) => state.queryEvents);
+  const filters = useFilterStore((state) => state.filters);
+  const searchQuery = useFilterStore((state) => state.searchQuery);
+
+  const [result, setResult] = useState<EventQueryResult | null>(null);
+  const [pending, setPending] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // A filter change cancels the query it replaces
+  useEffect(() => {
+    const controller = new AbortController();
+    setPending(true);
+    queryEvents({ filters, query: searchQuery, fromDate, sortBy, sortOrder, offset, limit }, controller.signal)
+      .then((next) => {
+        if (controller.signal.aborted) return;
+        setResult(next);
+        setError(null);
+        setPending(false);
+      })
+      .catch((reason) => {
+        if (controller.signal.aborted) return;
+        console.error("Event query failed:", reason);
+        setError(reason instanceof Error ? reason : new Error(String(reason)));
+        setPending(false);
+      });
+    return () => controller.abort();
+  }, [events, artists, venues, queryEvents, filters, searchQuery, fromDate, sortBy, sortOrder, offset, limit]);
+
+  const loadAll = useCallback(async () => {
+    const { ids } = await queryEvents({ filters, query: searchQuery, fromDate, sortBy, sortOrder });
+    const loaded = useAppStore.getState().events;
+    return ids.flatMap((id) => {
+      const event = loaded.get(id);
+      return event ? [event] : [];
+    });
+  }, [queryEvents, filters, searchQuery, fromDate, sortBy, sortOrder]);
+
+  return useMemo(() => ({
+    events: (result?.ids ?? []).flatMap((id) => {
+      const event = events.get(id);
+      return event ? [event] : [];
+    }),
+    total: result?.total ?? 0,
+    pending,
+    error,
+    loadAll,
+  }), [result, events, pending, error, loadAll]);
+};
+
+export const useFilteredEvents = (): Event[] => useEventQuery().events;
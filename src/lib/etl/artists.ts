@@ -0,0 +1,200 @@
+/**
+ * Artist identity resolution
+ * Folds spellings of the same act ("2Morrows June", "2morrows June",
+ * "Jim Gaffigan (comedian)") onto one artist, names it from the curated
+ * registry (data/artist-registry.json) or its most-listed spelling, and
+ * proposes merges of names that are only similar for review
+ */
+
+import type { Artist } from "@/types/events.js";
+import { DeduplicationUtils, StringNormalizer } from "./utils.js";
+
+export interface ArtistRegistryEntry {
+  name: string; // canonical spelling
+  aliases?: string[]; // other spellings the list uses
+  distinct?: string[]; // similar names that are other acts, never proposed as merges
+}
+
+export interface ArtistMergeProposal {
+  name: string; // the most-listed artist in the cluster
+  variants: string[];
+  similarity: number; // lowest score linking the cluster
+  events: number; // listings across the cluster
+}
+
+// Keys shorter than this are too short to compare ("Crap" vs "Cap")
+const MIN_KEY_LENGTH = 5;
+
+export class ArtistResolver {
+  private readonly canonical = new Map<string, string>(); // key -> registry name
+  private readonly pinned = new Map<string, string>(); // alias key -> registry name
+  private readonly registryAliases = new Map<string, string[]>();
+  private readonly distinct = new Set<string>(); // "key|key", sorted
+  private readonly spellings = new Map<string, Map<string, number>>(); // key -> spelling -> listings
+
+  constructor(registry: ArtistRegistryEntry[] = []) {
+    for (const entry of registry) {
+      const key = ArtistResolver.foldKey(entry.name);
+      this.canonical.set(key, entry.name);
+      this.registryAliases.set(key, entry.aliases ?? []);
+      for (const alias of entry.aliases ?? []) {
+        this.pinned.set(ArtistResolver.foldKey(alias), entry.name);
+      }
+      for (const other of entry.distinct ?? []) {
+        this.distinct.add(ArtistResolver.pairKey(key, ArtistResolver.foldKey(other)));
+      }
+    }
+  }
+
+  /**
+   * Identity key: lowercase, without notes, accents, punctuation, spaces or
+   * a leading "the", "a", "an" or "dj", with "&" read as "and". normalizeName
+   * drops the others; "an" is stripped here
+   */
+  static foldKey(name: string): string {
+    return StringNormalizer.normalizeName(this.stripNotes(name))
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/\s*[&+]\s*/g, " and ")
+      .replace(/^an\s+/, "")
+      .replace(/[^a-z0-9]/g, "");
+  }
+
+  /**
+   * The name without parenthetical notes ("(tribute)", "(8:30pm)"), including
+   * one the list left unclosed
+   */
+  static stripNotes(name: string): string {
+    const stripped = name
+      .replace(/\s*\([^)]*(?:\)|$)/g, "")
+      .replace(/[()]/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    return stripped || name.trim();
+  }
+
+  /**
+   * The key and starting name for a name from a lineup; records the spelling
+   */
+  resolve(name: string): { key: string; name: string } {
+    const spelling = ArtistResolver.stripNotes(name);
+    const registered = this.pinned.get(ArtistResolver.foldKey(spelling));
+    const key = ArtistResolver.foldKey(registered ?? spelling);
+
+    let counts = this.spellings.get(key);
+    if (!counts) {
+      counts = new Map();
+      this.spellings.set(key, counts);
+    }
+    counts.set(spelling, (counts.get(spelling) ?? 0) + 1);
+
+    return { key, name: this.canonical.get(key) ?? spelling };
+  }
+
+  /**
+   * Name each artist from the registry or its most-listed spelling (the first
+   * listed on a tie) and fill its aliases with the other spellings
+   */
+  finalize(artistMap: Map<string, Artist>): void {
+    for (const [key, artist] of artistMap) {
+      const counts = this.spellings.get(key);
+      if (!counts) continue;
+
+      let name = this.canonical.get(key);
+      if (!name) {
+        let best = 0;
+        for (const [spelling, count] of counts) {
+          if (count > best) {
+            name = spelling;
+            best = count;
+          }
+        }
+      }
+      if (!name) continue;
+
+      artist.name = name;
+      artist.slug = StringNormalizer.createSlug(name);
+      artist.normalizedName = StringNormalizer.normalizeName(name);
+      artist.aliases = [...new Set([...counts.keys(), ...(this.registryAliases.get(key) ?? [])])]
+        .filter((alias) => alias !== name)
+        .sort((a, b) => a.localeCompare(b));
+    }
+  }
+
+  /**
+   * Clusters of artists whose keys are similar but not equal, for review.
+   * Names are compared within the same first letter, and pairs the registry
+   * has already settled (both pinned, or listed as distinct) are skipped
+   */
+  proposeMerges(artists: Artist[], threshold = 0.85): ArtistMergeProposal[] {
+    const keyed = artists
+      .map((artist) => ({ artist, key: ArtistResolver.foldKey(artist.name) }))
+      .filter(({ key }) => key.length >= MIN_KEY_LENGTH);
+
+    const buckets = new Map<string, typeof keyed>();
+    for (const entry of keyed) {
+      let list = buckets.get(entry.key[0]);
+      if (!list) {
+        list = [];
+        buckets.set(entry.key[0], list);
+      }
+      list.push(entry);
+    }
+
+    // Union-find over artist indexes, keeping each cluster's weakest link
+    const parent = keyed.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const weakest = new Map<number, number>();
+    const index = new Map(keyed.map((entry, i) => [entry, i]));
+
+    for (const list of buckets.values()) {
+      for (let i = 0; i < list.length; i++) {
+        for (let j = i + 1; j < list.length; j++) {
+          const a = list[i];
+          const b = list[j];
+          const longer = Math.max(a.key.length, b.key.length);
+          if (Math.abs(a.key.length - b.key.length) > longer * (1 - threshold)) continue;
+          if (this.canonical.has(a.key) && this.canonical.has(b.key)) continue;
+          if (this.distinct.has(ArtistResolver.pairKey(a.key, b.key))) continue;
+
+          const score = DeduplicationUtils.stringSimilarity(a.key, b.key);
+          if (score < threshold) continue;
+
+          const rootA = find(index.get(a)!);
+          const rootB = find(index.get(b)!);
+          const low = Math.min(score, weakest.get(rootA) ?? 1, weakest.get(rootB) ?? 1);
+          parent[rootB] = rootA;
+          weakest.set(rootA, low);
+        }
+      }
+    }
+
+    const clusters = new Map<number, Artist[]>();
+    keyed.forEach(({ artist }, i) => {
+      if (find(i) === i && !weakest.has(i)) return;
+      let list = clusters.get(find(i));
+      if (!list) {
+        list = [];
+        clusters.set(find(i), list);
+      }
+      list.push(artist);
+    });
+
+    return [...clusters.entries()]
+      .filter(([, members]) => members.length > 1)
+      .map(([root, members]) => {
+        const sorted = [...members].sort((a, b) => b.totalEventCount - a.totalEventCount || a.name.localeCompare(b.name));
+        return {
+          name: sorted[0].name,
+          variants: sorted.slice(1).map((artist) => artist.name),
+          similarity: Math.round((weakest.get(root) ?? 1) * 100) / 100,
+          events: sorted.reduce((sum, artist) => sum + artist.totalEventCount, 0),
+        };
+      })
+      .sort((a, b) => b.similarity - a.similarity || a.name.localeCompare(b.name));
+  }
+
+  private static pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Checksums of published data files, shared by the ETL and the client
+ * The ETL hashes each file exactly as written (FileChecksum, with node:crypto);
+ * DataService hashes the response text with Web Crypto before parsing it and
+ * compares the two. Both produce "sha256-" and the hex digest.
+ */
+
+const PREFIX = "sha256-";
+const VERIFIABLE = /^sha256-[0-9a-f]{64}$/;
+
+export class Checksum {
+  /**
+   * A data file exactly as the ETL writes it
+   */
+  static serialize(data: unknown): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Manifest form of a hex SHA-256 digest
+   */
+  static format(hex: string): string {
+    return `${PREFIX}${hex}`;
+  }
+
+  /**
+   * Whether a manifest checksum is one `format` produces; manifests from before
+   * files were verified list a shorter hash that can't be checked
+   */
+  static isVerifiable(checksum: string | undefined): boolean {
+    return !!checksum && VERIFIABLE.test(checksum);
+  }
+
+  /**
+   * Checksum of a file's text, as listed in the manifest
+   */
+  static async digest(text: string): Promise<string> {
+    const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+    return this.format(Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, "0")).join(""));
+  }
+
+  static async matches(text: string, checksum: string): Promise<boolean> {
+    return (await this.digest(text)) === checksum;
+  }
+}
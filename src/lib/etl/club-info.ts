@@ -0,0 +1,142 @@
+/**
+ * The "C L U B  I N F O R M A T I O N" block of each list edition
+ * Collapses its wrapped entries and folds them into the venues.txt registry
+ */
+
+import type { RawVenueData } from "@/types/events.js";
+import { VenueParser } from "./parsers.js";
+import { StringNormalizer } from "./utils.js";
+
+const CLUB_INFO_HEADER = /C\s*L\s*U\s*B\s+I\s*N\s*F\s*O/i;
+const DASH_SEPARATOR = /^\s*-+\s*$/;
+const PHONE_OR_AGES = /^(?:\(?\d{3}\)?[\s-]?\d{3}-\d{3,4}|a\/a|all ages|\d{1,2}\+|[\s/^@#*$])+$/i;
+
+export interface RegistryUpdate {
+  content: string; // the new venues.txt
+  added: string[]; // venue names
+  updated: string[];
+}
+
+export class ClubInfoParser {
+  /**
+   * The club info block of a latest.txt edition, without its header;
+   * empty when the edition has none
+   */
+  static extractSection(content: string): string {
+    const lines = content.split("\n");
+    const headerIndex = lines.findIndex((line) => CLUB_INFO_HEADER.test(line));
+    return headerIndex < 0 ? "" : lines.slice(headerIndex + 1).join("\n");
+  }
+
+  /**
+   * One venues.txt-style line per venue. Entries start with "Name, Address";
+   * a phone or age policy on the next line is appended, and other wrapped
+   * text becomes a parenthesized note.
+   */
+  static collapse(section: string): string[] {
+    const entries: string[] = [];
+
+    for (const raw of section.split("\n")) {
+      const line = raw.replace(/\u00a0/g, " ");
+      const trimmed = line.trim();
+      if (!trimmed || DASH_SEPARATOR.test(trimmed)) continue;
+
+      const last = entries.length - 1;
+      const startsEntry = !/^\s/.test(line) && trimmed.includes(",");
+      if (startsEntry || last < 0) {
+        entries.push(trimmed);
+      } else if (PHONE_OR_AGES.test(trimmed) || /^\(.*\)$/.test(trimmed)) {
+        entries[last] += ` ${trimmed}`;
+      } else {
+        entries[last] += ` (${trimmed})`;
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Replace registry lines with the edition's entry for the same venue and
+   * append venues it hasn't seen, keeping the listed venues alphabetical
+   * ahead of the stubs the merge adds. An entry without a street number
+   * ("9 Lives Warehouse, someplace, Oakland") never replaces a known address.
+   */
+  static updateRegistry(venuesContent: string, entries: string[]): RegistryUpdate {
+    const lines = venuesContent.split("\n").filter((line) => line.trim());
+    const parsed = lines.map((line, i) => VenueParser.parseVenueLine(line, i + 1));
+    const added: string[] = [];
+    const updated: string[] = [];
+
+    for (const entry of entries) {
+      const venue = VenueParser.parseVenueLine(entry, 0);
+      if (!venue) continue;
+
+      const index = this.findRegistryLine(venue, parsed);
+      if (index < 0) {
+        const at = this.insertionPoint(entry, lines, parsed);
+        lines.splice(at, 0, entry);
+        parsed.splice(at, 0, venue);
+        added.push(venue.name);
+        continue;
+      }
+
+      if (lines[index] === entry) continue;
+      const known = parsed[index];
+      if (known && /\d/.test(known.address) && !/\d/.test(venue.address)) continue;
+
+      if (known && this.isStub(known)) {
+        // Filled-in stubs move up among the listed venues
+        lines.splice(index, 1);
+        parsed.splice(index, 1);
+        const at = this.insertionPoint(entry, lines, parsed);
+        lines.splice(at, 0, entry);
+        parsed.splice(at, 0, venue);
+      } else {
+        lines[index] = entry;
+        parsed[index] = venue;
+      }
+      updated.push(venue.name);
+    }
+
+    return { content: lines.join("\n") + "\n", added, updated };
+  }
+
+  // Same name and city; a stub ("Name,,,,") has no city and matches on name alone
+  private static findRegistryLine(
+    venue: RawVenueData,
+    registry: (RawVenueData | null)[]
+  ): number {
+    const name = StringNormalizer.normalizeName(venue.name);
+    const sameName = registry
+      .map((known, index) => ({ known, index }))
+      .filter(({ known }) => known && StringNormalizer.normalizeName(known.name) === name);
+
+    const sameCity = sameName.find(({ known }) => known?.city && known.city === venue.city);
+    if (sameCity) return sameCity.index;
+
+    const stub = sameName.find(({ known }) => known && this.isStub(known));
+    if (stub) return stub.index;
+
+    // A single listing whose city didn't resolve either way is the same venue
+    return sameName.length === 1 && (!venue.city || !sameName[0].known?.city) ? sameName[0].index : -1;
+  }
+
+  // "Name,,,," or "Name, Address,,,," added by the merge for a venue seen only in listings
+  private static isStub(venue: RawVenueData): boolean {
+    return !venue.city && !venue.ageRestrictions;
+  }
+
+  // Alphabetical among the listed venues, ahead of the address-less stubs
+  private static insertionPoint(
+    entry: string,
+    lines: string[],
+    registry: (RawVenueData | null)[]
+  ): number {
+    const firstStub = registry.findIndex((known) => known && this.isStub(known));
+    const end = firstStub < 0 ? lines.length : firstStub;
+    for (let i = 0; i < end; i++) {
+      if (lines[i].localeCompare(entry, "en", { sensitivity: "base" }) > 0) return i;
+    }
+    return end;
+  }
+}
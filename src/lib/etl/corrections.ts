@@ -0,0 +1,275 @@
+/**
+ * Correction rules for list entries (data/line-corrections.json)
+ * Typed fixes for the list's recurring typos, each with an example the
+ * engine checks on load, and a record of which rules fired on which lines
+ */
+
+import { createHash } from "crypto";
+
+const DATE_LINE = /^[a-z]{3}\s+\d{1,2}\s+\w{3}/i;
+const CLUB_INFO_HEADER = /C\s*L\s*U\s*B\s+I\s*N\s*F\s*O/i;
+
+export interface CorrectionExample {
+  input: string;
+  output: string;
+}
+
+interface RuleBase {
+  id: string;
+  note?: string;
+  example: CorrectionExample;
+}
+
+export type CorrectionRule = RuleBase &
+  (
+    | { kind: "venue-city"; venue: string; cities: string[] } // "at Hopmonk Tavern Novato" -> "at Hopmonk Tavern, Novato"
+    | { kind: "city-spelling"; misspelling: string; city: string } // in the location, after a comma
+    | { kind: "artist-name"; misspelling: string; name: string } // in the lineup, before " at "
+    | { kind: "venue-name"; misspelling: string; name: string } // in the venue line, after " at "
+    | { kind: "pattern"; pattern: string; replacement: string } // regex, gi flags, $1 for groups
+    | { kind: "line-override"; hash: string; line: string } // replaces the whole entry
+  );
+
+type Draft<R> = R extends CorrectionRule ? Omit<R, "id" | "example"> : never;
+
+// A rule before it has an id and an example, as written in review
+export type CorrectionDraft = Draft<CorrectionRule>;
+
+export interface CorrectionHit {
+  ruleId: string;
+  source?: string; // file the line came from
+  lineNumber?: number;
+  before: string;
+  after: string;
+}
+
+export interface CorrectionReport {
+  fired: { rule: CorrectionRule; hits: CorrectionHit[] }[];
+  stale: CorrectionRule[]; // never matched anything the engine was run on
+}
+
+type Fix = (line: string) => string;
+
+export class CorrectionEngine {
+  private readonly rules: { rule: CorrectionRule; fix: Fix }[];
+  private hits: CorrectionHit[] = [];
+
+  private constructor(rules: { rule: CorrectionRule; fix: Fix }[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Compile the rules and check each one's example; throws listing every
+   * rule that doesn't compile, reuses an id or fails its example
+   */
+  static load(rules: CorrectionRule[]): CorrectionEngine {
+    const problems = this.check(rules);
+    if (problems.length > 0) {
+      throw new Error(`Invalid correction rules:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    }
+    const overridesFirst = [
+      ...rules.filter((rule) => rule.kind === "line-override"),
+      ...rules.filter((rule) => rule.kind !== "line-override"),
+    ];
+    return new CorrectionEngine(overridesFirst.map((rule) => ({ rule, fix: this.compile(rule) })));
+  }
+
+  /**
+   * Problems with a rule set, empty when every rule is usable
+   */
+  static check(rules: CorrectionRule[]): string[] {
+    const problems: string[] = [];
+    const ids = new Set<string>();
+
+    for (const rule of rules) {
+      if (!rule.id) problems.push(`${rule.kind} rule without an id`);
+      if (ids.has(rule.id)) problems.push(`${rule.id}: id is used more than once`);
+      ids.add(rule.id);
+
+      if (!rule.example) {
+        problems.push(`${rule.id}: no example`);
+        continue;
+      }
+
+      let fix: Fix;
+      try {
+        fix = this.compile(rule);
+      } catch (error) {
+        problems.push(`${rule.id}: ${(error as Error).message}`);
+        continue;
+      }
+
+      const actual = fix(rule.example.input);
+      if (actual !== rule.example.output) {
+        problems.push(`${rule.id}: example gives '${actual}', expected '${rule.example.output}'`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * What one rule makes of a line; throws when the rule doesn't compile
+   */
+  static applyRule(rule: CorrectionDraft, line: string): string {
+    return this.compile(rule)(line);
+  }
+
+  /**
+   * Whitespace-insensitive content hash that keys a line override
+   */
+  static hashLine(line: string): string {
+    return createHash("sha256").update(line.trim().replace(/\s+/g, " ")).digest("hex").slice(0, 16);
+  }
+
+  /**
+   * Correct one single-line entry: line overrides first, on the entry as
+   * listed, then the other rules in file order
+   */
+  apply(line: string, source?: string, lineNumber?: number): string {
+    let current = line;
+    for (const { rule, fix } of this.rules) {
+      const next = fix(current);
+      if (next !== current) {
+        this.hits.push({ ruleId: rule.id, source, lineNumber, before: current, after: next });
+        current = next;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Correct every entry of a multi-line events file, keeping its line
+   * numbering: a corrected entry moves onto its first line and the lines it
+   * was wrapped over are left blank
+   */
+  applyToContent(content: string, source?: string): string {
+    const lines = content.split("\n");
+    let group: number[] = [];
+
+    const flush = () => {
+      if (group.length === 0) return;
+      const entry = group.map((i) => lines[i].trim()).join(" ").replace(/\s{2,}/g, " ");
+      const corrected = this.apply(entry, source, group[0] + 1);
+      if (corrected !== entry) {
+        lines[group[0]] = corrected;
+        for (const i of group.slice(1)) lines[i] = "";
+      }
+      group = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const trimmed = lines[i].trim();
+      if (CLUB_INFO_HEADER.test(trimmed)) break;
+      if (DATE_LINE.test(trimmed)) {
+        flush();
+        group = [i];
+      } else if (trimmed && group.length > 0) {
+        group.push(i);
+      }
+    }
+    flush();
+
+    return lines.join("\n");
+  }
+
+  getHits(): CorrectionHit[] {
+    return [...this.hits];
+  }
+
+  /**
+   * Which rules fired on which lines since the engine was loaded, and which didn't
+   */
+  report(): CorrectionReport {
+    const byRule = new Map<string, CorrectionHit[]>();
+    for (const hit of this.hits) {
+      let list = byRule.get(hit.ruleId);
+      if (!list) {
+        list = [];
+        byRule.set(hit.ruleId, list);
+      }
+      list.push(hit);
+    }
+
+    return {
+      fired: this.rules
+        .filter(({ rule }) => byRule.has(rule.id))
+        .map(({ rule }) => ({ rule, hits: byRule.get(rule.id) ?? [] })),
+      stale: this.rules.filter(({ rule }) => !byRule.has(rule.id)).map(({ rule }) => rule),
+    };
+  }
+
+  /**
+   * The report for the terminal
+   */
+  static formatReport(report: CorrectionReport): string {
+    const lines: string[] = [];
+
+    lines.push(`🔧 Fired (${report.fired.length})`);
+    if (report.fired.length === 0) lines.push("   (none)");
+    for (const { rule, hits } of report.fired) {
+      lines.push(`   ${rule.id} [${rule.kind}] — ${hits.length} line(s)`);
+      for (const hit of hits.slice(0, 5)) {
+        const where = [hit.source, hit.lineNumber].filter((part) => part !== undefined).join(":");
+        lines.push(`      ${where ? `${where} ` : ""}${hit.before}`);
+        lines.push(`      ${" ".repeat(where ? where.length + 1 : 0)}→ ${hit.after}`);
+      }
+      if (hits.length > 5) lines.push(`      +${hits.length - 5} more`);
+    }
+
+    lines.push("", `💤 Stale — no longer match anything (${report.stale.length})`);
+    if (report.stale.length === 0) lines.push("   (none)");
+    for (const rule of report.stale) {
+      lines.push(`   ${rule.id} [${rule.kind}]${rule.note ? ` — ${rule.note}` : ""}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  private static compile(rule: CorrectionDraft): Fix {
+    switch (rule.kind) {
+      case "venue-city": {
+        const re = new RegExp(`\\bat (${this.escape(rule.venue)}) (${rule.cities.map((c) => this.escape(c)).join("|")})\\b`, "gi");
+        return (line) => line.replace(re, (_, venue, city) => `at ${venue}, ${city}`);
+      }
+      case "city-spelling": {
+        const re = new RegExp(`(,\\s*)${this.escape(rule.misspelling)}(?![\\w-])`, "gi");
+        return (line) => this.inVenue(line, (venue) => venue.replace(re, (_, comma) => `${comma}${rule.city}`));
+      }
+      case "artist-name": {
+        const re = this.wordPattern(rule.misspelling);
+        return (line) => this.inLineup(line, (lineup) => lineup.replace(re, () => rule.name));
+      }
+      case "venue-name": {
+        const re = this.wordPattern(rule.misspelling);
+        return (line) => this.inVenue(line, (venue) => venue.replace(re, () => rule.name));
+      }
+      case "pattern": {
+        const re = new RegExp(rule.pattern, "gi");
+        return (line) => line.replace(re, rule.replacement);
+      }
+      case "line-override":
+        return (line) => (this.hashLine(line) === rule.hash ? rule.line : line);
+    }
+  }
+
+  // Everything up to the venue's " at "
+  private static inLineup(line: string, fix: (lineup: string) => string): string {
+    const at = line.indexOf(" at ");
+    return at < 0 ? fix(line) : fix(line.slice(0, at)) + line.slice(at);
+  }
+
+  // The venue line, from the first " at " on
+  private static inVenue(line: string, fix: (venue: string) => string): string {
+    const at = line.indexOf(" at ");
+    return at < 0 ? line : line.slice(0, at) + fix(line.slice(at));
+  }
+
+  private static wordPattern(text: string): RegExp {
+    return new RegExp(`(?<![\\w-])${this.escape(text)}(?![\\w-])`, "gi");
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Delta manifest between dataset versions (delta.json)
+ * Lists each published file's checksum next to the previous version's, so a
+ * client holding cached data keeps what is byte-identical and refetches the rest
+ */
+
+import type { DataManifest, DeltaManifest, FileInfo } from "@/types/data.js";
+
+interface Timestamped {
+  id: unknown;
+  createdAtEpochMs: number;
+  updatedAtEpochMs: number;
+}
+
+export class DeltaBuilder {
+  /**
+   * Compare a manifest's files to the previous run's manifest
+   */
+  static build(previous: DataManifest | null, next: DataManifest): DeltaManifest {
+    const before = previous ? this.checksums(previous) : new Map<string, string>();
+    const after = this.checksums(next);
+
+    const files: DeltaManifest["files"] = {};
+    for (const [filename, checksum] of after) {
+      const previousChecksum = before.get(filename) ?? null;
+      files[filename] = { checksum, previousChecksum, changed: previousChecksum !== checksum };
+    }
+
+    return {
+      datasetVersion: next.datasetVersion,
+      previousVersion: previous?.datasetVersion ?? null,
+      files,
+      removed: [...before.keys()].filter((filename) => !after.has(filename)).sort(),
+    };
+  }
+
+  /**
+   * Give records that are unchanged since the previous run their previous
+   * timestamps back, and changed ones their previous createdAtEpochMs, so a
+   * run over the same listings writes byte-identical files. Returns the
+   * number of records that changed.
+   */
+  static carryTimestamps<T extends Timestamped>(records: T[], previous: Iterable<T>): number {
+    const byId = new Map<unknown, T>();
+    for (const record of previous) byId.set(record.id, record);
+
+    let changed = 0;
+    for (const record of records) {
+      const prev = byId.get(record.id);
+      if (!prev) continue;
+      record.createdAtEpochMs = prev.createdAtEpochMs;
+      if (this.content(record) === this.content(prev)) {
+        record.updatedAtEpochMs = prev.updatedAtEpochMs;
+      } else {
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  // Record without its timestamps, keys sorted so property order doesn't matter
+  private static content(record: Timestamped): string {
+    const { createdAtEpochMs: _created, updatedAtEpochMs: _updated, ...rest } = record;
+    return JSON.stringify(rest, (_key, value) =>
+      value && typeof value === "object" && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value
+    );
+  }
+
+  /**
+   * Checksum per filename for every data file a manifest lists
+   */
+  static checksums(manifest: DataManifest): Map<string, string> {
+    const { chunks } = manifest;
+    const listed: (FileInfo | undefined)[] = [
+      ...chunks.events,
+      chunks.artists,
+      chunks.venues,
+      chunks.indexes,
+      chunks.search?.documents,
+      chunks.search?.terms,
+      chunks.history,
+      chunks.radio,
+      chunks.redirects,
+    ];
+
+    const checksums = new Map<string, string>();
+    for (const file of listed) {
+      if (file) checksums.set(file.filename, file.checksum);
+    }
+    return checksums;
+  }
+
+  /**
+   * One-line summary for the ETL log
+   */
+  static formatSummary(delta: DeltaManifest): string {
+    const files = Object.entries(delta.files);
+    const changed = files.filter(([, file]) => file.changed).map(([filename]) => filename);
+    if (!delta.previousVersion) {
+      return `🧮 First dataset version, ${files.length} files`;
+    }
+    let summary = `🧮 ${changed.length} of ${files.length} files changed since ${delta.previousVersion}`;
+    if (changed.length > 0 && changed.length <= 8) summary += ` (${changed.join(", ")})`;
+    if (delta.removed.length > 0) summary += `, ${delta.removed.length} removed`;
+    return summary;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Manifest checksums for files the ETL writes, computed with node:crypto
+ * Kept apart from checksum.ts so the client bundle never imports Node's crypto.
+ */
+
+import { createHash } from "node:crypto";
+import { Checksum } from "./checksum.js";
+
+export class FileChecksum {
+  static of(text: string): string {
+    return Checksum.format(createHash("sha256").update(text, "utf8").digest("hex"));
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Bay Area locality gazetteer
+ * Resolves the city text The List uses ("S.F.", "Memlo Park", "UC Berkeley Campus")
+ * to a canonical locality with county and region
+ */
+
+import type { BayAreaRegion, Locality } from "@/types/events.js";
+
+export const REGION_LABELS: Record<BayAreaRegion, string> = {
+  sf: "San Francisco",
+  "east-bay": "East Bay",
+  "south-bay": "South Bay",
+  "north-bay": "North Bay",
+  peninsula: "Peninsula",
+  "santa-cruz": "Santa Cruz",
+};
+
+// [canonical name, county, region, aliases, [lat, lng] of downtown]
+// Aliases are matched case-insensitively with periods removed, so "S.F." is "sf".
+// Neighborhoods and landmarks that appear in place of a city are listed as aliases.
+const LOCALITIES: Array<[string, string, BayAreaRegion, string[], [number, number]]> = [
+  // San Francisco
+  ["San Francisco", "San Francisco", "sf", [
+    "sf", "san fran", "frisco", "golden gate park", "golden gate par",
+    "mcclaren park", "mclaren park", "sfsu", "sfsu student center",
+  ], [37.7749, -122.4194]],
+
+  // East Bay
+  ["Oakland", "Alameda", "east-bay", [
+    "oaland", "oakand", "oaklnd", "west oakland", "east oakland",
+    "downtown oakland", "jack london square",
+  ], [37.8044, -122.2712]],
+  ["Berkeley", "Alameda", "east-bay", [
+    "berkely", "berkeleyt", "berekely", "west berkeley", "uc berkeley",
+    "uc berkeley campus",
+  ], [37.8716, -122.2727]],
+  ["Albany", "Alameda", "east-bay", ["albanu"], [37.8869, -122.2978]],
+  ["Alameda", "Alameda", "east-bay", ["alamea"], [37.7652, -122.2416]],
+  ["Emeryville", "Alameda", "east-bay", ["emeryville waterfront"], [37.8313, -122.2852]],
+  ["Piedmont", "Alameda", "east-bay", [], [37.8244, -122.2317]],
+  ["San Leandro", "Alameda", "east-bay", [], [37.7249, -122.1561]],
+  ["Hayward", "Alameda", "east-bay", [], [37.6688, -122.0808]],
+  ["Fremont", "Alameda", "east-bay", [], [37.5485, -121.9886]],
+  ["Pleasanton", "Alameda", "east-bay", [], [37.6624, -121.8747]],
+  ["Livermore", "Alameda", "east-bay", [], [37.6819, -121.7680]],
+  ["El Cerrito", "Contra Costa", "east-bay", [], [37.9161, -122.3108]],
+  ["Richmond", "Contra Costa", "east-bay", ["point richmond"], [37.9358, -122.3478]],
+  ["Walnut Creek", "Contra Costa", "east-bay", [], [37.9101, -122.0652]],
+  ["Orinda", "Contra Costa", "east-bay", [], [37.8771, -122.1797]],
+  ["Concord", "Contra Costa", "east-bay", [], [37.9780, -122.0311]],
+  ["Crockett", "Contra Costa", "east-bay", [], [38.0524, -122.2130]],
+  ["Danville", "Contra Costa", "east-bay", [], [37.8216, -121.9999]],
+  ["Martinez", "Contra Costa", "east-bay", [], [38.0194, -122.1341]],
+  ["Antioch", "Contra Costa", "east-bay", [], [38.0049, -121.8058]],
+
+  // South Bay
+  ["San Jose", "Santa Clara", "south-bay", ["downtown san jose", "alviso"], [37.3382, -121.8863]],
+  ["Santa Clara", "Santa Clara", "south-bay", [], [37.3541, -121.9552]],
+  ["Sunnyvale", "Santa Clara", "south-bay", [], [37.3688, -122.0363]],
+  ["Mountain View", "Santa Clara", "south-bay", ["mountain veiw", "mtn view"], [37.3861, -122.0839]],
+  ["Cupertino", "Santa Clara", "south-bay", [], [37.3230, -122.0322]],
+  ["Saratoga", "Santa Clara", "south-bay", [], [37.2638, -122.0230]],
+  ["Campbell", "Santa Clara", "south-bay", [], [37.2872, -121.9500]],
+  ["Los Gatos", "Santa Clara", "south-bay", [], [37.2358, -121.9624]],
+  ["Milpitas", "Santa Clara", "south-bay", [], [37.4323, -121.8996]],
+  ["Gilroy", "Santa Clara", "south-bay", [], [37.0058, -121.5683]],
+
+  // Peninsula
+  ["Palo Alto", "Santa Clara", "peninsula", [], [37.4419, -122.1430]],
+  ["Stanford", "Santa Clara", "peninsula", ["stanford campus", "stanford university"], [37.4275, -122.1697]],
+  ["Menlo Park", "San Mateo", "peninsula", ["memlo park", "menlo prk"], [37.4530, -122.1817]],
+  ["Redwood City", "San Mateo", "peninsula", [], [37.4852, -122.2364]],
+  ["San Mateo", "San Mateo", "peninsula", [], [37.5630, -122.3255]],
+  ["Burlingame", "San Mateo", "peninsula", [], [37.5841, -122.3661]],
+  ["San Carlos", "San Mateo", "peninsula", [], [37.5072, -122.2605]],
+  ["South San Francisco", "San Mateo", "peninsula", ["south sf", "ssf"], [37.6547, -122.4077]],
+  ["Daly City", "San Mateo", "peninsula", ["daily city", "daly"], [37.6879, -122.4702]],
+  ["Pacifica", "San Mateo", "peninsula", [], [37.6138, -122.4869]],
+  ["Half Moon Bay", "San Mateo", "peninsula", ["half moon"], [37.4636, -122.4286]],
+  ["San Gregorio", "San Mateo", "peninsula", [], [37.3272, -122.3864]],
+
+  // North Bay
+  ["Santa Rosa", "Sonoma", "north-bay", [], [38.4404, -122.7141]],
+  ["Petaluma", "Sonoma", "north-bay", [], [38.2324, -122.6367]],
+  ["Sebastopol", "Sonoma", "north-bay", ["sebastapol"], [38.4021, -122.8239]],
+  ["Sonoma", "Sonoma", "north-bay", ["sonoma plaza"], [38.2919, -122.4580]],
+  ["Rohnert Park", "Sonoma", "north-bay", ["rohnert"], [38.3396, -122.7011]],
+  ["Cotati", "Sonoma", "north-bay", [], [38.3274, -122.7092]],
+  ["Healdsburg", "Sonoma", "north-bay", [], [38.6105, -122.8692]],
+  ["Napa", "Napa", "north-bay", ["napa valley"], [38.2975, -122.2869]],
+  ["Novato", "Marin", "north-bay", [], [38.1074, -122.5697]],
+  ["San Rafael", "Marin", "north-bay", [], [37.9735, -122.5311]],
+  ["Mill Valley", "Marin", "north-bay", [], [37.9060, -122.5450]],
+  ["Fairfax", "Marin", "north-bay", [], [37.9871, -122.5889]],
+  ["Woodacre", "Marin", "north-bay", [], [38.0127, -122.6450]],
+  ["Sausalito", "Marin", "north-bay", [], [37.8591, -122.4853]],
+  ["Vallejo", "Solano", "north-bay", [], [38.1041, -122.2566]],
+  ["Fairfield", "Solano", "north-bay", [], [38.2494, -122.0400]],
+  ["Benicia", "Solano", "north-bay", [], [38.0494, -122.1586]],
+
+  // Santa Cruz
+  ["Santa Cruz", "Santa Cruz", "santa-cruz", [], [36.9741, -122.0308]],
+  ["Felton", "Santa Cruz", "santa-cruz", [], [37.0513, -122.0733]],
+  ["Capitola", "Santa Cruz", "santa-cruz", [], [36.9752, -121.9533]],
+  ["Aptos", "Santa Cruz", "santa-cruz", [], [36.9772, -121.8994]],
+  ["Watsonville", "Santa Cruz", "santa-cruz", [], [36.9102, -121.7569]],
+];
+
+export class Gazetteer {
+  private static readonly MAX_TOKENS = 4;
+  private static index: Map<string, Locality> | null = null;
+  private static localities: Locality[] = [];
+
+  /**
+   * Resolve the locality a piece of text starts with, preferring the longest match:
+   * "Walnut Creek a/a $10" is Walnut Creek, "South San Francisco" is not San Francisco
+   */
+  static resolve(text: string): Locality | null {
+    const index = this.getIndex();
+    const tokens = this.normalizeKey(text).split(" ").filter(Boolean);
+
+    for (let n = Math.min(this.MAX_TOKENS, tokens.length); n > 0; n--) {
+      const locality = index.get(tokens.slice(0, n).join(" "));
+      if (locality) return locality;
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up a locality by its exact name or alias
+   */
+  static lookup(name: string): Locality | null {
+    return this.getIndex().get(this.normalizeKey(name)) ?? null;
+  }
+
+  /**
+   * Whether a city string is already a canonical locality name
+   */
+  static isCanonical(city: string): boolean {
+    return this.lookup(city)?.name === city;
+  }
+
+  static all(): Locality[] {
+    this.getIndex();
+    return [...this.localities];
+  }
+
+  static inRegion(region: BayAreaRegion): Locality[] {
+    return this.all().filter((locality) => locality.region === region);
+  }
+
+  /**
+   * Lowercase, drop periods and collapse punctuation to single spaces
+   */
+  static normalizeKey(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/\./g, "")
+      .replace(/[^a-z0-9']+/g, " ")
+      .trim();
+  }
+
+  private static getIndex(): Map<string, Locality> {
+    if (this.index) return this.index;
+
+    const index = new Map<string, Locality>();
+    for (const [name, county, region, aliases, [lat, lng]] of LOCALITIES) {
+      const locality: Locality = {
+        name,
+        slug: name.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+        county,
+        region,
+        center: { lat, lng },
+      };
+      this.localities.push(locality);
+
+      for (const key of [name, ...aliases].map((alias) => this.normalizeKey(alias))) {
+        if (index.has(key)) {
+          throw new Error(`Gazetteer alias "${key}" is listed for more than one locality`);
+        }
+        index.set(key, locality);
+      }
+    }
+
+    this.index = index;
+    return index;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Venue coordinates (data/venue-coordinates.json)
+ * Places each venue from the checked-in coordinate file, or at its city's
+ * center from the gazetteer until it's added there, and reports which
+ * venues with upcoming shows still need coordinates. The file is grouped by
+ * city so generic names ("Arena", "Civic Center") only match in their own city
+ */
+
+import type { GeoPoint, Venue } from "@/types/events.js";
+import { Gazetteer } from "./gazetteer.js";
+import { StringNormalizer } from "./utils.js";
+
+// Generous box around the nine counties and Santa Cruz; anything outside is a typo
+export const BAY_AREA_BOUNDS = { south: 36.6, north: 38.9, west: -123.5, east: -121.2 };
+
+export interface GeocodeReport {
+  placed: number; // venues with their own coordinates
+  approximate: Venue[]; // placed at their city's center
+  missing: Venue[]; // not placed at all
+  unused: string[]; // coordinate file entries that match no venue, as "name, city"
+  outOfBounds: string[]; // coordinate file entries outside the Bay Area, ignored
+}
+
+// City -> venue name -> point
+export type VenueCoordinateFile = Record<string, Record<string, GeoPoint>>;
+
+export class VenueGeocoder {
+  /**
+   * Set coordinates on every venue. Entries are matched by city and normalized
+   * name, the name directly or through a venue alias (variant -> canonical name)
+   */
+  static apply(
+    venues: Venue[],
+    coordinates: VenueCoordinateFile,
+    venueAliases: Record<string, string> = {}
+  ): GeocodeReport {
+    const report: GeocodeReport = { placed: 0, approximate: [], missing: [], unused: [], outOfBounds: [] };
+
+    const byKey = new Map<string, { label: string; point: GeoPoint }>();
+    for (const [city, entries] of Object.entries(coordinates)) {
+      for (const [name, point] of Object.entries(entries)) {
+        const label = `${name}, ${city}`;
+        if (!this.inBounds(point)) {
+          report.outOfBounds.push(label);
+          continue;
+        }
+        byKey.set(this.key(venueAliases[name.toLowerCase()] ?? name, city), { label, point });
+      }
+    }
+
+    const used = new Set<string>();
+    for (const venue of venues) {
+      const entry = byKey.get(this.key(venue.name, venue.city));
+      if (entry) {
+        venue.coordinates = { lat: entry.point.lat, lng: entry.point.lng, precision: "venue" };
+        used.add(entry.label);
+        report.placed++;
+        continue;
+      }
+
+      const locality = Gazetteer.lookup(venue.city);
+      if (locality) {
+        venue.coordinates = { ...locality.center, precision: "city" };
+        report.approximate.push(venue);
+      } else {
+        delete venue.coordinates;
+        report.missing.push(venue);
+      }
+    }
+
+    report.unused = [...byKey.values()].map(({ label }) => label).filter((label) => !used.has(label));
+    return report;
+  }
+
+  // Cities compare by their gazetteer name, so "SF" in a listing finds "San Francisco" in the file
+  private static key(name: string, city: string): string {
+    const locality = Gazetteer.lookup(city)?.name ?? city.trim();
+    return `${StringNormalizer.normalizeName(name)}|${locality.toLowerCase()}`;
+  }
+
+  static inBounds(point: GeoPoint): boolean {
+    return (
+      Number.isFinite(point?.lat) &&
+      Number.isFinite(point?.lng) &&
+      point.lat >= BAY_AREA_BOUNDS.south &&
+      point.lat <= BAY_AREA_BOUNDS.north &&
+      point.lng >= BAY_AREA_BOUNDS.west &&
+      point.lng <= BAY_AREA_BOUNDS.east
+    );
+  }
+
+  /**
+   * Coverage of the venues with upcoming shows, for the ETL log
+   */
+  static formatCoverage(report: GeocodeReport, venues: Venue[]): string {
+    const active = venues.filter((venue) => venue.upcomingEventCount > 0);
+    const placed = active.filter((venue) => venue.coordinates?.precision === "venue").length;
+    const approximate = active.filter((venue) => venue.coordinates?.precision === "city").length;
+    const missing = active.length - placed - approximate;
+
+    const lines = [
+      `📍 ${placed} of ${active.length} venues with upcoming shows have coordinates, ${approximate} placed at their city's center, ${missing} not on the map`,
+    ];
+    if (report.outOfBounds.length > 0) {
+      lines.push(`   Outside the Bay Area, ignored: ${report.outOfBounds.join(", ")}`);
+    }
+    if (report.unused.length > 0) {
+      lines.push(`   No venue matches: ${report.unused.join(", ")}`);
+    }
+    return lines.join("\n");
+  }
+}
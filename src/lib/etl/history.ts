@@ -0,0 +1,85 @@
+/**
+ * Field-level change history between ETL runs
+ * Diffs each event against its previous output by ID and appends what changed
+ */
+
+import type { Event, ArtistId } from "@/types/events.js";
+import type {
+  EventFieldChange,
+  EventHistory,
+  TrackedEventField,
+} from "@/types/data.js";
+import { PriceUtils } from "./utils.js";
+
+// Display text per tracked field; a field is left out when the event predates it
+type EventSnapshot = Partial<Record<TrackedEventField, string>>;
+
+export class EventHistoryTracker {
+  /**
+   * Append changes since the previous run's output to its history, and stamp
+   * changed events with changedAtEpochMs. History is kept only for events
+   * still in the output. Returns the number of events that changed.
+   */
+  static record(
+    previous: {
+      events: Map<number, Event>;
+      artistNames: Map<ArtistId, string>;
+      history: EventHistory;
+    },
+    events: Event[],
+    artistNames: Map<ArtistId, string>,
+    changedAtEpochMs: number
+  ): { history: EventHistory; changed: number } {
+    const kept: EventHistory = {};
+    let changed = 0;
+
+    for (const event of events) {
+      const key = String(event.id);
+      const entries = previous.history[key] ?? [];
+      const prev = previous.events.get(event.id as number);
+
+      if (prev) {
+        const changes = this.diff(
+          this.snapshot(prev, previous.artistNames),
+          this.snapshot(event, artistNames)
+        );
+        event.changedAtEpochMs = prev.changedAtEpochMs;
+        if (changes.length > 0) {
+          entries.push({ changedAtEpochMs, changes });
+          event.changedAtEpochMs = changedAtEpochMs;
+          changed++;
+        }
+      }
+
+      if (entries.length > 0) kept[key] = entries;
+    }
+
+    return { history: kept, changed };
+  }
+
+  static diff(before: EventSnapshot, after: EventSnapshot): EventFieldChange[] {
+    const changes: EventFieldChange[] = [];
+    for (const field of Object.keys(after) as TrackedEventField[]) {
+      const was = before[field];
+      const now = after[field];
+      if (was === undefined || now === undefined || was === now) continue;
+      changes.push({ field, before: was, after: now });
+    }
+    return changes;
+  }
+
+  static snapshot(event: Event, artistNames: Map<ArtistId, string>): EventSnapshot {
+    const snapshot: EventSnapshot = {
+      lineup: event.artistIds
+        .map((id) => artistNames.get(id) ?? `#${id}`)
+        .join(", "),
+      ageRestriction: event.ageRestriction,
+      status: event.status,
+    };
+    // Chunks built before tiers were parsed would all read as price changes
+    if (event.price) {
+      snapshot.price = PriceUtils.describe(event.price) || "No price";
+    }
+    return snapshot;
+  }
+}
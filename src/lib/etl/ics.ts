@@ -0,0 +1,205 @@
+/**
+ * iCalendar (RFC 5545) generation for events
+ * Shared by the ETL's static venue and city feeds and the frontend's downloads
+ */
+
+import type { Event, Artist, ArtistId, Venue, VenueId } from "@/types/events.js";
+import { PriceUtils } from "./utils.js";
+
+export interface IcsOptions {
+  name: string; // X-WR-CALNAME shown by calendar apps
+  artists: Map<ArtistId, Artist>;
+  venues: Map<VenueId, Venue>;
+  eventUrl?: (event: Event) => string;
+  now?: number; // DTSTAMP, epoch milliseconds
+}
+
+const TZID = "America/Los_Angeles";
+
+// Shows without an end time are given this long in calendars
+const DEFAULT_DURATION_MINUTES = 3 * 60;
+
+// Pacific time since 2007: PDT from the second Sunday in March, PST from the first Sunday in November
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TZID}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:20070311T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:20071104T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+export class IcsBuilder {
+  /**
+   * Build a VCALENDAR with one VEVENT per event, CRLF-terminated
+   */
+  static buildCalendar(events: Event[], options: IcsOptions): string {
+    const now = options.now ?? Date.now();
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//zivv//The List//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${this.escapeText(options.name)}`,
+      `X-WR-TIMEZONE:${TZID}`,
+      ...VTIMEZONE,
+    ];
+
+    for (const event of events) {
+      lines.push(...this.buildEvent(event, options, now));
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+  }
+
+  private static buildEvent(event: Event, options: IcsOptions, now: number): string[] {
+    const venue = options.venues.get(event.venueId);
+    const headliner = options.artists.get(event.headlinerArtistId)?.name ?? "Show";
+    const lineup = event.artistIds
+      .map((id) => options.artists.get(id)?.name)
+      .filter((name): name is string => !!name);
+
+    const prefix =
+      event.status === "cancelled" ? "CANCELLED: " : event.status === "postponed" ? "POSTPONED: " : "";
+    const summary = `${prefix}${headliner}${venue ? ` at ${venue.name}` : ""}`;
+
+    const lines = [
+      "BEGIN:VEVENT",
+      `UID:${event.id}@zivv`,
+      `DTSTAMP:${this.formatUtc(now)}`,
+      ...this.buildTimes(event),
+      `SUMMARY:${this.escapeText(summary)}`,
+    ];
+
+    if (venue) {
+      const location = [venue.name, venue.address, venue.city].filter(Boolean).join(", ");
+      lines.push(`LOCATION:${this.escapeText(location)}`);
+    }
+
+    const description = this.buildDescription(event, lineup);
+    if (description) lines.push(`DESCRIPTION:${this.escapeText(description)}`);
+    if (options.eventUrl) lines.push(`URL:${options.eventUrl(event)}`);
+
+    lines.push(`STATUS:${this.toIcsStatus(event)}`, "END:VEVENT");
+    return lines;
+  }
+
+  /**
+   * DTSTART/DTEND in Pacific wall-clock time; untimed shows are all-day events
+   */
+  private static buildTimes(event: Event): string[] {
+    if (event.startTimeEpochMs === undefined) {
+      const nextDay = event.dateEpochMs + 24 * 60 * 60 * 1000;
+      return [
+        `DTSTART;VALUE=DATE:${this.formatDate(event.dateEpochMs)}`,
+        `DTEND;VALUE=DATE:${this.formatDate(nextDay)}`,
+      ];
+    }
+
+    const end =
+      event.endTimeEpochMs !== undefined && event.endTimeEpochMs > event.startTimeEpochMs
+        ? event.endTimeEpochMs
+        : event.startTimeEpochMs + DEFAULT_DURATION_MINUTES * 60 * 1000;
+    return [
+      `DTSTART;TZID=${TZID}:${this.formatLocal(event.startTimeEpochMs)}`,
+      `DTEND;TZID=${TZID}:${this.formatLocal(end)}`,
+    ];
+  }
+
+  private static buildDescription(event: Event, lineup: string[]): string {
+    const parts: string[] = [];
+    if (lineup.length > 1) parts.push(lineup.join(", "));
+
+    const times = [
+      event.doorsTime && `doors ${this.formatClock(event.doorsTime)}`,
+      event.showTime && `show ${this.formatClock(event.showTime)}`,
+      event.endTime && `over by ${this.formatClock(event.endTime)}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    if (times) parts.push(times[0].toUpperCase() + times.slice(1));
+
+    const price = PriceUtils.describe(PriceUtils.fromEvent(event));
+    parts.push([price, event.ageRestriction].filter(Boolean).join(" · "));
+
+    if (event.statusNote) parts.push(event.statusNote);
+    if (event.notes) parts.push(event.notes);
+    return parts.filter(Boolean).join("\n");
+  }
+
+  private static toIcsStatus(event: Event): string {
+    if (event.status === "cancelled" || event.status === "rescheduled") return "CANCELLED";
+    if (event.status === "postponed") return "TENTATIVE";
+    return "CONFIRMED";
+  }
+
+  /**
+   * Escape TEXT values: backslash, semicolon, comma and newlines
+   */
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  /**
+   * Fold lines longer than 75 octets, continuing with a single space;
+   * never splits a multi-byte UTF-8 character
+   */
+  static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+      const size = encoder.encode(char).length;
+      const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+      if (octets + size > limit) {
+        parts.push(current);
+        current = "";
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+  }
+
+  // Event epochs hold wall-clock time in their UTC fields
+  private static formatLocal(epochMs: number): string {
+    return new Date(epochMs).toISOString().replace(/[-:]/g, "").slice(0, 15);
+  }
+
+  private static formatDate(epochMs: number): string {
+    return this.formatLocal(epochMs).slice(0, 8);
+  }
+
+  private static formatUtc(epochMs: number): string {
+    return `${this.formatLocal(epochMs)}Z`;
+  }
+
+  private static formatClock(time: string): string {
+    const [h, m] = time.split(":").map(Number);
+    const suffix = h < 12 ? "am" : "pm";
+    const hour = h % 12 === 0 ? 12 : h % 12;
+    return m === 0 ? `${hour}${suffix}` : `${hour}:${String(m).padStart(2, "0")}${suffix}`;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Permanent entity IDs and slugs (public/data/id-registry.json)
+ * Keeps each event, artist and venue on the ID and slug it was first given,
+ * probes past hash collisions instead of letting two entities share an ID,
+ * and records a redirect whenever a slug changes so old links keep working
+ */
+
+import type { Artist, ArtistId, Event, EventId, EventLink, Venue, VenueId } from "@/types/events.js";
+import type { EntityKind, IdCollision, IdRecord, IdRegistryData, RedirectMap } from "@/types/data.js";
+import { ArtistResolver } from "./artists.js";
+import { HashGenerator, StringNormalizer } from "./utils.js";
+
+export interface IdAssignmentResult {
+  created: Record<EntityKind, number>; // entities seen for the first time
+  renamed: { kind: EntityKind; from: string; to: string }[];
+  collisions: IdCollision[]; // found this run
+}
+
+interface Keyed {
+  key: string;
+  fallbacks: string[]; // earlier keys the entity may be registered under
+  entity: { id: number; slug: string };
+}
+
+const KINDS: EntityKind[] = ["events", "artists", "venues"];
+
+export class IdRegistry {
+  private readonly data: IdRegistryData;
+
+  private constructor(data: IdRegistryData) {
+    this.data = data;
+  }
+
+  static empty(): IdRegistryData {
+    return {
+      events: {},
+      artists: {},
+      venues: {},
+      redirects: { events: {}, artists: {}, venues: {} },
+      collisions: [],
+    };
+  }
+
+  /**
+   * A registry from its saved form; missing sections start empty
+   */
+  static load(data: Partial<IdRegistryData> | null | undefined): IdRegistry {
+    const empty = this.empty();
+    return new IdRegistry({
+      ...empty,
+      ...data,
+      redirects: { ...empty.redirects, ...data?.redirects },
+      collisions: data?.collisions ?? [],
+    });
+  }
+
+  /**
+   * A registry holding the IDs and slugs of a previous run's output, for the
+   * first run that keeps one
+   */
+  static seed(events: Event[], artists: Artist[], venues: Venue[]): IdRegistry {
+    const data = this.empty();
+    const keys = this.keysFor(events, artists, venues);
+    // An ID the output already gave twice is left to be probed on assignment
+    const seedKind = (records: Record<string, IdRecord>, entities: Keyed[]) => {
+      const ids = new Set<number>();
+      for (const { key, entity } of entities) {
+        if (records[key] || ids.has(entity.id)) continue;
+        records[key] = { id: entity.id, slug: entity.slug };
+        ids.add(entity.id);
+      }
+    };
+    seedKind(data.artists, keys.artists);
+    seedKind(data.venues, keys.venues);
+    seedKind(data.events, keys.events);
+    return new IdRegistry(data);
+  }
+
+  /**
+   * Artists are keyed by folded name, venues by normalized name and events by
+   * "date|venue|headliner"
+   */
+  static artistKey(name: string): string {
+    return ArtistResolver.foldKey(name);
+  }
+
+  static venueKey(name: string): string {
+    return StringNormalizer.normalizeName(name);
+  }
+
+  static eventKey(date: string, venueName: string, headlinerName: string): string {
+    return `${date}|${this.venueKey(venueName)}|${this.artistKey(headlinerName)}`;
+  }
+
+  /**
+   * Give every entity its registered ID and slug, registering new ones, and
+   * rewrite the events' artist, venue and reschedule references to match.
+   * Venue aliases (variant -> canonical name) let a renamed venue keep its record
+   */
+  assign(
+    events: Event[],
+    artists: Artist[],
+    venues: Venue[],
+    venueAliases: Record<string, string> = {}
+  ): IdAssignmentResult {
+    const result: IdAssignmentResult = {
+      created: { events: 0, artists: 0, venues: 0 },
+      renamed: [],
+      collisions: [],
+    };
+    const keys = IdRegistry.keysFor(events, artists, venues, venueAliases);
+
+    const artistIds = this.assignKind("artists", keys.artists, result);
+    const venueIds = this.assignKind("venues", keys.venues, result);
+    const eventIds = this.assignKind("events", keys.events, result, (keyed, unclaimed) =>
+      IdRegistry.matchMovedEvent(keyed.key, unclaimed)
+    );
+
+    const eventsById = new Map(events.map((event) => [event.id as number, event]));
+    const relink = (link: EventLink): EventLink => {
+      const id = eventIds.get(link.id as number) ?? link.id;
+      return { ...link, id: id as EventId, slug: eventsById.get(id as number)?.slug ?? link.slug };
+    };
+    const artistIdsByKey = new Map(keys.artists.map(({ key, entity }) => [key, entity.id]));
+    for (const event of events) {
+      // Lineup names tell apart artists the parser gave the same hash
+      const own = new Map<number, number>();
+      for (const entry of event.lineup ?? []) {
+        const id = artistIdsByKey.get(IdRegistry.artistKey(entry.name)) ?? artistIds.get(entry.artistId);
+        if (id !== undefined) own.set(entry.artistId, id);
+        entry.artistId = (id ?? entry.artistId) as ArtistId;
+      }
+      const artistId = (id: ArtistId) => (own.get(id) ?? artistIds.get(id) ?? id) as ArtistId;
+      event.headlinerArtistId = artistId(event.headlinerArtistId);
+      event.artistIds = event.artistIds.map(artistId);
+      event.venueId = (venueIds.get(event.venueId) ?? event.venueId) as VenueId;
+      if (event.rescheduledTo) event.rescheduledTo = relink(event.rescheduledTo);
+      if (event.rescheduledFrom) event.rescheduledFrom = relink(event.rescheduledFrom);
+    }
+
+    for (const kind of KINDS) {
+      const live = new Set(Object.values(this.data[kind]).map((record) => record.slug));
+      this.data.redirects[kind] = IdRegistry.compress(this.data.redirects[kind], live);
+    }
+
+    for (const collision of result.collisions) {
+      const known = this.data.collisions.some((c) => c.kind === collision.kind && c.key === collision.key);
+      if (!known) this.data.collisions.push(collision);
+    }
+
+    return result;
+  }
+
+  /**
+   * Old slug -> current slug for each kind, for the router
+   */
+  redirects(): RedirectMap {
+    return {
+      events: { ...this.data.redirects.events },
+      artists: { ...this.data.redirects.artists },
+      venues: { ...this.data.redirects.venues },
+    };
+  }
+
+  toJSON(): IdRegistryData {
+    return this.data;
+  }
+
+  /**
+   * Match entities to records (by key, then by fallback key or the matcher),
+   * keep matched IDs and slugs, register the rest, and map the parser's IDs
+   * to the assigned ones
+   */
+  private assignKind(
+    kind: EntityKind,
+    entities: Keyed[],
+    result: IdAssignmentResult,
+    matcher?: (keyed: Keyed, unclaimed: Map<string, IdRecord>) => string | undefined
+  ): Map<number, number> {
+    const records = this.data[kind];
+    const matched = new Map<Keyed, string>(); // entity -> record key
+    const claimed = new Set<string>();
+
+    for (const keyed of entities) {
+      if (records[keyed.key] && !claimed.has(keyed.key)) {
+        matched.set(keyed, keyed.key);
+        claimed.add(keyed.key);
+      }
+    }
+
+    for (const keyed of entities) {
+      if (matched.has(keyed)) continue;
+      let recordKey = keyed.fallbacks.find((key) => records[key] && !claimed.has(key));
+      if (!recordKey && matcher) {
+        const unclaimed = new Map(Object.entries(records).filter(([key]) => !claimed.has(key)));
+        recordKey = matcher(keyed, unclaimed);
+      }
+      if (recordKey !== undefined) {
+        matched.set(keyed, recordKey);
+        claimed.add(recordKey);
+      }
+    }
+
+    // Matched entities keep their IDs and slugs first, so new ones work around them
+    const ordered = [...entities.filter((k) => matched.has(k)), ...entities.filter((k) => !matched.has(k))];
+    const takenIds = new Map<number, string>();
+    for (const [key, record] of Object.entries(records)) takenIds.set(record.id, key);
+    const usedSlugs = new Set<string>();
+    const remap = new Map<number, number>();
+    const next: Record<string, IdRecord> = {};
+
+    for (const keyed of ordered) {
+      const recordKey = matched.get(keyed);
+      const record = recordKey !== undefined ? records[recordKey] : undefined;
+
+      let id = record?.id ?? keyed.entity.id;
+      if (!record) {
+        const holder = takenIds.get(id);
+        if (holder !== undefined && holder !== keyed.key) {
+          const hash = id;
+          for (let n = 1; takenIds.has(id); n++) {
+            id = HashGenerator.generateId(`${kind}:${keyed.key}#${n}`);
+          }
+          result.collisions.push({ kind, key: keyed.key, takenBy: holder, hash, id });
+        }
+        result.created[kind]++;
+      }
+      takenIds.set(id, keyed.key);
+
+      const slug = IdRegistry.uniqueSlug(keyed.entity.slug, record?.slug, usedSlugs);
+      usedSlugs.add(slug);
+      if (record && record.slug !== slug) {
+        this.data.redirects[kind][record.slug] = slug;
+        result.renamed.push({ kind, from: record.slug, to: slug });
+      }
+
+      // A record matched under another key moves to the entity's current key
+      if (recordKey !== undefined && recordKey !== keyed.key) delete records[recordKey];
+      next[keyed.key] = { id, slug };
+      remap.set(keyed.entity.id, id);
+      keyed.entity.id = id;
+      keyed.entity.slug = slug;
+    }
+
+    // Unclaimed records under an entity's fallback keys were merged into it
+    for (const keyed of entities) {
+      for (const key of keyed.fallbacks) {
+        const merged = records[key];
+        if (!merged || claimed.has(key) || key === keyed.key) continue;
+        this.data.redirects[kind][merged.slug] = keyed.entity.slug;
+        delete records[key];
+      }
+    }
+
+    Object.assign(records, next);
+    return remap;
+  }
+
+  /**
+   * The one unclaimed record for the same date at the same venue or with the
+   * same headliner, when an event's venue or headliner was renamed
+   */
+  private static matchMovedEvent(key: string, unclaimed: Map<string, IdRecord>): string | undefined {
+    const [date, venue, headliner] = key.split("|");
+    const candidates = [...unclaimed.keys()].filter((candidate) => {
+      const [d, v, h] = candidate.split("|");
+      return d === date && (v === venue || h === headliner);
+    });
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * The registered slug while it's still a form of the fresh one ("foo",
+   * "foo-2"), otherwise the fresh slug with a suffix if another entity has it
+   */
+  private static uniqueSlug(fresh: string, registered: string | undefined, used: Set<string>): string {
+    if (registered && !used.has(registered) && (registered === fresh || registered.startsWith(`${fresh}-`))) {
+      const suffix = registered.slice(fresh.length + 1);
+      if (registered === fresh || /^\d+$/.test(suffix)) return registered;
+    }
+    let slug = fresh;
+    for (let n = 2; used.has(slug); n++) slug = `${fresh}-${n}`;
+    return slug;
+  }
+
+  /**
+   * Point every redirect straight at its final slug, dropping any whose old
+   * slug is live again
+   */
+  private static compress(redirects: Record<string, string>, live: Set<string>): Record<string, string> {
+    const compressed: Record<string, string> = {};
+    for (const from of Object.keys(redirects).sort()) {
+      if (live.has(from)) continue;
+      let to = redirects[from];
+      const seen = new Set([from]);
+      while (redirects[to] && !live.has(to) && !seen.has(to)) {
+        seen.add(to);
+        to = redirects[to];
+      }
+      if (to !== from) compressed[from] = to;
+    }
+    return compressed;
+  }
+
+  private static keysFor(
+    events: Event[],
+    artists: Artist[],
+    venues: Venue[],
+    venueAliases: Record<string, string> = {}
+  ): Record<EntityKind, Keyed[]> {
+    const artistNames = new Map(artists.map((artist) => [artist.id as number, artist.name]));
+    const venueNames = new Map(venues.map((venue) => [venue.id as number, venue.name]));
+
+    const variants = new Map<string, string[]>(); // canonical venue key -> variant keys
+    for (const [variant, canonical] of Object.entries(venueAliases)) {
+      const key = this.venueKey(canonical);
+      let list = variants.get(key);
+      if (!list) {
+        list = [];
+        variants.set(key, list);
+      }
+      list.push(this.venueKey(variant));
+    }
+
+    const keys: Record<EntityKind, Keyed[]> = {
+      artists: artists.map((artist) => {
+        const key = this.artistKey(artist.name);
+        const fallbacks = (artist.aliases ?? []).map((alias) => this.artistKey(alias));
+        return { key, fallbacks: [...new Set(fallbacks)].filter((k) => k !== key), entity: artist };
+      }),
+      venues: venues.map((venue) => {
+        const key = this.venueKey(venue.name);
+        return { key, fallbacks: (variants.get(key) ?? []).filter((k) => k !== key), entity: venue };
+      }),
+      events: events.map((event) => ({
+        key: this.eventKey(
+          event.date,
+          venueNames.get(event.venueId as number) ?? "",
+          artistNames.get(event.headlinerArtistId as number) ?? ""
+        ),
+        fallbacks: [],
+        entity: event,
+      })),
+    };
+
+    // Entities that share a key (two shows by a headliner on one night) take
+    // "#2", "#3" in listing order
+    for (const kind of KINDS) {
+      const seen = new Map<string, number>();
+      for (const keyed of keys[kind]) {
+        const count = (seen.get(keyed.key) ?? 0) + 1;
+        seen.set(keyed.key, count);
+        if (count > 1) keyed.key = `${keyed.key}#${count}`;
+      }
+    }
+    return keys;
+  }
+}
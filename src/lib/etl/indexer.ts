@@ -12,18 +12,24 @@ import type {
   CityInfo,
   PriceRangeInfo,
   SearchIndexInfo,
+  SearchDocument,
+  SearchTermIndex,
   ChunkInfo,
 } from "@/types/data.js";
-import { StringNormalizer } from "./utils.js";
+import { PriceUtils, StringNormalizer } from "./utils.js";
+import { Gazetteer } from "./gazetteer.js";
+import { Checksum } from "./checksum.js";
 
 export class DataIndexer {
   /**
-   * Build all indexes for efficient data access
+   * Build all indexes for efficient data access. indexedAt defaults to now;
+   * the ETL passes the listing's date so the same listing indexes identically
    */
   static buildIndexes(
     events: Event[],
     artists: Artist[],
-    venues: Venue[]
+    venues: Venue[],
+    indexedAt = Date.now()
   ): DataIndexes {
     const eventsByDate: Record<string, EventId[]> = {};
     const eventsByVenue: Record<VenueId, EventId[]> = {};
@@ -83,7 +89,7 @@ export class DataIndexer {
     const cities = this.buildCityInfo(events, venues);
     const ageRestrictions = this.extractAgeRestrictions(events);
     const priceRanges = this.buildPriceRangeInfo(events);
-    const searchIndex = this.buildSearchIndexInfo(events, artists, venues);
+    const searchIndex = this.buildSearchIndexInfo(events, artists, venues, indexedAt);
 
     return {
       eventsByDate,
@@ -144,11 +150,16 @@ export class DataIndexer {
     }
 
     return Object.entries(cityStats)
-      .map(([city, stats]) => ({
-        name: city,
-        slug: StringNormalizer.createSlug(city),
-        ...stats,
-      }))
+      .map(([city, stats]) => {
+        const locality = Gazetteer.lookup(city);
+        return {
+          name: city,
+          slug: locality?.slug ?? StringNormalizer.createSlug(city),
+          county: locality?.county,
+          region: locality?.region,
+          ...stats,
+        };
+      })
       .sort((a, b) => b.eventCount - a.eventCount);
   }
 
@@ -161,35 +172,43 @@ export class DataIndexer {
   }
 
   private static buildPriceRangeInfo(events: Event[]): PriceRangeInfo {
-    const prices: number[] = [];
+    // Each event is bucketed once, by its cheapest way in
+    const entries: number[] = [];
+    const highs: number[] = [];
     let free = 0;
+    let payWhatYouCan = 0;
 
     for (const event of events) {
-      if (event.isFree) {
+      const price = PriceUtils.fromEvent(event);
+      if (price.isDonation || price.isSlidingScale) payWhatYouCan++;
+      if (price.isFree) {
         free++;
-      } else {
-        if (event.priceMin !== undefined) prices.push(event.priceMin);
-        if (event.priceMax !== undefined) prices.push(event.priceMax);
+        continue;
       }
+      const entry = PriceUtils.entryPrice(price);
+      if (entry === undefined) continue;
+      entries.push(entry);
+      highs.push(price.max ?? entry);
     }
 
-    if (prices.length === 0) {
+    if (entries.length === 0) {
       return {
         min: 0,
         max: 0,
-        buckets: { free, under20: 0, under50: 0, under100: 0, over100: 0 },
+        buckets: { free, under20: 0, under50: 0, under100: 0, over100: 0, payWhatYouCan },
       };
     }
 
-    const min = Math.min(...prices);
-    const max = Math.max(...prices);
+    const min = Math.min(...entries);
+    const max = Math.max(...highs);
 
     const buckets = {
       free,
-      under20: prices.filter((p) => p > 0 && p < 20).length,
-      under50: prices.filter((p) => p >= 20 && p < 50).length,
-      under100: prices.filter((p) => p >= 50 && p < 100).length,
-      over100: prices.filter((p) => p >= 100).length,
+      under20: entries.filter((p) => p < 20).length,
+      under50: entries.filter((p) => p >= 20 && p < 50).length,
+      under100: entries.filter((p) => p >= 50 && p < 100).length,
+      over100: entries.filter((p) => p >= 100).length,
+      payWhatYouCan,
     };
 
     return { min, max, buckets };
@@ -198,16 +217,17 @@ export class DataIndexer {
   private static buildSearchIndexInfo(
     events: Event[],
     artists: Artist[],
-    venues: Venue[]
+    venues: Venue[],
+    indexedAt: number
   ): SearchIndexInfo {
     const totalDocuments = events.length + artists.length + venues.length;
-    const fields = ["name", "description", "city", "tags"];
+    const fields = ["name", "lineup", "venue", "city", "tags", "notes", "description"];
 
     // Rough estimate of index size (will be more accurate after actual indexing)
     const estimatedSize = totalDocuments * 200; // bytes per document average
 
     return {
-      indexedAt: Date.now(),
+      indexedAt,
       totalDocuments,
       fields,
       size: estimatedSize,
@@ -217,9 +237,10 @@ export class DataIndexer {
 
 export class DataChunker {
   /**
-   * Split events into monthly chunks for efficient loading
+   * Split events into monthly chunks for efficient loading; checksumOf hashes
+   * each chunk file as written (FileChecksum.of in the ETL)
    */
-  static chunkEventsByMonth(events: Event[]): {
+  static chunkEventsByMonth(events: Event[], checksumOf: (text: string) => string): {
     chunks: EventChunk[];
     chunkInfos: ChunkInfo[];
   } {
@@ -254,10 +275,10 @@ export class DataChunker {
 
       chunks.push(chunk);
 
-      // Calculate chunk size estimate (JSON serialized)
-      const serialized = JSON.stringify(chunk);
+      // Size and checksum of the chunk file as written
+      const serialized = Checksum.serialize(chunk);
       const size = new Blob([serialized]).size;
-      const checksum = this.calculateChecksum(serialized);
+      const checksum = checksumOf(serialized);
 
       chunkInfos.push({
         filename: `events-${yearMonth}.json`,
@@ -277,24 +298,12 @@ export class DataChunker {
 
     return { chunks, chunkInfos };
   }
-
-  /**
-   * Calculate simple checksum for data integrity
-   */
-  private static calculateChecksum(data: string): string {
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return `sha256-${Math.abs(hash).toString(16)}`;
-  }
 }
 
 export class SearchIndexBuilder {
   /**
-   * Build search index data structure (simplified - full implementation would use proper search library)
+   * Build the full-text search index: one document per event, artist and venue,
+   * plus postings of [document id, term frequency] per term
    */
   static buildSearchIndex(
     events: Event[],
@@ -302,113 +311,124 @@ export class SearchIndexBuilder {
     venues: Venue[]
   ): {
     documents: SearchDocument[];
-    terms: Record<string, number[]>; // term -> document IDs
+    terms: SearchTermIndex;
   } {
     const documents: SearchDocument[] = [];
-    const terms: Record<string, number[]> = {};
+    const terms: SearchTermIndex = {};
+    const artistById = new Map(artists.map((a) => [a.id, a]));
+    const venueById = new Map(venues.map((v) => [v.id, v]));
 
     let docId = 0;
 
-    // Index events
+    // Index events with their whole lineup, notes and tags
     for (const event of events) {
-      const venue = venues.find((v) => v.id === event.venueId);
-      const headliner = artists.find((a) => a.id === event.headlinerArtistId);
-
-      const doc: SearchDocument = {
-        id: docId++,
-        type: "event",
-        entityId: String(event.id),
-        title: headliner?.name || "Unknown Artist",
-        content: [
-          headliner?.name || "",
-          venue?.name || "",
-          venue?.city || "",
-          event.tags.join(" "),
-          event.notes || "",
-        ]
-          .filter(Boolean)
-          .join(" "),
-        city: venue?.city || "",
-        date: event.date,
-        tags: event.tags,
-      };
-
-      documents.push(doc);
-      this.indexDocument(doc, terms);
+      const venue = venueById.get(event.venueId);
+      const headliner = artistById.get(event.headlinerArtistId);
+      const lineup = event.artistIds
+        .filter((id) => id !== event.headlinerArtistId)
+        .map((id) => artistById.get(id)?.name || "");
+
+      documents.push(
+        this.indexDocument(
+          {
+            id: docId++,
+            type: "event",
+            entityId: String(event.id),
+            title: headliner?.name || "Unknown Artist",
+            content: [
+              ...lineup,
+              venue?.name || "",
+              venue?.city || "",
+              event.tags.join(" "),
+              ...(event.lineup ?? []).flatMap((entry) => entry.annotations.map((a) => a.text)),
+              event.notes || "",
+              event.description || "",
+            ]
+              .filter(Boolean)
+              .join(" "),
+            city: venue?.city || "",
+            date: event.date,
+            tags: event.tags,
+          },
+          terms
+        )
+      );
     }
 
     // Index artists
     for (const artist of artists) {
-      const doc: SearchDocument = {
-        id: docId++,
-        type: "artist",
-        entityId: String(artist.id),
-        title: artist.name,
-        content: [artist.name, ...artist.aliases].join(" "),
-        city: "", // Artists don't have cities
-        date: "",
-        tags: [],
-      };
-
-      documents.push(doc);
-      this.indexDocument(doc, terms);
+      documents.push(
+        this.indexDocument(
+          {
+            id: docId++,
+            type: "artist",
+            entityId: String(artist.id),
+            title: artist.name,
+            content: artist.aliases.join(" "),
+            city: "", // Artists don't have cities
+            date: "",
+            tags: [],
+          },
+          terms
+        )
+      );
     }
 
     // Index venues
     for (const venue of venues) {
-      const doc: SearchDocument = {
-        id: docId++,
-        type: "venue",
-        entityId: String(venue.id),
-        title: venue.name,
-        content: [
-          venue.name,
-          venue.address,
-          venue.city,
-          venue.neighborhood || "",
-        ]
-          .filter(Boolean)
-          .join(" "),
-        city: venue.city,
-        date: "",
-        tags: [],
-      };
-
-      documents.push(doc);
-      this.indexDocument(doc, terms);
+      documents.push(
+        this.indexDocument(
+          {
+            id: docId++,
+            type: "venue",
+            entityId: String(venue.id),
+            title: venue.name,
+            content: [venue.address, venue.city, venue.neighborhood || ""]
+              .filter(Boolean)
+              .join(" "),
+            city: venue.city,
+            date: "",
+            tags: [],
+          },
+          terms
+        )
+      );
     }
 
     return { documents, terms };
   }
 
-  private static indexDocument(
-    doc: SearchDocument,
-    terms: Record<string, number[]>
-  ): void {
-    const text = (doc.title + " " + doc.content).toLowerCase();
-    const words = text.match(/\b\w+\b/g) || [];
-
-    for (const word of words) {
-      if (word.length < 3) continue; // Skip very short words
+  /**
+   * Split text into lowercase ASCII terms; shared with the client query side
+   */
+  static tokenize(text: string): string[] {
+    return (
+      text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .match(/[a-z0-9]+/g) || []
+    ).filter((term) => term.length >= 2);
+  }
 
-      if (!terms[word]) {
-        terms[word] = [];
-      }
+  private static indexDocument(
+    doc: Omit<SearchDocument, "length">,
+    terms: SearchTermIndex
+  ): SearchDocument {
+    const tokens = this.tokenize(doc.title + " " + doc.content);
+    const frequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
 
-      if (!terms[word].includes(doc.id)) {
-        terms[word].push(doc.id);
+    for (const [term, frequency] of frequencies) {
+      if (!Object.prototype.hasOwnProperty.call(terms, term)) {
+        terms[term] = [];
       }
+      terms[term].push([doc.id, frequency]);
     }
-  }
-}
 
-interface SearchDocument {
-  id: number;
-  type: "event" | "artist" | "venue";
-  entityId: string;
-  title: string;
-  content: string;
-  city: string;
-  date: string;
-  tags: string[];
+    return { ...doc, length: tokens.length };
+  }
 }
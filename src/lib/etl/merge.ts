@@ -0,0 +1,369 @@
+/**
+ * Merge of a latest.txt edition into events.txt and venues.txt
+ * Works on file contents and returns the new ones with a report of what
+ * changed, so a dry run can show the diff before anything is written
+ */
+
+import { EventSanitizer } from "./sanitizer.js";
+import { normalizeLatestContent } from "./latest-content.js";
+import { ClubInfoParser } from "./club-info.js";
+import { StringNormalizer } from "./utils.js";
+import { CorrectionEngine, type CorrectionRule } from "./corrections.js";
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const WEEKDAYS: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+const DATE_PREFIX = /^([a-z]{3})\s+(\d{1,2})\s+(?:(\d{4})|([a-z]{2,3}))\s+/i;
+const PRICE = /\$\d+(?:\.\d{2})?(?:\/\$?\d+(?:\.\d{2})?)*(?:\+)?|\bfree\b/gi;
+
+// Undated months more than this far in the past belong to next year, as in DateParser
+const PAST_WINDOW_MS = 180 * 24 * 60 * 60 * 1000;
+
+export interface MergeInput {
+  latestContent: string; // raw latest.txt
+  eventsContent: string;
+  venuesContent: string;
+  aliases: Record<string, string>; // venue-aliases.json
+  corrections: CorrectionRule[]; // line-corrections.json
+  referenceDate?: Date; // "today" for year stamping
+}
+
+export interface ChangedEntry {
+  date: string; // YYYY-MM-DD
+  venue: string;
+  before: string; // the events.txt line it replaces
+  after: string;
+  differences: ("lineup" | "price")[];
+}
+
+export interface YearAmbiguousEntry {
+  entry: string; // as stamped
+  year: number;
+  reason: string;
+}
+
+export interface MergeReport {
+  generatedAt: string;
+  referenceDate: string;
+  latestEntries: number;
+  existingEntries: number;
+  correctedEntries: number;
+  added: string[];
+  duplicates: string[];
+  changed: ChangedEntry[];
+  yearAmbiguous: YearAmbiguousEntry[];
+  venues: {
+    clubInfoAdded: string[];
+    clubInfoUpdated: string[];
+    stubs: string[];
+  };
+}
+
+export interface MergeResult {
+  eventsContent: string;
+  venuesContent: string;
+  eventsChanged: boolean;
+  venuesChanged: boolean;
+  report: MergeReport;
+}
+
+interface DatedEntry {
+  line: string;
+  date: string; // YYYY-MM-DD
+  venue: string | null; // normalized, after aliases
+}
+
+export class LatestMerger {
+  /**
+   * Fold the edition into the data files. New entries get an explicit year;
+   * an entry for the same date and venue as exactly one existing entry, with
+   * a different lineup or price, replaces it when it's the edition's only
+   * entry for that night.
+   */
+  static merge(input: MergeInput): MergeResult {
+    const referenceDate = input.referenceDate ?? new Date();
+    const corrections = CorrectionEngine.load(input.corrections);
+
+    // Collapse latest.txt to single-line entries, then apply corrections
+    const latestContent = normalizeLatestContent(input.latestContent);
+    const rawEntries = EventSanitizer.collapseToSingleLines(latestContent);
+    const newEntries = rawEntries.map((entry) => corrections.apply(entry, "latest.txt"));
+
+    // Existing entries get the same corrections so they dedupe consistently
+    const existingEntries = EventSanitizer.collapseToSingleLines(input.eventsContent).map((entry) =>
+      corrections.apply(entry, "events.txt")
+    );
+    const existingKeys = new Set(existingEntries.map((line) => this.dedupeKey(line)));
+
+    const report: MergeReport = {
+      generatedAt: new Date().toISOString(),
+      referenceDate: referenceDate.toISOString(),
+      latestEntries: newEntries.length,
+      existingEntries: existingEntries.length,
+      correctedEntries: rawEntries.filter((entry, i) => entry !== newEntries[i]).length,
+      added: [],
+      duplicates: [],
+      changed: [],
+      yearAmbiguous: [],
+      venues: { clubInfoAdded: [], clubInfoUpdated: [], stubs: [] },
+    };
+
+    const existingBySlot = this.groupBySlot(
+      existingEntries.map((line) => this.dated(line, this.explicitYear(line), input.aliases))
+    );
+
+    const edition: DatedEntry[] = []; // every entry, duplicates included
+    const incoming: DatedEntry[] = [];
+    for (const entry of newEntries) {
+      const year = this.resolveYear(entry, referenceDate);
+      const dated = this.dated(this.stampYear(entry, year), year, input.aliases);
+      edition.push(dated);
+      if (existingKeys.has(this.dedupeKey(entry))) {
+        report.duplicates.push(entry);
+        continue;
+      }
+
+      const reason = this.yearAmbiguity(entry, year);
+      if (reason) report.yearAmbiguous.push({ entry: dated.line, year, reason });
+      incoming.push(dated);
+    }
+
+    // Same date and venue, one old entry and one in the edition: the edition
+    // updated the show. Slots count the edition's unchanged entries too, so a
+    // second show added to a night that's already listed doesn't replace it.
+    const editionBySlot = this.groupBySlot(edition);
+    const replaced = new Map<string, string>(); // old line -> new line
+    for (const entry of incoming) {
+      const slot = this.slotKey(entry);
+      const before = slot ? existingBySlot.get(slot) : undefined;
+      if (!slot || before?.length !== 1 || editionBySlot.get(slot)?.length !== 1) {
+        report.added.push(entry.line);
+        continue;
+      }
+
+      const differences = this.differences(before[0].line, entry.line);
+      replaced.set(before[0].line, entry.line);
+      report.changed.push({
+        date: entry.date,
+        venue: this.extractVenueName(entry.line, input.aliases) ?? "",
+        before: before[0].line,
+        after: entry.line,
+        differences,
+      });
+    }
+
+    const eventsChanged = incoming.length > 0;
+    let eventsContent = input.eventsContent;
+    if (eventsChanged) {
+      // Chronological, so events.txt stays readable
+      const allEntries = [
+        ...existingEntries.map((line) => replaced.get(line) ?? line),
+        ...report.added,
+      ];
+      allEntries.sort((a, b) => this.sortKey(a) - this.sortKey(b));
+      eventsContent = allEntries.join("\n") + "\n";
+    }
+
+    // Each edition lists every venue's address, ages, phone and notes
+    let venuesContent = input.venuesContent;
+    const clubInfo = ClubInfoParser.collapse(ClubInfoParser.extractSection(latestContent));
+    if (clubInfo.length > 0) {
+      const update = ClubInfoParser.updateRegistry(venuesContent, clubInfo);
+      report.venues.clubInfoAdded = update.added;
+      report.venues.clubInfoUpdated = update.updated;
+      if (update.added.length + update.updated.length > 0) venuesContent = update.content;
+    }
+
+    // Stub in venues the new entries use that venues.txt still doesn't list
+    const knownVenues = new Set(
+      venuesContent
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => StringNormalizer.normalizeName(line.split(",")[0]))
+    );
+    const stubs = new Set<string>();
+    for (const entry of incoming) {
+      const name = this.extractVenueName(entry.line, input.aliases);
+      if (name && !knownVenues.has(StringNormalizer.normalizeName(name))) stubs.add(name);
+    }
+    report.venues.stubs = [...stubs].sort();
+    if (stubs.size > 0) {
+      venuesContent =
+        venuesContent.trimEnd() + "\n" + report.venues.stubs.map((name) => `${name},,,,`).join("\n") + "\n";
+    }
+
+    return {
+      eventsContent,
+      venuesContent,
+      eventsChanged,
+      venuesChanged: venuesContent !== input.venuesContent,
+      report,
+    };
+  }
+
+  /**
+   * The report for the terminal
+   */
+  static formatReport(report: MergeReport, dryRun = false): string {
+    const lines: string[] = [];
+    const section = (title: string, items: string[]) => {
+      lines.push("", `${title} (${items.length})`);
+      lines.push(...(items.length > 0 ? items.map((item) => `   ${item}`) : ["   (none)"]));
+    };
+
+    lines.push(dryRun ? "🔎 Dry run — no files written" : "🔀 Merge");
+    lines.push(
+      `📖 ${report.latestEntries} entries in latest.txt, ${report.existingEntries} in events.txt` +
+        (report.correctedEntries > 0 ? ` (${report.correctedEntries} corrected)` : "")
+    );
+
+    section("✨ Added", report.added.map((line) => `+ ${line}`));
+    section(
+      "✏️  Changed",
+      report.changed.flatMap((change) => [
+        `~ ${change.date} ${change.venue} [${change.differences.join(", ") || "details"}]`,
+        `    - ${change.before}`,
+        `    + ${change.after}`,
+      ])
+    );
+    section(
+      "📅 Year-ambiguous",
+      report.yearAmbiguous.flatMap((entry) => [`? ${entry.entry}`, `    ${entry.reason}`])
+    );
+    lines.push("", `⏭️  Skipped ${report.duplicates.length} duplicate(s) already in events.txt`);
+
+    section("🏛️  Club info: added", report.venues.clubInfoAdded.map((name) => `+ ${name}`));
+    section("🏛️  Club info: updated", report.venues.clubInfoUpdated.map((name) => `~ ${name}`));
+    section("🏛️  New venue stubs", report.venues.stubs.map((name) => `+ ${name},,,,`));
+
+    return lines.join("\n");
+  }
+
+  // Same line whether or not the date carries a year or a day of the week
+  private static dedupeKey(line: string): string {
+    return line.replace(/^([a-z]{3}\s+\d{1,2})\s+(?:\d{4}|[a-z]{2,3})\s+/i, "$1 ");
+  }
+
+  /**
+   * "may 1 fri Artist..." -> "may 1 2026 Artist..."; lines that already
+   * carry a year are left as they are
+   */
+  private static stampYear(line: string, year: number): string {
+    if (/^[a-z]{3}\s+\d{1,2}\s+\d{4}\b/i.test(line)) return line;
+    return line.replace(/^([a-z]{3}\s+\d{1,2})\s+[a-z]{2,3}\s+/i, (_, datePart) => `${datePart} ${year} `);
+  }
+
+  // A month more than six months past is next year's
+  private static resolveYear(line: string, referenceDate: Date): number {
+    const explicit = this.explicitYear(line);
+    if (explicit) return explicit;
+
+    const m = line.match(/^([a-z]{3})\s+(\d{1,2})\s+/i);
+    const refYear = referenceDate.getFullYear();
+    if (!m) return refYear;
+
+    const candidate = new Date(refYear, (MONTHS[m[1].toLowerCase()] ?? 1) - 1, parseInt(m[2], 10));
+    return candidate.getTime() < referenceDate.getTime() - PAST_WINDOW_MS ? refYear + 1 : refYear;
+  }
+
+  /**
+   * Why the stamped year may be wrong: the listed day of the week doesn't
+   * fall on that date, or fits the other year instead
+   */
+  private static yearAmbiguity(line: string, year: number): string | null {
+    const m = line.match(DATE_PREFIX);
+    const weekday = m?.[4] ? WEEKDAYS[m[4].toLowerCase().slice(0, 3)] : undefined;
+    if (!m || weekday === undefined) return null;
+
+    const month = MONTHS[m[1].toLowerCase()];
+    const day = parseInt(m[2], 10);
+    const dayOfWeek = (y: number) => {
+      const date = new Date(Date.UTC(y, month - 1, day));
+      return date.getUTCMonth() === month - 1 ? date.getUTCDay() : -1;
+    };
+
+    if (dayOfWeek(year) === weekday) return null;
+    for (const other of [year + 1, year - 1]) {
+      if (dayOfWeek(other) === weekday) {
+        return `${m[4]} falls on ${m[1]} ${day} in ${other}, not ${year}`;
+      }
+    }
+    return `${m[4]} doesn't fall on ${m[1]} ${day} in ${year - 1}-${year + 1}`;
+  }
+
+  private static explicitYear(line: string): number | undefined {
+    const m = line.match(DATE_PREFIX);
+    return m?.[3] ? parseInt(m[3], 10) : undefined;
+  }
+
+  private static dated(line: string, year: number | undefined, aliases: Record<string, string>): DatedEntry {
+    const m = line.match(DATE_PREFIX);
+    const month = m ? MONTHS[m[1].toLowerCase()] : undefined;
+    const venue = this.extractVenueName(line, aliases);
+    return {
+      line,
+      date:
+        m && month && year
+          ? `${year}-${String(month).padStart(2, "0")}-${m[2].padStart(2, "0")}`
+          : "",
+      venue: venue ? StringNormalizer.normalizeName(venue) : null,
+    };
+  }
+
+  private static slotKey(entry: DatedEntry): string | null {
+    return entry.date && entry.venue ? `${entry.date}|${entry.venue}` : null;
+  }
+
+  private static groupBySlot(entries: DatedEntry[]): Map<string, DatedEntry[]> {
+    const bySlot = new Map<string, DatedEntry[]>();
+    for (const entry of entries) {
+      const slot = this.slotKey(entry);
+      if (!slot) continue;
+      let list = bySlot.get(slot);
+      if (!list) {
+        list = [];
+        bySlot.set(slot, list);
+      }
+      list.push(entry);
+    }
+    return bySlot;
+  }
+
+  private static differences(before: string, after: string): ("lineup" | "price")[] {
+    const lineup = (line: string) =>
+      line
+        .replace(DATE_PREFIX, "")
+        .split(" at ")[0]
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim();
+    const price = (line: string) => (line.match(PRICE) ?? []).join(" ").toLowerCase();
+
+    const differences: ("lineup" | "price")[] = [];
+    if (lineup(before) !== lineup(after)) differences.push("lineup");
+    if (price(before) !== price(after)) differences.push("price");
+    return differences;
+  }
+
+  /**
+   * Venue name from a single-line entry, through the aliases; null without " at "
+   */
+  private static extractVenueName(line: string, aliases: Record<string, string>): string | null {
+    const atIndex = line.indexOf(" at ");
+    if (atIndex === -1) return null;
+    const afterAt = line.slice(atIndex + 4);
+    const commaIndex = afterAt.indexOf(",");
+    const name = (commaIndex === -1 ? afterAt : afterAt.slice(0, commaIndex)).trim();
+    if (!name) return null;
+    return aliases[name.toLowerCase()] || name;
+  }
+
+  // YYYYMMDD for lines with a year; others sort first
+  private static sortKey(line: string): number {
+    const m = line.match(/^([a-z]{3})\s+(\d{1,2})\s+(\d{4})/i);
+    if (!m) return 0;
+    return parseInt(m[3], 10) * 10000 + (MONTHS[m[1].toLowerCase()] ?? 0) * 100 + parseInt(m[2], 10);
+  }
+}
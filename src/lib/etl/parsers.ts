@@ -9,14 +9,20 @@ import type {
   EventId,
   ArtistId,
   VenueId,
+  Performance,
+  LineupEntry,
 } from "@/types/events.js";
 import {
   DateParser,
+  EventStatusParser,
+  LineupParser,
   StringNormalizer,
   VenueLineParser,
   DeduplicationUtils,
   HashGenerator,
 } from "./utils.js";
+import { Gazetteer } from "./gazetteer.js";
+import { ArtistResolver } from "./artists.js";
 
 export class EventParser {
   /**
@@ -139,7 +145,8 @@ export class EventParser {
     rawEvents: RawEventData[],
     artistMap: Map<string, Artist>,
     venueMap: Map<string, Venue>,
-    venueAliases: Record<string, string> = {}
+    venueAliases: Record<string, string> = {},
+    artistResolver: ArtistResolver = new ArtistResolver()
   ): {
     events: Event[];
     errors: ParseError[];
@@ -149,6 +156,7 @@ export class EventParser {
     const errors: ParseError[] = [];
     const warnings: ParseWarning[] = [];
     const eventKeys = new Set<string>();
+    const eventsByKey = new Map<string, Event>();
     // Seed just before the first event in the file. latest.txt starts Apr 2026.
     let lastDateEpochMs: number = new Date(2026, 2, 1).getTime(); // Mar 1 2026
 
@@ -176,8 +184,13 @@ export class EventParser {
           continue;
         }
 
+        // "CANCELLED: The Adicts, ..." names the status, not an artist
+        const listing = this.extractListingStatus(rawEvent.artistLine);
+        const listedStatus = listing.status ?? venueInfo.status;
+
         // Parse artists
-        const artistNames = this.parseArtistNames(rawEvent.artistLine);
+        const acts = this.parseLineup(listing.artistLine);
+        const artistNames = acts.map((act) => act.name);
         if (artistNames.length === 0) {
           errors.push({
             line: rawEvent.lineNumber,
@@ -210,6 +223,13 @@ export class EventParser {
         );
 
         if (eventKeys.has(eventKey)) {
+          // A later "CANCELLED:" line for a show already listed updates that show
+          const existing = eventsByKey.get(eventKey);
+          if (existing && listedStatus) {
+            existing.status = listedStatus;
+            existing.updatedAtEpochMs = Date.now();
+            continue;
+          }
           warnings.push({
             line: rawEvent.lineNumber,
             message: `Duplicate event detected: ${headliner} at ${venueInfo.venue}`,
@@ -220,23 +240,22 @@ export class EventParser {
         }
         eventKeys.add(eventKey);
 
-        // Find or create artists
+        // Find or create artists — spellings that fold together share one artist
         const artistIds: ArtistId[] = [];
-        for (const artistName of artistNames) {
-          const normalizedName = StringNormalizer.normalizeName(artistName);
-          let artist = [...artistMap.values()].find(
-            (a) => a.normalizedName === normalizedName
-          );
+        const lineup: LineupEntry[] = [];
+        for (const [order, { name: artistName, featuring }] of acts.entries()) {
+          const identity = artistResolver.resolve(artistName);
+          let artist = artistMap.get(identity.key);
 
           if (!artist) {
             const artistId = HashGenerator.generateArtistId(
-              artistName
+              identity.name
             ) as ArtistId;
             artist = {
               id: artistId,
-              name: artistName.trim(),
-              slug: StringNormalizer.createSlug(artistName),
-              normalizedName,
+              name: identity.name,
+              slug: StringNormalizer.createSlug(identity.name),
+              normalizedName: StringNormalizer.normalizeName(identity.name),
               aliases: [],
               upcomingEventCount: 0,
               totalEventCount: 0,
@@ -244,10 +263,15 @@ export class EventParser {
               createdAtEpochMs: Date.now(),
               updatedAtEpochMs: Date.now(),
             };
-            artistMap.set(normalizedName, artist);
+            artistMap.set(identity.key, artist);
           }
 
           artistIds.push(artist.id);
+          const entry = LineupParser.parseAct(artistName, order);
+          if (featuring) {
+            entry.annotations.push({ type: "featuring", text: `feat. ${featuring}`, subject: featuring });
+          }
+          lineup.push({ artistId: artist.id, name: artist.name, order, ...entry });
           artist.totalEventCount++;
           artist.updatedAtEpochMs = Date.now();
         }
@@ -286,22 +310,24 @@ export class EventParser {
         venue.totalEventCount++;
         venue.updatedAtEpochMs = Date.now();
 
-        // Create time strings if available
-        let startTimeEpochMs: number | undefined;
-        if (venueInfo.time.startTime) {
-          const [hours, minutes] = venueInfo.time.startTime
-            .split(":")
-            .map(Number);
-          // Build time as UTC using the date components from parsedDate.date (YYYY-MM-DD).
-          // This avoids local-timezone skew — show times are Bay Area local but we store
-          // them as UTC offsets from midnight of the event date.
-          const [y, m, d] = parsedDate.date.split("-").map(Number);
-          startTimeEpochMs = Date.UTC(y, m - 1, d, hours, minutes, 0);
-        }
+        // Build times as UTC using the date components from parsedDate.date (YYYY-MM-DD).
+        // This avoids local-timezone skew — show times are Bay Area local but we store
+        // them as UTC offsets from midnight of the event date.
+        const toEpochMs = (time: string, after?: string) =>
+          DateParser.toEpochMs(parsedDate.date, time, after);
+
+        const performances: Performance[] = venueInfo.performances.map((p) => ({
+          ...p,
+          showTimeEpochMs: toEpochMs(p.showTime),
+          ...(p.endTime ? { endTimeEpochMs: toEpochMs(p.endTime, p.showTime) } : {}),
+        }));
+        const { startTime, doorTime, endTime } = venueInfo.time;
+        const startTimeEpochMs = startTime ? toEpochMs(startTime) : undefined;
 
         // Determine event status
         let status: Event["status"] = "confirmed";
         if (venueInfo.tags.includes("sold-out")) status = "sold-out";
+        if (listedStatus) status = listedStatus;
 
         // Create event
         const event: Event = {
@@ -317,22 +343,33 @@ export class EventParser {
           dateEpochMs: parsedDate.epochMs,
           startTimeEpochMs,
           timezone: "America/Los_Angeles",
+          doorsTime: doorTime,
+          showTime: startTime,
+          endTime,
+          doorsTimeEpochMs: doorTime ? toEpochMs(doorTime) : undefined,
+          showTimeEpochMs: startTimeEpochMs,
+          endTimeEpochMs: endTime ? toEpochMs(endTime, startTime ?? doorTime) : undefined,
+          performances,
 
           headlinerArtistId: artistIds[0],
           artistIds,
+          lineup,
 
           venueId: venue.id,
 
           priceMin: venueInfo.price.min,
           priceMax: venueInfo.price.max,
           isFree: venueInfo.price.isFree,
+          price: venueInfo.price,
           ageRestriction: venueInfo.ageRestriction,
 
           notes: venueInfo.notes,
 
           status,
+          ...(venueInfo.movedFrom ? { movedFrom: venueInfo.movedFrom } : {}),
           tags: venueInfo.tags,
           venueType: venueInfo.venueType,
+          advisories: venueInfo.advisories,
 
           createdAtEpochMs: Date.now(),
           updatedAtEpochMs: Date.now(),
@@ -343,6 +380,7 @@ export class EventParser {
         const dedupeKey = `${parsedDate.date}-${event.headlinerArtistId}-${event.venueId}`;
         if (!eventKeys.has(dedupeKey)) {
           eventKeys.add(dedupeKey);
+          eventsByKey.set(eventKey, event);
           lastDateEpochMs = parsedDate.epochMs;
           events.push(event);
         }
@@ -356,32 +394,156 @@ export class EventParser {
       }
     }
 
+    this.linkVenueMoves(events, venueMap, venueAliases);
+    artistResolver.finalize(artistMap);
+
     return { events, errors, warnings };
   }
 
-  private static parseArtistNames(artistLine: string): string[] {
-    // Split by commas, handling some edge cases
+  /**
+   * Mark shows that a newer list edition no longer carries. Events dated within the
+   * edition's range that it doesn't list are rescheduled when the edition has the
+   * headliner at the same venue on another night, and otherwise cancelled. A show
+   * whose venue or headliner is still listed that night was only edited.
+   */
+  static reconcileEdition(
+    events: Event[],
+    editionEvents: Event[],
+    editionDate: string
+  ): { cancelled: number; rescheduled: number } {
+    const result = { cancelled: 0, rescheduled: 0 };
+    if (editionEvents.length === 0) return result;
+
+    const lastDate = editionEvents.reduce(
+      (last, e) => (e.date > last ? e.date : last),
+      editionDate
+    );
+    const listedIds = new Set(editionEvents.map((e) => e.id));
+    const listedNights = new Set(editionEvents.map((e) => `${e.date}-${e.venueId}`));
+    const eventsById = new Map(events.map((e) => [e.id, e]));
+    const editionLabel = new Date(`${editionDate}T12:00:00Z`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+
+    for (const event of events) {
+      if (event.date < editionDate || event.date > lastDate) continue;
+      if (listedIds.has(event.id) || listedNights.has(`${event.date}-${event.venueId}`)) continue;
+      if (event.status === "cancelled" || event.status === "rescheduled") continue;
+
+      // The headliner still playing that night means the listing was only edited
+      const headlining = editionEvents.filter((e) =>
+        e.artistIds.includes(event.headlinerArtistId)
+      );
+      if (headlining.some((e) => e.date === event.date)) continue;
+
+      // A new date at the same venue is a reschedule; anywhere else is another show
+      const target = headlining
+        .filter((e) => e.venueId === event.venueId)
+        .map((e) => eventsById.get(e.id))
+        .find((e): e is Event => e !== undefined && e.status !== "cancelled");
+
+      if (target) {
+        this.linkReschedule(event, target);
+        result.rescheduled++;
+      } else {
+        event.status = "cancelled";
+        event.statusNote = `Dropped from the ${editionLabel} list`;
+        result.cancelled++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * "(moved from the Regency Ballroom, S.F.)" links the new listing to the one it
+   * replaces: same night, a shared artist, at the venue named in the note
+   */
+  private static linkVenueMoves(
+    events: Event[],
+    venueMap: Map<string, Venue>,
+    venueAliases: Record<string, string>
+  ): void {
+    const venueNames = new Map(
+      [...venueMap.values()].map((v) => [v.id, v.normalizedName])
+    );
+
+    for (const event of events) {
+      if (!event.movedFrom) continue;
+      const fromName = StringNormalizer.normalizeName(
+        venueAliases[event.movedFrom.toLowerCase()] ?? event.movedFrom
+      );
+
+      const original = events.find(
+        (e) =>
+          e !== event &&
+          e.date === event.date &&
+          venueNames.get(e.venueId) === fromName &&
+          e.artistIds.some((id) => event.artistIds.includes(id))
+      );
+      if (original) this.linkReschedule(original, event);
+    }
+  }
+
+  private static linkReschedule(from: Event, to: Event): void {
+    from.status = "rescheduled";
+    from.rescheduledTo = { id: to.id, slug: to.slug, date: to.date };
+    to.rescheduledFrom = { id: from.id, slug: from.slug, date: from.date };
+  }
+
+  /**
+   * Split a "CANCELLED:" / "POSTPONED:" prefix or a "(postponed)" note off an artist line
+   */
+  private static extractListingStatus(artistLine: string): {
+    status?: "cancelled" | "postponed";
+    artistLine: string;
+  } {
+    const prefixed = EventStatusParser.stripPrefix(artistLine);
+    let status = prefixed.status;
+    const line = prefixed.text.replace(/\s*\(([^)]*)\)/g, (note, text: string) => {
+      const noteStatus = EventStatusParser.parse(text);
+      if (!noteStatus) return note;
+      status ??= noteStatus;
+      return "";
+    });
+    return { status, artistLine: line.trim() };
+  }
+
+  /**
+   * Acts in billing order; "X feat. Y" lists both, with Y as X's guest
+   */
+  private static parseLineup(artistLine: string): { name: string; featuring?: string }[] {
+    // Split by commas outside parentheses, so "Black Flag (Greg Ginn, ...)"
+    // stays one act
     const artists = artistLine
-      .split(",")
+      .split(/,(?![^(]*\))/)
       .map((name) => name.trim())
       .filter((name) => name.length > 0);
 
     // Handle "feat." and "with" patterns
-    const processed: string[] = [];
+    const processed: { name: string; featuring?: string }[] = [];
     for (const artist of artists) {
       // Split on " feat. " or " with " but keep as separate artists
       const featMatch = artist.match(
-        /^(.+?)\s+(?:feat\.|featuring|with)\s+(.+)$/i
+        /^([^(]+?)\s+(feat\.|featuring|with)\s+(.+)$/i
       );
       if (featMatch) {
-        processed.push(this.correctArtistName(featMatch[1].trim()));
-        processed.push(this.correctArtistName(featMatch[2].trim()));
+        const guest = this.correctArtistName(featMatch[3].trim());
+        const isFeature = featMatch[2].toLowerCase() !== "with";
+        processed.push({
+          name: this.correctArtistName(featMatch[1].trim()),
+          ...(isFeature ? { featuring: ArtistResolver.stripNotes(guest) } : {}),
+        });
+        processed.push({ name: guest });
       } else {
-        processed.push(this.correctArtistName(artist));
+        processed.push({ name: this.correctArtistName(artist) });
       }
     }
 
-    return processed.filter((name) => name.length > 0);
+    return processed.filter(({ name }) => name.length > 0);
   }
 
   /**
@@ -672,6 +834,12 @@ export class EventParser {
   }
 }
 
+const AGE_PATTERN = /(?<!\w)(?:a\/a|all ages|\d{1,2}\+)(?![\w+])/gi;
+const PHONE_PATTERN = /\(\d{3}\)\s*\d{3}-\d{4}|\b\d{3}-\d{3}-\d{3,4}\b/;
+// "(shows over by 10pm)", but not the area code of "(415) 885-0750"
+const NOTE_PATTERN = /\((?!\d{3}\))([^)]*)\)/g;
+const SUITE_PATTERN = /^(?:suite|ste\.?|unit|#\s*\d|(?:up|down)stairs|\d+(?:st|nd|rd|th)\s+floor)\b/i;
+
 export class VenueParser {
   /**
    * Parse venues.txt file content
@@ -695,10 +863,8 @@ export class VenueParser {
       const lineNumber = i + 1;
 
       try {
-        // Parse CSV-like format: "Name, Address, Age Restriction Phone"
-        const parts = line.split(",").map((part) => part.trim());
-
-        if (parts.length < 2) {
+        const rawVenue = this.parseVenueLine(line, lineNumber);
+        if (!rawVenue) {
           warnings.push({
             line: lineNumber,
             message: "Incomplete venue data",
@@ -708,29 +874,7 @@ export class VenueParser {
           continue;
         }
 
-        const name = parts[0];
-        const addressPart = parts[1];
-
-        // Extract age restriction and phone from remaining parts
-        const remainingParts = parts.slice(2);
-        let ageRestriction = "a/a";
-        let phone: string | undefined;
-
-        for (const part of remainingParts) {
-          if (/\b(?:a\/a|all ages|\d+\+)\b/i.test(part)) {
-            ageRestriction = part;
-          } else if (/\d{3}-\d{3}-\d{4}|\(\d{3}\)\s*\d{3}-\d{4}/.test(part)) {
-            phone = part;
-          }
-        }
-
-        rawVenues.push({
-          name,
-          address: addressPart,
-          ageRestriction,
-          phone,
-          lineNumber,
-        });
+        rawVenues.push(rawVenue);
       } catch (error) {
         errors.push({
           line: lineNumber,
@@ -744,6 +888,69 @@ export class VenueParser {
     return { rawVenues, errors, warnings };
   }
 
+  /**
+   * Parse one venues.txt or club info line:
+   * "Name, Address [at Cross], [Suite,] City ages... [(notes)] [phone]"
+   * Returns null when there is no address part.
+   */
+  static parseVenueLine(line: string, lineNumber: number): RawVenueData | null {
+    const parts = line.split(",").map((part) => part.trim());
+    // "Cafe Du Nord, Inc., 2170 Market Street" is listed as Cafe Du Nord
+    if (parts.length > 2 && /^(?:inc|llc|ltd)\.?$/i.test(parts[1])) {
+      parts.splice(1, 1);
+    }
+    if (parts.length < 2) return null;
+
+    const name = parts[0];
+    let addressPart = parts[1];
+    let rest = parts.slice(2);
+
+    // Without a comma before the city, the details follow the address
+    const inline = rest.length === 0;
+    if (inline) rest = [addressPart];
+
+    const suiteIndex = rest.findIndex((part) => SUITE_PATTERN.test(part));
+    const suite = suiteIndex >= 0 ? rest.splice(suiteIndex, 1)[0] : undefined;
+
+    const details = rest.join(", ");
+    const notes = [...details.matchAll(NOTE_PATTERN)].map((m) => m[1].trim()).filter(Boolean);
+    const withoutNotes = details.replace(NOTE_PATTERN, " ");
+    const ageRestrictions = [...withoutNotes.matchAll(AGE_PATTERN)].map((m) => m[0]);
+    const phone = withoutNotes.match(PHONE_PATTERN)?.[0];
+
+    let city: string | undefined;
+    for (const part of rest) {
+      city ??= Gazetteer.resolve(part)?.name;
+    }
+
+    if (inline) {
+      // "99 6th St. Santa Rosa a/a": everything but the ages and phone is the address
+      addressPart = withoutNotes
+        .replace(AGE_PATTERN, " ")
+        .replace(PHONE_PATTERN, " ")
+        .replace(/[\^@#*$]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+    }
+
+    const cross = addressPart.match(/\s+(?:at|@)\s+(.+)$/i);
+    const address = cross ? addressPart.slice(0, cross.index).trim() : addressPart;
+
+    return {
+      name,
+      address,
+      city,
+      ageRestriction: ageRestrictions[0] ?? "a/a",
+      ageRestrictions: ageRestrictions.length > 0 ? ageRestrictions : undefined,
+      phone,
+      crossStreet: cross?.[1].replace(/\.$/, ""),
+      suite,
+      notes: notes.length > 0 ? notes : undefined,
+      curfew: VenueLineParser.parseCurfew(line),
+      lineNumber,
+    };
+  }
+
   /**
    * Normalize venue data and merge with existing venue map
    */
@@ -782,10 +989,17 @@ export class VenueParser {
           // Update existing venue with address info
           venue.address = rawVenue.address;
           if (rawVenue.phone) venue.phone = rawVenue.phone;
+          if (rawVenue.curfew) venue.curfew = rawVenue.curfew;
+          Object.assign(venue, this.clubInfoDetails(rawVenue));
+          // Prefer the gazetteer city when the event line only gave a fragment
+          if (rawVenue.city && !Gazetteer.isCanonical(venue.city)) {
+            venue.city = rawVenue.city;
+          }
           venue.updatedAtEpochMs = Date.now();
         } else {
           // Create new venue
-          const city = this.extractCityFromAddress(rawVenue.address);
+          const city =
+            rawVenue.city ?? this.extractCityFromAddress(rawVenue.address);
 
           venue = {
             id: HashGenerator.generateVenueId(rawVenue.name, city) as VenueId,
@@ -798,6 +1012,8 @@ export class VenueParser {
               rawVenue.ageRestriction
             ),
             phone: rawVenue.phone,
+            curfew: rawVenue.curfew,
+            ...this.clubInfoDetails(rawVenue),
             upcomingEventCount: 0,
             totalEventCount: 0,
             upcomingEvents: [],
@@ -821,6 +1037,29 @@ export class VenueParser {
     return { venues, errors, warnings };
   }
 
+  /**
+   * Details only the club info carries; absent fields are left out so they
+   * don't overwrite what the event lines gave
+   */
+  private static clubInfoDetails(
+    rawVenue: RawVenueData
+  ): Pick<Venue, "ageRestrictions" | "crossStreet" | "suite" | "notes"> {
+    const ages = [
+      ...new Set(
+        (rawVenue.ageRestrictions ?? [])
+          .map((age) => this.toAgeRestriction(age))
+          .filter((age): age is Event["ageRestriction"] => !!age)
+      ),
+    ];
+
+    const details: Pick<Venue, "ageRestrictions" | "crossStreet" | "suite" | "notes"> = {};
+    if (ages.length > 0) details.ageRestrictions = ages;
+    if (rawVenue.crossStreet) details.crossStreet = rawVenue.crossStreet;
+    if (rawVenue.suite) details.suite = rawVenue.suite;
+    if (rawVenue.notes) details.notes = rawVenue.notes;
+    return details;
+  }
+
   private static extractCityFromAddress(address: string): string {
     // Simple heuristic: last part of address is usually city
     const parts = address.split(",").map((part) => part.trim());
@@ -846,4 +1085,12 @@ export class VenueParser {
 
     return "all-ages"; // default
   }
+
+  // One listed policy, exactly: "12+" has no AgeRestriction and is dropped
+  private static toAgeRestriction(age: string): Event["ageRestriction"] | undefined {
+    const normalized = age.toLowerCase().trim();
+    if (normalized === "a/a" || normalized === "all ages") return "all-ages";
+    const known: Event["ageRestriction"][] = ["21+", "18+", "16+", "8+", "6+", "5+"];
+    return known.find((value) => value === normalized);
+  }
 }
@@ -6,11 +6,20 @@ import {
   existsSync,
   mkdirSync,
   statSync,
+  rmSync,
 } from "fs";
 import { join } from "path";
-import type { Event, Artist, Venue, ArtistUpcomingEvent, VenueUpcomingEvent } from "@/types/events.js";
+import type {
+  Event,
+  Artist,
+  ArtistId,
+  Venue,
+  ArtistUpcomingEvent,
+  VenueUpcomingEvent,
+} from "@/types/events.js";
 import type {
   DataManifest,
+  DataIndexes,
   ProcessingResult,
   ProcessingStats,
   ProcessingError,
@@ -18,10 +27,27 @@ import type {
   FileInfo,
   SourceFileInfo,
   ChunkInfo,
+  SearchDocument,
+  SearchTermIndex,
+  EventHistory,
+  CityInfo,
+  RadioSchedule,
+  RedirectMap,
 } from "@/types/data.js";
 import { EventParser, VenueParser } from "./parsers.js";
+import { DateParser } from "./utils.js";
 import { DataIndexer, DataChunker, SearchIndexBuilder } from "./indexer.js";
 import { normalizeLatestContent } from "./latest-content.js";
+import { EventSanitizer } from "./sanitizer.js";
+import { EventHistoryTracker } from "./history.js";
+import { IcsBuilder } from "./ics.js";
+import { RadioParser } from "./radio.js";
+import { ArtistResolver, type ArtistRegistryEntry } from "./artists.js";
+import { IdRegistry } from "./ids.js";
+import { VenueGeocoder, type VenueCoordinateFile } from "./geocode.js";
+import { DeltaBuilder } from "./delta.js";
+import { Checksum } from "./checksum.js";
+import { FileChecksum } from "./file-checksum.js";
 
 export class ETLProcessor {
   private dataDir: string;
@@ -48,8 +74,8 @@ export class ETLProcessor {
         mkdirSync(this.outputDir, { recursive: true });
       }
 
-      // Load existing createdAt timestamps to preserve them across runs
-      const existingCreatedAt = this.loadExistingCreatedAt();
+      // Load the previous run's events to preserve createdAt and diff changes
+      const previous = this.loadPreviousOutput();
 
       // Parse the ingest date from the latest.txt header line:
       // "funk-punk-thrash-ska  Upcoming shows of Interest May 8, 2026"
@@ -96,12 +122,14 @@ export class ETLProcessor {
       const artistMap = new Map<string, Artist>();
       const venueMap = new Map<string, Venue>();
       const venueAliases = this.loadVenueAliases();
+      const artistRegistry = this.loadArtistRegistry();
+      const artistResolver = new ArtistResolver(artistRegistry);
 
       const {
         events,
         errors: eventNormErrors,
         warnings: eventNormWarnings,
-      } = EventParser.normalizeEvents(rawEvents, artistMap, venueMap, venueAliases);
+      } = EventParser.normalizeEvents(rawEvents, artistMap, venueMap, venueAliases, artistResolver);
 
       errors.push(...eventNormErrors.map(this.toProcessingError));
       warnings.push(...eventNormWarnings.map(this.toProcessingWarning));
@@ -117,11 +145,72 @@ export class ETLProcessor {
 
       const artists = Array.from(artistMap.values());
 
+      // Similar artist names the registry hasn't settled, for review
+      const proposals = artistResolver.proposeMerges(artists);
+      writeFileSync(
+        join(this.dataDir, "artist-merges.json"),
+        JSON.stringify(proposals, null, 2) + "\n",
+        "utf-8"
+      );
+      if (proposals.length > 0) {
+        console.log(
+          `🎤 ${proposals.length} proposed artist merge(s) — review data/artist-merges.json and pin them in data/artist-registry.json`
+        );
+      }
+
+      // Listings without an end time end at the venue's curfew
+      this.applyVenueCurfews(events, venues);
+
+      // Shows the latest edition stopped listing were cancelled or moved
+      const edition = this.readLatestEdition(venueAliases, artistRegistry);
+      if (edition) {
+        const { cancelled, rescheduled } = EventParser.reconcileEdition(
+          events,
+          edition.events,
+          edition.date
+        );
+        if (cancelled + rescheduled > 0) {
+          console.log(
+            `🗓️  ${cancelled} dropped show(s) marked cancelled, ${rescheduled} rescheduled`
+          );
+        }
+      }
+
+      // Keep every entity on its registered ID and slug; changed slugs redirect
+      const idRegistry = this.loadIdRegistry(previous);
+      const ids = idRegistry.assign(events, artists, venues, venueAliases);
+      for (const collision of ids.collisions) {
+        console.log(
+          `⚠️  ID collision: ${collision.kind} '${collision.key}' hashed to ${collision.hash}, held by '${collision.takenBy}' — assigned ${collision.id}`
+        );
+      }
+      if (ids.renamed.length > 0) {
+        console.log(`🔀 ${ids.renamed.length} slug(s) renamed, old links redirect`);
+      }
+      const created = ids.created.events + ids.created.artists + ids.created.venues;
+      if (created > 0) {
+        console.log(
+          `🆔 Registered ${ids.created.events} event(s), ${ids.created.artists} artist(s), ${ids.created.venues} venue(s)`
+        );
+      }
+      const redirects = idRegistry.redirects();
+
       // Set createdAtEpochMs: preserve existing timestamps for known events;
       // stamp new events with the ingest date from latest.txt header.
       for (const event of events) {
-        const prev = existingCreatedAt.get(event.id as number);
-        event.createdAtEpochMs = prev ?? ingestTimestamp;
+        const prev = previous.events.get(event.id as number);
+        event.createdAtEpochMs = prev?.createdAtEpochMs ?? ingestTimestamp;
+      }
+
+      // Record price, lineup, age and status changes since the previous run
+      const { history, changed } = EventHistoryTracker.record(
+        previous,
+        events,
+        new Map(artists.map((a) => [a.id, a.name])),
+        ingestTimestamp
+      );
+      if (changed > 0) {
+        console.log(`📝 ${changed} event(s) changed since the previous run`);
       }
 
       // Update upcoming event counts and pre-compute per-artist event lists
@@ -129,17 +218,35 @@ export class ETLProcessor {
       this.computeArtistUpcomingEvents(events, artists, venues);
       this.computeVenueUpcomingEvents(events, artists, venues);
 
+      // Place venues for the map; ones with upcoming shows but no coordinates of their own are flagged
+      const geocode = VenueGeocoder.apply(venues, this.loadVenueCoordinates(), venueAliases);
+      console.log(VenueGeocoder.formatCoverage(geocode, venues));
+      for (const venue of [...geocode.approximate, ...geocode.missing]) {
+        if (venue.upcomingEventCount === 0) continue;
+        warnings.push({
+          type: "data-quality",
+          message: `No coordinates for ${venue.name} (${venue.city || "no city"}) — add it to venue-coordinates.json under its city`,
+          sourceFile: "venue-coordinates.json",
+          count: venue.upcomingEventCount,
+        });
+      }
+
+      // Unchanged records keep their timestamps, so unchanged files keep their checksums
+      DeltaBuilder.carryTimestamps(events, previous.events.values());
+      DeltaBuilder.carryTimestamps(artists, previous.artists);
+      DeltaBuilder.carryTimestamps(venues, previous.venues);
+
       console.log(
         `✅ Processed ${events.length} events, ${artists.length} artists, ${venues.length} venues`
       );
 
       // Step 5: Build indexes
       console.log("📇 Building indexes...");
-      const indexes = DataIndexer.buildIndexes(events, artists, venues);
+      const indexes = DataIndexer.buildIndexes(events, artists, venues, ingestTimestamp);
 
       // Step 6: Chunk events by month
       console.log("📦 Chunking events...");
-      const { chunks, chunkInfos } = DataChunker.chunkEventsByMonth(events);
+      const { chunks, chunkInfos } = DataChunker.chunkEventsByMonth(events, FileChecksum.of);
 
       // Step 7: Build search index
       console.log("🔎 Building search index...");
@@ -149,6 +256,12 @@ export class ETLProcessor {
         venues
       );
 
+      // Weekly radio schedule from the list's radio section
+      const radio = this.readRadioSchedule();
+      if (radio) {
+        console.log(`📻 ${radio.shows.length} radio shows, ${radio.links.length} links`);
+      }
+
       // Step 8: Write output files
       console.log("💾 Writing output files...");
       const manifest = this.createManifest(
@@ -156,9 +269,19 @@ export class ETLProcessor {
         artists,
         venues,
         chunkInfos,
-        sourceFiles
+        indexes,
+        sourceFiles,
+        { documents, terms },
+        history,
+        radio,
+        redirects
       );
 
+      // Which files changed since the previous version, for clients' caches
+      const delta = DeltaBuilder.build(previous.manifest, manifest);
+      manifest.chunks.delta = this.createFileInfo("delta.json", delta);
+      console.log(DeltaBuilder.formatSummary(delta));
+
       // Write chunks
       for (const chunk of chunks) {
         const filename = `events-${chunk.chunkId}.json`;
@@ -171,9 +294,17 @@ export class ETLProcessor {
       this.writeJSON("indexes.json", indexes);
       this.writeJSON("search-documents.json", documents);
       this.writeJSON("search-terms.json", terms);
+      this.writeJSON("history.json", history);
+      if (radio) this.writeJSON("radio.json", radio);
+      this.writeJSON("redirects.json", redirects);
+      this.writeJSON("id-registry.json", idRegistry);
+      this.writeJSON("delta.json", delta);
       this.writeJSON("manifest.json", manifest);
       this.copyLocalArtistExclude();
 
+      // Subscribable .ics feeds of upcoming shows per venue and per city
+      this.writeCalendars(events, artists, venues, indexes.cities);
+
       // Step 9: Generate stats
       const processingTimeMs = Date.now() - startTime;
       const stats: ProcessingStats = {
@@ -226,6 +357,70 @@ export class ETLProcessor {
     }
   }
 
+  private writeCalendars(
+    events: Event[],
+    artists: Artist[],
+    venues: Venue[],
+    cities: CityInfo[]
+  ): void {
+    const calendarsDir = join(this.outputDir, "calendars");
+    rmSync(calendarsDir, { recursive: true, force: true });
+    mkdirSync(join(calendarsDir, "venues"), { recursive: true });
+    mkdirSync(join(calendarsDir, "cities"), { recursive: true });
+
+    const now = Date.now();
+    const today = Date.parse(new Date(now).toISOString().split("T")[0]);
+    const options = {
+      artists: new Map(artists.map((a) => [a.id, a])),
+      venues: new Map(venues.map((v) => [v.id, v])),
+      now,
+    };
+    const upcoming = events
+      .filter((e) => e.dateEpochMs >= today)
+      .sort((a, b) => a.dateEpochMs - b.dateEpochMs);
+
+    const venueEvents = new Map<number, Event[]>();
+    const cityEvents = new Map<string, Event[]>();
+    for (const event of upcoming) {
+      const venue = options.venues.get(event.venueId);
+      if (!venue) continue;
+      let venueList = venueEvents.get(venue.id as number);
+      if (!venueList) {
+        venueList = [];
+        venueEvents.set(venue.id as number, venueList);
+      }
+      venueList.push(event);
+      let cityList = cityEvents.get(venue.city);
+      if (!cityList) {
+        cityList = [];
+        cityEvents.set(venue.city, cityList);
+      }
+      cityList.push(event);
+    }
+
+    for (const venue of venues) {
+      const list = venueEvents.get(venue.id as number);
+      if (!list) continue;
+      writeFileSync(
+        join(calendarsDir, "venues", `${venue.slug}.ics`),
+        IcsBuilder.buildCalendar(list, { ...options, name: `${venue.name} shows` }),
+        "utf-8"
+      );
+    }
+
+    for (const city of cities) {
+      const list = cityEvents.get(city.name);
+      if (!list) continue;
+      writeFileSync(
+        join(calendarsDir, "cities", `${city.slug}.ics`),
+        IcsBuilder.buildCalendar(list, { ...options, name: `${city.name} shows` }),
+        "utf-8"
+      );
+    }
+
+    console.log(`📅 Wrote ${venueEvents.size} venue and ${cityEvents.size} city calendar feeds`);
+  }
+
   private copyLocalArtistExclude(): void {
     const src = join(this.dataDir, "local-artist-exclude.json");
     if (existsSync(src)) {
@@ -243,6 +438,38 @@ export class ETLProcessor {
     }
   }
 
+  /**
+   * The saved ID registry, or one seeded from the previous output so the
+   * first run that keeps one doesn't change any IDs or slugs
+   */
+  private loadIdRegistry(previous: { events: Map<number, Event>; artists: Artist[]; venues: Venue[] }): IdRegistry {
+    const registryPath = join(this.outputDir, "id-registry.json");
+    if (existsSync(registryPath)) {
+      return IdRegistry.load(JSON.parse(readFileSync(registryPath, "utf-8")));
+    }
+    return IdRegistry.seed([...previous.events.values()], previous.artists, previous.venues);
+  }
+
+  private loadVenueCoordinates(): VenueCoordinateFile {
+    const coordinatesPath = join(this.dataDir, "venue-coordinates.json");
+    if (!existsSync(coordinatesPath)) return {};
+    try {
+      return JSON.parse(readFileSync(coordinatesPath, "utf-8"));
+    } catch {
+      return {};
+    }
+  }
+
+  private loadArtistRegistry(): ArtistRegistryEntry[] {
+    const registryPath = join(this.dataDir, "artist-registry.json");
+    if (!existsSync(registryPath)) return [];
+    try {
+      return JSON.parse(readFileSync(registryPath, "utf-8"));
+    } catch {
+      return [];
+    }
+  }
+
   private readLatestTxtIngestDate(): number {
     const latestPath = join(this.dataDir, "latest.txt");
     if (!existsSync(latestPath)) return Date.now();
@@ -267,6 +494,57 @@ export class ETLProcessor {
     }
   }
 
+  /**
+   * Events listed in latest.txt, parsed on their own so they can be compared with
+   * the accumulated events.txt
+   */
+  private readLatestEdition(
+    venueAliases: Record<string, string>,
+    artistRegistry: ArtistRegistryEntry[]
+  ): { date: string; events: Event[] } | null {
+    const latestPath = join(this.dataDir, "latest.txt");
+    if (!existsSync(latestPath)) return null;
+
+    try {
+      // Collapse wrapped entries the way the merge script does before parsing
+      const content = EventSanitizer.collapseToSingleLines(
+        normalizeLatestContent(readFileSync(latestPath, "utf-8"))
+      ).join("\n");
+      const { rawEvents } = EventParser.parseEventsFile(content);
+      const { events } = EventParser.normalizeEvents(
+        rawEvents,
+        new Map(),
+        new Map(),
+        venueAliases,
+        new ArtistResolver(artistRegistry)
+      );
+      const date = new Date(this.readLatestTxtIngestDate()).toISOString().split("T")[0];
+      return { date, events };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The latest edition's radio section, with links from the curated
+   * radio-shows.txt; either source alone when the other is missing
+   */
+  private readRadioSchedule(): RadioSchedule | null {
+    const curatedPath = join(this.dataDir, "radio-shows.txt");
+    const latestPath = join(this.dataDir, "latest.txt");
+
+    const curated = existsSync(curatedPath)
+      ? RadioParser.parse(readFileSync(curatedPath, "utf-8"))
+      : null;
+    const section = existsSync(latestPath)
+      ? RadioParser.extractSection(normalizeLatestContent(readFileSync(latestPath, "utf-8")))
+      : null;
+    const edition = section ? RadioParser.parse(section) : null;
+
+    if (edition && curated) return RadioParser.merge(edition, curated);
+    return edition ?? curated;
+  }
+
   private readSourceFiles(): {
     eventsContent: string;
     venuesContent: string;
@@ -300,19 +578,43 @@ export class ETLProcessor {
           size: eventsStats.size,
           lastModified: eventsStats.mtime.getTime(),
           lineCount: eventsContent.split("\n").length,
-          checksum: this.calculateChecksum(eventsContent),
+          checksum: FileChecksum.of(eventsContent),
         },
         venues: {
           filename: "venues.txt",
           size: venuesStats.size,
           lastModified: venuesStats.mtime.getTime(),
           lineCount: venuesContent.split("\n").length,
-          checksum: this.calculateChecksum(venuesContent),
+          checksum: FileChecksum.of(venuesContent),
         },
       },
     };
   }
 
+  private applyVenueCurfews(events: Event[], venues: Venue[]): void {
+    const curfews = new Map<number, string>();
+    for (const venue of venues) {
+      if (venue.curfew) curfews.set(venue.id as number, venue.curfew);
+    }
+
+    for (const event of events) {
+      const curfew = curfews.get(event.venueId as number);
+      // A curfew only rolls past midnight when there's a start time to anchor it after
+      const start = event.showTime ?? event.doorsTime;
+      if (!curfew || !start) continue;
+
+      for (const performance of event.performances ?? []) {
+        if (performance.endTime) continue;
+        performance.endTime = curfew;
+        performance.endTimeEpochMs = DateParser.toEpochMs(event.date, curfew, performance.showTime);
+      }
+
+      if (event.endTime) continue;
+      event.endTime = curfew;
+      event.endTimeEpochMs = DateParser.toEpochMs(event.date, curfew, start);
+    }
+  }
+
   private updateUpcomingCounts(
     events: Event[],
     artists: Artist[],
@@ -375,9 +677,12 @@ export class ETLProcessor {
         headlinerName: headliner?.name ?? "",
         isFree: event.isFree,
         isSoldOut: event.status === "sold-out" || event.tags.includes("sold-out"),
+        status: event.status,
         priceMin: event.priceMin,
         priceMax: event.priceMax,
+        price: event.price,
         createdAtEpochMs: event.createdAtEpochMs,
+        changedAtEpochMs: event.changedAtEpochMs,
       };
       for (const artistId of event.artistIds) {
         let list = artistEventsMap.get(artistId as number);
@@ -396,9 +701,22 @@ export class ETLProcessor {
     }
   }
 
-  private loadExistingCreatedAt(): Map<number, number> {
-    const map = new Map<number, number>();
-    if (!existsSync(this.outputDir)) return map;
+  private loadPreviousOutput(): {
+    events: Map<number, Event>;
+    artistNames: Map<ArtistId, string>;
+    artists: Artist[];
+    venues: Venue[];
+    history: EventHistory;
+    manifest: DataManifest | null;
+  } {
+    const events = new Map<number, Event>();
+    const artistNames = new Map<ArtistId, string>();
+    let artists: Artist[] = [];
+    let venues: Venue[] = [];
+    let history: EventHistory = {};
+    let manifest: DataManifest | null = null;
+    if (!existsSync(this.outputDir)) return { events, artistNames, artists, venues, history, manifest };
+
     const files = readdirSync(this.outputDir).filter(
       (f) => f.startsWith("events-") && f.endsWith(".json")
     );
@@ -408,14 +726,40 @@ export class ETLProcessor {
         const chunk = JSON.parse(raw);
         if (Array.isArray(chunk.events)) {
           for (const e of chunk.events) {
-            if (e.id && e.createdAtEpochMs) map.set(e.id, e.createdAtEpochMs);
+            if (e.id) events.set(e.id, e);
           }
         }
       } catch {
         // ignore unreadable chunks
       }
     }
-    return map;
+
+    try {
+      artists = JSON.parse(readFileSync(join(this.outputDir, "artists.json"), "utf-8"));
+      for (const artist of artists) artistNames.set(artist.id, artist.name);
+    } catch {
+      // lineups read as artist IDs without the previous artists
+    }
+
+    try {
+      venues = JSON.parse(readFileSync(join(this.outputDir, "venues.json"), "utf-8"));
+    } catch {
+      // seeded events are matched on date and headliner alone
+    }
+
+    try {
+      history = JSON.parse(readFileSync(join(this.outputDir, "history.json"), "utf-8"));
+    } catch {
+      // first run with history tracking
+    }
+
+    try {
+      manifest = JSON.parse(readFileSync(join(this.outputDir, "manifest.json"), "utf-8"));
+    } catch {
+      // first run, every file is new
+    }
+
+    return { events, artistNames, artists, venues, history, manifest };
   }
 
   private computeVenueUpcomingEvents(
@@ -438,9 +782,12 @@ export class ETLProcessor {
         headlinerName: headliner?.name ?? "",
         isFree: event.isFree,
         isSoldOut: event.status === "sold-out" || event.tags.includes("sold-out"),
+        status: event.status,
         priceMin: event.priceMin,
         priceMax: event.priceMax,
+        price: event.price,
         createdAtEpochMs: event.createdAtEpochMs,
+        changedAtEpochMs: event.changedAtEpochMs,
       };
       let list = venueEventsMap.get(event.venueId as number);
       if (!list) {
@@ -462,7 +809,12 @@ export class ETLProcessor {
     artists: Artist[],
     venues: Venue[],
     chunkInfos: ChunkInfo[],
-    sourceFiles: { events: SourceFileInfo; venues: SourceFileInfo }
+    indexes: DataIndexes,
+    sourceFiles: { events: SourceFileInfo; venues: SourceFileInfo },
+    search: { documents: SearchDocument[]; terms: SearchTermIndex },
+    history: EventHistory,
+    radio: RadioSchedule | null,
+    redirects: RedirectMap
   ): DataManifest {
     const eventDates = events.map((e) => e.dateEpochMs).sort((a, b) => a - b);
     const startEpochMs = eventDates[0] || Date.now();
@@ -488,7 +840,14 @@ export class ETLProcessor {
         events: chunkInfos,
         artists: this.createFileInfo("artists.json", artists),
         venues: this.createFileInfo("venues.json", venues),
-        indexes: this.createFileInfo("indexes.json", {}), // Will be filled after writing
+        indexes: this.createFileInfo("indexes.json", indexes),
+        search: {
+          documents: this.createFileInfo("search-documents.json", search.documents),
+          terms: this.createFileInfo("search-terms.json", search.terms),
+        },
+        history: this.createFileInfo("history.json", history),
+        radio: radio ? this.createFileInfo("radio.json", radio) : undefined,
+        redirects: this.createFileInfo("redirects.json", redirects),
       },
       processedAt: Date.now(),
       sourceFiles,
@@ -497,28 +856,18 @@ export class ETLProcessor {
   }
 
   private createFileInfo(filename: string, data: unknown): FileInfo {
-    const serialized = JSON.stringify(data);
+    const serialized = Checksum.serialize(data);
     return {
       filename,
       size: new Blob([serialized]).size,
-      checksum: this.calculateChecksum(serialized),
+      checksum: FileChecksum.of(serialized),
       recordCount: Array.isArray(data) ? data.length : undefined,
     };
   }
 
   private writeJSON(filename: string, data: unknown): void {
     const filepath = join(this.outputDir, filename);
-    writeFileSync(filepath, JSON.stringify(data, null, 2), "utf-8");
-  }
-
-  private calculateChecksum(data: string): string {
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return `sha256-${Math.abs(hash).toString(16)}`;
+    writeFileSync(filepath, Checksum.serialize(data), "utf-8");
   }
 
   private toProcessingError(error: { type?: string; message: string; line?: number; rawText?: string }): ProcessingError {
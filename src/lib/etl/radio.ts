@@ -0,0 +1,229 @@
+/**
+ * Radio schedule parsing for the "Radio Shows and Other Links" section
+ * Day lines become weekly shows; lines without a day are station and site links
+ */
+
+import type { RadioShow, RadioLink } from "@/types/events.js";
+import type { RadioSchedule } from "@/types/data.js";
+import { StringNormalizer } from "./utils.js";
+
+const SECTION_HEADER = /^\s*Radio Shows and Other Links\s*$/i;
+const CLUB_INFO_HEADER = /C\s*L\s*U\s*B\s+I\s*N\s*F\s*O/i;
+const DASH_SEPARATOR = /^\s*-+\s*$/;
+const DAY_LINE = /^(sun|mon|tue|wed|thu|fri|sat)[a-z]*\s+/i;
+const FOOTNOTE = /\s*\[\d+\]/g; // link references in the email export
+const URL_PATTERN = /\(?(?:\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|org|net|fm|uk)(?:\/\S*)?)/gi;
+const CLOCK = String.raw`(?:noon|midnight|\d{1,2}(?::\d{2})?\s*[ap]m)`;
+const TIME_WINDOW = new RegExp(
+  String.raw`\b(${CLOCK})(?:\s*(?:-|to)\s*(${CLOCK}))?(?:\s+P[SD]?T\b)?`,
+  "i"
+);
+const EVERY_OTHER = /\(?\s*every other (?:sun|mon|tue|wed|thu|fri|sat)[a-z]*\s*\)?/i;
+const CALL_SIGN = /\b([KW][A-Z]{2,3})(?:-(?:FM|LP))?\b/;
+const FREQUENCY = /\b(\d{2,3}\.\d)\s*FM\b|\bFM\s+(\d{2,3}\.\d)\b/i;
+
+const DAYS: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// Slots starting before this hour are listed under the evening they follow:
+// "sun ... 12am-2am" airs in the early hours of Monday
+const LATE_NIGHT_END_HOUR = 5;
+
+export class RadioParser {
+  /**
+   * The radio section of a latest.txt edition, between its header and the club
+   * info; null when the edition has none
+   */
+  static extractSection(content: string): string | null {
+    const lines = content.split("\n");
+    const start = lines.findIndex((line) => SECTION_HEADER.test(line));
+    if (start < 0) return null;
+
+    const end = lines.findIndex((line, index) => index > start && CLUB_INFO_HEADER.test(line));
+    return lines.slice(start + 1, end < 0 ? lines.length : end).join("\n");
+  }
+
+  /**
+   * Parse radio-shows.txt, or a section extracted from latest.txt
+   */
+  static parse(content: string): RadioSchedule {
+    const shows: RadioShow[] = [];
+    const links: RadioLink[] = [];
+    const ids = new Set<string>();
+
+    for (const entry of this.collapse(content)) {
+      const show = DAY_LINE.test(entry) ? this.parseShow(entry) : null;
+      if (!show) {
+        // Day lines without a time can't go on the schedule but are still worth linking to
+        links.push(this.parseLink(entry.replace(DAY_LINE, "")));
+        continue;
+      }
+
+      if (ids.has(show.id)) show.id = `${show.id}-${show.recurrence.dayOfWeek}`;
+      ids.add(show.id);
+      shows.push(show);
+    }
+
+    shows.sort(
+      (a, b) =>
+        this.listOrder(a.recurrence.dayOfWeek) - this.listOrder(b.recurrence.dayOfWeek) ||
+        a.startTime.localeCompare(b.startTime)
+    );
+    return { shows, links };
+  }
+
+  /**
+   * Keep the edition's schedule, taking URLs from the curated file where it
+   * has the same show: the email's links go through a click tracker
+   */
+  static merge(edition: RadioSchedule, curated: RadioSchedule): RadioSchedule {
+    if (edition.shows.length === 0 && edition.links.length === 0) return curated;
+
+    const curatedShows = new Map(curated.shows.map((show) => [show.id, show]));
+    const curatedLinks = new Map(
+      curated.links.map((link) => [StringNormalizer.createSlug(link.name), link])
+    );
+
+    return {
+      shows: edition.shows.map((show) => {
+        const match = curatedShows.get(show.id);
+        return match
+          ? { ...show, url: match.url ?? show.url, archiveUrl: match.archiveUrl ?? show.archiveUrl }
+          : show;
+      }),
+      links: edition.links.map((link) => {
+        const match = curatedLinks.get(StringNormalizer.createSlug(link.name));
+        return match ? { ...link, url: match.url ?? link.url } : link;
+      }),
+    };
+  }
+
+  /**
+   * One string per show or link. Wrapped lines are indented, open with a
+   * parenthesis or a time, or are a URL fragment split off the line above.
+   */
+  private static collapse(content: string): string[] {
+    const entries: string[] = [];
+
+    for (const raw of content.split("\n")) {
+      const line = raw.replace(FOOTNOTE, "");
+      const trimmed = line.trim();
+      if (!trimmed || DASH_SEPARATOR.test(trimmed)) continue;
+
+      const last = entries.length - 1;
+      if (last < 0 || DAY_LINE.test(trimmed)) {
+        entries.push(trimmed);
+      } else if (!/\s|:\/\/|^\(/.test(trimmed) && /[./?=]/.test(trimmed)) {
+        // "Player.aspx?call=KUBU-LP" wrapped off a URL; the tracked links in
+        // the email can't be rejoined, so the fragment is dropped there
+        if (entries[last].endsWith("/")) entries[last] += trimmed;
+      } else if (/^\s/.test(line) || /^\(/.test(trimmed) || new RegExp(`^${CLOCK}`, "i").test(trimmed)) {
+        entries[last] += ` ${trimmed}`;
+      } else {
+        entries.push(trimmed);
+      }
+    }
+
+    return entries;
+  }
+
+  private static parseShow(entry: string): RadioShow | null {
+    const day = entry.match(DAY_LINE);
+    if (!day) return null;
+
+    const urls: string[] = [];
+    let text = this.extractUrls(entry.slice(day[0].length), urls);
+
+    const time = text.match(TIME_WINDOW);
+    if (!time) return null;
+    text = text.replace(TIME_WINDOW, " ");
+
+    const everyOther = EVERY_OTHER.test(text);
+    text = this.clean(text.replace(EVERY_OTHER, " "));
+
+    const { name: title, station } = this.splitStation(text);
+    const [name, host] = title.split(/ with /);
+
+    const startTime = this.toClock(time[1]);
+    let dayOfWeek = DAYS[day[1].toLowerCase()];
+    if (Number(startTime.slice(0, 2)) < LATE_NIGHT_END_HOUR) {
+      dayOfWeek = (dayOfWeek + 1) % 7;
+    }
+
+    return {
+      id: StringNormalizer.createSlug(name),
+      name: name.trim(),
+      host: host?.trim() || undefined,
+      station,
+      callSign: station.match(CALL_SIGN)?.[1],
+      frequency: this.parseFrequency(station),
+      recurrence: { frequency: "weekly", interval: everyOther ? 2 : 1, dayOfWeek },
+      startTime,
+      endTime: time[2] ? this.toClock(time[2]) : undefined,
+      url: urls[0],
+      archiveUrl: urls[1],
+    };
+  }
+
+  private static parseLink(entry: string): RadioLink {
+    const urls: string[] = [];
+    const name = this.clean(this.extractUrls(entry, urls));
+    return {
+      name,
+      callSign: name.match(CALL_SIGN)?.[1],
+      frequency: this.parseFrequency(name),
+      url: urls[0],
+    };
+  }
+
+  /**
+   * "Dead Air on Berkeley Liberation Radio 104.1FM"; without "on", the station
+   * starts at its call letters or the word radio: "Losin It With Luscious MMH Radio (UK)"
+   */
+  private static splitStation(text: string): { name: string; station: string } {
+    const on = text.match(/\s+on\s+/);
+    if (on?.index !== undefined && on.index > 0) {
+      return { name: text.slice(0, on.index), station: text.slice(on.index + on[0].length) };
+    }
+
+    const words = text.split(" ");
+    const start = words.findIndex((word, index) => index > 0 && /^(?:[A-Z]{2,5}|Rad[a-z]*)$/.test(word));
+    if (start < 0) return { name: text, station: "" };
+    return { name: words.slice(0, start).join(" "), station: words.slice(start).join(" ") };
+  }
+
+  private static extractUrls(text: string, urls: string[]): string {
+    return text.replace(URL_PATTERN, (url) => {
+      const trimmed = url.replace(/^\(/, "").replace(/[),.]+$/, "");
+      urls.push(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+      return " ";
+    });
+  }
+
+  private static clean(text: string): string {
+    return text
+      .replace(/\(\s*\)/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  private static parseFrequency(text: string): string | undefined {
+    const match = text.match(FREQUENCY);
+    return match ? `${match[1] ?? match[2]} FM` : undefined;
+  }
+
+  // "noon" -> "12:00", "midnight" -> "00:00", "12:30pm" -> "12:30"
+  private static toClock(text: string): string {
+    const value = text.toLowerCase().replace(/\s+/g, "");
+    if (value === "noon") return "12:00";
+    if (value === "midnight") return "00:00";
+
+    const [, h, m = "00", meridiem] = value.match(/^(\d{1,2})(?::(\d{2}))?([ap])m$/) ?? [];
+    const hour = (Number(h) % 12) + (meridiem === "p" ? 12 : 0);
+    return `${String(hour).padStart(2, "0")}:${m}`;
+  }
+
+  // Monday first, as the list runs
+  private static listOrder(dayOfWeek: number): number {
+    return (dayOfWeek + 6) % 7;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Review of a new latest.txt edition before it's merged
+ * Turns the validator's findings into a queue to step through one at a time,
+ * and records each decision as a venue alias or a line correction
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  LatestValidator,
+  type AddressOnlyVenue,
+  type EventValidationIssue,
+  type NearDuplicateGroup,
+} from "./validator.js";
+import { normalizeLatestContent } from "./latest-content.js";
+import { CorrectionEngine, type CorrectionDraft, type CorrectionRule } from "./corrections.js";
+import { StringNormalizer } from "./utils.js";
+
+export type ReviewItem =
+  | { kind: "event-issue"; issue: EventValidationIssue }
+  | { kind: "near-duplicate"; group: NearDuplicateGroup }
+  | { kind: "address-only"; venue: AddressOnlyVenue };
+
+export interface ReviewSummary {
+  accepted: number;
+  aliases: number; // entries added to venue-aliases.json
+  corrections: number; // rules added to line-corrections.json
+}
+
+export class ReviewSession {
+  private readonly dataDir: string;
+  private aliases: Record<string, string> = {};
+  private corrections: CorrectionRule[] = [];
+  private summary: ReviewSummary = { accepted: 0, aliases: 0, corrections: 0 };
+
+  items: ReviewItem[] = [];
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Read the edition, aliases and corrections, and queue what the validator
+   * finds: event errors, then venue groups and address-only venues, then
+   * event warnings
+   */
+  load(): void {
+    this.aliases = this.readJson("venue-aliases.json", {});
+    this.corrections = this.readJson("line-corrections.json", []);
+
+    const latestContent = this.correctedLatest();
+    const venuesContent = readFileSync(join(this.dataDir, "venues.txt"), "utf-8");
+
+    const validator = new LatestValidator();
+    const events = validator.validateEvents(latestContent);
+    const venues = validator.validateVenues(latestContent, venuesContent, this.aliases);
+
+    this.items = [
+      ...events.issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue): ReviewItem => ({ kind: "event-issue", issue })),
+      ...venues.nearDuplicates.map((group): ReviewItem => ({ kind: "near-duplicate", group })),
+      ...venues.addressOnlyVenues.map((venue): ReviewItem => ({ kind: "address-only", venue })),
+      ...events.issues
+        .filter((issue) => issue.severity === "warning")
+        .map((issue): ReviewItem => ({ kind: "event-issue", issue })),
+    ];
+  }
+
+  /**
+   * Leave the item as it is. A near-duplicate group takes the validator's
+   * proposal: every variant becomes an alias of the canonical name.
+   */
+  accept(item: ReviewItem): void {
+    if (item.kind === "near-duplicate") {
+      this.addAlias(item.group.variants, item.group.canonical);
+    }
+    this.summary.accepted++;
+  }
+
+  /**
+   * Map each name to the canonical venue; keys are lowercase as the
+   * validator and merge look them up
+   */
+  addAlias(names: string[], canonical: string): void {
+    for (const name of names) {
+      const key = name.toLowerCase().trim();
+      if (!key || key === canonical.toLowerCase() || this.aliases[key] === canonical) continue;
+      this.aliases[key] = canonical;
+      this.summary.aliases++;
+    }
+  }
+
+  /**
+   * Add a rule of any kind, with the item's text as its example; throws when
+   * the rule doesn't compile or doesn't change the example
+   */
+  addCorrection(correction: CorrectionDraft, sample: string): CorrectionRule {
+    const input = ReviewSession.collapse(sample);
+    const output = CorrectionEngine.applyRule(correction, input);
+    if (output === input) throw new Error(`The ${correction.kind} rule doesn't change '${input}'`);
+
+    return this.addRule({
+      ...correction,
+      id: this.uniqueId(ReviewSession.subject(correction)),
+      example: { input, output },
+    });
+  }
+
+  /**
+   * Record a hand edit of an entry as an override of that exact entry
+   */
+  overrideLine(original: string, edited: string): CorrectionRule {
+    const input = ReviewSession.collapse(original);
+    const line = ReviewSession.collapse(edited);
+    if (line === input) throw new Error("The edit doesn't change the entry");
+
+    return this.addRule({
+      id: this.uniqueId(`override ${input.slice(0, 40)}`),
+      kind: "line-override",
+      hash: CorrectionEngine.hashLine(input),
+      line,
+      note: `Edited in review: '${input}'`,
+      example: { input, output: line },
+    });
+  }
+
+  getSummary(): ReviewSummary {
+    return { ...this.summary };
+  }
+
+  /**
+   * Write venue-aliases.json (sorted) and line-corrections.json
+   */
+  save(): void {
+    const sorted = Object.fromEntries(
+      Object.entries(this.aliases).sort(([a], [b]) => a.localeCompare(b))
+    );
+    writeFileSync(join(this.dataDir, "venue-aliases.json"), JSON.stringify(sorted, null, 2) + "\n");
+    writeFileSync(
+      join(this.dataDir, "line-corrections.json"),
+      JSON.stringify(this.corrections, null, 2) + "\n"
+    );
+  }
+
+  // One line, as the merge sees the entry
+  private static collapse(text: string): string {
+    return text.split("\n").map((line) => line.trim()).join(" ").replace(/\s{2,}/g, " ").trim();
+  }
+
+  private addRule(rule: CorrectionRule): CorrectionRule {
+    const problems = CorrectionEngine.check([...this.corrections, rule]);
+    if (problems.length > 0) throw new Error(problems.join("; "));
+    this.corrections.push(rule);
+    this.summary.corrections++;
+    return rule;
+  }
+
+  // What a rule fixes, for its id
+  private static subject(correction: CorrectionDraft): string {
+    switch (correction.kind) {
+      case "pattern":
+        return correction.pattern;
+      case "venue-city":
+        return `${correction.venue} ${correction.cities.join(" ")}`;
+      case "line-override":
+        return `override ${correction.line.slice(0, 40)}`;
+      default:
+        return correction.misspelling;
+    }
+  }
+
+  private uniqueId(text: string): string {
+    const base = StringNormalizer.createSlug(text) || "review";
+    const ids = new Set(this.corrections.map((rule) => rule.id));
+    let id = base;
+    for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+    return id;
+  }
+
+  // latest.txt as the validator sees it, with the current corrections applied
+  private correctedLatest(): string {
+    const latest = normalizeLatestContent(readFileSync(join(this.dataDir, "latest.txt"), "utf-8"));
+    return CorrectionEngine.load(this.corrections).applyToContent(latest, "latest.txt");
+  }
+
+  private readJson<T>(file: string, fallback: T): T {
+    const path = join(this.dataDir, file);
+    return existsSync(path) ? (JSON.parse(readFileSync(path, "utf-8")) as T) : fallback;
+  }
+}
@@ -1,4 +1,17 @@
-import type { AgeRestriction, EventTag, VenueType } from "@/types/events.js";
+import type {
+  AgeRestriction,
+  Event,
+  EventAdvisory,
+  EventTag,
+  LineupAnnotation,
+  LineupAnnotationType,
+  LineupEntry,
+  Performance,
+  PriceInfo,
+  PriceTier,
+  VenueType,
+} from "@/types/events.js";
+import { Gazetteer } from "./gazetteer.js";
 
 // Date parsing utilities
 export class DateParser {
@@ -137,6 +150,18 @@ export class DateParser {
 
     return startTime ? { startTime, doorTime: doorTime || undefined } : null;
   }
+
+  /**
+   * Epoch for an HH:mm wall-clock time on a YYYY-MM-DD date, stored as a UTC offset
+   * from midnight. Times earlier than `after` ("til 2am" after an 9pm show) roll into
+   * the next day.
+   */
+  static toEpochMs(date: string, time: string, after?: string): number {
+    const [y, m, d] = date.split("-").map(Number);
+    const [hours, minutes] = time.split(":").map(Number);
+    const nextDay = after !== undefined && time < after ? 1 : 0;
+    return Date.UTC(y, m - 1, d + nextDay, hours, minutes, 0);
+  }
 }
 
 // String normalization utilities
@@ -179,27 +204,11 @@ export class StringNormalizer {
    * Clean city name for consistency
    */
   static normalizeCity(city: string): string {
-    const cityMappings: Record<string, string> = {
-      sf: "San Francisco",
-      "s.f.": "San Francisco",
-      "san francisco": "San Francisco",
-      "san fran": "San Francisco",
-      oakland: "Oakland",
-      berkeley: "Berkeley",
-      "san jose": "San Jose",
-      "santa cruz": "Santa Cruz",
-      petaluma: "Petaluma",
-      napa: "Napa",
-      novato: "Novato",
-      saratoga: "Saratoga",
-      "palo alto": "Palo Alto",
-      "santa rosa": "Santa Rosa",
-      livermore: "Livermore",
-      "san leandro": "San Leandro",
-    };
+    const locality = Gazetteer.resolve(city);
+    if (locality) return locality.name;
 
     const normalized = city.toLowerCase().trim().replace(/\.$/, "");
-    return cityMappings[normalized] || this.toTitleCase(normalized);
+    return this.toTitleCase(normalized);
   }
 
   /**
@@ -213,6 +222,91 @@ export class StringNormalizer {
   }
 }
 
+// Cancellation and postponement markers on a listing
+export class EventStatusParser {
+  private static readonly PREFIX = /^\s*(cancell?ed|postponed)\s*[:!-]\s*/i;
+  private static readonly NOTE = /^\s*(?:show\s+)?(cancell?ed|postponed)\s*$/i;
+
+  /**
+   * Status named by a "CANCELLED:" / "POSTPONED:" prefix, with the prefix removed
+   */
+  static stripPrefix(text: string): { status?: "cancelled" | "postponed"; text: string } {
+    const match = text.match(this.PREFIX);
+    if (!match) return { text };
+    return { status: this.toStatus(match[1]), text: text.slice(match[0].length) };
+  }
+
+  /**
+   * Status of a note that is only a marker: "(postponed)", "(cancelled)".
+   * "(Right To Remain had to cancel)" is about one act, not the show.
+   */
+  static parse(note: string): "cancelled" | "postponed" | undefined {
+    const match = note.match(this.NOTE);
+    return match ? this.toStatus(match[1]) : undefined;
+  }
+
+  private static toStatus(word: string): "cancelled" | "postponed" {
+    return word.toLowerCase() === "postponed" ? "postponed" : "cancelled";
+  }
+}
+
+// Billing role and annotations of one act on a lineup
+export class LineupParser {
+  private static readonly ANNOTATIONS: [LineupAnnotationType, RegExp][] = [
+    ["record-release", /\brel[ea]+s[ae]+\b/i], // "album relesae"
+    ["debut", /\bdebut\b|\bfirst show\b/i],
+    ["farewell", /\bfarewell\b|\b(?:last|final) show\b/i],
+    ["tribute-to", /\btrib?ute\b/i], // "(triute)"
+    ["reunion", /\breunion\b|\breunited\b/i],
+    ["solo-set", /\bsolo\b/i],
+  ];
+
+  /**
+   * Role, annotations and leftover notes of an act as listed, e.g.
+   * "Nekron 99 (album release)" or "dj Aaron Axelsen". A note can hold
+   * several parts: "(2 sets - tribute)"
+   */
+  static parseAct(
+    listed: string,
+    order: number
+  ): Pick<LineupEntry, "role" | "annotations" | "notes"> {
+    const annotations: LineupAnnotation[] = [];
+    const notes: string[] = [];
+    let isDj = /^dj\s/i.test(listed.trim());
+
+    for (const [, note] of listed.matchAll(/\(([^()]*)(?:\)|$)/g)) {
+      if (!note.trim()) continue;
+      let annotated = false;
+      for (const part of note.split(/\s+-\s+/)) {
+        if (/\bdj set\b/i.test(part)) {
+          isDj = true;
+          annotated = true;
+          continue;
+        }
+        const match = this.ANNOTATIONS.find(([, pattern]) => pattern.test(part));
+        if (!match) continue;
+        annotations.push({ type: match[0], text: part.trim(), ...this.subjectOf(match[0], part) });
+        annotated = true;
+      }
+      if (!annotated) notes.push(note.trim());
+    }
+
+    return {
+      role: isDj ? "dj" : order === 0 ? "headliner" : "support",
+      annotations,
+      ...(notes.length > 0 ? { notes } : {}),
+    };
+  }
+
+  // "tribute to Fleetwood Mac" or "Fleetwood Mac tribute"
+  private static subjectOf(type: LineupAnnotationType, part: string): { subject?: string } {
+    if (type !== "tribute-to") return {};
+    const match =
+      part.match(/\btrib?ute\s+to\s+(.+)$/i) ?? part.match(/^(.+?)\s+trib?ute$/i);
+    return match ? { subject: match[1].trim() } : {};
+  }
+}
+
 // Parsing utilities for venue lines
 export class VenueLineParser {
   /**
@@ -222,44 +316,69 @@ export class VenueLineParser {
     venue: string;
     city: string;
     ageRestriction: AgeRestriction;
-    price: { min?: number; max?: number; isFree: boolean };
-    time: { startTime?: string; doorTime?: string };
+    price: PriceInfo;
+    time: { startTime?: string; doorTime?: string; endTime?: string };
+    performances: Omit<Performance, "showTimeEpochMs">[];
     venueType: VenueType;
     tags: EventTag[];
+    advisories: EventAdvisory;
+    status?: "cancelled" | "postponed"; // from a "(cancelled)" or "(postponed)" note
+    movedFrom?: string;
     notes?: string;
   } | null {
     // Remove "at " prefix
     let line = venueLine.replace(/^\s*at\s+/i, "").trim();
 
+    // Sets are read before notes are stripped, since "(sold out)" applies to the set it follows
+    const performances = this.parsePerformances(line.slice(line.indexOf(",") + 1));
+
     // Extract notes in parentheses
     const noteMatches = line.match(/\(([^)]+)\)/g);
-    const notes = noteMatches?.map((match) => match.slice(1, -1)).join("; ");
+    const noteList = noteMatches?.map((match) => match.slice(1, -1)) ?? [];
+    const notes = noteMatches ? noteList.join("; ") : undefined;
     line = line.replace(/\([^)]+\)/g, "").trim();
 
-    // Extract special symbols at the end
-    const symbolMatch = line.match(/([#@^]+)\s*$/);
+    // Extract legend symbols at the end ("# $", "@", "**")
+    const symbolMatch = line.match(/((?:[#@^$*]\s*)+)$/);
     const symbols = symbolMatch?.[1] || "";
-    line = line.replace(/[#@^]+\s*$/, "").trim();
+    line = line.slice(0, line.length - symbols.length).trim();
 
     // Split by commas to separate venue/location from other info
     const parts = line.split(",");
     if (parts.length < 2) return null;
 
     const venue = parts[0].trim();
-    const locationPart = parts[1].trim();
-
-    // Extract city from location part
-    const city = StringNormalizer.normalizeCity(locationPart.split(/\s+/)[0]);
+    const city = this.resolveCity(parts.slice(1));
 
     // Parse remaining parts for age, price, time
     const remainingText = parts.slice(1).join(" ");
 
     const ageRestriction = this.parseAgeRestriction(remainingText);
-    const price = this.parsePrice(remainingText);
-    const time = DateParser.parseTime(this.extractTime(remainingText)) || {};
+    const price = this.parsePrice(remainingText, noteList);
+    // Doors and show come from the first set, the end from the last
+    const time = performances.length > 0
+      ? {
+          startTime: performances[0].showTime,
+          doorTime: performances[0].doorTime,
+          endTime: performances[performances.length - 1].endTime,
+        }
+      : {};
+
+    const venueType = this.determineVenueType(venue);
+    const advisories = this.parseAdvisories(symbols);
+    let tags = this.extractTags(notes, remainingText, price.isFree);
+
+    // A sold-out early set doesn't make the whole night sold out
+    if (performances.length > 1 && !performances.every((p) => p.isSoldOut)) {
+      tags = tags.filter((tag) => tag !== "sold-out");
+    }
 
-    const venueType = this.determineVenueType(symbols, venue);
-    const tags = this.extractTags(notes, remainingText, price.isFree);
+    const status = noteList
+      .map((note) => EventStatusParser.parse(note))
+      .find((noteStatus) => noteStatus !== undefined);
+    const movedFrom = noteList
+      .map((note) => note.match(/\bmoved from\s+(?:the\s+)?([^,;]+)/i)?.[1].trim())
+      .find(Boolean);
 
     return {
       venue,
@@ -267,12 +386,155 @@ export class VenueLineParser {
       ageRestriction,
       price,
       time,
+      performances,
       venueType,
       tags,
+      advisories,
+      ...(status ? { status } : {}),
+      ...(movedFrom ? { movedFrom } : {}),
       notes,
     };
   }
 
+  /**
+   * Split the times on a venue line into sets. "7pm/7:30pm (sold out) and 9:15pm/9:30pm"
+   * is two sets with the first sold out; "6pm/7pm til 10pm" is one set that ends at 10,
+   * as does "(shows over by 10pm)".
+   * A sold-out note names its set by time ("(8pm sold out)"), by following it directly,
+   * or otherwise covers every set.
+   */
+  static parsePerformances(text: string): Omit<Performance, "showTimeEpochMs">[] {
+    const normalized = text
+      .replace(/\bnoon\b/gi, "12pm")
+      .replace(/\bmidnight\b/gi, "12am");
+
+    // Blank out notes so times inside them ("(1pm dj)") aren't read as sets
+    const outside = normalized.replace(/\([^)]*\)/g, (note) => " ".repeat(note.length));
+
+    const sets: { performance: Omit<Performance, "showTimeEpochMs">; end: number }[] = [];
+    const groupPattern =
+      /(?<![\d$.:])(\d{1,2}(?::\d{2})?)\s*(am|pm)?(?:\s*\/\s*(\d{1,2}(?::\d{2})?)\s*(am|pm)?)?/gi;
+    let previousEnd = -1;
+
+    for (const match of outside.matchAll(groupPattern)) {
+      const [group, first, firstMeridiem, second, secondMeridiem] = match;
+      if (!firstMeridiem && !secondMeridiem) continue; // ages, prices and addresses
+
+      const start = match.index ?? 0;
+      const end = start + group.length;
+      const startsSet =
+        sets.length === 0 ||
+        /^\s*(?:and|&|,)\s*$/i.test(outside.slice(previousEnd, start));
+      const gap = outside.slice(previousEnd, start);
+      previousEnd = end;
+      if (!startsSet) {
+        // "til 10pm", "-11pm" and "to 6pm" end the previous set
+        const endTime = !second && /^\s*(?:til+|until|to|-|–)\s*$/i.test(gap)
+          ? DateParser.parseTime(`${first}${firstMeridiem}`)?.startTime
+          : undefined;
+        const last = sets[sets.length - 1].performance;
+        if (endTime && !last.endTime) last.endTime = endTime;
+        continue;
+      }
+
+      const timeString = second
+        ? `${first}${firstMeridiem ?? secondMeridiem}/${second}${secondMeridiem ?? firstMeridiem}`
+        : `${first}${firstMeridiem}`;
+      const parsed = DateParser.parseTime(timeString);
+      if (!parsed) continue;
+
+      sets.push({
+        performance: {
+          ...(parsed.doorTime ? { doorTime: parsed.doorTime } : {}),
+          showTime: parsed.startTime,
+          isSoldOut: false,
+        },
+        end,
+      });
+    }
+
+    // "(shows over by 10pm)" ends every set without its own end time
+    const curfew = this.parseCurfew(normalized);
+    if (curfew) {
+      sets.forEach(({ performance }) => (performance.endTime ??= curfew));
+    }
+
+    const markAll = () => sets.forEach((set) => (set.performance.isSoldOut = true));
+
+    if (/sold\s*out/i.test(outside)) markAll();
+
+    for (const note of normalized.matchAll(/\(([^)]*)\)/g)) {
+      if (!/sold\s*out/i.test(note[1])) continue;
+      const noteStart = note.index ?? 0;
+
+      const namedTimes = [...note[1].matchAll(/(\d{1,2}(?::\d{2})?)\s*(am|pm)/gi)]
+        .map((m) => DateParser.parseTime(m[0])?.startTime)
+        .filter(Boolean);
+      if (namedTimes.length > 0) {
+        sets
+          .filter(({ performance: p }) =>
+            namedTimes.some((t) => t === p.showTime || t === p.doorTime)
+          )
+          .forEach((set) => (set.performance.isSoldOut = true));
+        continue;
+      }
+
+      const followed = sets.find(
+        (set) => set.end <= noteStart && /^\s*$/.test(outside.slice(set.end, noteStart))
+      );
+      if (followed) followed.performance.isSoldOut = true;
+      else markAll();
+    }
+
+    return sets.map((set) => set.performance);
+  }
+
+  /**
+   * Curfew phrasing from a venue or event line: "(shows over by 10pm)", "curfew 11pm",
+   * "ends at midnight". Returns HH:mm.
+   */
+  static parseCurfew(text: string): string | undefined {
+    const match = text
+      .replace(/\bmidnight\b/gi, "12am")
+      .match(
+        /\b(?:over|done|out|finished)\s+by\s+(\d{1,2}(?::\d{2})?\s*[ap]m)|\bcurfew\s*(?:is\s+|at\s+|of\s+)?(\d{1,2}(?::\d{2})?\s*[ap]m)|\bends?\s+(?:at|by)\s+(\d{1,2}(?::\d{2})?\s*[ap]m)/i
+      );
+    const time = match?.[1] ?? match?.[2] ?? match?.[3];
+    return time ? DateParser.parseTime(time.replace(/\s+/g, ""))?.startTime : undefined;
+  }
+
+  /**
+   * Map the legend symbols from the footer of The List:
+   *   *  stars   $  will probably sell out   @  mosh pit warning
+   *   ^  under 21 must pay more   #  no ins/outs
+   */
+  static parseAdvisories(symbols: string): EventAdvisory {
+    const stars = (symbols.match(/\*/g) || []).length;
+
+    return {
+      likelySellout: symbols.includes("$"),
+      moshPit: symbols.includes("@"),
+      under21Surcharge: symbols.includes("^"),
+      noInsOuts: symbols.includes("#"),
+      ...(stars > 0 ? { starRating: stars } : {}),
+    };
+  }
+
+  /**
+   * Find the city among the comma-separated parts after the venue name.
+   * The city is usually first ("Walnut Creek a/a $10"), but an address or landmark
+   * can come before it ("525 Sansome Street, S.F."), so each part is tried in order.
+   */
+  private static resolveCity(locationParts: string[]): string {
+    for (const part of locationParts) {
+      const locality = Gazetteer.resolve(part);
+      if (locality) return locality.name;
+    }
+
+    // Unknown locality: keep the first word as before
+    return StringNormalizer.normalizeCity(locationParts[0].trim().split(/\s+/)[0]);
+  }
+
   private static parseAgeRestriction(text: string): AgeRestriction {
     if (/\ba\/a\b/i.test(text)) return "all-ages";
     if (/\b21\+/i.test(text)) return "21+";
@@ -284,43 +546,104 @@ export class VenueLineParser {
     return "all-ages"; // default
   }
 
-  private static parsePrice(text: string): {
-    min?: number;
-    max?: number;
-    isFree: boolean;
-  } {
-    if (/\bfree\b/i.test(text)) return { isFree: true };
+  /**
+   * Read the price out of a venue line. General admission comes from the line itself
+   * ("$15/$20", "$49-$30", "$35+"); VIP, seating and pass tiers and the under-21
+   * surcharge come from its notes ("($140 vip)", "(under 21 plus $5)").
+   */
+  static parsePrice(text: string, notes: string[] = []): PriceInfo {
+    const money = "(\\d+(?:\\.\\d{1,2})?)";
+    const general: number[] = [];
+    let isOpenEnded = false;
+
+    // "$10-15" ranges may drop the second dollar sign; "$10 8-11pm" is not a range
+    const pricePattern = new RegExp(
+      `\\$+${money}(\\+)?(?:\\s*-\\s*\\$?${money}(?![\\d:]|\\s*[ap]m)(\\+)?)?`,
+      "gi"
+    );
+    for (const match of text.matchAll(pricePattern)) {
+      general.push(parseFloat(match[1]));
+      if (match[3]) general.push(parseFloat(match[3]));
+      if (match[2] || match[4]) isOpenEnded = true;
+    }
 
-    // Match price patterns like $50.60, $10/$15, $199.70
-    const priceMatches = text.match(/\$(\d+(?:\.\d{2})?)/g);
-    if (!priceMatches) return { isFree: false };
+    // Two slash-separated prices are advance and door
+    const advanceDoor =
+      general.length === 2
+        ? text.match(new RegExp(`\\$${money}\\s*\\/\\s*\\$${money}`))
+        : null;
 
-    const prices = priceMatches.map((match) => parseFloat(match.slice(1)));
+    const tiers: PriceTier[] = general.map((amount) => ({ amount }));
+    let under21Surcharge: number | undefined;
+
+    for (const note of notes) {
+      const surcharge = note.match(new RegExp(`under\\s*\\d+\\s*(?:plus|\\+)\\s*\\$${money}`, "i"));
+      if (surcharge) {
+        under21Surcharge = parseFloat(surcharge[1]);
+        continue;
+      }
+      tiers.push(...this.parseNoteTiers(note));
+    }
+
+    const vipPrices = tiers
+      .filter((tier) => tier.label && /\bvi+p\b/.test(tier.label))
+      .map((tier) => tier.amount);
+    const searchable = [text, ...notes].join(" ");
 
     return {
-      min: Math.min(...prices),
-      max: Math.max(...prices),
-      isFree: false,
+      min: general.length > 0 ? Math.min(...general) : undefined,
+      max: general.length > 0 ? Math.max(...general) : undefined,
+      isFree: /\bfree\b/i.test(text),
+      advance: advanceDoor ? parseFloat(advanceDoor[1]) : undefined,
+      door: advanceDoor ? parseFloat(advanceDoor[2]) : undefined,
+      tiers,
+      vip: vipPrices.length > 0 ? Math.min(...vipPrices) : undefined,
+      isOpenEnded,
+      isDonation: /\bdonation\b/i.test(searchable),
+      isSlidingScale: /\bsliding[\s-]*scale\b/i.test(searchable),
+      under21Surcharge,
     };
   }
 
-  private static extractTime(text: string): string {
-    const timeMatch = text.match(
-      /(\d{1,2}(?::\d{2})?\s*(?:am|pm)?(?:\/\d{1,2}(?::\d{2})?\s*(?:am|pm)?)?)/i
-    );
-    return timeMatch?.[1] || "";
-  }
+  /**
+   * Labeled tiers in a note: "$140 vip/$300 four day pass", "$100/$150 premium".
+   * An unlabeled price takes the label of the part after it; parking isn't a ticket.
+   */
+  private static parseNoteTiers(note: string): PriceTier[] {
+    const parts = note.split("/").map((part) => {
+      // "+$50" is an upgrade on top of another ticket, not a price of its own
+      const amounts = Array.from(part.matchAll(/(?<!\+\s*)\$(\d+(?:\.\d{1,2})?)/g), (m) =>
+        parseFloat(m[1])
+      );
+      const label = part
+        .replace(/\$\d+(?:\.\d{1,2})?\+?/g, "")
+        .replace(/[^\w\s:+-]/g, " ")
+        .replace(/^[\s+-]+|[\s+-]+$/g, "")
+        .replace(/\s+/g, " ")
+        .toLowerCase();
+      return { amounts, label };
+    });
 
-  private static determineVenueType(symbols: string, venue: string): VenueType {
-    if (symbols.includes("#")) return "major";
-    if (symbols.includes("@")) return "diy";
+    const tiers: PriceTier[] = [];
+    parts.forEach(({ amounts, label }, i) => {
+      const tierLabel = label || parts.slice(i + 1).find((part) => part.label)?.label;
+      if (tierLabel && /\bparking\b/.test(tierLabel)) return;
+      for (const amount of amounts) {
+        tiers.push(tierLabel ? { amount, label: tierLabel } : { amount });
+      }
+    });
+    return tiers;
+  }
 
-    // Heuristics based on venue name
+  private static determineVenueType(venue: string): VenueType {
+    // Legend symbols describe the show, not the room, so only the name is used
     const venueLower = venue.toLowerCase();
     if (
       venueLower.includes("theater") ||
       venueLower.includes("auditorium") ||
-      venueLower.includes("hall")
+      venueLower.includes("hall") ||
+      venueLower.includes("arena") ||
+      venueLower.includes("pavilion")
     )
       return "major";
     if (
@@ -356,6 +679,71 @@ export class VenueLineParser {
   }
 }
 
+// Price helpers shared by the indexer, filters and price display
+export class PriceUtils {
+  /**
+   * Structured price for an event, rebuilt from min/max for chunks that predate PriceInfo
+   */
+  static fromEvent(event: Pick<Event, "price" | "priceMin" | "priceMax" | "isFree">): PriceInfo {
+    if (event.price) return event.price;
+
+    const general = [event.priceMin, event.priceMax].filter(
+      (p, i, all): p is number => p !== undefined && all.indexOf(p) === i
+    );
+    return {
+      min: event.priceMin,
+      max: event.priceMax,
+      isFree: event.isFree,
+      tiers: general.map((amount) => ({ amount })),
+      isOpenEnded: false,
+      isDonation: false,
+      isSlidingScale: false,
+    };
+  }
+
+  /**
+   * Cheapest way in: 0 when free, else the advance or lowest general-admission price
+   */
+  static entryPrice(price: PriceInfo): number | undefined {
+    if (price.isFree) return 0;
+    return price.advance ?? price.min;
+  }
+
+  /**
+   * One-line summary, e.g. "$15 adv / $20 door · VIP $140 · under 21 +$5"
+   */
+  static describe(price: PriceInfo): string {
+    const dollars = (n: number) => `$${Number.isInteger(n) ? n : n.toFixed(2)}`;
+    const parts: string[] = [];
+
+    if (price.isFree) {
+      parts.push("Free");
+    } else if (price.advance !== undefined && price.door !== undefined) {
+      parts.push(`${dollars(price.advance)} adv / ${dollars(price.door)} door`);
+    } else if (price.min !== undefined) {
+      const range =
+        price.max !== undefined && price.max !== price.min
+          ? `${dollars(price.min)}–${dollars(price.max)}`
+          : dollars(price.min);
+      parts.push(`${range}${price.isOpenEnded ? "+" : ""}`);
+    }
+
+    if (price.isSlidingScale) parts.push("sliding scale");
+    if (price.isDonation) parts.push("donation");
+    if (price.vip !== undefined) parts.push(`VIP ${dollars(price.vip)}`);
+    for (const tier of price.tiers) {
+      if (tier.label && !/\bvi+p\b/.test(tier.label)) {
+        parts.push(`${tier.label} ${dollars(tier.amount)}`);
+      }
+    }
+    if (price.under21Surcharge !== undefined) {
+      parts.push(`under 21 +${dollars(price.under21Surcharge)}`);
+    }
+
+    return parts.join(" · ");
+  }
+}
+
 // Deduplication utilities
 export class DeduplicationUtils {
   /**
@@ -435,6 +823,13 @@ export class HashGenerator {
     return Math.abs(hash);
   }
 
+  /**
+   * Hash of an arbitrary seed, for probing past a collision
+   */
+  static generateId(seed: string): number {
+    return this.simpleHash(seed);
+  }
+
   /**
    * Generate an artist ID from artist name
    */
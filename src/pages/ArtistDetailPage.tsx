@@ -6,6 +6,7 @@ import React, { useEffect } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
+import { AddToCalendarButton } from "@/components/ui/AddToCalendarButton.js";
 import { useAppStore } from "@/stores/appStore.js";
 
 const ArtistDetailPage: React.FC = () => {
@@ -14,6 +15,9 @@ const ArtistDetailPage: React.FC = () => {
 
   const artists = useAppStore((s) => s.artists);
   const venues = useAppStore((s) => s.venues);
+  const followedArtistIds = useAppStore((s) => s.followedArtistIds);
+  const toggleFollowArtist = useAppStore((s) => s.toggleFollowArtist);
+  const loadArtistEvents = useAppStore((s) => s.loadArtistEvents);
   const initialize = useAppStore((s) => s.initialize);
   const loading = useAppStore((s) => s.loading);
 
@@ -74,6 +78,25 @@ const ArtistDetailPage: React.FC = () => {
               <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                 {artist.upcomingEvents.length} upcoming · {artist.totalEventCount} total shows
               </div>
+              <div className="flex flex-wrap items-center gap-3 mt-1">
+                <button
+                  type="button"
+                  onClick={() => toggleFollowArtist(artist.id)}
+                  aria-pressed={followedArtistIds.includes(artist.id)}
+                  className="text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  {followedArtistIds.includes(artist.id) ? "Following" : "Follow"}
+                </button>
+                {/* Loads the chunks the shows are in, so every upcoming show is exported */}
+                {artist.upcomingEvents.length > 0 && (
+                  <AddToCalendarButton
+                    events={() => loadArtistEvents([artist.id])}
+                    filename={artist.slug}
+                    calendarName={`${artist.name} shows`}
+                    label="Add upcoming shows to calendar"
+                  />
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -107,7 +130,7 @@ const ArtistDetailPage: React.FC = () => {
                       </div>
                       <div className="text-xs text-gray-400">{event.venueCity}</div>
                     </div>
-                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} className="text-xs shrink-0" />
+                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-xs shrink-0" />
                     <svg className="w-3.5 h-3.5 text-gray-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                     </svg>
@@ -10,9 +10,15 @@ import {
   ListSkeleton,
 } from "@/components/ui/LoadingSpinner.js";
 import { useAppStore } from "@/stores/appStore.js";
+import { calledOffClass } from "@/utils/eventStatus.js";
 import { useFilterStore } from "@/stores/filterStore.js";
+import { EventQuery } from "@/utils/eventQuery.js";
+import { todayKey } from "@/utils/calendar.js";
+import type { Artist, ArtistId, ArtistUpcomingEvent } from "@/types/events.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
+import { AddToCalendarButton } from "@/components/ui/AddToCalendarButton.js";
 import NewBadge from "@/components/ui/NewBadge.js";
+import UpdatedBadge from "@/components/ui/UpdatedBadge.js";
 
 const ArtistsPage: React.FC = () => {
   const artists = useAppStore((state) => state.artists);
@@ -21,6 +27,9 @@ const ArtistsPage: React.FC = () => {
   const errors = useAppStore((state) => state.errors);
   const initialize = useAppStore((state) => state.initialize);
   const showUpcomingOnly = useAppStore((state) => state.showUpcomingOnly);
+  const followedArtistIds = useAppStore((state) => state.followedArtistIds);
+  const loadArtistEvents = useAppStore((state) => state.loadArtistEvents);
+  const getVenue = useAppStore((state) => state.getVenue);
 
   const { filters, setSearchQuery, clearSearch, updateFilter } =
     useFilterStore();
@@ -111,41 +120,25 @@ const ArtistsPage: React.FC = () => {
     navigate("/");
   };
 
-  // Filter artists based on upcoming events flag and toolbar filters
-  const allArtistsArray = React.useMemo(() => {
-    let artistsArray = Array.from(artists.values());
-
-    // Filter by upcoming events
-    if (showUpcomingOnly) {
-      artistsArray = artistsArray.filter((a) => a.upcomingEvents.length > 0);
-    }
-
-    // Filter by cities
-    if (filters.cities && filters.cities.length > 0) {
-      const selectedCities = new Set(filters.cities);
-      artistsArray = artistsArray.filter((a) =>
-        a.upcomingEvents.some((e) => selectedCities.has(e.venueCity))
-      );
-    }
-
-    // Filter by date range
-    if (filters.dateRange?.startDate || filters.dateRange?.endDate) {
-      const start = filters.dateRange?.startDate ? new Date(filters.dateRange.startDate).setHours(0,0,0,0) : -Infinity;
-      const end = filters.dateRange?.endDate ? new Date(filters.dateRange.endDate).setHours(23,59,59,999) : Infinity;
-      artistsArray = artistsArray.filter((a) =>
-        a.upcomingEvents.some((e) => e.dateEpochMs >= start && e.dateEpochMs <= end)
-      );
-    }
+  const query = React.useMemo(
+    () => new EventQuery(
+      { filters, fromDate: showUpcomingOnly ? todayKey() : undefined },
+      { venue: getVenue }
+    ),
+    [filters, showUpcomingOnly, getVenue]
+  );
 
-    // Filter by specific dates
-    if (filters.dates && filters.dates.length > 0) {
-      const selectedDates = new Set(filters.dates);
-      artistsArray = artistsArray.filter((a) =>
-        a.upcomingEvents.some((e) =>
-          selectedDates.has(new Date(e.dateEpochMs).toISOString().split("T")[0])
-        )
-      );
+  // Each artist's shows that pass the toolbar filters; artists without one are left out
+  const { allArtistsArray, showsByArtist } = React.useMemo(() => {
+    const showsByArtist = new Map<ArtistId, ArtistUpcomingEvent[]>();
+    let artistsArray: Artist[] = [];
+    for (const artist of artists.values()) {
+      const shows = query.isFiltering ? artist.upcomingEvents.filter((e) => query.matches(e)) : artist.upcomingEvents;
+      if (query.isFiltering && shows.length === 0) continue;
+      showsByArtist.set(artist.id, shows);
+      artistsArray.push(artist);
     }
+    const showsOf = (artist: Artist) => showsByArtist.get(artist.id) ?? [];
 
     // Filter by local search input
     if (artistSearch.trim()) {
@@ -155,30 +148,23 @@ const ArtistsPage: React.FC = () => {
 
     // Sort: most discrete venues first, then lowest price, then earliest date
     artistsArray.sort((a, b) => {
-      const venueCount = (events: typeof a.upcomingEvents) => new Set(events.map((e) => e.venueId)).size;
-      const va = venueCount(a.upcomingEvents);
-      const vb = venueCount(b.upcomingEvents);
+      const venueCount = (events: ArtistUpcomingEvent[]) => new Set(events.map((e) => e.venueId)).size;
+      const va = venueCount(showsOf(a));
+      const vb = venueCount(showsOf(b));
       if (vb !== va) return vb - va;
-      const priceOf = (ev: typeof a.upcomingEvents[0] | undefined) => {
+      const priceOf = (ev: ArtistUpcomingEvent | undefined) => {
         if (!ev) return Infinity;
         if (ev.isFree) return 0;
         return ev.priceMin ?? ev.priceMax ?? Infinity;
       };
-      const pa = priceOf(a.upcomingEvents[0]);
-      const pb = priceOf(b.upcomingEvents[0]);
+      const pa = priceOf(showsOf(a)[0]);
+      const pb = priceOf(showsOf(b)[0]);
       if (pa !== pb) return pa - pb;
-      return (a.upcomingEvents[0]?.dateEpochMs ?? Infinity) - (b.upcomingEvents[0]?.dateEpochMs ?? Infinity);
+      return (showsOf(a)[0]?.dateEpochMs ?? Infinity) - (showsOf(b)[0]?.dateEpochMs ?? Infinity);
     });
 
-    return artistsArray;
-  }, [
-    artists,
-    showUpcomingOnly,
-    filters.cities,
-    filters.dateRange,
-    filters.dates,
-    artistSearch,
-  ]);
+    return { allArtistsArray: artistsArray, showsByArtist };
+  }, [artists, query, artistSearch]);
 
   React.useEffect(() => {
     setArtistsDisplayLimit(30);
@@ -286,6 +272,17 @@ const ArtistsPage: React.FC = () => {
         )}
       </div>
 
+      {/* Shows by every artist followed from their page, as one .ics file */}
+      {followedArtistIds.length > 0 && (
+        <AddToCalendarButton
+          events={() => loadArtistEvents(followedArtistIds)}
+          filename="followed-artists"
+          calendarName="Followed artists"
+          label={`Add shows by ${followedArtistIds.length} followed artist${followedArtistIds.length !== 1 ? "s" : ""} to calendar`}
+          className="mb-4"
+        />
+      )}
+
       <>
         {allArtistsArray.length === 0 && artistSearch ? (
           <div className="text-center py-12 text-gray-500 dark:text-gray-400">
@@ -294,7 +291,7 @@ const ArtistsPage: React.FC = () => {
         ) : null}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {artistsArray.map((artist) => {
-            const artistEvents = artist.upcomingEvents;
+            const artistEvents = showsByArtist.get(artist.id) ?? [];
 
             return (
               <div
@@ -345,7 +342,7 @@ const ArtistsPage: React.FC = () => {
                           <span className="text-xs text-gray-400 dark:text-gray-500 w-14 shrink-0 tabular-nums">
                             {new Date(event.dateEpochMs).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
                           </span>
-                          <span className="text-xs text-gray-700 dark:text-gray-200 truncate font-medium flex-1">
+                          <span className={`text-xs text-gray-700 dark:text-gray-200 truncate font-medium flex-1 ${calledOffClass(event)}`}>
                             {event.venueName}
                           </span>
                           <PriceWidget
@@ -353,10 +350,14 @@ const ArtistsPage: React.FC = () => {
                             isSoldOut={event.isSoldOut}
                             priceMin={event.priceMin}
                             priceMax={event.priceMax}
+                            price={event.price}
                             className="text-xs shrink-0"
                           />
                           {manifest?.latestIngestionDate && (
-                            <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                            <>
+                              <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                              <UpdatedBadge changedAtEpochMs={event.changedAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                            </>
                           )}
                         </Link>
                       ))}
@@ -2,11 +2,23 @@
  * Event detail page
  */
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
+import AdvisoryBadges from "@/components/ui/AdvisoryBadges.js";
+import { AddToCalendarButton } from "@/components/ui/AddToCalendarButton.js";
 import { useAppStore } from "@/stores/appStore.js";
+import { calledOffClass } from "@/utils/eventStatus.js";
+import type { EventId } from "@/types/events.js";
+import type { EventChange, TrackedEventField } from "@/types/data.js";
+
+const CHANGE_LABELS: Record<TrackedEventField, string> = {
+  price: "Price",
+  lineup: "Lineup",
+  ageRestriction: "Ages",
+  status: "Status",
+};
 
 const EventDetailPage: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
@@ -20,6 +32,8 @@ const EventDetailPage: React.FC = () => {
   const loadChunk = useAppStore((s) => s.loadChunk);
   const loadedChunks = useAppStore((s) => s.loadedChunks);
   const loading = useAppStore((s) => s.loading);
+  const getEventHistory = useAppStore((s) => s.getEventHistory);
+  const [history, setHistory] = useState<{ eventId: EventId; changes: EventChange[] } | null>(null);
 
   // Initialize if needed
   useEffect(() => {
@@ -51,6 +65,21 @@ const EventDetailPage: React.FC = () => {
     loadAll().catch(console.error);
   }, [event, slug, manifest, loadedChunks, loadChunk]);
 
+  // Change history is only fetched for events the ETL marked as changed
+  const eventId = event?.id;
+  const hasChanged = !!event?.changedAtEpochMs;
+  useEffect(() => {
+    if (eventId === undefined || !hasChanged) return;
+    let cancelled = false;
+    getEventHistory(eventId).then((changes) => {
+      if (!cancelled) setHistory({ eventId, changes });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, hasChanged, getEventHistory]);
+  const changes = history && history.eventId === eventId ? history.changes : [];
+
   // Treat idle (not yet started) as loading — avoids false "not found" on cold load
   const isLoading =
     loading.artists === "idle" || loading.artists === "loading" ||
@@ -115,15 +144,29 @@ const EventDetailPage: React.FC = () => {
   const d = new Date(event.dateEpochMs);
   const dateStr = d.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
   const timeStr = event.startTimeEpochMs
-    ? new Date(event.startTimeEpochMs).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+    ? new Date(event.startTimeEpochMs).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "UTC" })
     : null;
+  const sets = event.performances ?? [];
+  // Performance times are wall-clock "HH:mm"
+  const formatSetTime = (time: string) => {
+    const [h, m] = time.split(":").map(Number);
+    return new Date(Date.UTC(2000, 0, 1, h, m)).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "UTC" });
+  };
 
   const statusColors: Record<string, string> = {
     "confirmed": "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
     "sold-out": "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
     "cancelled": "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400",
     "postponed": "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+    "rescheduled": "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
   };
+  // EventLink dates are ISO days
+  const formatLinkDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+  const movedFrom = [
+    event.rescheduledFrom && event.rescheduledFrom.date !== event.date && formatLinkDate(event.rescheduledFrom.date),
+    event.movedFrom,
+  ].filter(Boolean).join(", ");
 
   const allArtists = [headliner, ...supportingArtists].filter(Boolean);
 
@@ -173,7 +216,7 @@ const EventDetailPage: React.FC = () => {
           Back
         </button>
         <span className="text-gray-300 dark:text-gray-600">·</span>
-        <h1 className="text-xl font-bold text-gray-900 dark:text-white truncate">{headliner?.name ?? "Show"}</h1>
+        <h1 className={`text-xl font-bold text-gray-900 dark:text-white truncate ${calledOffClass(event)}`}>{headliner?.name ?? "Show"}</h1>
         {venue && (
           <>
             <span className="text-gray-300 dark:text-gray-600 shrink-0">·</span>
@@ -189,6 +232,29 @@ const EventDetailPage: React.FC = () => {
         )}
       </div>
 
+      {/* Why the show is off, or where it moved from */}
+      {(event.statusNote || event.rescheduledTo || movedFrom) && (
+        <div className="mb-4 text-sm text-gray-600 dark:text-gray-300 space-y-0.5">
+          {event.statusNote && <p>{event.statusNote}</p>}
+          {event.rescheduledTo && (
+            <p>
+              Moved to{" "}
+              <Link to={`/events/${event.rescheduledTo.slug}`} className="font-medium text-purple-600 dark:text-purple-400 hover:underline">
+                {formatLinkDate(event.rescheduledTo.date)}
+              </Link>
+            </p>
+          )}
+          {movedFrom && (
+            <p>
+              Moved from{" "}
+              {event.rescheduledFrom ? (
+                <Link to={`/events/${event.rescheduledFrom.slug}`} className="hover:underline">{movedFrom}</Link>
+              ) : movedFrom}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Outer 3-col grid: venue (1/3) left, event+artists (2/3) right */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
         {/* Event summary + artist cards — col-span-2, visually on the right */}
@@ -215,8 +281,31 @@ const EventDetailPage: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
               <span className="text-gray-900 dark:text-white">{dateStr}</span>
-              {timeStr && <span className="text-gray-500 dark:text-gray-400">· {timeStr}</span>}
+              {timeStr && sets.length <= 1 && (
+                <span className="text-gray-500 dark:text-gray-400">
+                  {event.doorsTime && `· doors ${formatSetTime(event.doorsTime)} `}
+                  · {event.doorsTime ? "show " : ""}{timeStr}
+                  {event.endTime && ` · over by ${formatSetTime(event.endTime)}`}
+                </span>
+              )}
             </div>
+            {sets.length > 1 && (
+              <ul className="ml-6 space-y-0.5 text-sm" aria-label="Sets">
+                {sets.map((set, i) => (
+                  <li key={set.showTime + i} className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                    <span className="font-medium text-gray-900 dark:text-white">Set {i + 1}</span>
+                    {set.doorTime && <span>doors {formatSetTime(set.doorTime)}</span>}
+                    <span>show {formatSetTime(set.showTime)}</span>
+                    {set.endTime && <span>til {formatSetTime(set.endTime)}</span>}
+                    {set.isSoldOut && (
+                      <span className="text-xs font-semibold px-1.5 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+                        SOLD OUT
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
             {venue && (
               <div className="flex items-start gap-2 text-sm">
                 <svg className="w-4 h-4 text-gray-400 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -229,17 +318,24 @@ const EventDetailPage: React.FC = () => {
                 </div>
               </div>
             )}
+            <AddToCalendarButton
+              events={[event]}
+              filename={event.slug}
+              calendarName={headliner?.name ?? "Show"}
+              className="ml-6"
+            />
           </div>
 
-          {/* Price / age / tags */}
+          {/* Price / age / tags / advisories */}
           <div className="flex flex-wrap items-center gap-2 pt-1">
-            <PriceWidget isFree={event.isFree} isSoldOut={event.status === "sold-out" || event.tags?.includes("sold-out")} priceMin={event.priceMin} priceMax={event.priceMax} className="text-sm" />
+            <PriceWidget isFree={event.isFree} isSoldOut={event.status === "sold-out" || event.tags?.includes("sold-out")} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-sm" />
             {event.ageRestriction && (
               <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">{event.ageRestriction}</span>
             )}
             {event.tags?.map((tag) => (
               <span key={tag} className="text-xs bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 px-2 py-1 rounded">{tag}</span>
             ))}
+            <AdvisoryBadges advisories={event.advisories} showLabels />
             {event.ticketUrl && (
               <a href={event.ticketUrl} target="_blank" rel="noopener noreferrer"
                 className="ml-auto inline-flex items-center gap-1 px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-xs rounded-lg transition-colors">
@@ -257,6 +353,30 @@ const EventDetailPage: React.FC = () => {
               {event.notes && <p className="text-gray-400 dark:text-gray-500 italic">{event.notes}</p>}
             </div>
           )}
+
+          {changes.length > 0 && (
+            <div className="text-sm pt-1 border-t border-gray-100 dark:border-gray-700">
+              <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500 mb-1">What changed</h2>
+              <ul className="space-y-1">
+                {[...changes].reverse().map((change) => (
+                  <li key={change.changedAtEpochMs} className="flex gap-2">
+                    <span className="text-xs text-gray-400 dark:text-gray-500 w-14 shrink-0 tabular-nums pt-0.5">
+                      {new Date(change.changedAtEpochMs).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                    </span>
+                    <div className="min-w-0 space-y-0.5">
+                      {change.changes.map((c) => (
+                        <div key={c.field} className="text-gray-600 dark:text-gray-300">
+                          <span className="font-medium text-gray-900 dark:text-white">{CHANGE_LABELS[c.field]}:</span>{" "}
+                          <span className="line-through text-gray-400 dark:text-gray-500">{c.before}</span>{" → "}
+                          {c.after}
+                        </div>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>{/* end event summary card */}
 
         {/* Artist cards — 2-col inside left column */}
@@ -287,7 +407,7 @@ const EventDetailPage: React.FC = () => {
                           {new Date(ev.dateEpochMs).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
                         </span>
                         <span className="text-xs text-gray-700 dark:text-gray-200 truncate font-medium flex-1">{ev.venueName}</span>
-                        <PriceWidget isFree={ev.isFree} isSoldOut={ev.status === "sold-out" || ev.tags?.includes("sold-out")} priceMin={ev.priceMin} priceMax={ev.priceMax} className="text-xs shrink-0" />
+                        <PriceWidget isFree={ev.isFree} isSoldOut={ev.status === "sold-out" || ev.tags?.includes("sold-out")} priceMin={ev.priceMin} priceMax={ev.priceMax} price={ev.price} className="text-xs shrink-0" />
                       </div>
                     ))}
                   </div>
@@ -331,10 +451,10 @@ const EventDetailPage: React.FC = () => {
                       <span className={`text-xs w-14 shrink-0 tabular-nums ${isCurrent ? "text-purple-600 dark:text-purple-400" : "text-gray-400 dark:text-gray-500"}`}>
                         {new Date(ev.dateEpochMs).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
                       </span>
-                      <span className={`text-xs truncate flex-1 ${isCurrent ? "text-purple-900 dark:text-purple-100 font-semibold" : "text-gray-700 dark:text-gray-200 font-medium"}`}>
+                      <span className={`text-xs truncate flex-1 ${isCurrent ? "text-purple-900 dark:text-purple-100 font-semibold" : "text-gray-700 dark:text-gray-200 font-medium"} ${calledOffClass(ev)}`}>
                         {ev.headlinerName || "Show"}
                       </span>
-                      <PriceWidget isFree={ev.isFree} isSoldOut={ev.status === "sold-out" || ev.tags?.includes("sold-out")} priceMin={ev.priceMin} priceMax={ev.priceMax} className="text-xs shrink-0" />
+                      <PriceWidget isFree={ev.isFree} isSoldOut={ev.status === "sold-out" || ev.tags?.includes("sold-out")} priceMin={ev.priceMin} priceMax={ev.priceMax} price={ev.price} className="text-xs shrink-0" />
                     </Link>
                   );
                 })}
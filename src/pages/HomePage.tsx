@@ -6,12 +6,15 @@ import React, { useEffect, useCallback } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.tsx";
 import { useAppStore } from "@/stores/appStore.ts";
-import { useFilterStore } from "@/stores/filterStore.ts";
 import PriceWidget from "@/components/ui/PriceWidget.tsx";
+import EventStatusBadge from "@/components/ui/EventStatusBadge.tsx";
+import { calledOffClass } from "@/utils/eventStatus.ts";
+import { useEventQuery } from "@/hooks/useFilteredEvents.ts";
+import { useFilterResults } from "@/hooks/useFilterResults.ts";
+import { todayKey } from "@/utils/calendar.ts";
 
 const HomePage: React.FC = () => {
   const getAllEvents = useAppStore((state) => state.getAllEvents);
-  const events = useAppStore((state) => state.events); // subscribe to events map for memo reactivity
   const getVenue = useAppStore((state) => state.getVenue);
   const getArtist = useAppStore((state) => state.getArtist);
   const loading = useAppStore((state) => state.loading);
@@ -22,7 +25,6 @@ const HomePage: React.FC = () => {
   const showUpcomingOnly = useAppStore((state) => state.showUpcomingOnly);
   const manifest = useAppStore((state) => state.manifest);
 
-  const { filters, searchQuery } = useFilterStore();
   const location = useLocation();
 
   const [displayLimit, setDisplayLimit] = React.useState(100);
@@ -51,67 +53,12 @@ const HomePage: React.FC = () => {
     return () => { mainElement.removeEventListener("scroll", handler); clearTimeout(t); };
   }, []);
 
-  // Filter events
-  const allFilteredEvents = React.useMemo(() => {
-    let evs = getAllEvents(Infinity);
-
-    if (showUpcomingOnly) {
-      const todayMs = new Date().setHours(0, 0, 0, 0);
-      evs = evs.filter((e) => e.dateEpochMs >= todayMs);
-    }
-    if (filters.cities?.length) {
-      const cities = new Set(filters.cities);
-      evs = evs.filter((e) => { const v = getVenue(e.venueId); return v && cities.has(v.city); });
-    }
-    if (filters.dates?.length) {
-      const dates = new Set(filters.dates);
-      evs = evs.filter((e) => dates.has(new Date(e.dateEpochMs).toISOString().split("T")[0]));
-    }
-    if (filters.dateRange?.startDate || filters.dateRange?.endDate) {
-      const parseLocal = (s: string) => { const [y,m,d] = s.split("-").map(Number); return new Date(y,m-1,d); };
-      const start = filters.dateRange?.startDate ? parseLocal(filters.dateRange.startDate).setHours(0,0,0,0) : -Infinity;
-      const end = filters.dateRange?.endDate ? parseLocal(filters.dateRange.endDate).setHours(23,59,59,999) : Infinity;
-      evs = evs.filter((e) => e.dateEpochMs >= start && e.dateEpochMs <= end);
-    }
-    if (filters.venues?.length) {
-      const venues = new Set(filters.venues);
-      evs = evs.filter((e) => { const v = getVenue(e.venueId); return v && venues.has(v.name); });
-    }
-    if (filters.isFree) {
-      evs = evs.filter((e) => e.isFree);
-    } else if (filters.priceRange?.min !== undefined || filters.priceRange?.max !== undefined) {
-      evs = evs.filter((e) => {
-        if (e.isFree) return (filters.priceRange?.min ?? 0) === 0;
-        const p = e.priceMin ?? 0;
-        if (filters.priceRange?.min !== undefined && p < filters.priceRange.min) return false;
-        if (filters.priceRange?.max !== undefined && p > filters.priceRange.max) return false;
-        return true;
-      });
-    }
-    if (filters.ageRestrictions?.length) {
-      const ages = filters.ageRestrictions;
-      evs = evs.filter((e) => ages.some((r) => {
-        const ea = (e.ageRestriction ?? "").toLowerCase();
-        if (r === "all-ages") return ea.includes("all") || ea === "all-ages";
-        return ea.includes(r.toLowerCase());
-      }));
-    }
-    if (filters.tags?.length) {
-      const tags = filters.tags;
-      evs = evs.filter((e) => e.tags?.length && tags.some((t) => e.tags?.includes(t)));
-    }
-    if (searchQuery?.trim()) {
-      const q = searchQuery.toLowerCase().trim();
-      evs = evs.filter((e) => {
-        if (getArtist(e.headlinerArtistId)?.name.toLowerCase().includes(q)) return true;
-        if (e.artistIds?.some((id) => getArtist(id)?.name.toLowerCase().includes(q))) return true;
-        if (getVenue(e.venueId)?.name.toLowerCase().includes(q)) return true;
-        return false;
-      });
-    }
-    return evs;
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [events, showUpcomingOnly, filters, searchQuery]); // events map triggers recompute when chunks load
+  // Filter events, a page at a time
+  const { events: visibleEvents, total: matchCount, pending, error: queryError, loadAll } = useEventQuery({
+    fromDate: showUpcomingOnly ? todayKey() : undefined,
+    limit: displayLimit,
+  });
+  useFilterResults(loadAll, matchCount);
 
   // Initialize + load chunks
   useEffect(() => {
@@ -123,15 +70,15 @@ const HomePage: React.FC = () => {
         await Promise.all(manifest.chunks.events.slice(0, 6).map((c) => loadChunk(c.chunkId)));
       }
     };
-    if ((artists.size === 0 && loading.artists === "idle") || (allFilteredEvents.length === 0 && loading.events === "idle")) {
+    if ((artists.size === 0 && loading.artists === "idle") || (matchCount === 0 && loading.events === "idle")) {
       load().catch(console.error);
     }
-  }, [artists.size, loading.artists, loading.events, errors.artists, errors.events, initialize, loadChunk, manifest, allFilteredEvents.length]);
+  }, [artists.size, loading.artists, loading.events, errors.artists, errors.events, initialize, loadChunk, manifest, matchCount]);
 
   // Infinite scroll
   const handleLoadMore = useCallback(async () => {
     if (loading.events === "loading") return;
-    if (displayLimit < allFilteredEvents.length) {
+    if (displayLimit < matchCount) {
       setDisplayLimit((p) => p + 100);
       return;
     }
@@ -143,7 +90,7 @@ const HomePage: React.FC = () => {
       await loadChunk(chunkId);
       setDisplayLimit((p) => p + 100);
     }
-  }, [loading.events, displayLimit, allFilteredEvents.length, getAllEvents, loadChunk]);
+  }, [loading.events, displayLimit, matchCount, getAllEvents, loadChunk]);
 
   useEffect(() => {
     const el = loadMoreRef.current;
@@ -156,9 +103,7 @@ const HomePage: React.FC = () => {
     return () => observer.disconnect();
   }, [handleLoadMore]);
 
-  const visibleEvents = allFilteredEvents.slice(0, displayLimit);
-
-  if (loading.events === "loading" && allFilteredEvents.length === 0) {
+  if (loading.events === "loading" && matchCount === 0) {
     return (
       <ContentArea>
         <div className="text-center py-16">
@@ -182,8 +127,11 @@ const HomePage: React.FC = () => {
   }
 
   return (
-    <ContentArea title="Upcoming Shows" subtitle={`${allFilteredEvents.length} events`}>
-      {allFilteredEvents.length === 0 && (
+    <ContentArea title="Upcoming Shows" subtitle={`${matchCount} events`}>
+      {queryError && (
+        <div className="text-center py-4 text-sm text-red-600 dark:text-red-400">Couldn't apply your filters: {queryError.message}</div>
+      )}
+      {matchCount === 0 && !pending && !queryError && (
         <div className="text-center py-12 text-gray-500 dark:text-gray-400">No events match your filters.</div>
       )}
 
@@ -204,14 +152,15 @@ const HomePage: React.FC = () => {
                 <span className="text-xs text-gray-400 dark:text-gray-500 w-14 shrink-0 tabular-nums">
                   {d.toLocaleDateString("en-US", { month: "short", day: "numeric" })}
                 </span>
-                <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate min-w-0">
+                <span className={`text-sm font-medium text-gray-900 dark:text-gray-100 truncate min-w-0 ${calledOffClass(event)}`}>
                   {headliner?.name ?? "Show"}
                   {otherCount > 0 && <span className="text-gray-400 dark:text-gray-500 font-normal text-xs"> +{otherCount}</span>}
                 </span>
+                <EventStatusBadge event={event} />
               </div>
               <div className="flex items-baseline gap-2 min-w-0">
                 <span className="w-14 shrink-0">
-                  <PriceWidget isFree={event.isFree} isSoldOut={event.status === "sold-out" || event.tags?.includes("sold-out")} priceMin={event.priceMin} priceMax={event.priceMax} className="text-xs" />
+                  <PriceWidget isFree={event.isFree} isSoldOut={event.status === "sold-out" || event.tags?.includes("sold-out")} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-xs" />
                 </span>
                 <span className="text-xs text-gray-500 dark:text-gray-400 truncate min-w-0">
                   {venue?.name ?? ""}
@@ -221,7 +170,7 @@ const HomePage: React.FC = () => {
           );
         })}
 
-        {allFilteredEvents.length > displayLimit && (
+        {matchCount > displayLimit && (
           <div ref={loadMoreRef} className="text-center py-6">
             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-500 mx-auto" />
           </div>
@@ -7,8 +7,11 @@ import { Link, useNavigate } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
 import NewBadge from "@/components/ui/NewBadge.js";
+import UpdatedBadge from "@/components/ui/UpdatedBadge.js";
 import { useAppStore } from "@/stores/appStore.js";
 import { useFilterStore } from "@/stores/filterStore.js";
+import { EventQuery } from "@/utils/eventQuery.js";
+import type { ArtistId, ArtistUpcomingEvent } from "@/types/events.js";
 
 const MIN_EVENTS = 3;
 const MIN_VENUES = 2;
@@ -19,8 +22,9 @@ const LocalArtistsPage: React.FC = () => {
   const loading = useAppStore((s) => s.loading);
   const errors = useAppStore((s) => s.errors);
   const initialize = useAppStore((s) => s.initialize);
+  const getVenue = useAppStore((s) => s.getVenue);
 
-  const { setSearchQuery, updateFilter } = useFilterStore();
+  const { filters, setSearchQuery, updateFilter } = useFilterStore();
   const navigate = useNavigate();
 
   const goToVenue = (venueName: string, e: React.MouseEvent) => {
@@ -48,7 +52,11 @@ const LocalArtistsPage: React.FC = () => {
     navigate("/");
   };
 
-  const localArtists = React.useMemo(() => {
+  const query = React.useMemo(() => new EventQuery({ filters }, { venue: getVenue }), [filters, getVenue]);
+
+  // Who counts as local is decided on every upcoming show; the toolbar filters then pick which shows are listed
+  const { localArtists, showsByArtist } = React.useMemo(() => {
+    const showsByArtist = new Map<ArtistId, ArtistUpcomingEvent[]>();
     let arr = Array.from(artists.values()).filter((a) => {
       if (excludeSet.has(a.name.toLowerCase())) return false;
       if (a.upcomingEvents.length === 0) return false;
@@ -56,8 +64,12 @@ const LocalArtistsPage: React.FC = () => {
       const onList = localArtistList.has(a.name.toLowerCase());
       const venueCount = new Set(a.upcomingEvents.map((e) => e.venueId)).size;
       const meetsThreshold = a.upcomingEvents.length >= MIN_EVENTS && venueCount >= MIN_VENUES;
-      return onList || meetsThreshold;
+      if (!onList && !meetsThreshold) return false;
+      const shows = query.isFiltering ? a.upcomingEvents.filter((e) => query.matches(e)) : a.upcomingEvents;
+      showsByArtist.set(a.id, shows);
+      return shows.length > 0;
     });
+    const showsOf = (id: ArtistId) => showsByArtist.get(id) ?? [];
 
     if (artistSearch.trim()) {
       const q = artistSearch.trim().toLowerCase();
@@ -65,15 +77,17 @@ const LocalArtistsPage: React.FC = () => {
     }
 
     arr.sort((a, b) => {
-      const va = new Set(a.upcomingEvents.map((e) => e.venueId)).size;
-      const vb = new Set(b.upcomingEvents.map((e) => e.venueId)).size;
+      const sa = showsOf(a.id);
+      const sb = showsOf(b.id);
+      const va = new Set(sa.map((e) => e.venueId)).size;
+      const vb = new Set(sb.map((e) => e.venueId)).size;
       if (vb !== va) return vb - va;
-      if (b.upcomingEvents.length !== a.upcomingEvents.length) return b.upcomingEvents.length - a.upcomingEvents.length;
-      return (a.upcomingEvents[0]?.dateEpochMs ?? 0) - (b.upcomingEvents[0]?.dateEpochMs ?? 0);
+      if (sb.length !== sa.length) return sb.length - sa.length;
+      return (sa[0]?.dateEpochMs ?? 0) - (sb[0]?.dateEpochMs ?? 0);
     });
 
-    return arr;
-  }, [artists, artistSearch]);
+    return { localArtists: arr, showsByArtist };
+  }, [artists, excludeSet, localArtistList, query, artistSearch]);
 
   React.useEffect(() => { setDisplayLimit(30); }, [artistSearch]);
 
@@ -121,7 +135,8 @@ const LocalArtistsPage: React.FC = () => {
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {localArtists.slice(0, displayLimit).map((artist) => {
-          const venueCount = new Set(artist.upcomingEvents.map((e) => e.venueId)).size;
+          const shows = showsByArtist.get(artist.id) ?? [];
+          const venueCount = new Set(shows.map((e) => e.venueId)).size;
           return (
             <div
               key={artist.id}
@@ -137,7 +152,7 @@ const LocalArtistsPage: React.FC = () => {
                 <div className="flex-1 min-w-0">
                   <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{artist.name}</h3>
                   <div className="text-xs text-gray-500 dark:text-gray-400">
-                    {artist.upcomingEvents.length} shows · {venueCount} venues
+                    {shows.length} shows · {venueCount} venues
                   </div>
                 </div>
                 <Link
@@ -151,7 +166,7 @@ const LocalArtistsPage: React.FC = () => {
                 </Link>
               </div>
               <div className="border-t border-gray-100 dark:border-gray-700 pt-1 space-y-0">
-                {artist.upcomingEvents.map((event) => (
+                {shows.map((event) => (
                   <Link
                     key={event.id}
                     to={`/events/${event.slug}`}
@@ -167,9 +182,12 @@ const LocalArtistsPage: React.FC = () => {
                         <span className="text-gray-400 dark:text-gray-500"> w/ {event.headlinerName}</span>
                       )}
                     </span>
-                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} className="text-xs shrink-0" />
+                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-xs shrink-0" />
                     {manifest?.latestIngestionDate && (
-                      <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                      <>
+                        <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                        <UpdatedBadge changedAtEpochMs={event.changedAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                      </>
                     )}
                   </Link>
                 ))}
@@ -0,0 +1,178 @@
+/**
+ * Map page — tonight's filtered shows plotted by venue on the offline Bay Area map
+ * The day lives in the ?date= search param, like the calendar
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ContentArea } from "@/components/layout/AppShell.js";
+import { CityPagination } from "@/components/ui/CityPagination.js";
+import EventCard from "@/components/ui/EventCard.js";
+import { VenueMap, type VenuePin } from "@/components/map/index.js";
+import { useAppStore } from "@/stores/appStore.js";
+import { useFilteredEvents } from "@/hooks/useFilteredEvents.js";
+import type { VenueId } from "@/types/events.js";
+import { addDays, chunkIdsForRange, parseDateKey, todayKey } from "@/utils/calendar.js";
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+const MapPage: React.FC = () => {
+  const loading = useAppStore((state) => state.loading);
+  const manifest = useAppStore((state) => state.manifest);
+  const initialize = useAppStore((state) => state.initialize);
+  const loadChunk = useAppStore((state) => state.loadChunk);
+  const loadedChunks = useAppStore((state) => state.loadedChunks);
+  const getVenue = useAppStore((state) => state.getVenue);
+
+  const filteredEvents = useFilteredEvents();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedVenueId, setSelectedVenueId] = useState<VenueId | null>(null);
+
+  const dateParam = searchParams.get("date");
+  const date = dateParam && DATE_PARAM.test(dateParam) ? dateParam : todayKey();
+
+  const setDate = useCallback(
+    (dateKey: string) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (dateKey === todayKey()) next.delete("date");
+          else next.set("date", dateKey);
+          return next;
+        },
+        { replace: true }
+      );
+      setSelectedVenueId(null);
+    },
+    [setSearchParams]
+  );
+
+  // Initialize
+  useEffect(() => {
+    if (loading.artists === "idle") initialize().catch(console.error);
+  }, [loading.artists, initialize]);
+
+  // Load the day's chunk
+  useEffect(() => {
+    if (!manifest?.chunks?.events) return;
+    const wanted = new Set(chunkIdsForRange(date, date));
+    manifest.chunks.events
+      .map((c) => c.chunkId)
+      .filter((id) => wanted.has(id) && !loadedChunks.has(id))
+      .forEach((id) => loadChunk(id).catch(() => {}));
+  }, [date, manifest, loadedChunks, loadChunk]);
+
+  // The day's shows by venue, split by whether the venue can be placed
+  const { pins, unplaced, showCount } = useMemo(() => {
+    const byVenue = new Map<VenueId, VenuePin>();
+    let showCount = 0;
+    for (const event of filteredEvents) {
+      if (event.date !== date) continue;
+      const venue = getVenue(event.venueId);
+      if (!venue) continue;
+      let pin = byVenue.get(venue.id);
+      if (!pin) {
+        pin = { venue, events: [] };
+        byVenue.set(venue.id, pin);
+      }
+      pin.events.push(event);
+      showCount++;
+    }
+    const all = [...byVenue.values()].sort((a, b) => a.venue.name.localeCompare(b.venue.name));
+    return {
+      pins: all.filter((pin) => pin.venue.coordinates),
+      unplaced: all.filter((pin) => !pin.venue.coordinates),
+      showCount,
+    };
+  }, [filteredEvents, date, getVenue]);
+
+  const selected = [...pins, ...unplaced].find((pin) => pin.venue.id === selectedVenueId) ?? null;
+  const isToday = date === todayKey();
+  const dayLabel = isToday
+    ? "tonight"
+    : parseDateKey(date).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" });
+  const isLoading = loading.events === "loading" || loading.artists === "loading";
+
+  return (
+    <ContentArea
+      title="Map"
+      subtitle={`${showCount} show${showCount !== 1 ? "s" : ""} at ${pins.length + unplaced.length} venue${pins.length + unplaced.length !== 1 ? "s" : ""} ${dayLabel}`}
+    >
+      <CityPagination className="mb-4 -mt-2" />
+
+      <div className="flex items-center gap-2 mb-3">
+        <button
+          type="button"
+          onClick={() => setDate(addDays(date, -1))}
+          className="px-2 py-1 rounded text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Previous day"
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          onClick={() => setDate(todayKey())}
+          disabled={isToday}
+          className="px-3 py-1 rounded text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 disabled:opacity-50"
+        >
+          Tonight
+        </button>
+        <button
+          type="button"
+          onClick={() => setDate(addDays(date, 1))}
+          className="px-2 py-1 rounded text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Next day"
+        >
+          ›
+        </button>
+        <span className="text-sm font-medium text-gray-900 dark:text-gray-100 capitalize">{dayLabel}</span>
+      </div>
+
+      {isLoading && showCount === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4" />
+          Loading events…
+        </div>
+      ) : (
+        <VenueMap pins={pins} selectedVenueId={selectedVenueId} onSelect={setSelectedVenueId} className="mb-4" />
+      )}
+
+      {selected && (
+        <section className="mb-6">
+          <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            <Link to={`/venues/${selected.venue.slug}`} className="hover:underline">
+              {selected.venue.name}
+            </Link>
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{selected.venue.city}</span>
+          </h2>
+          <div className="space-y-3">
+            {selected.events.map((event, index) => (
+              <EventCard key={event.id} event={event} index={index} viewMode="narrow" />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {unplaced.length > 0 && (
+        <section className="text-sm text-gray-600 dark:text-gray-400">
+          <h2 className="font-medium text-gray-900 dark:text-gray-100 mb-1">Not on the map</h2>
+          <ul className="flex flex-wrap gap-x-3 gap-y-1">
+            {unplaced.map((pin) => (
+              <li key={pin.venue.id}>
+                <button type="button" onClick={() => setSelectedVenueId(pin.venue.id)} className="hover:underline">
+                  {pin.venue.name} ({pin.events.length})
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {!isLoading && showCount === 0 && (
+        <div className="text-center py-6 text-gray-500 dark:text-gray-400">No shows match your filters {dayLabel}.</div>
+      )}
+    </ContentArea>
+  );
+};
+
+export default MapPage;
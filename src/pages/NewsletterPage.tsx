@@ -6,6 +6,10 @@ import React, { useEffect, useMemo, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import { useAppStore } from "@/stores/appStore.js";
+import { Gazetteer, REGION_LABELS } from "@/lib/etl/gazetteer.js";
+import type { BayAreaRegion } from "@/types/events.js";
+import { EventQuery } from "@/utils/eventQuery.js";
+import { addDays, parseDateKey, todayKey } from "@/utils/calendar.js";
 
 const MIN_EVENTS = 3;
 const MIN_VENUES = 2;
@@ -16,71 +20,25 @@ interface CityConfig {
   match: (city: string) => boolean;
 }
 
+// Match a venue city against a gazetteer locality or a whole region
+const isLocality = (name: string) => (city: string) =>
+  Gazetteer.resolve(city)?.name === name;
+const isInRegion = (region: BayAreaRegion) => (city: string) =>
+  Gazetteer.resolve(city)?.region === region;
+
 const CITY_CONFIGS: Record<string, CityConfig> = {
-  sf: {
-    label: "SF",
-    match: (c) =>
-      ["S.f", "San Francisco", "SF", "S.F."].includes(c) ||
-      c.toLowerCase().includes("francisco"),
-  },
-  oakland: {
-    label: "Oakland",
-    match: (c) => c.toLowerCase() === "oakland",
-  },
-  berkeley: {
-    label: "Berkeley",
-    match: (c) => c.toLowerCase() === "berkeley",
-  },
-  "santa-cruz": {
-    label: "Santa Cruz",
-    // VenueLineParser truncates to first word — "Santa Cruz" becomes "Santa"
-    match: (c) => c === "Santa" || c.toLowerCase() === "santa cruz",
-  },
-  "east-bay": {
-    label: "East Bay",
-    match: (c) =>
-      [
-        "Oakland",
-        "Berkeley",
-        "Emeryville",
-        "Albany",
-        "El Cerrito",
-        "Richmond",
-      ].includes(c) || c.toLowerCase() === "emeryville",
-  },
-  "south-bay": {
-    label: "South Bay",
-    match: (c) =>
-      [
-        "San Jose",
-        "Santa Clara",
-        "Sunnyvale",
-        "Mountain View",
-        "Palo Alto",
-        "Cupertino",
-        "Milpitas",
-        "Fremont",
-      ].includes(c) ||
-      c === "San" ||
-      c.toLowerCase() === "san jose",
-  },
-  emeryville: {
-    label: "Emeryville",
-    match: (c) => c.toLowerCase() === "emeryville",
-  },
-  petaluma: {
-    label: "Petaluma",
-    match: (c) => c.toLowerCase() === "petaluma",
-  },
+  sf: { label: "SF", match: isInRegion("sf") },
+  oakland: { label: "Oakland", match: isLocality("Oakland") },
+  berkeley: { label: "Berkeley", match: isLocality("Berkeley") },
+  "santa-cruz": { label: "Santa Cruz", match: isLocality("Santa Cruz") },
+  "east-bay": { label: REGION_LABELS["east-bay"], match: isInRegion("east-bay") },
+  "south-bay": { label: REGION_LABELS["south-bay"], match: isInRegion("south-bay") },
+  emeryville: { label: "Emeryville", match: isLocality("Emeryville") },
+  petaluma: { label: "Petaluma", match: isLocality("Petaluma") },
 };
 
 function fmtDate(epochMs: number): string {
-  const [y, m, d] = new Date(epochMs)
-    .toISOString()
-    .split("T")[0]
-    .split("-")
-    .map(Number);
-  return new Date(y, m - 1, d).toLocaleDateString("en-US", {
+  return parseDateKey(EventQuery.dateKey({ dateEpochMs: epochMs })).toLocaleDateString("en-US", {
     weekday: "short",
     month: "short",
     day: "numeric",
@@ -232,8 +190,13 @@ export default function NewsletterPage() {
 
   const ingestDate = manifest?.latestIngestionDate ?? null;
 
-  const nowMs = useMemo(() => Date.now(), []);
-  const weekEndMs = useMemo(() => nowMs + 7 * 24 * 60 * 60 * 1000, [nowMs]);
+  // Shows from today on, and this week's: today and the six days after
+  const today = useMemo(() => todayKey(), []);
+  const upcomingQuery = useMemo(() => new EventQuery({ fromDate: today }), [today]);
+  const weekQuery = useMemo(
+    () => new EventQuery({ filters: { dateRange: { startDate: today, endDate: addDays(today, 6) } } }),
+    [today]
+  );
 
   const artistMap = useMemo(() => {
     const m = new Map<number, string>();
@@ -277,8 +240,8 @@ export default function NewsletterPage() {
 
     for (const artist of artists.values()) {
       if (localArtistExclude.has(artist.name.toLowerCase())) continue;
-      const upcoming = artist.upcomingEvents.filter(
-        (e) => e.dateEpochMs > nowMs
+      const upcoming = artist.upcomingEvents.filter((e) =>
+        upcomingQuery.matches(e)
       );
       if (upcoming.length === 0) continue;
       const venueCount = new Set(upcoming.map((e) => e.venueId)).size;
@@ -288,7 +251,7 @@ export default function NewsletterPage() {
       if (!onList && !meetsThreshold) continue;
 
       const sfEvents = upcoming.filter(
-        (e) => isCity(e.venueCity) && e.dateEpochMs <= weekEndMs
+        (e) => isCity(e.venueCity) && weekQuery.matches(e)
       );
       for (const ev of sfEvents) {
         const key = `${ev.dateEpochMs}:${ev.venueId}`;
@@ -327,8 +290,8 @@ export default function NewsletterPage() {
     artists,
     localArtistExclude,
     localArtistList,
-    nowMs,
-    weekEndMs,
+    upcomingQuery,
+    weekQuery,
     isCity,
     lineupMap,
   ]);
@@ -339,23 +302,23 @@ export default function NewsletterPage() {
     return Array.from(events.values())
       .filter((e) => {
         const day = new Date(e.createdAtEpochMs).toISOString().split("T")[0];
-        if (day !== ingestDate || e.dateEpochMs <= nowMs) return false;
+        if (day !== ingestDate || !upcomingQuery.matches(e)) return false;
         const venueCity = venues.get(e.venueId)?.city ?? "";
         return isCity(venueCity);
       })
       .sort((a, b) => a.dateEpochMs - b.dateEpochMs);
-  }, [events, venues, ingestDate, nowMs, isCity]);
+  }, [events, venues, ingestDate, upcomingQuery, isCity]);
 
   // All SF shows this week (section 3)
   const sfWeekEvents = useMemo(() => {
     return Array.from(events.values())
       .filter((e) => {
-        if (e.dateEpochMs <= nowMs || e.dateEpochMs > weekEndMs) return false;
+        if (!weekQuery.matches(e)) return false;
         const venueCity = venues.get(e.venueId)?.city ?? "";
         return isCity(venueCity);
       })
       .sort((a, b) => a.dateEpochMs - b.dateEpochMs);
-  }, [events, venues, nowMs, weekEndMs, isCity]);
+  }, [events, venues, weekQuery, isCity]);
 
   // Distinct local acts appearing anywhere in this week's rows (for the summary line)
   const localActCount = useMemo(() => {
@@ -368,9 +331,7 @@ export default function NewsletterPage() {
   const text = useMemo(() => {
     const lines: string[] = [];
 
-    const today = new Date();
-    const [y, m, d] = today.toISOString().split("T")[0].split("-").map(Number);
-    const weekStr = new Date(y, m - 1, d).toLocaleDateString("en-US", {
+    const weekStr = parseDateKey(today).toLocaleDateString("en-US", {
       month: "long",
       day: "numeric",
       year: "numeric",
@@ -486,6 +447,7 @@ export default function NewsletterPage() {
     venues,
     ingestDate,
     cityConfig,
+    today,
   ]);
 
   const handleCopy = () => {
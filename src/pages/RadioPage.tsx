@@ -0,0 +1,178 @@
+/**
+ * Radio page — the list's weekly radio shows, with what's on air now and tonight
+ */
+
+import React, { useEffect, useState } from "react";
+import { ContentArea } from "@/components/layout/AppShell.js";
+import { useAppStore } from "@/stores/appStore.js";
+import {
+  DAY_NAMES,
+  airsTonight,
+  describeRecurrence,
+  formatShowTime,
+  isOnAir,
+  pacificClock,
+} from "@/utils/radio.js";
+import type { RadioSchedule } from "@/types/data.js";
+import type { RadioShow } from "@/types/events.js";
+
+const ShowRow: React.FC<{ show: RadioShow }> = ({ show }) => (
+  <div className="px-2 py-1.5">
+    <div className="flex items-baseline gap-2 min-w-0">
+      <span className="text-xs text-gray-400 dark:text-gray-500 w-28 shrink-0 tabular-nums">
+        {formatShowTime(show)}
+      </span>
+      <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate min-w-0">
+        {show.url ? (
+          <a href={show.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+            {show.name}
+          </a>
+        ) : (
+          show.name
+        )}
+        {show.host && (
+          <span className="text-gray-500 dark:text-gray-400 font-normal"> with {show.host}</span>
+        )}
+      </span>
+    </div>
+    <div className="flex items-baseline gap-2 min-w-0">
+      <span className="w-28 shrink-0" />
+      <span className="text-xs text-gray-500 dark:text-gray-400 truncate min-w-0">
+        {[show.station, show.recurrence.interval === 2 && describeRecurrence(show.recurrence)]
+          .filter(Boolean)
+          .join(" · ")}
+        {show.archiveUrl && (
+          <>
+            {" · "}
+            <a href={show.archiveUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              past shows
+            </a>
+          </>
+        )}
+      </span>
+    </div>
+  </div>
+);
+
+const RadioPage: React.FC = () => {
+  const manifest = useAppStore((s) => s.manifest);
+  const initialize = useAppStore((s) => s.initialize);
+  const loading = useAppStore((s) => s.loading);
+  const getRadioSchedule = useAppStore((s) => s.getRadioSchedule);
+
+  const [schedule, setSchedule] = useState<RadioSchedule | null>(null);
+  const [clock, setClock] = useState(() => pacificClock());
+
+  useEffect(() => {
+    if (loading.artists === "idle") initialize().catch(console.error);
+  }, [loading.artists, initialize]);
+
+  useEffect(() => {
+    if (!manifest) return;
+    let cancelled = false;
+    getRadioSchedule().then((radio) => {
+      if (!cancelled) setSchedule(radio);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, getRadioSchedule]);
+
+  // Keep "on air now" current while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setClock(pacificClock()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const shows = schedule?.shows ?? [];
+  const onAir = shows.filter((show) => isOnAir(show, clock));
+  const tonight = shows.filter((show) => airsTonight(show, clock));
+
+  const byDay = new Map<number, RadioShow[]>();
+  for (const show of shows) {
+    let list = byDay.get(show.recurrence.dayOfWeek);
+    if (!list) {
+      list = [];
+      byDay.set(show.recurrence.dayOfWeek, list);
+    }
+    list.push(show);
+  }
+
+  return (
+    <ContentArea title="Radio" subtitle="Weekly shows from the list, in Pacific time">
+      {!schedule && (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+        </div>
+      )}
+
+      {schedule && shows.length === 0 && (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">No radio shows listed.</div>
+      )}
+
+      {shows.length > 0 && (
+        <div className="space-y-6">
+          <section>
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-red-600 dark:text-red-400 mb-1">
+              On air now
+            </h2>
+            {onAir.length > 0 ? (
+              onAir.map((show) => <ShowRow key={show.id} show={show} />)
+            ) : (
+              <p className="px-2 text-sm text-gray-500 dark:text-gray-400">Nothing from the list right now.</p>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300 mb-1">
+              Tonight
+            </h2>
+            {tonight.length > 0 ? (
+              tonight.map((show) => <ShowRow key={show.id} show={show} />)
+            ) : (
+              <p className="px-2 text-sm text-gray-500 dark:text-gray-400">Nothing else tonight.</p>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300 mb-1">
+              Every week
+            </h2>
+            {Array.from(byDay.entries()).map(([day, dayShows]) => (
+              <div key={day} className="mb-3">
+                <h3 className="px-2 text-xs font-medium text-gray-500 dark:text-gray-400">{DAY_NAMES[day]}</h3>
+                {dayShows.map((show) => (
+                  <ShowRow key={show.id} show={show} />
+                ))}
+              </div>
+            ))}
+          </section>
+        </div>
+      )}
+
+      {schedule && schedule.links.length > 0 && (
+        <section className="mt-6">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300 mb-1">
+            Stations and links
+          </h2>
+          <ul className="px-2 space-y-1">
+            {schedule.links.map((link) => (
+              <li key={link.name} className="text-sm text-gray-900 dark:text-gray-100">
+                {link.url ? (
+                  <a href={link.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    {link.name}
+                  </a>
+                ) : (
+                  link.name
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </ContentArea>
+  );
+};
+
+export default RadioPage;
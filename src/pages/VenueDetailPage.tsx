@@ -7,6 +7,9 @@ import { useParams, useNavigate, Link } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
 import { useAppStore } from "@/stores/appStore.js";
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+import { StringNormalizer } from "@/lib/etl/utils.js";
+import { calendarFeedUrl } from "@/utils/calendarExport.js";
 
 const VenueDetailPage: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
@@ -43,8 +46,10 @@ const VenueDetailPage: React.FC = () => {
     );
   }
 
+  const citySlug = Gazetteer.lookup(venue.city)?.slug ?? StringNormalizer.createSlug(venue.city);
+
   return (
-    <ContentArea title={venue.name} subtitle={`${venue.city}${venue.ageRestriction ? ` · ${venue.ageRestriction}` : ""}`}>
+    <ContentArea title={venue.name} subtitle={[venue.city, ...(venue.ageRestrictions ?? [venue.ageRestriction])].filter(Boolean).join(" · ")}>
       <div className="max-w-2xl space-y-4">
 
         <button
@@ -68,17 +73,22 @@ const VenueDetailPage: React.FC = () => {
             </div>
             <div className="flex-1 min-w-0">
               <h1 className="text-xl font-bold text-gray-900 dark:text-white">{venue.name}</h1>
-              {venue.address && <div className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{venue.address}</div>}
+              {venue.address && (
+                <div className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                  {[venue.address, venue.suite].filter(Boolean).join(", ")}
+                  {venue.crossStreet && <span className="text-gray-400 dark:text-gray-500"> at {venue.crossStreet}</span>}
+                </div>
+              )}
               <div className="text-sm text-gray-500 dark:text-gray-400">{venue.city}</div>
             </div>
           </div>
 
           <div className="flex flex-wrap gap-2 pt-1">
-            {venue.ageRestriction && (
-              <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">
-                {venue.ageRestriction}
+            {(venue.ageRestrictions ?? [venue.ageRestriction]).filter(Boolean).map((age) => (
+              <span key={age} className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">
+                {age}
               </span>
-            )}
+            ))}
             {venue.capacity && (
               <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">
                 Cap: {venue.capacity}
@@ -93,6 +103,26 @@ const VenueDetailPage: React.FC = () => {
               {venue.upcomingEventCount} upcoming shows
             </span>
           </div>
+
+          {venue.notes && venue.notes.length > 0 && (
+            <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-0.5">
+              {venue.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          )}
+
+          {/* Feeds written by the ETL on every run */}
+          {venue.upcomingEvents.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-xs">
+              <a href={calendarFeedUrl("venues", venue.slug)} className="font-medium text-purple-600 dark:text-purple-400 hover:underline">
+                Subscribe to {venue.name} shows
+              </a>
+              <a href={calendarFeedUrl("cities", citySlug)} className="font-medium text-purple-600 dark:text-purple-400 hover:underline">
+                Subscribe to {venue.city} shows
+              </a>
+            </div>
+          )}
         </div>
 
         {/* Upcoming shows */}
@@ -128,7 +158,7 @@ const VenueDetailPage: React.FC = () => {
                         </div>
                       )}
                     </div>
-                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} className="text-xs shrink-0" />
+                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-xs shrink-0" />
                     <svg className="w-3.5 h-3.5 text-gray-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                     </svg>
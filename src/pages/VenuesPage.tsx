@@ -7,13 +7,19 @@ import { Link, useNavigate, useLocation } from "react-router-dom";
 import { ContentArea } from "@/components/layout/AppShell.js";
 import PriceWidget from "@/components/ui/PriceWidget.js";
 import NewBadge from "@/components/ui/NewBadge.js";
+import UpdatedBadge from "@/components/ui/UpdatedBadge.js";
 import {
   VenueCardSkeleton,
   ListSkeleton,
 } from "@/components/ui/LoadingSpinner.js";
 import { useAppStore } from "@/stores/appStore.js";
+import { calledOffClass } from "@/utils/eventStatus.js";
 import { useFilterStore } from "@/stores/filterStore.js";
 import { DatePagination } from "@/components/ui/DatePagination.js";
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+import { EventQuery } from "@/utils/eventQuery.js";
+import { todayKey } from "@/utils/calendar.js";
+import type { Venue, VenueId, VenueUpcomingEvent } from "@/types/events.js";
 
 const VenuesPage: React.FC = () => {
   const venues = useAppStore((state) => state.venues);
@@ -21,6 +27,7 @@ const VenuesPage: React.FC = () => {
   const errors = useAppStore((state) => state.errors);
   const initialize = useAppStore((state) => state.initialize);
   const showUpcomingOnly = useAppStore((state) => state.showUpcomingOnly);
+  const getVenue = useAppStore((state) => state.getVenue);
   const manifest = useAppStore((state) => state.manifest);
 
   const { filters, updateFilter, clearFilter } = useFilterStore();
@@ -39,14 +46,13 @@ const VenuesPage: React.FC = () => {
   const [venueSearch, setVenueSearch] = React.useState("");
   const loadMoreRef = React.useRef<HTMLDivElement>(null);
 
-  const dateWindow = React.useMemo((): { start: number; end: number } | null => {
-    if (!filters.dateRange?.startDate && !filters.dateRange?.endDate) return null;
-    const parseLocal = (s: string) => { const [y,m,d] = s.split("-").map(Number); return new Date(y,m-1,d); };
-    return {
-      start: filters.dateRange?.startDate ? parseLocal(filters.dateRange.startDate).setHours(0,0,0,0) : -Infinity,
-      end: filters.dateRange?.endDate ? parseLocal(filters.dateRange.endDate).setHours(23,59,59,999) : Infinity,
-    };
-  }, [filters.dateRange]);
+  const query = React.useMemo(
+    () => new EventQuery(
+      { filters, fromDate: showUpcomingOnly ? todayKey() : undefined },
+      { venue: getVenue }
+    ),
+    [filters, showUpcomingOnly, getVenue]
+  );
 
   React.useEffect(() => {
     if (filters.venues && filters.venues.length > 0) clearFilter("venues");
@@ -80,45 +86,10 @@ const VenuesPage: React.FC = () => {
     navigate("/");
   };
 
-  // Normalize messy city fragments to proper display names
-  const normalizeCity = (city: string): string => {
-    const c = city?.toLowerCase().trim() ?? "";
-    if (c === "s.f" || c.startsWith("san francisco") || c === "sf") return "San Francisco";
-    if (c === "oakland" || c.startsWith("west oakland")) return "Oakland";
-    if (c === "berkeley" || c === "uc" || c.startsWith("uc berkeley")) return "Berkeley";
-    if (c === "santa" || c.startsWith("santa cruz") || c.startsWith("santa rosa") || c.startsWith("santa clara")) {
-      if (city.toLowerCase().includes("cruz") || ["the Blue Lagoon","the Catalyst","the Crepe Place","the Jury Room","Moe's Alley","Subrosa","the Rio Theater","the Vets Hall","the Shop"].some(n => n.toLowerCase().startsWith(c))) return "Santa Cruz";
-      if (city.toLowerCase().includes("rosa") || c === "santa") return "Santa Rosa";
-      return "Santa Clara";
-    }
-    if (c === "san" || c === "downtown") return "San Jose";
-    if (c === "mountain" || c.startsWith("mountain view")) return "Mountain View";
-    if (c === "golden") return "San Francisco";
-    if (c === "rohnert" || c.startsWith("rohnert park")) return "Rohnert Park";
-    if (c === "el" || c.startsWith("el cerrito")) return "El Cerrito";
-    if (c === "daly" || c === "daily" || c.startsWith("daly city")) return "Daly City";
-    if (c === "palo" || c.startsWith("palo alto") || c === "stanford") return "Palo Alto";
-    if (c === "mill" || c.startsWith("mill valley")) return "Mill Valley";
-    if (c === "walnut" || c.startsWith("walnut creek")) return "Walnut Creek";
-    if (c === "south" || c === "west" || c === "town" || c === "19th") return "Other";
-    if (c === "novato") return "Novato";
-    if (c === "napa") return "Napa";
-    if (c === "albany") return "Albany";
-    if (c === "alameda") return "Alameda";
-    if (c === "emeryville") return "Emeryville";
-    if (c === "hayward") return "Hayward";
-    if (c === "vallejo") return "Vallejo";
-    if (c === "petaluma") return "Petaluma";
-    if (c === "concord") return "Concord";
-    if (c === "crockett") return "Crockett";
-    if (c === "saratoga") return "Saratoga";
-    if (c === "richmond" || c.startsWith("point richmond")) return "Richmond";
-    if (c === "sonoma") return "Sonoma";
-    if (c === "fairfield") return "Fairfield";
-    if (c === "felton" || c === "salinas" || c === "pacifica" || c === "alviso" || c === "memlo" || c === "piedmont") return c.charAt(0).toUpperCase() + c.slice(1);
-    // Numeric / junk → Other
-    if (/^\d/.test(city)) return "Other";
-    return city || "Other";
+  // Group by the locality filters match on; text the gazetteer doesn't know falls under "Other"
+  const cityGroup = (city: string): string => {
+    const name = EventQuery.cityName(city ?? "");
+    return Gazetteer.isCanonical(name) ? name : "Other";
   };
 
   // Preferred city order
@@ -134,72 +105,44 @@ const VenuesPage: React.FC = () => {
     "Other",
   ];
 
-  const allVenuesArray = React.useMemo(() => {
-    let arr = Array.from(venues.values());
-
-    if (showUpcomingOnly) {
-      arr = arr.filter((v) => v.upcomingEvents.length > 0);
-    }
-
-    if (filters.cities && filters.cities.length > 0) {
-      const cities = new Set(filters.cities);
-      arr = arr.filter((v) => cities.has(v.city));
-    }
-
-    if (filters.ageRestrictions && filters.ageRestrictions.length > 0) {
-      const ages = filters.ageRestrictions;
-      arr = arr.filter((v) =>
-        ages.some((r) => {
-          const va = v.ageRestriction?.toLowerCase() ?? "";
-          const fa = r.toLowerCase();
-          if (fa === "all-ages" || fa === "all ages") return va.includes("all") || va.includes("a/a") || va === "all-ages";
-          return va.includes(fa);
-        })
-      );
-    }
-
-    if (filters.dates && filters.dates.length > 0) {
-      const selectedDates = new Set(filters.dates);
-      arr = arr.filter((v) =>
-        v.upcomingEvents.some((e) => selectedDates.has(new Date(e.dateEpochMs).toISOString().split("T")[0]))
-      );
+  // Each venue's shows that pass the toolbar filters; venues without one are left out
+  const { allVenuesArray, showsByVenue } = React.useMemo(() => {
+    const showsByVenue = new Map<VenueId, VenueUpcomingEvent[]>();
+    let arr: Venue[] = [];
+    for (const venue of venues.values()) {
+      const shows = query.isFiltering
+        ? venue.upcomingEvents.filter((e) => query.matches({ ...e, venueId: venue.id }))
+        : venue.upcomingEvents;
+      if (query.isFiltering && shows.length === 0) continue;
+      showsByVenue.set(venue.id, shows);
+      arr.push(venue);
     }
+    const showCount = (v: Venue) => showsByVenue.get(v.id)?.length ?? 0;
 
     if (venueSearch.trim()) {
       const q = venueSearch.trim().toLowerCase();
       arr = arr.filter((v) => v.name.toLowerCase().includes(q));
     }
 
-    // Filter by local date window (week / month / named month)
-    if (dateWindow) {
-      arr = arr.filter((v) =>
-        v.upcomingEvents.some((e) => e.dateEpochMs >= dateWindow.start && e.dateEpochMs <= dateWindow.end)
-      );
-    }
-
-    // Sort: by city order, then most shows in window, then alphabetical
+    // Sort: by city order, then most matching shows, then alphabetical
     arr.sort((a, b) => {
-      const ca = normalizeCity(a.city);
-      const cb = normalizeCity(b.city);
+      const ca = cityGroup(a.city);
+      const cb = cityGroup(b.city);
       const oa = CITY_ORDER.indexOf(ca);
       const ob = CITY_ORDER.indexOf(cb);
       const cityA = oa === -1 ? 999 : oa;
       const cityB = ob === -1 ? 999 : ob;
       if (cityA !== cityB) return cityA - cityB;
-      const countInWindow = (v: typeof a) =>
-        dateWindow
-          ? v.upcomingEvents.filter((e) => e.dateEpochMs >= dateWindow.start && e.dateEpochMs <= dateWindow.end).length
-          : v.upcomingEvents.length;
-      const na = countInWindow(a);
-      const nb = countInWindow(b);
+      const na = showCount(a);
+      const nb = showCount(b);
       if (nb !== na) return nb - na;
       return a.name.localeCompare(b.name);
     });
 
-    return arr;
-  }, [venues, showUpcomingOnly, filters.cities, filters.ageRestrictions, filters.dates, venueSearch, dateWindow]);
+    return { allVenuesArray: arr, showsByVenue };
+  }, [venues, query, venueSearch]);
 
-  React.useEffect(() => { setVenuesDisplayLimit(30); }, [venueSearch, dateWindow]);
+  React.useEffect(() => { setVenuesDisplayLimit(30); }, [venueSearch, query]);
 
   const venuesArray = allVenuesArray.slice(0, venuesDisplayLimit);
 
@@ -276,7 +219,7 @@ const VenuesPage: React.FC = () => {
           const groups: { city: string; venues: typeof venuesArray }[] = [];
           let lastCity = "";
           venuesArray.forEach((venue) => {
-            const city = normalizeCity(venue.city);
+            const city = cityGroup(venue.city);
             if (city !== lastCity) {
               groups.push({ city, venues: [] });
               lastCity = city;
@@ -298,7 +241,8 @@ const VenuesPage: React.FC = () => {
           >
             {/* Header */}
             {(() => {
-              const firstEvent = venue.upcomingEvents[0];
+              const shows = showsByVenue.get(venue.id) ?? [];
+              const firstEvent = shows[0];
               const headerContent = (
                 <>
                   <div className="h-10 w-10 bg-gradient-to-br from-blue-100 to-green-100 dark:from-blue-900 dark:to-green-900 rounded-full flex items-center justify-center shrink-0">
@@ -311,17 +255,14 @@ const VenuesPage: React.FC = () => {
                     <h3 className="text-base font-semibold text-gray-900 dark:text-white truncate">{venue.name}</h3>
                     <div className="text-xs text-gray-500 dark:text-gray-400">
                       {venue.city}
-                      {venue.ageRestriction && <span className="ml-2 text-gray-400 dark:text-gray-500">· {venue.ageRestriction}</span>}
-                      {(() => {
-                        const count = dateWindow
-                          ? venue.upcomingEvents.filter((e) => e.dateEpochMs >= dateWindow.start && e.dateEpochMs <= dateWindow.end).length
-                          : venue.upcomingEvents.length;
-                        return (
-                          <span className="ml-2 text-gray-400 dark:text-gray-500">
-                            · {count > 0 ? `${count} shows` : "no upcoming shows"}
-                          </span>
-                        );
-                      })()}
+                      {venue.ageRestriction && (
+                        <span className="ml-2 text-gray-400 dark:text-gray-500">
+                          · {(venue.ageRestrictions ?? [venue.ageRestriction]).join(", ")}
+                        </span>
+                      )}
+                      <span className="ml-2 text-gray-400 dark:text-gray-500">
+                        · {shows.length > 0 ? `${shows.length} shows` : "no upcoming shows"}
+                      </span>
                     </div>
                   </div>
                 </>
@@ -343,9 +284,7 @@ const VenuesPage: React.FC = () => {
 
             {/* Compact event rows */}
             {(() => {
-              const visibleEvents = dateWindow
-                ? venue.upcomingEvents.filter((e) => e.dateEpochMs >= dateWindow.start && e.dateEpochMs <= dateWindow.end)
-                : venue.upcomingEvents;
+              const visibleEvents = showsByVenue.get(venue.id) ?? [];
               return visibleEvents.length > 0 && (
               <div className="border-t border-gray-100 dark:border-gray-700 pt-1 space-y-0">
                 {visibleEvents.map((event) => (
@@ -358,12 +297,15 @@ const VenuesPage: React.FC = () => {
                     <span className="text-xs text-gray-400 dark:text-gray-500 w-14 shrink-0 tabular-nums">
                       {new Date(event.dateEpochMs).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
                     </span>
-                    <span className="text-xs text-gray-700 dark:text-gray-200 truncate font-medium flex-1">
+                    <span className={`text-xs text-gray-700 dark:text-gray-200 truncate font-medium flex-1 ${calledOffClass(event)}`}>
                       {event.headlinerName || "Show"}
                     </span>
-                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} className="text-xs shrink-0" />
+                    <PriceWidget isFree={event.isFree} isSoldOut={event.isSoldOut} priceMin={event.priceMin} priceMax={event.priceMax} price={event.price} className="text-xs shrink-0" />
                     {manifest?.latestIngestionDate && (
-                      <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                      <>
+                        <NewBadge createdAtEpochMs={event.createdAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                        <UpdatedBadge changedAtEpochMs={event.changedAtEpochMs} latestIngestionDate={manifest.latestIngestionDate} />
+                      </>
                     )}
                   </Link>
                 ))}
@@ -0,0 +1,623 @@
+/**
+ * Review TUI - Interactive latest.txt Review Workbench
+ *
+ * Steps through the validator's findings for a new edition one at a time,
+ * records each decision in venue-aliases.json or line-corrections.json,
+ * then runs the merge. Uses the blessed library, like the dev server TUI.
+ */
+
+import blessed from 'blessed';
+import { spawn } from 'child_process';
+import { join } from 'path';
+import { ReviewSession, type ReviewItem } from '../lib/etl/review.js';
+import type { CorrectionDraft } from '../lib/etl/corrections.js';
+
+interface ReviewTUIState {
+  selectedIndex: number;
+  resolved: Set<number>;  // Indexes into session.items
+}
+
+export class ReviewTUI {
+  private session: ReviewSession;
+  private projectRoot: string;
+  private screen: blessed.Widgets.Screen;
+  private itemList: blessed.Widgets.ListElement;
+  private detailPanel: blessed.Widgets.BoxElement;
+  private hotkeyBar: blessed.Widgets.BoxElement;
+  private statusBar: blessed.Widgets.BoxElement;
+  private state: ReviewTUIState;
+  private isPrompting = false;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+    this.session = new ReviewSession(join(projectRoot, 'data'));
+    this.state = { selectedIndex: 0, resolved: new Set() };
+
+    this.screen = this.createScreen();
+    this.itemList = this.createItemList();
+    this.detailPanel = this.createDetailPanel();
+    this.hotkeyBar = this.createHotkeyBar();
+    this.statusBar = this.createStatusBar();
+
+    this.setupKeyHandlers();
+    this.setupLayout();
+  }
+
+  /**
+   * Create the main screen
+   */
+  private createScreen(): blessed.Widgets.Screen {
+    return blessed.screen({
+      smartCSR: true,
+      title: 'Zivv Edition Review',
+      dockBorders: true,
+      fullUnicode: true,
+      autoPadding: true,
+      warnings: false,  // Suppress terminal capability warnings
+    });
+  }
+
+  /**
+   * Create the review queue widget
+   */
+  private createItemList(): blessed.Widgets.ListElement {
+    return blessed.list({
+      parent: this.screen,
+      label: ' Review Queue ',
+      border: 'line',
+      top: 0,
+      left: 0,
+      width: '45%',
+      height: '93%',
+      keys: false,  // Navigation is handled by setupKeyHandlers
+      mouse: true,
+      style: {
+        border: { fg: 'cyan' },
+        item: { fg: 'white' },
+        selected: { bg: 'blue', fg: 'white', bold: true }
+      },
+      scrollable: true,
+      alwaysScroll: true,
+    });
+  }
+
+  /**
+   * Create the detail panel widget
+   */
+  private createDetailPanel(): blessed.Widgets.BoxElement {
+    return blessed.box({
+      parent: this.screen,
+      label: ' Details ',
+      border: 'line',
+      top: 0,
+      left: '45%',
+      width: '55%',
+      height: '93%',
+      style: {
+        border: { fg: 'yellow' }
+      },
+      scrollable: true,
+      content: 'Loading...',
+    });
+  }
+
+  /**
+   * Create the hotkey bar widget (single line like htop)
+   */
+  private createHotkeyBar(): blessed.Widgets.BoxElement {
+    return blessed.box({
+      parent: this.screen,
+      bottom: 1, // Above status bar
+      left: 0,
+      width: '100%',
+      height: 1,
+      style: {
+        bg: 'gray',
+        fg: 'white'
+      },
+      content: this.getHotkeyText(),
+    });
+  }
+
+  /**
+   * Create the status bar widget
+   */
+  private createStatusBar(): blessed.Widgets.BoxElement {
+    return blessed.box({
+      parent: this.screen,
+      bottom: 0,
+      left: 0,
+      width: '100%',
+      height: 1,
+      style: {
+        bg: 'blue',
+        fg: 'white'
+      },
+      content: 'Validating latest.txt...',
+    });
+  }
+
+  /**
+   * Setup keyboard handlers; they're ignored while a prompt has focus
+   */
+  private setupKeyHandlers(): void {
+    const on = (keys: string[], handler: () => void) => {
+      this.screen.key(keys, () => {
+        if (!this.isPrompting) handler();
+      });
+    };
+
+    on(['escape', 'q', 'C-c'], () => this.stop());
+    on(['up', 'k'], () => this.select(this.state.selectedIndex - 1));
+    on(['down', 'j'], () => this.select(this.state.selectedIndex + 1));
+    on(['n'], () => this.selectNextUnresolved());
+
+    on(['a'], () => this.acceptSelected());
+    on(['l'], () => this.aliasSelected());
+    on(['c'], () => this.correctSelected());
+    on(['e'], () => this.editSelected());
+
+    on(['s'], () => this.save());
+    on(['m'], () => this.saveAndMerge());
+
+    this.itemList.on('select', (_item, index) => {
+      this.select(index);
+    });
+  }
+
+  /**
+   * Setup the layout
+   */
+  private setupLayout(): void {
+    this.screen.append(this.itemList);
+    this.screen.append(this.detailPanel);
+    this.screen.append(this.hotkeyBar);
+    this.screen.append(this.statusBar);
+  }
+
+  /**
+   * Get hotkey bar text content
+   */
+  private getHotkeyText(): string {
+    return ' a Accept   l Alias   c Correction   e Edit   n Next open   ↑↓ Navigate   s Save   m Save+Merge   q Quit';
+  }
+
+  /**
+   * Start the TUI
+   */
+  async start(): Promise<void> {
+    try {
+      this.session.load();
+      this.updateItemList();
+      this.select(0);
+      this.updateStatusBar();
+    } catch (error) {
+      this.showError(`Validation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Stop the TUI without saving
+   */
+  stop(): void {
+    this.screen.destroy();
+    process.exit(0);
+  }
+
+  /**
+   * Update the queue display
+   */
+  private updateItemList(): void {
+    const items = this.session.items.map((item, index) => {
+      const mark = this.state.resolved.has(index) ? '✓' : ' ';
+      return ` ${mark} ${this.getKindIcon(item)} ${this.formatTitle(item)}`;
+    });
+
+    this.itemList.setItems(items.length > 0 ? items : ['  Nothing to review in this edition']);
+  }
+
+  /**
+   * Update the detail panel for the selected item
+   */
+  private updateDetailPanel(): void {
+    const item = this.getSelectedItem();
+    if (!item) {
+      this.detailPanel.setContent('\n  No issues found. Press m to merge.');
+      return;
+    }
+
+    const lines: string[] = [''];
+    switch (item.kind) {
+      case 'event-issue': {
+        const { issue } = item;
+        lines.push(`  ${issue.severity.toUpperCase()} (${issue.type}) at line ${issue.lineNumber}`);
+        lines.push(`  ${issue.message}`, '', '  Raw:');
+        lines.push(...issue.rawText.split('\n').map((line) => `    ${line}`));
+        break;
+      }
+      case 'near-duplicate': {
+        const { group } = item;
+        lines.push(`  Near-duplicate venue names — similarity ${(group.maxSimilarity * 100).toFixed(0)}%`, '');
+        for (const name of [group.canonical, ...group.variants]) {
+          const lineNumbers = group.latestLineNumbers.get(name);
+          const where = lineNumbers ? `events lines ${lineNumbers.slice(0, 6).join(', ')}` : 'venues.txt or club info';
+          lines.push(`  ${name === group.canonical ? '→' : ' '} "${name}"  [${where}]`);
+        }
+        lines.push('', '  Accept maps every variant to the name marked →');
+        break;
+      }
+      case 'address-only': {
+        const { venue } = item;
+        lines.push(`  Address-only venue (${venue.reason})`, '');
+        lines.push(`  "${venue.name}"  [events lines ${venue.lineNumbers.join(', ')}]`);
+        lines.push('', '  Add an alias to map the address to the venue at it');
+        break;
+      }
+    }
+
+    this.detailPanel.setContent(lines.join('\n'));
+  }
+
+  /**
+   * Update status bar
+   */
+  private updateStatusBar(): void {
+    const total = this.session.items.length;
+    const open = total - this.state.resolved.size;
+    const { accepted, aliases, corrections } = this.session.getSummary();
+    this.statusBar.setContent(
+      ` ${open} of ${total} open | ${accepted} accepted, ${aliases} aliases, ${corrections} corrections (unsaved until s or m)`
+    );
+  }
+
+  /**
+   * Get icon for the kind of item
+   */
+  private getKindIcon(item: ReviewItem): string {
+    switch (item.kind) {
+      case 'event-issue': return item.issue.severity === 'error' ? '🔴' : '🟡';
+      case 'near-duplicate': return '🔁';
+      case 'address-only': return '📍';
+    }
+  }
+
+  /**
+   * One-line summary for the queue
+   */
+  private formatTitle(item: ReviewItem): string {
+    switch (item.kind) {
+      case 'event-issue': return `L${item.issue.lineNumber} ${item.issue.message}`;
+      case 'near-duplicate': return [item.group.canonical, ...item.group.variants].join(' / ');
+      case 'address-only': return item.venue.name;
+    }
+  }
+
+  private getSelectedItem(): ReviewItem | null {
+    return this.session.items[this.state.selectedIndex] ?? null;
+  }
+
+  /**
+   * Move the selection, clamped to the queue
+   */
+  private select(index: number): void {
+    const last = this.session.items.length - 1;
+    this.state.selectedIndex = Math.max(0, Math.min(last, index));
+    if (last >= 0) this.itemList.select(this.state.selectedIndex);
+    this.updateDetailPanel();
+    this.screen.render();
+  }
+
+  private selectNextUnresolved(): void {
+    const items = this.session.items;
+    for (let step = 1; step <= items.length; step++) {
+      const index = (this.state.selectedIndex + step) % items.length;
+      if (!this.state.resolved.has(index)) {
+        this.select(index);
+        return;
+      }
+    }
+    this.showStatus('Every item is resolved — press m to save and merge');
+  }
+
+  /**
+   * Mark the selected item done and move on to the next open one
+   */
+  private resolveSelected(message: string): void {
+    this.state.resolved.add(this.state.selectedIndex);
+    this.updateItemList();
+    this.updateStatusBar();
+    this.selectNextUnresolved();
+    this.showStatus(message);
+  }
+
+  /**
+   * Accept: leave as is, or take a near-duplicate group's proposed aliases
+   */
+  private acceptSelected(): void {
+    const item = this.getSelectedItem();
+    if (!item) return;
+
+    this.session.accept(item);
+    this.resolveSelected(item.kind === 'near-duplicate' ? `Aliased to "${item.group.canonical}"` : 'Accepted');
+  }
+
+  /**
+   * Add a venue alias: pick the canonical name of a group, or type one
+   */
+  private async aliasSelected(): Promise<void> {
+    const item = this.getSelectedItem();
+    if (!item) return;
+
+    if (item.kind === 'near-duplicate') {
+      const names = [item.group.canonical, ...item.group.variants];
+      const canonical = await this.choose('Canonical venue name', names);
+      if (!canonical) return;
+      this.session.addAlias(names.filter((name) => name !== canonical), canonical);
+      this.resolveSelected(`Aliased ${names.length - 1} name(s) to "${canonical}"`);
+      return;
+    }
+
+    const written = item.kind === 'address-only'
+      ? item.venue.name
+      : await this.ask('Venue as written in the line', item.issue.rawText.match(/\bat (.+?),/)?.[1] ?? '');
+    if (!written) return;
+
+    const canonical = await this.ask(`Venue "${written}" is`, '');
+    if (!canonical) return;
+
+    this.session.addAlias([written], canonical);
+    this.resolveSelected(`Aliased "${written}" to "${canonical}"`);
+  }
+
+  /**
+   * Add a line correction of the chosen kind, checked against the item's text
+   */
+  private async correctSelected(): Promise<void> {
+    const item = this.getSelectedItem();
+    if (!item) return;
+
+    const suggestion =
+      item.kind === 'near-duplicate' ? item.group.variants[0] :
+      item.kind === 'address-only' ? item.venue.name : '';
+    const sample =
+      item.kind === 'event-issue' ? item.issue.rawText :
+      item.kind === 'near-duplicate' ? `at ${item.group.variants[0]}` : `at ${item.venue.name}`;
+
+    const kind = await this.choose('Correction kind', [
+      'venue-name', 'venue-city', 'city-spelling', 'artist-name', 'pattern',
+    ]);
+    if (!kind) return;
+
+    const draft = await this.draftCorrection(kind, suggestion);
+    if (!draft) return;
+    const note = await this.ask('Note', `Review: ${kind} fix for '${suggestion || sample.split('\n')[0]}'`);
+    if (note === null) return;
+
+    try {
+      const rule = this.session.addCorrection({ ...draft, note }, sample);
+      this.resolveSelected(`Correction ${rule.id} added`);
+    } catch (error) {
+      this.showError(`Invalid correction: ${error}`);
+    }
+  }
+
+  /**
+   * Ask for the fields of one kind of correction; null when cancelled
+   */
+  private async draftCorrection(kind: string, suggestion: string): Promise<CorrectionDraft | null> {
+    switch (kind) {
+      case 'venue-city': {
+        const venue = await this.ask('Venue written without a comma before its city', suggestion);
+        if (!venue) return null;
+        const cities = await this.ask('Cities it runs into (comma-separated)', '');
+        if (!cities) return null;
+        return { kind, venue, cities: cities.split(',').map((city) => city.trim()).filter(Boolean) };
+      }
+      case 'city-spelling': {
+        const misspelling = await this.ask('City as misspelled', '');
+        if (!misspelling) return null;
+        const city = await this.ask('City', '');
+        return city ? { kind, misspelling, city } : null;
+      }
+      case 'artist-name':
+      case 'venue-name': {
+        const misspelling = await this.ask(`${kind === 'artist-name' ? 'Artist' : 'Venue'} as misspelled`, suggestion);
+        if (!misspelling) return null;
+        const name = await this.ask('Correct name', '');
+        return name ? { kind, misspelling, name } : null;
+      }
+      default: {
+        const pattern = await this.ask('Pattern (regex, matched case-insensitively)', suggestion);
+        if (!pattern) return null;
+        const replacement = await this.ask('Replacement ($1 for groups)', '');
+        return replacement === null ? null : { kind: 'pattern', pattern, replacement };
+      }
+    }
+  }
+
+  /**
+   * Edit the issue's raw lines; the edit is saved as an override of the entry
+   */
+  private async editSelected(): Promise<void> {
+    const item = this.getSelectedItem();
+    if (!item) return;
+    if (item.kind !== 'event-issue') {
+      this.showStatus('Only event lines can be edited — add an alias or a correction instead');
+      return;
+    }
+
+    const edited = await this.editText(item.issue.rawText);
+    if (edited === null || edited === item.issue.rawText) return;
+
+    try {
+      const rule = this.session.overrideLine(item.issue.rawText, edited);
+      this.resolveSelected(`Edit saved as override ${rule.id}`);
+    } catch (error) {
+      this.showError(`${error}`);
+    }
+  }
+
+  /**
+   * Write venue-aliases.json and line-corrections.json
+   */
+  private save(): void {
+    try {
+      this.session.save();
+      this.showStatus('Saved venue-aliases.json and line-corrections.json');
+    } catch (error) {
+      this.showError(`Failed to save: ${error}`);
+    }
+  }
+
+  /**
+   * Save, hand the terminal back and run the merge
+   */
+  private saveAndMerge(): void {
+    try {
+      this.session.save();
+    } catch (error) {
+      this.showError(`Failed to save: ${error}`);
+      return;
+    }
+
+    this.screen.destroy();
+    console.log('🔀 Running merge...\n');
+
+    const merge = spawn('node', [join(this.projectRoot, 'scripts', 'merge-latest.js')], {
+      cwd: this.projectRoot,
+      stdio: 'inherit',
+    });
+    merge.on('exit', (code) => process.exit(code ?? 1));
+  }
+
+  /**
+   * Single-line prompt; resolves null when cancelled
+   */
+  private ask(question: string, initial: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.isPrompting = true;
+      const prompt = blessed.prompt({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: '70%',
+        height: 'shrink',
+        border: 'line',
+        style: {
+          border: { fg: 'cyan' }
+        },
+        label: ' Review ',
+        keys: true,
+      });
+
+      prompt.input(question, initial, (error, value) => {
+        this.isPrompting = false;
+        this.screen.remove(prompt);
+        this.screen.render();
+        resolve(error || value === undefined || value === null ? null : value);
+      });
+    });
+  }
+
+  /**
+   * Pick one of a list; resolves null when cancelled
+   */
+  private choose(label: string, options: string[]): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.isPrompting = true;
+      const menu = blessed.list({
+        parent: this.screen,
+        label: ` ${label} `,
+        border: 'line',
+        top: 'center',
+        left: 'center',
+        width: '60%',
+        height: Math.min(options.length + 2, 20),
+        keys: true,
+        mouse: true,
+        style: {
+          border: { fg: 'cyan' },
+          selected: { bg: 'blue', fg: 'white' }
+        },
+        items: options,
+      });
+
+      const close = (value: string | null) => {
+        this.isPrompting = false;
+        this.screen.remove(menu);
+        this.screen.render();
+        resolve(value);
+      };
+
+      menu.on('select', (_item, index) => close(options[index]));
+      menu.key(['escape'], () => close(null));
+      menu.focus();
+      this.screen.render();
+    });
+  }
+
+  /**
+   * Multi-line editor for an issue's raw text; C-s saves, escape cancels
+   */
+  private editText(text: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.isPrompting = true;
+      const editor = blessed.textarea({
+        parent: this.screen,
+        label: ' Edit line (C-s save, Esc cancel) ',
+        border: 'line',
+        top: 'center',
+        left: 'center',
+        width: '90%',
+        height: text.split('\n').length + 4,
+        inputOnFocus: true,
+        style: {
+          border: { fg: 'cyan' }
+        },
+        value: text,
+      });
+
+      const close = (value: string | null) => {
+        this.isPrompting = false;
+        this.screen.remove(editor);
+        this.screen.render();
+        resolve(value);
+      };
+
+      editor.key(['C-s'], () => close(editor.getValue()));
+      editor.key(['escape'], () => close(null));
+      editor.focus();
+      this.screen.render();
+    });
+  }
+
+  /**
+   * Show status message
+   */
+  private showStatus(message: string): void {
+    this.statusBar.setContent(` ${message}`);
+    this.screen.render();
+  }
+
+  /**
+   * Show error message
+   */
+  private showError(message: string): void {
+    const errorBox = blessed.message({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: '50%',
+      height: 'shrink',
+      border: 'line',
+      style: {
+        border: { fg: 'red' }
+      },
+      label: ' Error '
+    });
+
+    errorBox.error(message, () => {
+      this.screen.render();
+    });
+  }
+}
@@ -7,6 +7,7 @@ import { lazy } from "react";
 import { AppShell } from "@/components/layout/AppShell.tsx";
 import { RouterErrorBoundary } from "@/components/error/ErrorBoundary.tsx";
 import { PageWrapper } from "@/components/layout/PageWrapper.tsx";
+import { slugRedirectLoader } from "./redirects.ts";
 
 // Lazy load page components for code splitting
 const HomePage = lazy(() => import("@/pages/HomePage.tsx"));
@@ -21,6 +22,8 @@ const NewEventsPage = lazy(() => import("@/pages/NewEventsPage.tsx"));
 const LocalArtistsPage = lazy(() => import("@/pages/LocalArtistsPage.tsx"));
 const NotFoundPage = lazy(() => import("@/pages/NotFoundPage.tsx"));
 const NewsletterPage = lazy(() => import("@/pages/NewsletterPage.tsx"));
+const RadioPage = lazy(() => import("@/pages/RadioPage.tsx"));
+const MapPage = lazy(() => import("@/pages/MapPage.tsx"));
 
 // PageWrapper now imported from components/layout/PageWrapper.tsx
 
@@ -89,6 +92,14 @@ export const router = createBrowserRouter(
             },
           ],
         },
+        {
+          path: "map",
+          element: (
+            <PageWrapper>
+              <MapPage />
+            </PageWrapper>
+          ),
+        },
         {
           path: "artists",
           children: [
@@ -102,6 +113,7 @@ export const router = createBrowserRouter(
             },
             {
               path: ":slug",
+              loader: slugRedirectLoader("artists"),
               element: (
                 <PageWrapper>
                   <ArtistDetailPage />
@@ -123,6 +135,7 @@ export const router = createBrowserRouter(
             },
             {
               path: ":slug",
+              loader: slugRedirectLoader("venues"),
               element: (
                 <PageWrapper>
                   <VenueDetailPage />
@@ -133,6 +146,7 @@ export const router = createBrowserRouter(
         },
         {
           path: "events/:slug",
+          loader: slugRedirectLoader("events"),
           element: (
             <PageWrapper>
               <EventDetailPage />
@@ -155,6 +169,14 @@ export const router = createBrowserRouter(
             </PageWrapper>
           ),
         },
+        {
+          path: "radio",
+          element: (
+            <PageWrapper>
+              <RadioPage />
+            </PageWrapper>
+          ),
+        },
         {
           path: "about",
           element: (
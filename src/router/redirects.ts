@@ -0,0 +1,23 @@
+/**
+ * Slug redirects for renamed events, artists and venues
+ * The ETL records every slug an entity has had (redirects.json); detail
+ * routes send an old slug on to the entity's current page. The map comes
+ * through DataService, so it's checked and cached like the rest of the data.
+ */
+
+import { redirect, type LoaderFunctionArgs } from "react-router-dom";
+import { useAppStore } from "@/stores/appStore.js";
+import type { EntityKind } from "@/types/data.js";
+
+/**
+ * Route loader that redirects an old slug to the current one and otherwise
+ * lets the page render
+ */
+export function slugRedirectLoader(kind: EntityKind) {
+  return async ({ params }: LoaderFunctionArgs) => {
+    const slug = params.slug;
+    if (!slug) return null;
+    const target = (await useAppStore.getState().getRedirects())[kind]?.[slug];
+    return target && target !== slug ? redirect(`/${kind}/${target}`) : null;
+  };
+}
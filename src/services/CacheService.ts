@@ -256,6 +256,55 @@ export class CacheService {
     });
   }
 
+  /**
+   * Move the entries of one version that are still valid to another,
+   * deleting the rest; used when a new dataset leaves most files unchanged
+   */
+  async moveVersion(
+    fromVersion: string,
+    toVersion: string,
+    keep: (entry: CacheEntry<unknown> & { key: string }) => boolean
+  ): Promise<{ moved: number; deleted: number }> {
+    const result = { moved: 0, deleted: 0 };
+    if (!this.db) {
+      return result;
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.storeName], "readwrite");
+      const store = transaction.objectStore(this.config.storeName);
+      const index = store.index("version");
+      const request = index.openCursor(IDBKeyRange.only(fromVersion));
+
+      request.onerror = () => {
+        reject(this.createError("CACHE_ERROR", "Failed to move version", {
+          fromVersion,
+          toVersion,
+          error: request.error,
+        }));
+      };
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const entry = cursor.value;
+          if (keep(entry)) {
+            cursor.update({ ...entry, version: toVersion });
+            result.moved++;
+          } else {
+            this.stats.totalSize -= entry.size;
+            this.stats.entryCount--;
+            cursor.delete();
+            result.deleted++;
+          }
+          cursor.continue();
+        } else {
+          resolve(result);
+        }
+      };
+    });
+  }
+
   /**
    * Clear all cache data
    */
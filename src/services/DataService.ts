@@ -15,6 +15,13 @@ import type {
 import type {
   DataManifest,
   DataIndexes,
+  DeltaManifest,
+  FileInfo,
+  EventHistory,
+  RadioSchedule,
+  RedirectMap,
+  SearchDocument,
+  SearchTermIndex,
 } from "@/types/data.js";
 import type {
   DataServiceConfig,
@@ -22,8 +29,16 @@ import type {
   DataError,
   ChunkMetadata,
   ChunkLoadMetrics,
+  SearchResults,
 } from "@/types/frontend.js";
 import { CacheService } from "./CacheService.js";
+import { SearchService } from "./SearchService.js";
+import { Checksum } from "@/lib/etl/checksum.js";
+import {
+  DataValidationError,
+  globalErrorHandler,
+  isDataValidationError,
+} from "@/utils/errorHandling.js";
 
 export class DataService {
   private config: DataServiceConfig;
@@ -34,6 +49,10 @@ export class DataService {
   private venues: Map<VenueId, Venue> = new Map();
   private events: Map<EventId, Event> = new Map();
   private indexes: DataIndexes | null = null;
+  private searchService: Promise<SearchService | null> | null = null;
+  private history: Promise<EventHistory> | null = null;
+  private radio: Promise<RadioSchedule> | null = null;
+  private redirects: Promise<RedirectMap> | null = null;
   private abortControllers = new Map<string, AbortController>();
 
   constructor(config: Partial<DataServiceConfig> = {}) {
@@ -87,13 +106,17 @@ export class DataService {
     
     if (cached && cached.datasetVersion !== networkManifest.datasetVersion) {
       console.log(`🔄 Dataset version changed: ${cached.datasetVersion} → ${networkManifest.datasetVersion}`);
-      // Clear old version from cache
-      await this.cache.clearVersion(cached.datasetVersion);
+      // Keep cached files the delta lists as unchanged, drop the rest
+      await this.migrateCache(cached.datasetVersion, networkManifest);
       // Clear in-memory data
       this.artists.clear();
       this.venues.clear();
       this.events.clear();
       this.indexes = null;
+      this.searchService = null;
+      this.history = null;
+      this.radio = null;
+      this.redirects = null;
       this.loadedChunks.clear();
     }
 
@@ -123,12 +146,10 @@ export class DataService {
     }
 
     // Load from network
-    const artists = await this.fetchWithRetry<Artist[]>(
-      `${this.config.baseUrl}/artists.json`
-    );
+    const artists = await this.fetchFile<Artist[]>(manifest.chunks.artists);
 
     // Cache and store
-    await this.cache.set(cacheKey, artists, manifest.datasetVersion);
+    await this.cache.set(cacheKey, artists, manifest.datasetVersion, manifest.chunks.artists.checksum);
     artists.forEach(artist => this.artists.set(artist.id, artist));
     
     return artists;
@@ -153,12 +174,10 @@ export class DataService {
     }
 
     // Load from network
-    const venues = await this.fetchWithRetry<Venue[]>(
-      `${this.config.baseUrl}/venues.json`
-    );
+    const venues = await this.fetchFile<Venue[]>(manifest.chunks.venues);
 
     // Cache and store
-    await this.cache.set(cacheKey, venues, manifest.datasetVersion);
+    await this.cache.set(cacheKey, venues, manifest.datasetVersion, manifest.chunks.venues.checksum);
     venues.forEach(venue => this.venues.set(venue.id, venue));
     
     return venues;
@@ -183,12 +202,10 @@ export class DataService {
     }
 
     // Load from network
-    const indexes = await this.fetchWithRetry<DataIndexes>(
-      `${this.config.baseUrl}/indexes.json`
-    );
+    const indexes = await this.fetchFile<DataIndexes>(manifest.chunks.indexes);
 
     // Cache and store
-    await this.cache.set(cacheKey, indexes, manifest.datasetVersion);
+    await this.cache.set(cacheKey, indexes, manifest.datasetVersion, manifest.chunks.indexes.checksum);
     this.indexes = indexes;
     
     return indexes;
@@ -232,14 +249,22 @@ export class DataService {
 
       // Load from network if not in cache
       if (!chunkData) {
-        chunkData = await this.fetchWithRetry<EventChunk>(
-          `${this.config.baseUrl}/events-${chunkId}.json`,
-          { signal }
-        );
+        const chunkInfo = this.fileForCacheKey(manifest, cacheKey);
+        chunkData = chunkInfo
+          ? await this.fetchFile<EventChunk>(chunkInfo, { signal })
+          : await this.fetchWithRetry<EventChunk>(
+              `${this.config.baseUrl}/events-${chunkId}.json`,
+              { signal }
+            );
 
         // Cache the chunk
         if (useCache) {
-          await this.cache.set(cacheKey, chunkData, manifest.datasetVersion);
+          await this.cache.set(
+            cacheKey,
+            chunkData,
+            manifest.datasetVersion,
+            this.fileForCacheKey(manifest, cacheKey)?.checksum
+          );
         }
       }
 
@@ -270,6 +295,9 @@ export class DataService {
       return events;
 
     } catch (error) {
+      if (isDataValidationError(error)) {
+        throw error;
+      }
       throw this.createDataError(
         "NETWORK_ERROR",
         `Failed to load chunk ${chunkId}`,
@@ -348,59 +376,129 @@ export class DataService {
   }
 
   /**
-   * Search events by artist or venue name
+   * Load the full-text search index, deferred until the first search.
+   * Resolves to null for manifests from before the index was listed there.
    */
-  async searchEvents(query: string): Promise<Event[]> {
-    const indexes = await this.loadIndexes();
-    const normalizedQuery = query.toLowerCase().trim();
-    
-    if (!normalizedQuery) {
-      return [];
+  async loadSearchIndex(): Promise<SearchService | null> {
+    if (!this.searchService) {
+      this.searchService = this.fetchSearchIndex().catch((error) => {
+        this.searchService = null;
+        throw error;
+      });
     }
+    return this.searchService;
+  }
 
-    const matchingEventIds = new Set<EventId>();
+  /**
+   * Load the per-event change history, deferred until an event page asks for it.
+   * Resolves to an empty history for manifests from before it was recorded.
+   */
+  async loadEventHistory(): Promise<EventHistory> {
+    if (!this.history) {
+      this.history = this.fetchEventHistory().catch((error) => {
+        this.history = null;
+        throw error;
+      });
+    }
+    return this.history;
+  }
 
-    // Search artist names
-    for (const [name, artistId] of Object.entries(indexes.artistsByName)) {
-      if (name.includes(normalizedQuery)) {
-        const eventIds = indexes.eventsByArtist[artistId] || [];
-        eventIds.forEach(id => matchingEventIds.add(id));
-      }
+  /**
+   * Load the weekly radio schedule, deferred until the radio page asks for it.
+   * Resolves to an empty schedule for manifests from before it was parsed.
+   */
+  async loadRadioSchedule(): Promise<RadioSchedule> {
+    if (!this.radio) {
+      this.radio = this.fetchRadioSchedule().catch((error) => {
+        this.radio = null;
+        throw error;
+      });
     }
+    return this.radio;
+  }
 
-    // Search venue names
-    for (const [name, venueId] of Object.entries(indexes.venuesByName)) {
-      if (name.includes(normalizedQuery)) {
-        const eventIds = indexes.eventsByVenue[venueId] || [];
-        eventIds.forEach(id => matchingEventIds.add(id));
-      }
+  /**
+   * Load the slug redirects detail routes check before rendering.
+   * Resolves to no redirects for manifests from before IDs were tracked.
+   */
+  async loadRedirects(): Promise<RedirectMap> {
+    if (!this.redirects) {
+      this.redirects = this.fetchRedirects().catch((error) => {
+        this.redirects = null;
+        throw error;
+      });
     }
+    return this.redirects;
+  }
 
-    // Load required chunks
-    const chunks = this.getChunksForEventIds(Array.from(matchingEventIds));
-    await Promise.all(chunks.map(chunkId => this.loadChunk(chunkId)));
+  /**
+   * Ranked search across events, artists and venues
+   */
+  async search(query: string, limit = 10): Promise<SearchResults> {
+    const results: SearchResults = { query, events: [], artists: [], venues: [] };
+    if (!query.trim()) {
+      return results;
+    }
 
-    // Return matching events
-    return Array.from(matchingEventIds)
-      .map(id => this.events.get(id))
-      .filter((event): event is Event => event !== undefined);
+    const searchService = await this.loadSearchIndex();
+    if (!searchService) {
+      return this.scanByName(query, limit);
+    }
+
+    const ranked = searchService.search(query, { limit: Infinity });
+    const byType = (type: SearchDocument["type"]) =>
+      ranked.filter(({ document }) => document.type === type).slice(0, limit);
+
+    const eventHits = byType("event");
+
+    // Event documents carry their date, which names the chunk holding the event
+    const chunkIds = new Set(eventHits.map(({ document }) => document.date.slice(0, 7)));
+    const available = new Set(this.manifest?.chunks.events.map((c) => c.chunkId));
+    await Promise.all(
+      [...chunkIds]
+        .filter((chunkId) => available.has(chunkId))
+        .map((chunkId) => this.loadChunk(chunkId).catch(() => []))
+    );
+
+    results.events = eventHits.flatMap(({ document, score }) => {
+      const event = this.events.get(Number(document.entityId) as EventId);
+      return event ? [{ item: event, score }] : [];
+    });
+    results.artists = byType("artist").flatMap(({ document, score }) => {
+      const artist = this.artists.get(Number(document.entityId) as ArtistId);
+      return artist ? [{ item: artist, score }] : [];
+    });
+    results.venues = byType("venue").flatMap(({ document, score }) => {
+      const venue = this.venues.get(Number(document.entityId) as VenueId);
+      return venue ? [{ item: venue, score }] : [];
+    });
+
+    return results;
+  }
+
+  /**
+   * Search events, best matches first
+   */
+  async searchEvents(query: string): Promise<Event[]> {
+    const results = await this.search(query, 50);
+    return results.events.map(({ item }) => item);
   }
 
   /**
-   * Refresh data by clearing cache and reloading
+   * Refresh data by dropping what's in memory and reloading; cached files
+   * are kept, or moved to a new dataset version when they're unchanged
    */
   async refresh(): Promise<void> {
-    // Clear cache for current version before clearing manifest
-    if (this.manifest) {
-      await this.cache.clearVersion(this.manifest.datasetVersion);
-    }
-    
     // Clear current data
     this.manifest = null;
     this.artists.clear();
     this.venues.clear();
     this.events.clear();
     this.indexes = null;
+    this.searchService = null;
+    this.history = null;
+    this.radio = null;
+    this.redirects = null;
     this.loadedChunks.clear();
 
     // Reload core data
@@ -455,9 +553,234 @@ export class DataService {
    * Private helper methods
    */
 
+  private async fetchSearchIndex(): Promise<SearchService | null> {
+    const manifest = this.manifest ?? (await this.loadManifest());
+    const files = manifest.chunks.search;
+    if (!files) {
+      return null;
+    }
+
+    const load = async <T>(cacheKey: string, file: FileInfo): Promise<T> => {
+      const cached = await this.cache.get<T>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      const data = await this.fetchFile<T>(file);
+      await this.cache.set(cacheKey, data, manifest.datasetVersion, file.checksum);
+      return data;
+    };
+
+    const [documents, terms] = await Promise.all([
+      load<SearchDocument[]>("search-documents", files.documents),
+      load<SearchTermIndex>("search-terms", files.terms),
+    ]);
+
+    return new SearchService(documents, terms);
+  }
+
+  private async fetchEventHistory(): Promise<EventHistory> {
+    const manifest = this.manifest ?? (await this.loadManifest());
+    const file = manifest.chunks.history;
+    if (!file) {
+      return {};
+    }
+
+    const cached = await this.cache.get<EventHistory>("history");
+    if (cached) {
+      return cached;
+    }
+    const history = await this.fetchFile<EventHistory>(file);
+    await this.cache.set("history", history, manifest.datasetVersion, file.checksum);
+    return history;
+  }
+
+  private async fetchRadioSchedule(): Promise<RadioSchedule> {
+    const manifest = this.manifest ?? (await this.loadManifest());
+    const file = manifest.chunks.radio;
+    if (!file) {
+      return { shows: [], links: [] };
+    }
+
+    const cached = await this.cache.get<RadioSchedule>("radio");
+    if (cached) {
+      return cached;
+    }
+    const radio = await this.fetchFile<RadioSchedule>(file);
+    await this.cache.set("radio", radio, manifest.datasetVersion, file.checksum);
+    return radio;
+  }
+
+  private async fetchRedirects(): Promise<RedirectMap> {
+    const manifest = this.manifest ?? (await this.loadManifest());
+    const file = manifest.chunks.redirects;
+    if (!file) {
+      return { events: {}, artists: {}, venues: {} };
+    }
+
+    const cached = await this.cache.get<RedirectMap>("redirects");
+    if (cached) {
+      return cached;
+    }
+    const redirects = await this.fetchFile<RedirectMap>(file);
+    await this.cache.set("redirects", redirects, manifest.datasetVersion, file.checksum);
+    return redirects;
+  }
+
+  /**
+   * Unranked substring match on artist and venue names, for data without a search index
+   */
+  private async scanByName(query: string, limit: number): Promise<SearchResults> {
+    const indexes = await this.loadIndexes();
+    const normalizedQuery = query.toLowerCase().trim();
+    const matchingEventIds = new Set<EventId>();
+    const artists: SearchResults["artists"] = [];
+    const venues: SearchResults["venues"] = [];
+
+    // Search artist names
+    for (const [name, artistId] of Object.entries(indexes.artistsByName)) {
+      if (name.includes(normalizedQuery)) {
+        const eventIds = indexes.eventsByArtist[artistId] || [];
+        eventIds.forEach(id => matchingEventIds.add(id));
+        const artist = this.artists.get(artistId);
+        if (artist) artists.push({ item: artist, score: 0 });
+      }
+    }
+
+    // Search venue names
+    for (const [name, venueId] of Object.entries(indexes.venuesByName)) {
+      if (name.includes(normalizedQuery)) {
+        const eventIds = indexes.eventsByVenue[venueId] || [];
+        eventIds.forEach(id => matchingEventIds.add(id));
+        const venue = this.venues.get(venueId);
+        if (venue) venues.push({ item: venue, score: 0 });
+      }
+    }
+
+    // Load required chunks
+    const chunks = this.getChunksForEventIds(Array.from(matchingEventIds));
+    await Promise.all(chunks.map(chunkId => this.loadChunk(chunkId)));
+
+    const events = Array.from(matchingEventIds)
+      .map(id => this.events.get(id))
+      .filter((event): event is Event => event !== undefined)
+      .slice(0, limit)
+      .map(event => ({ item: event, score: 0 }));
+
+    return {
+      query,
+      events,
+      artists: artists.slice(0, limit),
+      venues: venues.slice(0, limit),
+    };
+  }
+
+  /**
+   * Move cache entries whose checksum the new version's delta still lists
+   * to that version; without a usable delta, clear the old version
+   */
+  private async migrateCache(previousVersion: string, manifest: DataManifest): Promise<void> {
+    const delta = await this.fetchDelta(manifest);
+    if (!delta) {
+      await this.cache.clearVersion(previousVersion);
+      return;
+    }
+
+    const { moved, deleted } = await this.cache.moveVersion(
+      previousVersion,
+      manifest.datasetVersion,
+      (entry) => {
+        const file = this.fileForCacheKey(manifest, entry.key);
+        return !!file && !!entry.checksum && delta.files[file.filename]?.checksum === entry.checksum;
+      }
+    );
+    console.log(`📦 Kept ${moved} unchanged cached file(s), ${deleted} to refetch`);
+  }
+
+  private async fetchDelta(manifest: DataManifest): Promise<DeltaManifest | null> {
+    const file = manifest.chunks.delta;
+    if (!file) {
+      return null;
+    }
+
+    try {
+      const delta = await this.fetchFile<DeltaManifest>(file);
+      // A delta for some other version can't vouch for these checksums
+      return delta.datasetVersion === manifest.datasetVersion ? delta : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The manifest file a cache key holds
+   */
+  private fileForCacheKey(manifest: DataManifest, cacheKey: string): FileInfo | undefined {
+    const { chunks } = manifest;
+    if (cacheKey.startsWith("chunk-")) {
+      const chunkId = cacheKey.slice("chunk-".length);
+      return chunks.events.find((chunk) => chunk.chunkId === chunkId);
+    }
+
+    const files: Record<string, FileInfo | undefined> = {
+      artists: chunks.artists,
+      venues: chunks.venues,
+      indexes: chunks.indexes,
+      "search-documents": chunks.search?.documents,
+      "search-terms": chunks.search?.terms,
+      history: chunks.history,
+      radio: chunks.radio,
+      redirects: chunks.redirects,
+    };
+    return files[cacheKey];
+  }
+
+  /**
+   * Fetch a manifest file and check it against the manifest's checksum.
+   * A mismatch (a truncated or stale response) is reported and fetched once
+   * more past any HTTP cache; a second mismatch is a DataValidationError.
+   */
+  private async fetchFile<T>(file: FileInfo, options: RequestInit = {}): Promise<T> {
+    const url = `${this.config.baseUrl}/${file.filename}`;
+    if (!Checksum.isVerifiable(file.checksum)) {
+      return this.fetchWithRetry<T>(url, options);
+    }
+
+    const readText = (response: Response) => response.text();
+    const text = await this.fetchWithRetry(url, options, readText);
+    if (await Checksum.matches(text, file.checksum)) {
+      return JSON.parse(text) as T;
+    }
+
+    globalErrorHandler.handleError(
+      new DataValidationError(`Checksum mismatch for ${file.filename}, refetching`, {
+        filename: file.filename,
+        expected: file.checksum,
+        received: await Checksum.digest(text),
+        size: text.length,
+      }),
+      { operation: "verify_data_file" }
+    );
+
+    const retried = await this.fetchWithRetry(
+      `${url}?v=${encodeURIComponent(file.checksum)}`,
+      { ...options, cache: "reload" },
+      readText
+    );
+    if (await Checksum.matches(retried, file.checksum)) {
+      return JSON.parse(retried) as T;
+    }
+
+    throw new DataValidationError(`${file.filename} doesn't match the manifest checksum`, {
+      filename: file.filename,
+      expected: file.checksum,
+      received: await Checksum.digest(retried),
+    });
+  }
+
   private async fetchWithRetry<T>(
     url: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    read: (response: Response) => Promise<T> = (response) => response.json()
   ): Promise<T> {
     let lastError: Error | null = null;
 
@@ -475,7 +798,7 @@ export class DataService {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        return await response.json() as T;
+        return await read(response);
 
       } catch (error) {
         lastError = error as Error;
@@ -588,6 +911,10 @@ export class DataService {
     this.artists.clear();
     this.venues.clear();
     this.loadedChunks.clear();
+    this.searchService = null;
+    this.history = null;
+    this.radio = null;
+    this.redirects = null;
 
     // Close cache
     this.cache.close();
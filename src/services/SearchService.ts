@@ -0,0 +1,183 @@
+/**
+ * Ranked full-text search over the ETL-built inverted index
+ * Scores documents with BM25, expanding query terms by prefix and by typo-tolerant similarity
+ */
+
+import type {
+  SearchDocument,
+  SearchDocumentType,
+  SearchTermIndex,
+} from "@/types/data.js";
+import { SearchIndexBuilder } from "@/lib/etl/indexer.js";
+import { DeduplicationUtils } from "@/lib/etl/utils.js";
+
+export interface SearchServiceConfig {
+  k1: number; // BM25 term frequency saturation
+  b: number; // BM25 length normalization
+  prefixWeight: number; // score multiplier for prefix expansions
+  fuzzyWeight: number; // score multiplier for typo expansions, scaled by similarity
+  fuzzyThreshold: number; // minimum stringSimilarity for a typo expansion
+  minFuzzyLength: number; // shorter query terms are not typo-corrected
+  maxExpansions: number; // prefix/typo expansions kept per query term
+}
+
+export interface RankedDocument {
+  document: SearchDocument;
+  score: number;
+  matchedTerms: number; // query terms this document matched
+}
+
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+export class SearchService {
+  private config: SearchServiceConfig;
+  private documents: SearchDocument[];
+  private terms: SearchTermIndex;
+  private vocabulary: string[]; // sorted, for prefix lookups
+  private averageLength: number;
+
+  constructor(
+    documents: SearchDocument[],
+    terms: SearchTermIndex,
+    config: Partial<SearchServiceConfig> = {}
+  ) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      prefixWeight: 0.8,
+      fuzzyWeight: 0.6,
+      fuzzyThreshold: 0.75,
+      minFuzzyLength: 4,
+      maxExpansions: 50,
+      ...config,
+    };
+
+    this.documents = documents;
+    this.terms = terms;
+    this.vocabulary = Object.keys(terms).sort();
+    this.averageLength =
+      documents.reduce((sum, doc) => sum + doc.length, 0) /
+      Math.max(documents.length, 1);
+  }
+
+  /**
+   * Rank documents for a query; documents matching more query terms come first
+   */
+  search(
+    query: string,
+    options: { types?: SearchDocumentType[]; limit?: number } = {}
+  ): RankedDocument[] {
+    const { types, limit = 50 } = options;
+    const queryTerms = [...new Set(SearchIndexBuilder.tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matchedTerms: number }>();
+
+    for (const queryTerm of queryTerms) {
+      // Best-scoring expansion per document for this query term
+      const termScores = new Map<number, number>();
+
+      for (const { term, weight } of this.expand(queryTerm)) {
+        const postings = this.terms[term];
+        const idf = this.idf(postings.length);
+
+        for (const [docId, frequency] of postings) {
+          const doc = this.documents[docId];
+          if (!doc || (types && !types.includes(doc.type))) continue;
+
+          const score = weight * idf * this.termFrequencyScore(frequency, doc.length);
+          if (score > (termScores.get(docId) ?? 0)) {
+            termScores.set(docId, score);
+          }
+        }
+      }
+
+      for (const [docId, score] of termScores) {
+        const entry = scores.get(docId) ?? { score: 0, matchedTerms: 0 };
+        entry.score += score;
+        entry.matchedTerms += 1;
+        scores.set(docId, entry);
+      }
+    }
+
+    return Array.from(scores, ([docId, { score, matchedTerms }]) => ({
+      document: this.documents[docId],
+      score,
+      matchedTerms,
+    }))
+      .sort((a, b) => b.matchedTerms - a.matchedTerms || b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Index terms a query term can match: itself, longer terms it prefixes, and near misspellings
+   */
+  private expand(queryTerm: string): TermExpansion[] {
+    const expansions = new Map<string, number>();
+    const hasTerm = (term: string) =>
+      Object.prototype.hasOwnProperty.call(this.terms, term);
+
+    if (hasTerm(queryTerm)) {
+      expansions.set(queryTerm, 1);
+    }
+
+    // Prefix matches from the sorted vocabulary
+    let prefixCount = 0;
+    for (
+      let i = this.lowerBound(queryTerm);
+      i < this.vocabulary.length && prefixCount < this.config.maxExpansions;
+      i++
+    ) {
+      const term = this.vocabulary[i];
+      if (!term.startsWith(queryTerm)) break;
+      if (term === queryTerm) continue;
+      expansions.set(term, this.config.prefixWeight);
+      prefixCount++;
+    }
+
+    // Typo tolerance, only when the exact term is unknown
+    if (!hasTerm(queryTerm) && queryTerm.length >= this.config.minFuzzyLength) {
+      const fuzzy: TermExpansion[] = [];
+      for (const term of this.vocabulary) {
+        if (Math.abs(term.length - queryTerm.length) > 2) continue;
+        const similarity = DeduplicationUtils.stringSimilarity(queryTerm, term);
+        if (similarity >= this.config.fuzzyThreshold) {
+          fuzzy.push({ term, weight: this.config.fuzzyWeight * similarity });
+        }
+      }
+      fuzzy
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, this.config.maxExpansions)
+        .forEach(({ term, weight }) => {
+          if (!expansions.has(term)) expansions.set(term, weight);
+        });
+    }
+
+    return Array.from(expansions, ([term, weight]) => ({ term, weight }));
+  }
+
+  private idf(documentFrequency: number): number {
+    const n = this.documents.length;
+    return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private termFrequencyScore(frequency: number, length: number): number {
+    const { k1, b } = this.config;
+    const norm = 1 - b + (b * length) / (this.averageLength || 1);
+    return (frequency * (k1 + 1)) / (frequency + k1 * norm);
+  }
+
+  private lowerBound(term: string): number {
+    let lo = 0;
+    let hi = this.vocabulary.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.vocabulary[mid] < term) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
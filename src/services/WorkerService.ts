@@ -7,9 +7,11 @@ import type {
   WorkerMessage,
   WorkerResponse,
   ParseJsonPayload,
-  FilterEventsPayload,
+  LoadEntitiesPayload,
+  EventQueryResult,
 } from "@/types/frontend.js";
-import type { Event, Artist, Venue } from "@/types/events.js";
+import type { Event, Artist, Venue, SearchQuery } from "@/types/events.js";
+import { EventDataset } from "@/utils/eventDataset.js";
 
 export class WorkerService {
   private worker: Worker | null = null;
@@ -21,6 +23,10 @@ export class WorkerService {
   private requestIdCounter = 0;
   private isWorkerSupported = typeof Worker !== "undefined";
 
+  // Main-thread copy of the worker's dataset for when the worker is unavailable
+  // or fails; it holds the same objects the app store already has
+  private dataset = new EventDataset();
+
   constructor() {
     if (this.isWorkerSupported) {
       this.initializeWorker();
@@ -85,7 +91,8 @@ export class WorkerService {
    */
   private async sendWorkerMessage<T>(
     message: Omit<WorkerMessage, "id">,
-    timeoutMs = 30000
+    timeoutMs = 30000,
+    signal?: AbortSignal
   ): Promise<T> {
     if (!this.worker) {
       throw new Error("Worker not available");
@@ -104,6 +111,19 @@ export class WorkerService {
       // Store pending request
       this.pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject, timeout });
 
+      // Aborting stops waiting and tells the worker to drop the request
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (!this.pendingRequests.has(id)) return;
+          clearTimeout(timeout);
+          this.pendingRequests.delete(id);
+          this.worker?.postMessage({ id: `req-${++this.requestIdCounter}`, type: "CANCEL", payload: { requestId: id } });
+          reject(new DOMException("Worker request cancelled", "AbortError"));
+        },
+        { once: true }
+      );
+
       // Send message to worker
       this.worker!.postMessage(fullMessage);
     });
@@ -136,53 +156,52 @@ export class WorkerService {
   }
 
   /**
-   * Filter events using worker
+   * Add loaded events to the resident dataset; each chunk is sent once
    */
-  async filterEvents(
-    events: Event[],
-    filters: Record<string, unknown>,
-    searchQuery?: string
-  ): Promise<{ events: Event[]; totalCount: number }> {
-    if (!this.isWorkerSupported || !this.worker) {
-      // Fallback to main thread filtering
-      return this.filterEventsMainThread(events, filters, searchQuery);
-    }
+  loadEvents(events: Event[]): Promise<void> {
+    this.dataset.addEvents(events);
+    return this.postToDataset({ type: "LOAD_EVENTS", payload: { events } });
+  }
 
-    try {
-      const payload: FilterEventsPayload = { events, filters, searchQuery };
-      return await this.sendWorkerMessage({
-        type: "FILTER_EVENTS",
-        payload,
-      });
-    } catch (error) {
-      console.warn("Worker filtering failed, falling back to main thread:", error);
-      return this.filterEventsMainThread(events, filters, searchQuery);
-    }
+  /**
+   * Replace the dataset's artists, venues or indexes
+   */
+  loadEntities(entities: LoadEntitiesPayload): Promise<void> {
+    this.dataset.setEntities(entities);
+    return this.postToDataset({ type: "LOAD_ENTITIES", payload: entities });
   }
 
   /**
-   * Sort events using worker
+   * Drop everything loaded, for a new dataset version
    */
-  async sortEvents(
-    events: Event[],
-    sortField: string,
-    sortOrder: "asc" | "desc"
-  ): Promise<{ events: Event[] }> {
-    if (!this.isWorkerSupported || !this.worker) {
-      // Fallback to main thread sorting
-      return this.sortEventsMainThread(events, sortField, sortOrder);
+  resetDataset(): Promise<void> {
+    this.dataset.clear();
+    return this.postToDataset({ type: "RESET_DATASET", payload: {} });
+  }
+
+  /**
+   * Match, sort and page the resident events. Aborting the signal cancels the
+   * query in the worker and rejects with an AbortError
+   */
+  async queryEvents(query: SearchQuery, signal?: AbortSignal): Promise<EventQueryResult> {
+    if (this.isWorkerSupported && this.worker) {
+      try {
+        return await this.sendWorkerMessage<EventQueryResult>(
+          { type: "QUERY_EVENTS", payload: query },
+          30000,
+          signal
+        );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn("Worker query failed, falling back to main thread:", error);
+      }
     }
 
-    try {
-      const payload = { events, sortField, sortOrder };
-      return await this.sendWorkerMessage({
-        type: "SORT_EVENTS",
-        payload,
-      });
-    } catch (error) {
-      console.warn("Worker sorting failed, falling back to main thread:", error);
-      return this.sortEventsMainThread(events, sortField, sortOrder);
+    const result = await this.dataset.query(query, () => signal?.aborted ?? false);
+    if (!result) {
+      throw new DOMException("Query cancelled", "AbortError");
     }
+    return result;
   }
 
   /**
@@ -249,57 +268,19 @@ export class WorkerService {
     }
   }
 
-  private filterEventsMainThread(
-    events: Event[],
-    filters: Record<string, unknown>,
-    _searchQuery?: string
-  ): { events: Event[]; totalCount: number } {
-    // Simple filtering implementation
-    let filtered = [...events];
-    
-    // Apply basic filters
-    if (filters.isFree) {
-      filtered = filtered.filter(event => event.isFree);
-    }
-    
-    // Add more filter logic as needed
-    
-    return {
-      events: filtered,
-      totalCount: filtered.length,
-    };
-  }
+  /**
+   * A worker that missed an update would answer from stale data, so stop
+   * using it; the main-thread copy is complete
+   */
+  private async postToDataset(message: Omit<WorkerMessage, "id">): Promise<void> {
+    if (!this.worker) return;
 
-  private sortEventsMainThread(
-    events: Event[],
-    sortField: string,
-    sortOrder: "asc" | "desc"
-  ): { events: Event[] } {
-    const sorted = [...events].sort((a, b) => {
-      let aValue: string | number;
-      let bValue: string | number;
-      
-      switch (sortField) {
-        case "date":
-          aValue = a.dateEpochMs;
-          bValue = b.dateEpochMs;
-          break;
-        case "price":
-          aValue = a.isFree ? 0 : (a.priceMin || 0);
-          bValue = b.isFree ? 0 : (b.priceMin || 0);
-          break;
-        default:
-          return 0;
-      }
-      
-      let comparison = 0;
-      if (aValue < bValue) comparison = -1;
-      else if (aValue > bValue) comparison = 1;
-      
-      return sortOrder === "desc" ? -comparison : comparison;
-    });
-    
-    return { events: sorted };
+    try {
+      await this.sendWorkerMessage(message);
+    } catch (error) {
+      console.warn("Worker dataset update failed, querying on the main thread:", error);
+      this.cleanup();
+    }
   }
 
   private buildSearchIndexMainThread(
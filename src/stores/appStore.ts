@@ -6,6 +6,7 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import { DataService } from "@/services/DataService.js";
+import { WorkerService } from "@/services/WorkerService.js";
 import { globalErrorHandler } from "@/utils/errorHandling.js";
 import type {
   Event,
@@ -14,9 +15,16 @@ import type {
   EventId,
   ArtistId,
   VenueId,
+  SearchQuery,
 } from "@/types/events.js";
-import type { DataManifest, DataIndexes } from "@/types/data.js";
-import type { ViewState, LoadingState, CacheStats } from "@/types/frontend.js";
+import type { DataManifest, DataIndexes, EventChange, RadioSchedule, RedirectMap } from "@/types/data.js";
+import type {
+  ViewState,
+  LoadingState,
+  CacheStats,
+  SearchResults,
+  EventQueryResult,
+} from "@/types/frontend.js";
 
 // App state interface
 export interface AppState {
@@ -53,10 +61,14 @@ export interface AppState {
   // UI state
   view: ViewState;
   showUpcomingOnly: boolean;
+  followedArtistIds: ArtistId[]; // persisted; their shows export as one calendar
 
   // Data service instance
   dataService: DataService | null;
 
+  // Data worker holding the loaded events for queries
+  workerService: WorkerService | null;
+
   // Last updated timestamps
   lastUpdated: {
     manifest: number | null;
@@ -79,8 +91,21 @@ export interface AppActions {
   loadChunk: (chunkId: string) => Promise<void>;
 
   // Search
+  search: (query: string, limit?: number) => Promise<SearchResults>;
   searchEvents: (query: string) => Promise<Event[]>;
 
+  // Page of loaded event IDs matching a query, worked out in the data worker
+  queryEvents: (query: SearchQuery, signal?: AbortSignal) => Promise<EventQueryResult>;
+
+  // Change history, oldest first; empty when the event never changed
+  getEventHistory: (eventId: EventId) => Promise<EventChange[]>;
+
+  // Old slugs of renamed entities; route loaders ask before initialize has run
+  getRedirects: () => Promise<RedirectMap>;
+
+  // Weekly radio schedule; empty when it fails to load
+  getRadioSchedule: () => Promise<RadioSchedule>;
+
   // Data access helpers
   getEvent: (eventId: EventId) => Event | undefined;
   getArtist: (artistId: ArtistId) => Artist | undefined;
@@ -89,12 +114,16 @@ export interface AppActions {
   getAllEvents: (limit?: number) => Event[];
   getUpcomingEvents: (limit?: number) => Event[];
 
+  // Full upcoming events of artists, loading the chunks their shows are in
+  loadArtistEvents: (artistIds: ArtistId[]) => Promise<Event[]>;
+
   // UI state management
   setCurrentView: (view: ViewState["currentView"]) => void;
   setSelectedDate: (date: string | undefined) => void;
   setSelectedEvent: (eventId: EventId | undefined) => void;
   updateScrollPosition: (position: number) => void;
   toggleUpcomingOnly: () => void;
+  toggleFollowArtist: (artistId: ArtistId) => void;
 
   // Error handling
   clearError: (key: keyof AppState["errors"]) => void;
@@ -111,6 +140,9 @@ export interface AppActions {
 // Combined store type
 export type AppStore = AppState & AppActions;
 
+// A DataService a route loader started before the app initialized; initialize adopts it
+let earlyDataService: DataService | null = null;
+
 // Create the store
 export const useAppStore = create<AppStore>()(
   devtools(
@@ -153,9 +185,12 @@ export const useAppStore = create<AppStore>()(
         },
 
         showUpcomingOnly: true,
+        followedArtistIds: [],
 
         dataService: null,
 
+        workerService: null,
+
         lastUpdated: {
           manifest: null,
           artists: null,
@@ -166,8 +201,9 @@ export const useAppStore = create<AppStore>()(
         // Actions
         async initialize() {
           try {
-            const dataService = new DataService();
-            set({ dataService });
+            const dataService = earlyDataService ?? new DataService();
+            earlyDataService = null;
+            set({ dataService, workerService: get().workerService ?? new WorkerService() });
 
             await dataService.initialize();
 
@@ -241,6 +277,7 @@ export const useAppStore = create<AppStore>()(
             const artistsMap = new Map(
               artistsArray.map((artist) => [artist.id, artist])
             );
+            get().workerService?.loadEntities({ artists: artistsArray });
 
             set((state) => ({
               artists: artistsMap,
@@ -272,6 +309,7 @@ export const useAppStore = create<AppStore>()(
             const venuesMap = new Map(
               venuesArray.map((venue) => [venue.id, venue])
             );
+            get().workerService?.loadEntities({ venues: venuesArray });
 
             set((state) => ({
               venues: venuesMap,
@@ -300,6 +338,7 @@ export const useAppStore = create<AppStore>()(
 
           try {
             const indexes = await dataService.loadIndexes();
+            get().workerService?.loadEntities({ indexes });
             set((state) => ({
               indexes,
               loading: { ...state.loading, indexes: "success" },
@@ -330,6 +369,7 @@ export const useAppStore = create<AppStore>()(
 
           try {
             const eventsArray = await dataService.loadChunk(chunkId);
+            get().workerService?.loadEvents(eventsArray);
 
             set((state) => {
               const newEvents = new Map(state.events);
@@ -357,6 +397,41 @@ export const useAppStore = create<AppStore>()(
           }
         },
 
+        async search(query: string, limit?: number) {
+          const { dataService } = get();
+          if (!dataService) throw new Error("DataService not initialized");
+
+          set((state) => ({
+            loading: { ...state.loading, search: "loading" },
+            errors: { ...state.errors, search: null },
+          }));
+
+          try {
+            const results = await dataService.search(query, limit);
+            get().workerService?.loadEvents(results.events.map(({ item }) => item));
+
+            // Chunks loaded for event hits become visible to the rest of the app
+            set((state) => {
+              const events = new Map(state.events);
+              results.events.forEach(({ item }) => events.set(item.id, item));
+              return {
+                events,
+                loading: { ...state.loading, search: "success" },
+              };
+            });
+
+            return results;
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Search failed";
+            set((state) => ({
+              loading: { ...state.loading, search: "error" },
+              errors: { ...state.errors, search: errorMessage },
+            }));
+            return { query, events: [], artists: [], venues: [] };
+          }
+        },
+
         async searchEvents(query: string) {
           const { dataService } = get();
           if (!dataService) throw new Error("DataService not initialized");
@@ -385,6 +460,54 @@ export const useAppStore = create<AppStore>()(
           }
         },
 
+        async getEventHistory(eventId: EventId) {
+          const { dataService } = get();
+          if (!dataService) throw new Error("DataService not initialized");
+
+          try {
+            const history = await dataService.loadEventHistory();
+            return history[String(eventId)] ?? [];
+          } catch (error) {
+            globalErrorHandler.handleError(error as Error, {
+              operation: "load_event_history",
+            });
+            return [];
+          }
+        },
+
+        async getRedirects() {
+          const dataService = get().dataService ?? (earlyDataService ??= new DataService());
+
+          try {
+            return await dataService.loadRedirects();
+          } catch (error) {
+            globalErrorHandler.handleError(error as Error, {
+              operation: "load_redirects",
+            });
+            return { events: {}, artists: {}, venues: {} };
+          }
+        },
+
+        async getRadioSchedule() {
+          const { dataService } = get();
+          if (!dataService) throw new Error("DataService not initialized");
+
+          try {
+            return await dataService.loadRadioSchedule();
+          } catch (error) {
+            globalErrorHandler.handleError(error as Error, {
+              operation: "load_radio_schedule",
+            });
+            return { shows: [], links: [] };
+          }
+        },
+
+        async queryEvents(query: SearchQuery, signal?: AbortSignal) {
+          const { workerService } = get();
+          if (!workerService) return { ids: [], total: 0 };
+          return workerService.queryEvents(query, signal);
+        },
+
         // Data access helpers
         getEvent(eventId: EventId) {
           return get().events.get(eventId);
@@ -429,6 +552,27 @@ export const useAppStore = create<AppStore>()(
             .slice(0, limit);
         },
 
+        async loadArtistEvents(artistIds: ArtistId[]) {
+          const { manifest, artists, loadChunk } = get();
+          const upcoming = artistIds.flatMap((id) => artists.get(id)?.upcomingEvents ?? []);
+
+          // Each show's date picks the month chunk holding the full event
+          const chunkIds = new Set(
+            upcoming.flatMap(({ dateEpochMs }) =>
+              (manifest?.chunks.events ?? [])
+                .filter(({ dateRange }) => dateEpochMs >= dateRange.startEpochMs && dateEpochMs <= dateRange.endEpochMs)
+                .map((chunk) => chunk.chunkId)
+            )
+          );
+          await Promise.all(Array.from(chunkIds, (chunkId) => loadChunk(chunkId)));
+
+          const { events } = get();
+          return Array.from(new Set(upcoming.map((event) => event.id)))
+            .map((id) => events.get(id))
+            .filter((event): event is Event => !!event)
+            .sort((a, b) => a.dateEpochMs - b.dateEpochMs);
+        },
+
         // UI state management
         setCurrentView(currentView: ViewState["currentView"]) {
           set((state) => ({
@@ -473,6 +617,14 @@ export const useAppStore = create<AppStore>()(
           });
         },
 
+        toggleFollowArtist(artistId: ArtistId) {
+          set((state) => ({
+            followedArtistIds: state.followedArtistIds.includes(artistId)
+              ? state.followedArtistIds.filter((id) => id !== artistId)
+              : [...state.followedArtistIds, artistId],
+          }));
+        },
+
         // Error handling
         clearError(key: keyof AppState["errors"]) {
           set((state) => ({
@@ -509,6 +661,7 @@ export const useAppStore = create<AppStore>()(
           });
 
           // Refresh data service and reload
+          await get().workerService?.resetDataset();
           await dataService.refresh();
           await get().initialize();
         },
@@ -522,10 +675,11 @@ export const useAppStore = create<AppStore>()(
 
         // Cleanup
         dispose() {
-          const { dataService } = get();
+          const { dataService, workerService } = get();
           if (dataService) {
             dataService.dispose();
           }
+          workerService?.dispose();
         },
       }),
       {
@@ -534,6 +688,7 @@ export const useAppStore = create<AppStore>()(
         partialize: (state) => ({
           view: state.view,
           showUpcomingOnly: state.showUpcomingOnly,
+          followedArtistIds: state.followedArtistIds,
         }),
       }
     ),
@@ -4,7 +4,14 @@
 
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
-import type { EventFilters, AgeRestriction, EventTag } from "@/types/events.js";
+import type {
+  EventFilters,
+  AgeRestriction,
+  EventTag,
+  AdvisoryFlag,
+} from "@/types/events.js";
+import { HERE_ANCHOR_ID, anchorFromParam, anchorToParam } from "@/utils/transit.js";
+import { toDateKey } from "@/utils/calendar.js";
 
 // Filter state interface
 export interface FilterState {
@@ -67,6 +74,14 @@ export interface FilterActions {
 // Combined store type
 export type FilterStore = FilterState & FilterActions;
 
+// Display labels for legend advisory flags
+export const ADVISORY_LABELS: Record<AdvisoryFlag, string> = {
+  likelySellout: "Will probably sell out",
+  moshPit: "Mosh pit warning",
+  under21Surcharge: "Under 21 pays more",
+  noInsOuts: "No ins/outs",
+};
+
 // Helper functions
 function createDateFilter(days: number): {
   startDate: string;
@@ -77,8 +92,8 @@ function createDateFilter(days: number): {
   end.setDate(start.getDate() + days);
 
   return {
-    startDate: start.toISOString().split("T")[0],
-    endDate: end.toISOString().split("T")[0],
+    startDate: toDateKey(start),
+    endDate: toDateKey(end),
   };
 }
 
@@ -96,8 +111,8 @@ function getThisWeekendDates(): { startDate: string; endDate: string } {
   sunday.setDate(saturday.getDate() + 1);
 
   return {
-    startDate: saturday.toISOString().split("T")[0],
-    endDate: sunday.toISOString().split("T")[0],
+    startDate: toDateKey(saturday),
+    endDate: toDateKey(sunday),
   };
 }
 
@@ -202,6 +217,9 @@ export const useFilterStore = create<FilterStore>()(
             else if (key === "tags") updatedFilters.tags = [];
             else if (key === "isFree") delete updatedFilters.isFree;
             else if (key === "venueTypes") updatedFilters.venueTypes = [];
+            else if (key === "advisories") updatedFilters.advisories = [];
+            else if (key === "endsBeforeBart") delete updatedFilters.endsBeforeBart;
+            else if (key === "distance") delete updatedFilters.distance;
 
             const activeCount = calculateActiveFilterCount(updatedFilters);
 
@@ -298,6 +316,25 @@ export const useFilterStore = create<FilterStore>()(
             filters.tags = tags.split(",") as EventTag[];
           }
 
+          // Legend advisories
+          const advisories = searchParams.get("advisories");
+          if (advisories) {
+            filters.advisories = advisories.split(",") as AdvisoryFlag[];
+          }
+
+          // Done before BART closes
+          if (searchParams.get("bart") === "true") {
+            filters.endsBeforeBart = true;
+          }
+
+          // Near a station or a point
+          const near = searchParams.get("near");
+          const radius = parseFloat(searchParams.get("radius") ?? "");
+          const anchor = near ? anchorFromParam(near) : undefined;
+          if (anchor && radius > 0) {
+            filters.distance = { anchor, radiusMiles: radius };
+          }
+
           // Search query
           const query = searchParams.get("q");
           if (query) {
@@ -369,6 +406,20 @@ export const useFilterStore = create<FilterStore>()(
             params.set("tags", filters.tags.join(","));
           }
 
+          if (filters.advisories && filters.advisories.length > 0) {
+            params.set("advisories", filters.advisories.join(","));
+          }
+
+          if (filters.endsBeforeBart) {
+            params.set("bart", "true");
+          }
+
+          const near = filters.distance && anchorToParam(filters.distance.anchor);
+          if (filters.distance && near) {
+            params.set("near", near);
+            params.set("radius", filters.distance.radiusMiles.toString());
+          }
+
           // Add search query
           if (searchQuery.trim()) {
             params.set("q", searchQuery.trim());
@@ -393,21 +444,11 @@ export const useFilterStore = create<FilterStore>()(
             return "All Events";
           }
 
-          // Map normalized city names to display names
-          const cityDisplayMap: Record<string, string> = {
-            "S.f": "San Francisco",
-            Oakland: "Oakland",
-            Berkeley: "Berkeley",
-            Santa: "Santa Cruz",
-          };
-
           const parts: string[] = [];
 
           if (filters.cities && filters.cities.length > 0) {
             if (filters.cities.length === 1) {
-              const displayName =
-                cityDisplayMap[filters.cities[0]] || filters.cities[0];
-              parts.push(`in ${displayName}`);
+              parts.push(`in ${filters.cities[0]}`);
             } else {
               parts.push(`in ${filters.cities.length} cities`);
             }
@@ -448,6 +489,14 @@ export const useFilterStore = create<FilterStore>()(
             parts.push("age restrictions");
           }
 
+          if (filters.endsBeforeBart) {
+            parts.push("done before BART closes");
+          }
+
+          if (filters.distance) {
+            parts.push(`near ${filters.distance.anchor.label}`);
+          }
+
           if (parts.length === 0) {
             return `${activeFilterCount} filters active`;
           }
@@ -459,25 +508,14 @@ export const useFilterStore = create<FilterStore>()(
           const { filters } = get();
           const active: Array<{ key: string; value: unknown; label: string }> = [];
 
-          // Map normalized city names to display names
-          const cityDisplayMap: Record<string, string> = {
-            "S.f": "San Francisco",
-            Oakland: "Oakland",
-            Berkeley: "Berkeley",
-            Santa: "Santa Cruz",
-          };
-
           if (filters.cities && filters.cities.length > 0) {
-            const displayCities = filters.cities.map(
-              (city) => cityDisplayMap[city] || city
-            );
             active.push({
               key: "cities",
               value: filters.cities,
               label:
-                displayCities.length === 1
-                  ? `City: ${displayCities[0]}`
-                  : `Cities: ${displayCities.join(", ")}`,
+                filters.cities.length === 1
+                  ? `City: ${filters.cities[0]}`
+                  : `Cities: ${filters.cities.join(", ")}`,
             });
           }
 
@@ -568,13 +606,43 @@ export const useFilterStore = create<FilterStore>()(
             });
           }
 
+          if (filters.advisories && filters.advisories.length > 0) {
+            active.push({
+              key: "advisories",
+              value: filters.advisories,
+              label: `Advisories: ${filters.advisories
+                .map((flag) => ADVISORY_LABELS[flag])
+                .join(", ")}`,
+            });
+          }
+
+          if (filters.endsBeforeBart) {
+            active.push({
+              key: "endsBeforeBart",
+              value: true,
+              label: "Done before BART closes",
+            });
+          }
+
+          if (filters.distance) {
+            active.push({
+              key: "distance",
+              value: filters.distance,
+              label: `Within ${filters.distance.radiusMiles} mi of ${filters.distance.anchor.label}`,
+            });
+          }
+
           return active;
         },
       }),
       {
         name: "zivv-filters", // localStorage key
+        // The browser's location is kept for the session only
         partialize: (state) => ({
-          filters: state.filters,
+          filters:
+            state.filters.distance?.anchor.id === HERE_ANCHOR_ID
+              ? { ...state.filters, distance: undefined }
+              : state.filters,
           searchQuery: state.searchQuery,
           sortBy: state.sortBy,
           sortOrder: state.sortOrder,
@@ -609,6 +677,9 @@ function calculateActiveFilterCount(filters: EventFilters): number {
   if (filters.ageRestrictions && filters.ageRestrictions.length > 0) count++;
   if (filters.venueTypes && filters.venueTypes.length > 0) count++;
   if (filters.tags && filters.tags.length > 0) count++;
+  if (filters.advisories && filters.advisories.length > 0) count++;
+  if (filters.endsBeforeBart) count++;
+  if (filters.distance) count++;
 
   return count;
 }
@@ -13,9 +13,9 @@ const HeaderWithMocks = (props: any) => {
   });
 
   const mockUseAppStore = () => ({
-    searchEvents: async (query: string) => {
-      console.log("searchEvents:", query);
-      return [];
+    search: async (query: string) => {
+      console.log("search:", query);
+      return { query, events: [], artists: [], venues: [] };
     },
     loading: props.loading || { search: "idle" },
     showUpcomingOnly: props.showUpcomingOnly || false,
@@ -0,0 +1,100 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { AdvisoryFilter } from "@/components/ui/AdvisoryFilter";
+import React from "react";
+
+const meta: Meta<typeof AdvisoryFilter> = {
+  title: "UI Components/AdvisoryFilter",
+  component: AdvisoryFilter,
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component:
+          "Filter chips for The List's legend symbols: $ will probably sell out, @ mosh pit warning, ^ under 21 must pay more, # no ins/outs. Selecting several chips shows only events carrying all of them.",
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    className: {
+      control: "text",
+      description: "Additional CSS classes to apply to the component",
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="p-8 bg-gray-50 dark:bg-gray-900">
+        <div className="max-w-md mx-auto">
+          <Story />
+        </div>
+      </div>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof AdvisoryFilter>;
+
+/**
+ * Default state
+ */
+export const Default: Story = {
+  args: {
+    className: "",
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "No advisories selected. Click a chip to narrow the list to shows with that symbol.",
+      },
+    },
+  },
+};
+
+/**
+ * Dark mode
+ */
+export const DarkMode: Story = {
+  args: {
+    className: "",
+  },
+  parameters: {
+    backgrounds: { default: "dark" },
+    docs: {
+      description: {
+        story:
+          "Advisory filter in dark mode, showing proper contrast and styling for dark themes.",
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="dark p-8 bg-gray-900">
+        <div className="max-w-md mx-auto">
+          <Story />
+        </div>
+      </div>
+    ),
+  ],
+};
+
+/**
+ * Mobile layout
+ */
+export const MobileLayout: Story = {
+  args: {
+    className: "",
+  },
+  parameters: {
+    viewport: {
+      defaultViewport: "mobile",
+    },
+    docs: {
+      description: {
+        story:
+          "On small screens only the symbols are shown; the full label is available as a tooltip.",
+      },
+    },
+  },
+};
@@ -6,6 +6,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { DataService } from "../services/DataService.js";
 import type { Event, Artist, Venue } from "../types/events.js";
 import type { DataManifest } from "../types/data.js";
+import { Checksum } from "../lib/etl/checksum.js";
+import { FileChecksum } from "../lib/etl/file-checksum.js";
+import { DataValidationError, globalErrorHandler } from "../utils/errorHandling.js";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -48,6 +51,8 @@ vi.mock("../services/CacheService.js", () => ({
     set: vi.fn().mockResolvedValue(undefined),
     delete: vi.fn().mockResolvedValue(undefined),
     clear: vi.fn().mockResolvedValue(undefined),
+    clearVersion: vi.fn().mockResolvedValue(undefined),
+    moveVersion: vi.fn().mockResolvedValue({ moved: 0, deleted: 0 }),
     getStats: vi.fn().mockResolvedValue({ size: 0, entries: 0 }),
     close: vi.fn().mockResolvedValue(undefined),
   })),
@@ -271,6 +276,68 @@ describe("DataService", () => {
     });
   });
 
+  describe("dataset version changes", () => {
+    const cacheOf = (service: DataService) =>
+      (service as unknown as { cache: Record<string, ReturnType<typeof vi.fn>> }).cache;
+
+    it("should keep cached files whose checksum the delta still lists", async () => {
+      const previous = { ...mockManifest, datasetVersion: "2024-08-22T10:00:00Z" };
+      const manifest = {
+        ...mockManifest,
+        chunks: { ...mockManifest.chunks, delta: { filename: "delta.json", size: 100, checksum: "delta1" } },
+      };
+      const delta = {
+        datasetVersion: manifest.datasetVersion,
+        previousVersion: previous.datasetVersion,
+        files: {
+          "events-2024-08.json": { checksum: "abc123", previousChecksum: "abc123", changed: false },
+          "artists.json": { checksum: "def456", previousChecksum: "old", changed: true },
+        },
+        removed: [],
+      };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(manifest) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(delta) });
+      const cache = cacheOf(dataService);
+      cache.get.mockResolvedValueOnce(previous);
+
+      await dataService.loadManifest();
+
+      expect(mockFetch).toHaveBeenLastCalledWith("/test-data/delta.json", expect.any(Object));
+      expect(cache.clearVersion).not.toHaveBeenCalled();
+      const [from, to, keep] = cache.moveVersion.mock.calls[0];
+      expect([from, to]).toEqual([previous.datasetVersion, manifest.datasetVersion]);
+      expect(keep({ key: "chunk-2024-08", checksum: "abc123" })).toBe(true);
+      expect(keep({ key: "artists", checksum: "old" })).toBe(false);
+      expect(keep({ key: "chunk-2024-08" })).toBe(false);
+      expect(keep({ key: "manifest", checksum: "abc123" })).toBe(false);
+    });
+
+    it("should clear the old version when there is no delta", async () => {
+      const previous = { ...mockManifest, datasetVersion: "2024-08-22T10:00:00Z" };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockManifest) });
+      const cache = cacheOf(dataService);
+      cache.get.mockResolvedValueOnce(previous);
+
+      await dataService.loadManifest();
+
+      expect(cache.clearVersion).toHaveBeenCalledWith(previous.datasetVersion);
+      expect(cache.moveVersion).not.toHaveBeenCalled();
+    });
+
+    it("should forget memoized history, radio and redirects from the old version", async () => {
+      const previous = { ...mockManifest, datasetVersion: "2024-08-22T10:00:00Z" };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockManifest) });
+      cacheOf(dataService).get.mockResolvedValueOnce(previous);
+      const memos = dataService as unknown as Record<"history" | "radio" | "redirects", Promise<unknown> | null>;
+      memos.history = memos.radio = memos.redirects = Promise.resolve(null);
+
+      await dataService.loadManifest();
+
+      expect([memos.history, memos.radio, memos.redirects]).toEqual([null, null, null]);
+    });
+  });
+
   describe("loadArtists", () => {
     it("should load artists from network", async () => {
       // Mock manifest load
@@ -316,6 +383,62 @@ describe("DataService", () => {
     });
   });
 
+  describe("checksum verification", () => {
+    const textResponse = (text: string) => ({ ok: true, text: () => Promise.resolve(text) });
+
+    let artistsText: string;
+    let verifiedManifest: DataManifest;
+
+    beforeEach(() => {
+      artistsText = Checksum.serialize(mockArtists);
+      verifiedManifest = {
+        ...mockManifest,
+        chunks: {
+          ...mockManifest.chunks,
+          artists: { filename: "artists.json", size: artistsText.length, checksum: FileChecksum.of(artistsText) },
+        },
+      };
+    });
+
+    it("should accept a file matching the manifest checksum", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(verifiedManifest) })
+        .mockResolvedValueOnce(textResponse(artistsText));
+
+      await expect(dataService.loadArtists()).resolves.toEqual(mockArtists);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report a mismatch and refetch past the cache", async () => {
+      const report = vi.spyOn(globalErrorHandler, "handleError").mockImplementation(() => {});
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(verifiedManifest) })
+        .mockResolvedValueOnce(textResponse(artistsText.slice(0, -20)))
+        .mockResolvedValueOnce(textResponse(artistsText));
+
+      await expect(dataService.loadArtists()).resolves.toEqual(mockArtists);
+
+      expect(report).toHaveBeenCalledWith(expect.any(DataValidationError), expect.any(Object));
+      const checksum = verifiedManifest.chunks.artists.checksum;
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `/test-data/artists.json?v=${encodeURIComponent(checksum)}`,
+        expect.objectContaining({ cache: "reload" })
+      );
+      report.mockRestore();
+    });
+
+    it("should throw a DataValidationError when the refetch still mismatches", async () => {
+      const report = vi.spyOn(globalErrorHandler, "handleError").mockImplementation(() => {});
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(verifiedManifest) })
+        .mockResolvedValue(textResponse("[]"));
+
+      await expect(dataService.loadArtists()).rejects.toBeInstanceOf(DataValidationError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      report.mockRestore();
+    });
+  });
+
   describe("getArtist", () => {
     it("should return artist by ID", async () => {
       // Load artists first
@@ -341,6 +464,28 @@ describe("DataService", () => {
     });
   });
 
+  describe("loadRedirects", () => {
+    it("should fetch the redirects the manifest lists, once", async () => {
+      const redirects = { events: {}, artists: { "2morrows-june": "two-morrows-june" }, venues: {} };
+      mockManifest.chunks.redirects = { filename: "redirects.json", size: 100, checksum: "mno345" };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockManifest) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(redirects) });
+
+      expect(await dataService.loadRedirects()).toEqual(redirects);
+      expect(await dataService.loadRedirects()).toEqual(redirects);
+      expect(mockFetch).toHaveBeenCalledTimes(2); // manifest + redirects
+      expect(mockFetch).toHaveBeenCalledWith("/test-data/redirects.json", expect.any(Object));
+    });
+
+    it("should have no redirects when the manifest lists none", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockManifest) });
+
+      expect(await dataService.loadRedirects()).toEqual({ events: {}, artists: {}, venues: {} });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("error handling", () => {
     it("should handle HTTP errors", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -0,0 +1,95 @@
+/**
+ * Test suite for ranked full-text search over the ETL search index
+ */
+
+import { describe, it, expect } from "vitest";
+import { SearchService } from "../services/SearchService.js";
+import { SearchIndexBuilder } from "../lib/etl/indexer.js";
+import type { Event, Artist, Venue, EventId, ArtistId, VenueId } from "../types/events.js";
+
+const artist = (id: number, name: string): Artist =>
+  ({ id: id as ArtistId, name, normalizedName: name.toLowerCase(), aliases: [] }) as unknown as Artist;
+
+const venue = (id: number, name: string, city: string): Venue =>
+  ({ id: id as VenueId, name, city, address: "" }) as unknown as Venue;
+
+const event = (
+  id: number,
+  artistIds: number[],
+  venueId: number,
+  extra: Partial<Event> = {}
+): Event =>
+  ({
+    id: id as EventId,
+    date: "2026-05-01",
+    headlinerArtistId: artistIds[0] as ArtistId,
+    artistIds: artistIds as ArtistId[],
+    venueId: venueId as VenueId,
+    tags: [],
+    ...extra,
+  }) as unknown as Event;
+
+const artists = [
+  artist(1, "Green Day"),
+  artist(2, "Operation Ivy"),
+  artist(3, "Greenhouse Effect"),
+  artist(4, "The Mr. T Experience"),
+];
+const venues = [venue(1, "924 Gilman", "Berkeley"), venue(2, "Bottom of the Hill", "San Francisco")];
+const events = [
+  event(1, [1, 2], 1, { tags: ["all-ages"] }),
+  event(2, [3], 2, { notes: "record release party" }),
+  event(3, [4, 1], 2),
+];
+
+const buildService = () => {
+  const { documents, terms } = SearchIndexBuilder.buildSearchIndex(events, artists, venues);
+  return new SearchService(documents, terms);
+};
+
+describe("SearchService", () => {
+  it("should rank documents whose title matches above passing mentions", () => {
+    const results = buildService().search("green day", { types: ["event"] });
+
+    expect(results.map((r) => r.document.entityId)).toEqual(["1", "3", "2"]);
+    expect(results[0].matchedTerms).toBe(2);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("should match by prefix", () => {
+    const results = buildService().search("opera", { types: ["artist"] });
+
+    expect(results[0].document.title).toBe("Operation Ivy");
+  });
+
+  it("should tolerate typos", () => {
+    const results = buildService().search("gilmen", { types: ["venue"] });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].document.title).toBe("924 Gilman");
+  });
+
+  it("should cover event notes and tags", () => {
+    const service = buildService();
+
+    expect(service.search("release", { types: ["event"] })[0].document.entityId).toBe("2");
+    expect(service.search("all ages", { types: ["event"] })[0].document.entityId).toBe("1");
+  });
+
+  it("should return every document type for an untyped query", () => {
+    const types = new Set(buildService().search("green").map((r) => r.document.type));
+
+    expect(types).toEqual(new Set(["event", "artist"]));
+  });
+
+  it("should return nothing for empty or unknown queries", () => {
+    const service = buildService();
+
+    expect(service.search("   ")).toEqual([]);
+    expect(service.search("zzzzzz")).toEqual([]);
+  });
+
+  it("should respect the limit", () => {
+    expect(buildService().search("green", { limit: 2 })).toHaveLength(2);
+  });
+});
@@ -258,139 +258,75 @@ describe("WorkerService", () => {
     });
   });
 
-  describe("event filtering", () => {
-    it("should filter events using worker", async () => {
-      const filters = { isFree: true };
-      const expectedResult = {
-        events: [mockEvents[1]], // Only the free event
-        totalCount: 1,
-      };
+  describe("resident dataset", () => {
+    const respond = (id: string, data: unknown) => {
+      mockWorker.onmessage?.({ data: { id, success: true, data } });
+    };
 
-      // Simulate worker response
-      setTimeout(() => {
-        const message = {
-          id: "req-1",
-          success: true,
-          data: expectedResult,
-        };
-        if (mockWorker.onmessage) {
-          mockWorker.onmessage({ data: message });
-        }
-      }, 0);
-
-      const result = await workerService.filterEvents(mockEvents, filters);
+    it("should send each chunk to the worker once", async () => {
+      const loaded = workerService.loadEvents(mockEvents);
+      respond("req-1", { eventCount: 2 });
+      await loaded;
 
       expect(mockWorker.postMessage).toHaveBeenCalledWith({
         id: "req-1",
-        type: "FILTER_EVENTS",
-        payload: { events: mockEvents, filters, searchQuery: undefined },
+        type: "LOAD_EVENTS",
+        payload: { events: mockEvents },
       });
-      expect(result).toEqual(expectedResult);
     });
 
-    it("should filter events with search query", async () => {
-      const filters = {};
-      const searchQuery = "test";
-      const expectedResult = {
-        events: [mockEvents[0]], // Only "Test Event 1"
-        totalCount: 1,
-      };
+    it("should query with a descriptor and get a page of IDs back", async () => {
+      const query = { filters: { isFree: true }, query: "metal", limit: 20 };
+      const expectedResult = { ids: [2], total: 1 };
 
-      setTimeout(() => {
-        const message = {
-          id: "req-1",
-          success: true,
-          data: expectedResult,
-        };
-        if (mockWorker.onmessage) {
-          mockWorker.onmessage({ data: message });
-        }
-      }, 0);
+      setTimeout(() => respond("req-1", expectedResult), 0);
 
-      const result = await workerService.filterEvents(mockEvents, filters, searchQuery);
+      const result = await workerService.queryEvents(query);
 
       expect(mockWorker.postMessage).toHaveBeenCalledWith({
         id: "req-1",
-        type: "FILTER_EVENTS",
-        payload: { events: mockEvents, filters, searchQuery },
+        type: "QUERY_EVENTS",
+        payload: query,
       });
       expect(result).toEqual(expectedResult);
     });
 
-    it("should fallback to main thread filtering", async () => {
-      const filters = { isFree: true };
+    it("should cancel a query in the worker when aborted", async () => {
+      const controller = new AbortController();
+      const result = workerService.queryEvents({ filters: {} }, controller.signal);
 
-      // Simulate worker error
-      setTimeout(() => {
-        const message = {
-          id: "req-1",
-          success: false,
-          error: "Filtering failed",
-        };
-        if (mockWorker.onmessage) {
-          mockWorker.onmessage({ data: message });
-        }
-      }, 0);
-
-      const result = await workerService.filterEvents(mockEvents, filters);
+      controller.abort();
 
-      // The main thread fallback should filter for free events
-      expect(result.events).toEqual(
-        expect.arrayContaining([
-          expect.objectContaining({ isFree: true })
-        ])
-      );
-      expect(result.totalCount).toBeGreaterThanOrEqual(0);
+      await expect(result).rejects.toMatchObject({ name: "AbortError" });
+      expect(mockWorker.postMessage).toHaveBeenLastCalledWith({
+        id: "req-2",
+        type: "CANCEL",
+        payload: { requestId: "req-1" },
+      });
     });
-  });
 
-  describe("event sorting", () => {
-    it("should sort events using worker", async () => {
-      const sortField = "date";
-      const sortOrder = "asc" as const;
-      const expectedResult = { events: mockEvents };
+    it("should fall back to the main-thread copy when the worker query fails", async () => {
+      const loaded = workerService.loadEvents(mockEvents);
+      respond("req-1", { eventCount: 2 });
+      await loaded;
 
       setTimeout(() => {
-        const message = {
-          id: "req-1",
-          success: true,
-          data: expectedResult,
-        };
-        if (mockWorker.onmessage) {
-          mockWorker.onmessage({ data: message });
-        }
+        mockWorker.onmessage?.({ data: { id: "req-2", success: false, error: "Query failed" } });
       }, 0);
 
-      const result = await workerService.sortEvents(mockEvents, sortField, sortOrder);
+      const result = await workerService.queryEvents({ filters: { isFree: true } });
 
-      expect(mockWorker.postMessage).toHaveBeenCalledWith({
-        id: "req-1",
-        type: "SORT_EVENTS",
-        payload: { events: mockEvents, sortField, sortOrder },
-      });
-      expect(result).toEqual(expectedResult);
+      expect(result).toEqual({ ids: [2], total: 1 });
     });
 
-    it("should fallback to main thread sorting", async () => {
-      const sortField = "date";
-      const sortOrder = "desc" as const;
-
-      // Simulate worker error
-      setTimeout(() => {
-        const message = {
-          id: "req-1",
-          success: false,
-          error: "Sorting failed",
-        };
-        if (mockWorker.onmessage) {
-          mockWorker.onmessage({ data: message });
-        }
-      }, 0);
-
-      const result = await workerService.sortEvents(mockEvents, sortField, sortOrder);
+    it("should stop using a worker that missed a dataset update", async () => {
+      const loaded = workerService.loadEvents(mockEvents);
+      mockWorker.onmessage?.({ data: { id: "req-1", success: false, error: "Load failed" } });
+      await loaded;
 
-      expect(result.events).toBeDefined();
-      expect(result.events.length).toBe(mockEvents.length);
+      expect(mockWorker.terminate).toHaveBeenCalled();
+      const result = await workerService.queryEvents({});
+      expect(result.total).toBe(2);
     });
 
     it("should sort by price in main thread", async () => {
@@ -400,10 +336,11 @@ describe("WorkerService", () => {
       });
 
       const noWorkerService = new WorkerService();
-      const result = await noWorkerService.sortEvents(mockEvents, "price", "asc");
+      await noWorkerService.loadEvents(mockEvents);
+      const result = await noWorkerService.queryEvents({ sortBy: "price", sortOrder: "asc" });
 
       // Free event should come first when sorting by price ascending
-      expect(result.events[0].isFree).toBe(true);
+      expect(result.ids[0]).toBe(2);
       noWorkerService.dispose();
     });
   });
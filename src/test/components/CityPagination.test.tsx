@@ -5,6 +5,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, fireEvent } from "@testing-library/react";
 import { CityPagination } from "@/components/ui/CityPagination";
+import { Gazetteer } from "@/lib/etl/gazetteer";
+
+const mainCities = ["San Francisco", "Oakland", "Berkeley", "Santa Cruz"];
+const otherCities = Gazetteer.all()
+  .map((locality) => locality.name)
+  .filter((name) => !mainCities.includes(name));
 
 // Mock the filter store
 const mockUpdateFilter = vi.fn();
@@ -110,14 +116,8 @@ describe("CityPagination", () => {
       const otherButton = screen.getByText("Other");
       fireEvent.click(otherButton);
 
-      // Other should add all other cities: ["Albany", "Napa", "Novato", "140", "2045"]
-      expect(mockUpdateFilter).toHaveBeenCalledWith("cities", [
-        "Albany",
-        "Napa",
-        "Novato",
-        "140",
-        "2045",
-      ]);
+      // Other should add every gazetteer locality outside the main cities
+      expect(mockUpdateFilter).toHaveBeenCalledWith("cities", otherCities);
     });
   });
 
@@ -195,13 +195,11 @@ describe("CityPagination", () => {
       fireEvent.click(otherButton);
 
       // Should add all other cities
-      expect(mockUpdateFilter).toHaveBeenCalledWith("cities", [
-        "Albany",
-        "Napa",
-        "Novato",
-        "140",
-        "2045",
-      ]);
+      expect(mockUpdateFilter).toHaveBeenCalledWith("cities", otherCities);
+      expect(otherCities).toEqual(
+        expect.arrayContaining(["Albany", "Napa", "Novato", "Walnut Creek"])
+      );
+      expect(otherCities).not.toContain("San Francisco");
     });
 
     it("should handle Other cities toggle when some are selected", () => {
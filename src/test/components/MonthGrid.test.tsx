@@ -0,0 +1,113 @@
+/**
+ * Test suite for MonthGrid keyboard navigation and overflow popovers
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { MonthGrid } from "@/components/calendar/MonthGrid";
+import type { Event } from "@/types/events.js";
+
+const mockState = {
+  artists: new Map([["artist-1", { id: "artist-1", name: "Green Day" }]]),
+  venues: new Map([["venue-1", { id: "venue-1", name: "Gilman", city: "Berkeley" }]]),
+};
+
+vi.mock("@/stores/appStore.js", () => ({
+  useAppStore: (selector: (state: typeof mockState) => unknown) => selector(mockState),
+}));
+
+const makeEvents = (date: string, count: number): Event[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${date}-${i}`,
+    slug: `${date}-${i}`,
+    date,
+    headlinerArtistId: "artist-1",
+    artistIds: ["artist-1"],
+    venueId: "venue-1",
+  }) as Event);
+
+describe("MonthGrid", () => {
+  const onCursorChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderGrid = (cursor: string, eventsByDate = new Map<string, Event[]>()) =>
+    render(
+      <MemoryRouter>
+        <MonthGrid cursor={cursor} eventsByDate={eventsByDate} onCursorChange={onCursorChange} />
+      </MemoryRouter>
+    );
+
+  it("should make only the cursor cell tabbable", () => {
+    renderGrid("2026-04-22");
+
+    const cells = screen.getAllByRole("gridcell");
+    expect(cells).toHaveLength(42);
+    expect(cells.filter((c) => c.tabIndex === 0).map((c) => c.dataset.date)).toEqual(["2026-04-22"]);
+  });
+
+  it("should move the cursor with arrow, Home/End and page keys", () => {
+    renderGrid("2026-04-22");
+    const grid = screen.getByRole("grid");
+
+    fireEvent.keyDown(grid, { key: "ArrowRight" });
+    expect(onCursorChange).toHaveBeenLastCalledWith("2026-04-23");
+    fireEvent.keyDown(grid, { key: "ArrowUp" });
+    expect(onCursorChange).toHaveBeenLastCalledWith("2026-04-15");
+    fireEvent.keyDown(grid, { key: "Home" });
+    expect(onCursorChange).toHaveBeenLastCalledWith("2026-04-19");
+    fireEvent.keyDown(grid, { key: "End" });
+    expect(onCursorChange).toHaveBeenLastCalledWith("2026-04-25");
+    fireEvent.keyDown(grid, { key: "PageDown" });
+    expect(onCursorChange).toHaveBeenLastCalledWith("2026-05-22");
+  });
+
+  it("should show a count and collapse extra shows behind +N more", () => {
+    renderGrid("2026-04-22", new Map([["2026-04-22", makeEvents("2026-04-22", 5)]]));
+
+    expect(screen.getAllByText("Green Day")).toHaveLength(3);
+    expect(screen.getByText("+2 more")).toBeInTheDocument();
+  });
+
+  it("should open the day popover with Enter and close it with Escape", () => {
+    renderGrid("2026-04-22", new Map([["2026-04-22", makeEvents("2026-04-22", 5)]]));
+    const grid = screen.getByRole("grid");
+
+    fireEvent.keyDown(grid, { key: "Enter" });
+    expect(screen.getByRole("dialog")).toBeInTheDocument();
+    expect(screen.getAllByText("Green Day")).toHaveLength(8);
+
+    fireEvent.keyDown(grid, { key: "Escape" });
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("should move focus into the popover and give it back on Escape", () => {
+    renderGrid("2026-04-22", new Map([["2026-04-22", makeEvents("2026-04-22", 5)]]));
+    const cell = screen.getAllByRole("gridcell").find((c) => c.dataset.date === "2026-04-22")!;
+    cell.focus();
+
+    fireEvent.keyDown(cell, { key: "Enter" });
+    const links = within(screen.getByRole("dialog")).getAllByRole("link");
+    expect(links).toHaveLength(5);
+    expect(links.every((link) => link.tabIndex === 0)).toBe(true);
+    expect(document.activeElement).toBe(links[0]);
+
+    fireEvent.keyDown(links[0], { key: "Escape" });
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(document.activeElement).toBe(cell);
+  });
+
+  it("should return focus to +N more when its popover closes", () => {
+    renderGrid("2026-04-22", new Map([["2026-04-22", makeEvents("2026-04-22", 5)]]));
+    const more = screen.getByText("+2 more");
+
+    fireEvent.click(more);
+    expect(screen.getByRole("dialog").contains(document.activeElement)).toBe(true);
+
+    fireEvent.keyDown(document.activeElement!, { key: "Escape" });
+    expect(document.activeElement).toBe(more);
+  });
+});
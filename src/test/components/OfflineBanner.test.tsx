@@ -0,0 +1,67 @@
+/**
+ * Test suite for OfflineBanner component
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, render, screen } from "@testing-library/react";
+import { OfflineBanner } from "@/components/ui/OfflineBanner";
+import { CONNECTIVITY_MESSAGE, isConnectivityMessage } from "@/utils/serviceWorker";
+
+const mockStoreState = {
+  manifest: { datasetVersion: "2026-08-22T01:09:30.583Z", lastUpdated: 1787360970583 } as {
+    datasetVersion: string;
+    lastUpdated: number;
+  } | null,
+};
+
+vi.mock("@/stores/appStore.js", () => ({
+  useAppStore: (selector: (state: typeof mockStoreState) => unknown) => selector(mockStoreState),
+}));
+
+const setOnLine = (online: boolean) => {
+  Object.defineProperty(navigator, "onLine", { configurable: true, get: () => online });
+};
+
+describe("OfflineBanner", () => {
+  beforeEach(() => {
+    setOnLine(true);
+    mockStoreState.manifest = { datasetVersion: "2026-08-22T01:09:30.583Z", lastUpdated: 1787360970583 };
+  });
+
+  it("should render nothing while online", () => {
+    const { container } = render(<OfflineBanner />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("should show the dataset version when the connection drops", () => {
+    render(<OfflineBanner />);
+
+    act(() => {
+      setOnLine(false);
+      window.dispatchEvent(new Event("offline"));
+    });
+    expect(screen.getByRole("status")).toHaveTextContent(/^Offline, data as of .*Aug/);
+
+    act(() => {
+      setOnLine(true);
+      window.dispatchEvent(new Event("online"));
+    });
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("should render nothing before the manifest loads", () => {
+    setOnLine(false);
+    mockStoreState.manifest = null;
+    const { container } = render(<OfflineBanner />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
+
+describe("isConnectivityMessage", () => {
+  it("should accept only the service worker's connectivity messages", () => {
+    expect(isConnectivityMessage({ type: CONNECTIVITY_MESSAGE, online: false })).toBe(true);
+    expect(isConnectivityMessage({ type: CONNECTIVITY_MESSAGE })).toBe(false);
+    expect(isConnectivityMessage({ type: "other", online: true })).toBe(false);
+    expect(isConnectivityMessage(null)).toBe(false);
+  });
+});
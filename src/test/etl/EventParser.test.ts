@@ -187,6 +187,54 @@ at The Fillmore, San Francisco 21+ $45`;
       }
     });
 
+    it("should carry each set with its own show time", () => {
+      const rawEvents: RawEventData[] = [
+        {
+          dateString: "apr 24 2026",
+          artistLine: "The Ayo Brame Experience (two shows)",
+          venueLine:
+            "at Yoshi's, Oakland 21+ $49-$30 7pm/7:30pm (sold out) and 9:15pm/9:30pm",
+          rawText:
+            "apr 24 2026 The Ayo Brame Experience (two shows) at Yoshi's, Oakland 21+ $49-$30 7pm/7:30pm (sold out) and 9:15pm/9:30pm",
+          lineNumber: 16,
+        },
+      ];
+
+      const result = EventParser.normalizeEvents(rawEvents, new Map(), new Map());
+      const event = result.events[0];
+
+      expect(event.performances).toEqual([
+        { doorTime: "19:00", showTime: "19:30", showTimeEpochMs: Date.UTC(2026, 3, 24, 19, 30), isSoldOut: true },
+        { doorTime: "21:15", showTime: "21:30", showTimeEpochMs: Date.UTC(2026, 3, 24, 21, 30), isSoldOut: false },
+      ]);
+      expect(event.startTimeEpochMs).toBe(Date.UTC(2026, 3, 24, 19, 30));
+      expect(event.status).toBe("confirmed");
+    });
+
+    it("should set doors, show and end times, rolling late endings to the next day", () => {
+      const rawEvents: RawEventData[] = [
+        {
+          dateString: "apr 24 2026",
+          artistLine: "Night Owls",
+          venueLine: "at the Knockout, S.F. 21+ $10 8pm/9pm til 2am",
+          rawText: "apr 24 2026 Night Owls at the Knockout, S.F. 21+ $10 8pm/9pm til 2am",
+          lineNumber: 17,
+        },
+      ];
+
+      const event = EventParser.normalizeEvents(rawEvents, new Map(), new Map()).events[0];
+
+      expect(event).toMatchObject({
+        doorsTime: "20:00",
+        showTime: "21:00",
+        endTime: "02:00",
+        doorsTimeEpochMs: Date.UTC(2026, 3, 24, 20, 0),
+        showTimeEpochMs: Date.UTC(2026, 3, 24, 21, 0),
+        endTimeEpochMs: Date.UTC(2026, 3, 25, 2, 0),
+      });
+      expect(event.performances![0].endTimeEpochMs).toBe(Date.UTC(2026, 3, 25, 2, 0));
+    });
+
     it("should handle events with no artists", () => {
       const rawEvents: RawEventData[] = [
         {
@@ -243,6 +291,54 @@ at The Fillmore, San Francisco 21+ $45`;
       }
     });
 
+    it("should keep a parenthesized member list with its act and merge spellings", () => {
+      const rawEvents: RawEventData[] = [
+        {
+          dateString: "oct 23 2026",
+          artistLine: "Black Flag (Greg Ginn, Max Zanelly, Bryce Weston), 2Morrows June",
+          venueLine: "at Felton Music Hall, Felton 21+",
+          rawText: "oct 23 2026 Black Flag (Greg Ginn, Max Zanelly, Bryce Weston), 2Morrows June at Felton Music Hall, Felton 21+",
+          lineNumber: 1,
+        },
+        {
+          dateString: "oct 24 2026",
+          artistLine: "2morrows June",
+          venueLine: "at Kilowatt, S.F. 21+ $13",
+          rawText: "oct 24 2026 2morrows June at Kilowatt, S.F. 21+ $13",
+          lineNumber: 2,
+        },
+      ];
+
+      const artistMap = new Map<string, Artist>();
+      EventParser.normalizeEvents(rawEvents, artistMap, new Map());
+
+      const artists = [...artistMap.values()];
+      expect(artists.map((a) => a.name)).toEqual(["Black Flag", "2Morrows June"]);
+      expect(artists[1]).toMatchObject({ totalEventCount: 2, aliases: ["2morrows June"] });
+    });
+
+    it("should give each act a lineup slot with its role and annotations", () => {
+      const rawEvents: RawEventData[] = [
+        {
+          dateString: "aug 15 fri",
+          artistLine: "Nekron 99 (album release), Nightshades (debut), dj Aaron Axelsen",
+          venueLine: "at Test Venue, San Francisco 21+ $10",
+          rawText: "aug 15 fri Nekron 99 (album release), Nightshades (debut), dj Aaron Axelsen at Test Venue, San Francisco 21+ $10",
+          lineNumber: 1,
+        },
+      ];
+
+      const [event] = EventParser.normalizeEvents(rawEvents, new Map(), new Map()).events;
+
+      expect(event.lineup?.map(({ name, role, order }) => ({ name, role, order }))).toEqual([
+        { name: "Nekron 99", role: "headliner", order: 0 },
+        { name: "Nightshades", role: "support", order: 1 },
+        { name: "dj Aaron Axelsen", role: "dj", order: 2 },
+      ]);
+      expect(event.lineup?.[0].annotations).toEqual([{ type: "record-release", text: "album release" }]);
+      expect(event.lineup?.map((entry) => entry.artistId)).toEqual(event.artistIds);
+    });
+
     it("should create and update venue entries", () => {
       const rawEvents: RawEventData[] = [
         {
@@ -274,6 +370,84 @@ at The Fillmore, San Francisco 21+ $45`;
     });
   });
 
+  describe("cancellations and reschedules", () => {
+    const parse = (content: string) =>
+      EventParser.normalizeEvents(
+        EventParser.parseEventsFile(content).rawEvents,
+        new Map(),
+        new Map()
+      );
+
+    it("should read a CANCELLED: prefix as status, not as part of the headliner", () => {
+      const { events } = parse(
+        "sep 4 2026 CANCELLED: Ashes At Last, Sleepy at Neck Of The Woods, S.F. 21+ $15 8pm"
+      );
+
+      expect(events[0].status).toBe("cancelled");
+      expect(events[0].slug).toBe("2026-09-04-ashes-at-last-neck-of-the-woods");
+    });
+
+    it("should update an already listed show when a later line calls it off", () => {
+      const { events, warnings } = parse(
+        [
+          "sep 4 2026 Ashes At Last, Sleepy at Neck Of The Woods, S.F. 21+ $15 8pm",
+          "sep 4 2026 Ashes At Last (postponed), Sleepy at Neck Of The Woods, S.F. 21+ $15 8pm",
+        ].join("\n")
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].status).toBe("postponed");
+      expect(warnings.filter((w) => w.type === "duplicate")).toHaveLength(0);
+    });
+
+    it("should link a moved show to the listing it replaces", () => {
+      const { events } = parse(
+        [
+          "may 9 2026 Lou Deezi at the Regency Ballroom, S.F. a/a $35 8pm",
+          "may 9 2026 Lou Deezi at the Warfield, S.F. a/a $35 8pm (moved from the Regency Ballroom)",
+        ].join("\n")
+      );
+      const [original, moved] = events;
+
+      expect(moved.movedFrom).toBe("Regency Ballroom");
+      expect(original.status).toBe("rescheduled");
+      expect(original.rescheduledTo).toEqual({ id: moved.id, slug: moved.slug, date: "2026-05-09" });
+      expect(moved.rescheduledFrom?.id).toBe(original.id);
+    });
+
+    it("should cancel shows a newer edition drops and link ones it moves", () => {
+      const { events } = parse(
+        [
+          "aug 1 2026 Old News at the Ivy Room, Albany 21+ $10 8pm",
+          "sep 17 2026 Josh Thomas at the Castro, S.F. a/a $40 8pm",
+          "oct 7 2026 Traitrs at the Ritz, San Jose 21+ $20 8pm",
+          "oct 9 2026 Traitrs at the Ritz, San Jose 21+ $20 8pm",
+          "oct 10 2026 Mokosos at Stay Gold Deli, Oakland a/a $10 7pm",
+          "oct 20 2026 Closing Night at the Ivy Room, Albany 21+ $10 8pm",
+        ].join("\n")
+      );
+      const edition = parse(
+        [
+          "oct 9 fri Traitrs at the Ritz, San Jose 21+ $20 8pm",
+          "oct 10 sat Mokosos at the Stork Club, Oakland 21+ $8 9pm",
+          "oct 20 tue Closing Night at the Ivy Room, Albany 21+ $10 8pm",
+        ].join("\n")
+      ).events;
+      const bySlug = (slug: string) => events.find((e) => e.slug.includes(slug))!;
+
+      const result = EventParser.reconcileEdition(events, edition, "2026-08-21");
+
+      expect(result).toEqual({ cancelled: 1, rescheduled: 1 });
+      expect(bySlug("old-news").status).toBe("confirmed"); // before the edition
+      expect(bySlug("josh-thomas")).toMatchObject({
+        status: "cancelled",
+        statusNote: "Dropped from the Aug 21, 2026 list",
+      });
+      expect(bySlug("10-07-traitrs").rescheduledTo?.date).toBe("2026-10-09");
+      expect(bySlug("mokosos").status).toBe("confirmed"); // same night, new venue
+    });
+  });
+
   describe("data validation and quality checks", () => {
     it("should detect malformed artist lines", () => {
       const content = `aug 15 fri Artist123Name, BandWithNumbers2Night
@@ -0,0 +1,58 @@
+/**
+ * Test suite for lineup roles and annotations
+ */
+
+import { describe, it, expect } from "vitest";
+import { LineupParser } from "@/lib/etl/utils.js";
+import { lineupSearchText } from "@/utils/lineup.js";
+import type { ArtistId, LineupEntry } from "@/types/events.js";
+
+describe("LineupParser", () => {
+  it("should type release, debut, farewell, reunion and solo notes", () => {
+    expect(LineupParser.parseAct("Nekron 99 (album release)", 0)).toEqual({
+      role: "headliner",
+      annotations: [{ type: "record-release", text: "album release" }],
+    });
+    expect(LineupParser.parseAct("Nightshades (debut)", 1).annotations[0].type).toBe("debut");
+    expect(LineupParser.parseAct("Surplus 1980 (last show)", 1).annotations[0].type).toBe("farewell");
+    expect(LineupParser.parseAct("Blvkout (reunion)", 0).annotations[0].type).toBe("reunion");
+    expect(LineupParser.parseAct("Zola Jesus (solo voice and piano)", 0).annotations).toEqual([
+      { type: "solo-set", text: "solo voice and piano" },
+    ]);
+  });
+
+  it("should name who a tribute is to when the note says", () => {
+    expect(LineupParser.parseAct("The Hormones (tribute)", 2).annotations).toEqual([
+      { type: "tribute-to", text: "tribute" },
+    ]);
+    expect(LineupParser.parseAct("Rumours (Fleetwood Mac tribute)", 0).annotations[0].subject).toBe("Fleetwood Mac");
+    expect(LineupParser.parseAct("Petty Theft (tribute to Tom Petty)", 0).annotations[0].subject).toBe("Tom Petty");
+  });
+
+  it("should read each part of a note and keep the rest as notes", () => {
+    expect(LineupParser.parseAct("Toolbox (2 sets - tribute)", 0)).toEqual({
+      role: "headliner",
+      annotations: [{ type: "tribute-to", text: "tribute" }],
+    });
+    expect(LineupParser.parseAct("Jimmy Dale (8:30pm)", 1)).toEqual({
+      role: "support",
+      annotations: [],
+      notes: ["8:30pm"],
+    });
+  });
+
+  it("should give djs the dj role wherever they are billed", () => {
+    expect(LineupParser.parseAct("dj Aaron Axelsen", 0).role).toBe("dj");
+    expect(LineupParser.parseAct("Bill Sawn (dj set)", 2).role).toBe("dj");
+  });
+
+  it("should make annotations searchable by text and label", () => {
+    const lineup: LineupEntry[] = [
+      { artistId: 1 as ArtistId, name: "Theta", order: 0, ...LineupParser.parseAct("Theta (vinyl release)", 0) },
+    ];
+    const text = lineupSearchText({ lineup });
+
+    expect(text).toContain("vinyl release");
+    expect(text).toContain("record release");
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Test suite for VenueLineParser functionality
+ */
+
+import { describe, it, expect } from "vitest";
+import { EventStatusParser, PriceUtils, VenueLineParser } from "@/lib/etl/utils.js";
+
+describe("VenueLineParser", () => {
+  describe("legend advisories", () => {
+    it("should parse no ins/outs and will probably sell out", () => {
+      const result = VenueLineParser.parse(
+        "at the Fox Theater, Oakland a/a $50.60 7pm/8pm # $"
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.advisories).toEqual({
+        likelySellout: true,
+        moshPit: false,
+        under21Surcharge: false,
+        noInsOuts: true,
+      });
+      expect(result!.price).toEqual({
+        min: 50.6,
+        max: 50.6,
+        isFree: false,
+        tiers: [{ amount: 50.6 }],
+        isOpenEnded: false,
+        isDonation: false,
+        isSlidingScale: false,
+      });
+    });
+
+    it("should parse mosh pit warning and under 21 surcharge", () => {
+      const result = VenueLineParser.parse(
+        "at Brick and Mortar, S.F. a/a $3.91 (under 21 plus $5) 8pm/9pm ^ @"
+      );
+
+      expect(result!.advisories.under21Surcharge).toBe(true);
+      expect(result!.advisories.moshPit).toBe(true);
+      expect(result!.notes).toBe("under 21 plus $5");
+    });
+
+    it("should parse symbols written without spaces", () => {
+      const result = VenueLineParser.parse(
+        "at the Greek Theater, UC Berkeley Campus a/a #$"
+      );
+
+      expect(result!.advisories.noInsOuts).toBe(true);
+      expect(result!.advisories.likelySellout).toBe(true);
+      expect(result!.venue).toBe("the Greek Theater");
+    });
+
+    it("should count trailing stars as a star rating", () => {
+      const result = VenueLineParser.parse(
+        "at Thee Parkside, S.F. 21+ $15 8pm ** @"
+      );
+
+      expect(result!.advisories.starRating).toBe(2);
+      expect(result!.advisories.moshPit).toBe(true);
+    });
+
+    it("should leave advisories empty when there are no symbols", () => {
+      const result = VenueLineParser.parse(
+        "at the Ivy Room, Albany 21+ $60 8pm/9pm"
+      );
+
+      expect(result!.advisories).toEqual({
+        likelySellout: false,
+        moshPit: false,
+        under21Surcharge: false,
+        noInsOuts: false,
+      });
+      expect(result!.advisories.starRating).toBeUndefined();
+    });
+
+    it("should not read a price as a sellout symbol", () => {
+      const result = VenueLineParser.parse("at Bottom of the Hill, S.F. 21+ $15");
+
+      expect(result!.advisories.likelySellout).toBe(false);
+      expect(result!.price.min).toBe(15);
+    });
+  });
+
+  describe("venue type", () => {
+    it("should not derive venue type from legend symbols", () => {
+      const noInsOuts = VenueLineParser.parse("at Bottom of the Hill, S.F. 21+ #");
+      const moshPit = VenueLineParser.parse("at Bottom of the Hill, S.F. 21+ @");
+
+      expect(noInsOuts!.venueType).toBe("club");
+      expect(moshPit!.venueType).toBe("club");
+    });
+
+    it("should still use venue name heuristics", () => {
+      expect(VenueLineParser.parse("at the Warfield Theater, S.F. a/a #")!.venueType).toBe("major");
+      expect(VenueLineParser.parse("at the Golden Bull Gallery, Oakland a/a @")!.venueType).toBe("diy");
+    });
+  });
+
+  describe("city", () => {
+    it("should keep multi-word cities whole", () => {
+      expect(VenueLineParser.parse("at the Catalyst, Santa Cruz 16+ $30 8pm")!.city).toBe("Santa Cruz");
+      expect(VenueLineParser.parse("at the Lesher Center, Walnut Creek a/a $25")!.city).toBe("Walnut Creek");
+      expect(VenueLineParser.parse("at the Ivy Room, El Cerrito 21+")!.city).toBe("El Cerrito");
+    });
+
+    it("should resolve abbreviations and misspellings", () => {
+      expect(VenueLineParser.parse("at the Warfield, S.F. a/a 7pm/8pm #")!.city).toBe("San Francisco");
+      expect(VenueLineParser.parse("at Guild Theater, Memlo Park a/a $30")!.city).toBe("Menlo Park");
+    });
+
+    it("should skip an address before the city", () => {
+      const result = VenueLineParser.parse("at the Felt Club, 525 Sansome Street, S.F. 21+ $20");
+      expect(result!.city).toBe("San Francisco");
+      expect(result!.venue).toBe("the Felt Club");
+    });
+
+    it("should fall back to the first word for unknown localities", () => {
+      expect(VenueLineParser.parse("at the Barn, Nowheresville a/a")!.city).toBe("Nowheresville");
+    });
+  });
+
+  describe("performances", () => {
+    it("should split two sets with their own door and show times", () => {
+      const result = VenueLineParser.parse(
+        "at Yoshi's, Oakland 21+ $49-$30 7pm/7:30pm (sold out) and 9:15pm/9:30pm"
+      );
+
+      expect(result!.performances).toEqual([
+        { doorTime: "19:00", showTime: "19:30", isSoldOut: true },
+        { doorTime: "21:15", showTime: "21:30", isSoldOut: false },
+      ]);
+      expect(result!.time).toEqual({ startTime: "19:30", doorTime: "19:00" });
+      expect(result!.tags).not.toContain("sold-out");
+    });
+
+    it("should split sets without door times", () => {
+      const result = VenueLineParser.parse("at the Black Cat, S.F. 21+ $40 7pm and 9:30pm");
+
+      expect(result!.performances).toEqual([
+        { showTime: "19:00", isSoldOut: false },
+        { showTime: "21:30", isSoldOut: false },
+      ]);
+    });
+
+    it("should apply a sold-out note that names a time to that set", () => {
+      const result = VenueLineParser.parse(
+        "at the Masonic, S.F. a/a $59.75+ 4pm/5pm and 7pm/8pm # (8pm sold out)"
+      );
+
+      expect(result!.performances.map((p) => p.isSoldOut)).toEqual([false, true]);
+    });
+
+    it("should apply a trailing sold-out note to every set", () => {
+      const result = VenueLineParser.parse(
+        "at the Castro, S.F. a/a $48+ 6pm/7pm and 9pm/9:30pm # (sold out)"
+      );
+
+      expect(result!.performances.map((p) => p.isSoldOut)).toEqual([true, true]);
+      expect(result!.tags).toContain("sold-out");
+    });
+
+    it("should read an end time as part of the set", () => {
+      const result = VenueLineParser.parse("at the 4 Star Theater, S.F. a/a 7pm/8pm til 11pm");
+
+      expect(result!.performances).toEqual([
+        { doorTime: "19:00", showTime: "20:00", endTime: "23:00", isSoldOut: false },
+      ]);
+      expect(result!.time).toEqual({ startTime: "20:00", doorTime: "19:00", endTime: "23:00" });
+    });
+
+    it("should read ranges and per-set end times", () => {
+      expect(VenueLineParser.parse("at Dolores Park, S.F. a/a free 12pm-6pm")!.time).toEqual({
+        startTime: "12:00",
+        endTime: "18:00",
+      });
+
+      const result = VenueLineParser.parse(
+        "at Yoshi's, Oakland 21+ $30 7pm til 9pm and 9:30pm til 11:30pm"
+      );
+      expect(result!.performances.map((p) => p.endTime)).toEqual(["21:00", "23:30"]);
+      expect(result!.time.endTime).toBe("23:30");
+    });
+
+    it("should end sets at a curfew note", () => {
+      const result = VenueLineParser.parse(
+        "at 1234 Go! Records, Oakland a/a $10 7pm (shows over by 10pm)"
+      );
+
+      expect(result!.performances[0].endTime).toBe("22:00");
+      expect(VenueLineParser.parseCurfew("curfew at midnight")).toBe("00:00");
+      expect(VenueLineParser.parseCurfew("(sometimes a/a)")).toBeUndefined();
+    });
+
+    it("should ignore ages, prices and times inside notes", () => {
+      const result = VenueLineParser.parse(
+        "at Stern Grove Festival, S.F. a/a free noon/2pm (1pm dj)"
+      );
+
+      expect(result!.performances).toEqual([
+        { doorTime: "12:00", showTime: "14:00", isSoldOut: false },
+      ]);
+      expect(VenueLineParser.parse("at the Knockout, S.F. 21+ $12")!.performances).toEqual([]);
+    });
+  });
+
+  describe("price", () => {
+    it("should read general-admission tiers with VIP and under-21 surcharge notes", () => {
+      const price = VenueLineParser.parse(
+        "at the Fox Theater, Oakland a/a $64/$74/$84 7pm/8pm ($140 vip) (under 21 plus $5)"
+      )!.price;
+
+      expect(price.min).toBe(64);
+      expect(price.max).toBe(84);
+      expect(price.advance).toBeUndefined();
+      expect(price.tiers).toEqual([
+        { amount: 64 },
+        { amount: 74 },
+        { amount: 84 },
+        { amount: 140, label: "vip" },
+      ]);
+      expect(price.vip).toBe(140);
+      expect(price.under21Surcharge).toBe(5);
+    });
+
+    it("should read two slash-separated prices as advance and door", () => {
+      const price = VenueLineParser.parse("at the Chapel, S.F. a/a $32/$35 7pm/8pm")!.price;
+
+      expect(price).toMatchObject({ advance: 32, door: 35, min: 32, max: 35 });
+    });
+
+    it("should read ranges in either order, including a dropped dollar sign", () => {
+      expect(VenueLineParser.parse("at Yoshi's, Oakland 21+ $49-$30 8pm")!.price).toMatchObject({
+        min: 30,
+        max: 49,
+      });
+      expect(VenueLineParser.parse("at the Ivy Room, Albany 21+ $10-15 8pm")!.price).toMatchObject({
+        min: 10,
+        max: 15,
+      });
+      expect(VenueLineParser.parse("at the Ivy Room, Albany 21+ $10 8-11pm")!.price.max).toBe(10);
+    });
+
+    it("should flag open-ended, sliding scale and donation pricing", () => {
+      expect(VenueLineParser.parse("at the Warfield, S.F. a/a $35+ 8pm")!.price.isOpenEnded).toBe(true);
+
+      const sliding = VenueLineParser.parse("at the Lab, S.F. a/a $10-$20 sliding scale 8pm")!.price;
+      expect(sliding).toMatchObject({ min: 10, max: 20, isSlidingScale: true, isDonation: false });
+
+      expect(VenueLineParser.parse("at the Lab, S.F. a/a $10 donation 8pm")!.price.isDonation).toBe(true);
+    });
+
+    it("should label note tiers and skip parking and upgrades", () => {
+      const price = VenueLineParser.parse(
+        "at the Greek Theater, Berkeley a/a $60 6pm ($100/$150 premium) ($20 parking) (vip +$50)"
+      )!.price;
+
+      expect(price.tiers).toEqual([
+        { amount: 60 },
+        { amount: 100, label: "premium" },
+        { amount: 150, label: "premium" },
+      ]);
+      expect(price.vip).toBeUndefined();
+    });
+  });
+
+  describe("PriceUtils", () => {
+    it("should use the advance price as the entry price", () => {
+      const price = VenueLineParser.parse("at the Chapel, S.F. a/a $32/$35 7pm/8pm")!.price;
+
+      expect(PriceUtils.entryPrice(price)).toBe(32);
+      expect(PriceUtils.describe(price)).toBe("$32 adv / $35 door");
+    });
+
+    it("should rebuild a price from min and max for older events", () => {
+      const price = PriceUtils.fromEvent({ priceMin: 12, priceMax: 15, isFree: false });
+
+      expect(price.tiers).toEqual([{ amount: 12 }, { amount: 15 }]);
+      expect(PriceUtils.entryPrice(price)).toBe(12);
+      expect(PriceUtils.entryPrice(PriceUtils.fromEvent({ isFree: true }))).toBe(0);
+    });
+  });
+
+  describe("status", () => {
+    it("should read cancelled and postponed notes", () => {
+      expect(VenueLineParser.parse("at the Ivy Room, Albany 21+ $10 8pm (cancelled)")!.status).toBe("cancelled");
+      expect(VenueLineParser.parse("at the Ivy Room, Albany 21+ $10 8pm (show postponed)")!.status).toBe("postponed");
+      expect(VenueLineParser.parse("at the Ivy Room, Albany 21+ $10 8pm")!.status).toBeUndefined();
+    });
+
+    it("should keep the venue a show moved from", () => {
+      const info = VenueLineParser.parse("at the Warfield, S.F. a/a $35 8pm (moved from the Regency Ballroom, S.F.)")!;
+
+      expect(info.movedFrom).toBe("Regency Ballroom");
+    });
+
+    it("should strip a status prefix off a listing", () => {
+      expect(EventStatusParser.stripPrefix("CANCELED - Sleepy, Mokosos")).toEqual({
+        status: "cancelled",
+        text: "Sleepy, Mokosos",
+      });
+      expect(EventStatusParser.stripPrefix("Cancelled Hearts, Sleepy")).toEqual({ text: "Cancelled Hearts, Sleepy" });
+    });
+  });
+});
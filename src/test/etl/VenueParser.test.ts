@@ -31,6 +31,35 @@ The Independent, 628 Divisadero Street, San Francisco, All Ages, (415) 771-1421`
       expect(secondVenue.phone).toBe("(415) 771-1421");
     });
 
+    it("should read a venue curfew", () => {
+      const content = `1234 Go! Records, 420 40th, Oakland a/a (shows over by 10pm) 510-985-0325
+The Fillmore, 1805 Geary Boulevard, San Francisco`;
+
+      const result = VenueParser.parseVenuesFile(content);
+
+      expect(result.rawVenues[0].curfew).toBe("22:00");
+      expect(result.rawVenues[1].curfew).toBeUndefined();
+    });
+
+    it("should keep every age policy, cross street, suite and notes", () => {
+      const content = `Ashkenaz, 1317 San Pablo Ave., Berkeley a/a 21+ 510-525-5054
+El Rio, 3158 Mission Street at Cesar Chavez, S.F. 21+ 415-282-3325
+Thee Parkside, 1600 17th St. @ Wisconsin, S.F. a/a 21+
+Some Gallery, 123 Main St., Suite 4, Oakland a/a (shows over by 10pm) (no alcohol)`;
+
+      const result = VenueParser.parseVenuesFile(content);
+
+      expect(result.rawVenues[0].ageRestrictions).toEqual(["a/a", "21+"]);
+      expect(result.rawVenues[0].ageRestriction).toBe("a/a");
+      expect(result.rawVenues[0].phone).toBe("510-525-5054");
+      expect(result.rawVenues[1].address).toBe("3158 Mission Street");
+      expect(result.rawVenues[1].crossStreet).toBe("Cesar Chavez");
+      expect(result.rawVenues[1].city).toBe("San Francisco");
+      expect(result.rawVenues[2].crossStreet).toBe("Wisconsin");
+      expect(result.rawVenues[3].suite).toBe("Suite 4");
+      expect(result.rawVenues[3].notes).toEqual(["shows over by 10pm", "no alcohol"]);
+    });
+
     it("should handle minimal venue data", () => {
       const content = `The Fillmore, 1805 Geary Boulevard, San Francisco`;
 
@@ -55,7 +84,7 @@ Venue Four, Address Four, 18+`;
       const result = VenueParser.parseVenuesFile(content);
 
       expect(result.rawVenues).toHaveLength(4);
-      expect(result.rawVenues[0].ageRestriction).toBe("a/a"); // Default when not found in parts
+      expect(result.rawVenues[0].ageRestriction).toBe("21+");
       expect(result.rawVenues[1].ageRestriction).toBe("All Ages");
       expect(result.rawVenues[2].ageRestriction).toBe("a/a");
       expect(result.rawVenues[3].ageRestriction).toBeDefined();
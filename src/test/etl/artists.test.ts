@@ -0,0 +1,101 @@
+/**
+ * Test suite for artist identity resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { ArtistResolver } from "@/lib/etl/artists.js";
+import type { Artist, ArtistId } from "@/types/events.js";
+
+function artist(name: string, totalEventCount = 1): Artist {
+  return {
+    id: 0 as ArtistId,
+    name,
+    slug: "",
+    normalizedName: name.toLowerCase(),
+    aliases: [],
+    upcomingEventCount: 0,
+    totalEventCount,
+    upcomingEvents: [],
+    createdAtEpochMs: 0,
+    updatedAtEpochMs: 0,
+  };
+}
+
+// Resolve each listing and finalize, the way EventParser.normalizeEvents does
+function resolveAll(resolver: ArtistResolver, listings: string[]): Artist[] {
+  const artistMap = new Map<string, Artist>();
+  for (const listing of listings) {
+    const { key, name } = resolver.resolve(listing);
+    const existing = artistMap.get(key) ?? artist(name, 0);
+    existing.totalEventCount++;
+    artistMap.set(key, existing);
+  }
+  resolver.finalize(artistMap);
+  return [...artistMap.values()];
+}
+
+describe("ArtistResolver", () => {
+  describe("foldKey", () => {
+    it("should fold case, punctuation, articles, notes and ampersands", () => {
+      expect(ArtistResolver.foldKey("2Morrows June")).toBe(ArtistResolver.foldKey("2morrows June"));
+      expect(ArtistResolver.foldKey("Cut-Rate Druggist")).toBe(ArtistResolver.foldKey("Cut Rate Druggist"));
+      expect(ArtistResolver.foldKey("The Rippers")).toBe(ArtistResolver.foldKey("Rippers"));
+      expect(ArtistResolver.foldKey("Gus Baldwin & The Sketch")).toBe(ArtistResolver.foldKey("Gus Baldwin And The Sketch"));
+      expect(ArtistResolver.foldKey("Jim Gaffigan (comedian - two shows)")).toBe("jimgaffigan");
+      expect(ArtistResolver.foldKey("Beyoncé")).toBe("beyonce");
+    });
+
+    it("should drop an unclosed note", () => {
+      expect(ArtistResolver.stripNotes("Black Flag (Greg Ginn")).toBe("Black Flag");
+      expect(ArtistResolver.stripNotes("(tribute)")).toBe("(tribute)");
+    });
+  });
+
+  describe("resolve and finalize", () => {
+    it("should name a merged artist by its most-listed spelling and alias the rest", () => {
+      const [merged] = resolveAll(new ArtistResolver(), ["2morrows June", "2Morrows June", "2Morrows June"]);
+
+      expect(merged).toMatchObject({
+        name: "2Morrows June",
+        slug: "2morrows-june",
+        aliases: ["2morrows June"],
+        totalEventCount: 3,
+      });
+    });
+
+    it("should take the registry's name and aliases", () => {
+      const resolver = new ArtistResolver([{ name: "Steel Pulse", aliases: ["Steel Plulse"] }]);
+      const [merged] = resolveAll(resolver, ["Steel Plulse", "Steel Plulse"]);
+
+      expect(merged).toMatchObject({ name: "Steel Pulse", aliases: ["Steel Plulse"], totalEventCount: 2 });
+    });
+  });
+
+  describe("proposeMerges", () => {
+    it("should cluster similar names under the most-listed one", () => {
+      const proposals = new ArtistResolver().proposeMerges([
+        artist("North Mississippi Allstars", 4),
+        artist("Norht Mississippi Allstars"),
+        artist("North Missisippi Allstars"),
+        artist("Crap"),
+        artist("Cap"),
+      ]);
+
+      expect(proposals).toEqual([
+        {
+          name: "North Mississippi Allstars",
+          variants: ["Norht Mississippi Allstars", "North Missisippi Allstars"],
+          similarity: 0.88,
+          events: 6,
+        },
+      ]);
+    });
+
+    it("should skip pairs the registry keeps apart", () => {
+      const resolver = new ArtistResolver([{ name: "The Breeders", distinct: ["Breezers"] }]);
+
+      expect(resolver.proposeMerges([artist("The Breeders", 3), artist("Breezers")])).toEqual([]);
+      expect(new ArtistResolver().proposeMerges([artist("The Breeders", 3), artist("Breezers")])).toHaveLength(1);
+    });
+  });
+});
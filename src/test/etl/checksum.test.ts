@@ -0,0 +1,34 @@
+/**
+ * Tests for the data file checksums shared by the ETL and the client
+ */
+
+import { createHash } from "crypto";
+import { describe, it, expect } from "vitest";
+import { Checksum } from "../../lib/etl/checksum.js";
+import { FileChecksum } from "../../lib/etl/file-checksum.js";
+
+describe("Checksum", () => {
+  it("should agree between the ETL and the client, including multi-byte text", async () => {
+    const inputs = ["", "abc", "a".repeat(64), "Café Du Nord — “Bottom of the Hill” 🎸".repeat(5)];
+    for (const input of inputs) {
+      const expected = `sha256-${createHash("sha256").update(input, "utf8").digest("hex")}`;
+      expect(FileChecksum.of(input)).toBe(expected);
+      expect(await Checksum.digest(input)).toBe(expected);
+    }
+  });
+
+  it("should checksum files exactly as serialized", async () => {
+    const data = { id: "a:the-mummies", name: "The Mummies" };
+    const text = Checksum.serialize(data);
+
+    expect(text).toBe(JSON.stringify(data, null, 2));
+    expect(Checksum.isVerifiable(FileChecksum.of(text))).toBe(true);
+    expect(await Checksum.matches(text, FileChecksum.of(text))).toBe(true);
+    expect(await Checksum.matches(JSON.stringify(data), FileChecksum.of(text))).toBe(false);
+  });
+
+  it("should not treat legacy short checksums as verifiable", () => {
+    expect(Checksum.isVerifiable("3f2a9c1b")).toBe(false);
+    expect(Checksum.isVerifiable(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Test suite for the club info block and the venues.txt registry update
+ */
+
+import { describe, it, expect } from "vitest";
+import { ClubInfoParser } from "@/lib/etl/club-info.js";
+
+const EDITION = `mar  1 sun Crimpshrine at Gilman, Berkeley a/a $12 5pm
+
+C L U B  I N F O R M A T I O N
+------------------------------------------------------------------------------
+1234 Go! Records, 420 40th, Oakland a/a (shows over by 10pm)
+510-985-0325
+Amnesia, 853 Valencia at 20th, S.F. 21+ 415-970-0012
+Fillmore, 1805 Geary Blvd., S.F. a/a 415-346-6000
+  leave soon after the last band for a free poster at the exit
+9 Lives Warehouse, someplace, Oakland a/a
+`;
+
+describe("ClubInfoParser", () => {
+  describe("extractSection", () => {
+    it("should return the block after the header", () => {
+      const section = ClubInfoParser.extractSection(EDITION);
+
+      expect(section).not.toContain("Crimpshrine");
+      expect(section).toContain("1234 Go! Records");
+    });
+
+    it("should return nothing for an edition without club info", () => {
+      expect(ClubInfoParser.extractSection("mar  1 sun Crimpshrine at Gilman")).toBe("");
+    });
+  });
+
+  describe("collapse", () => {
+    it("should join wrapped phones and turn other wrapped text into notes", () => {
+      const entries = ClubInfoParser.collapse(ClubInfoParser.extractSection(EDITION));
+
+      expect(entries).toEqual([
+        "1234 Go! Records, 420 40th, Oakland a/a (shows over by 10pm) 510-985-0325",
+        "Amnesia, 853 Valencia at 20th, S.F. 21+ 415-970-0012",
+        "Fillmore, 1805 Geary Blvd., S.F. a/a 415-346-6000 (leave soon after the last band for a free poster at the exit)",
+        "9 Lives Warehouse, someplace, Oakland a/a",
+      ]);
+    });
+
+    it("should treat non-breaking spaces as spaces", () => {
+      const entries = ClubInfoParser.collapse("Kilowatt, 3160 16th Street,\u00a0S.F. 21+");
+
+      expect(entries).toEqual(["Kilowatt, 3160 16th Street, S.F. 21+"]);
+    });
+  });
+
+  describe("updateRegistry", () => {
+    const registry = `Amnesia, 853 Valencia at 20th, S.F. 21+
+Ivy Room, 858 San Pablo Avenue at Solano, Albany 21+
+9 Lives Warehouse, 1111 Example St., Oakland a/a
+Zeitgeist,,,,
+1234 Go! Records,,,,
+`;
+
+    it("should replace a venue's line with the edition's", () => {
+      const result = ClubInfoParser.updateRegistry(registry, [
+        "Amnesia, 853 Valencia at 20th, S.F. 21+ 415-970-0012",
+      ]);
+
+      expect(result.updated).toEqual(["Amnesia"]);
+      expect(result.added).toEqual([]);
+      expect(result.content.split("\n")[0]).toBe("Amnesia, 853 Valencia at 20th, S.F. 21+ 415-970-0012");
+    });
+
+    it("should add new venues alphabetically ahead of the stubs", () => {
+      const result = ClubInfoParser.updateRegistry(registry, ["Hotel Utah Saloon, 500 4th St. at Bryant, S.F. 21+"]);
+      const lines = result.content.trim().split("\n");
+
+      expect(result.added).toEqual(["Hotel Utah Saloon"]);
+      expect(lines[1]).toBe("Hotel Utah Saloon, 500 4th St. at Bryant, S.F. 21+");
+      expect(lines).toHaveLength(6);
+    });
+
+    it("should fill in a stub and move it among the listed venues", () => {
+      const result = ClubInfoParser.updateRegistry(registry, [
+        "1234 Go! Records, 420 40th, Oakland a/a (shows over by 10pm) 510-985-0325",
+      ]);
+      const lines = result.content.trim().split("\n");
+
+      expect(result.updated).toEqual(["1234 Go! Records"]);
+      expect(lines[0]).toBe("1234 Go! Records, 420 40th, Oakland a/a (shows over by 10pm) 510-985-0325");
+      expect(lines).not.toContain("1234 Go! Records,,,,");
+    });
+
+    it("should keep a known street address over one without a number", () => {
+      const result = ClubInfoParser.updateRegistry(registry, ["9 Lives Warehouse, someplace, Oakland a/a"]);
+
+      expect(result.updated).toEqual([]);
+      expect(result.content).toBe(registry);
+    });
+
+    it("should leave the registry alone when nothing changed", () => {
+      const result = ClubInfoParser.updateRegistry(registry, ["Ivy Room, 858 San Pablo Avenue at Solano, Albany 21+"]);
+
+      expect(result.added).toEqual([]);
+      expect(result.updated).toEqual([]);
+    });
+  });
+});
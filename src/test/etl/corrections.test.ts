@@ -0,0 +1,150 @@
+/**
+ * Test suite for the line correction rules
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { CorrectionEngine, type CorrectionRule } from "@/lib/etl/corrections.js";
+
+const hopmonk: CorrectionRule = {
+  id: "hopmonk-tavern-city",
+  kind: "venue-city",
+  venue: "Hopmonk Tavern",
+  cities: ["Novato", "Sebastopol"],
+  example: {
+    input: "dec 5 2025 The Mother Hips at Hopmonk Tavern Novato 21+ $25 8pm",
+    output: "dec 5 2025 The Mother Hips at Hopmonk Tavern, Novato 21+ $25 8pm",
+  },
+};
+
+const berkeley: CorrectionRule = {
+  id: "berkeley-spelling",
+  kind: "city-spelling",
+  misspelling: "Berkeleyt",
+  city: "Berkeley",
+  example: {
+    input: "sep 3 wed Cava at 924 Gilman Street, Berkeleyt a/a $12 8pm",
+    output: "sep 3 wed Cava at 924 Gilman Street, Berkeley a/a $12 8pm",
+  },
+};
+
+describe("CorrectionEngine", () => {
+  describe("rule kinds", () => {
+    it("should add the missing comma between a venue and its city", () => {
+      const engine = CorrectionEngine.load([hopmonk]);
+
+      expect(engine.apply("dec 6 sat X at Hopmonk Tavern Sebastopol 21+ $20")).toBe(
+        "dec 6 sat X at Hopmonk Tavern, Sebastopol 21+ $20"
+      );
+    });
+
+    it("should only respell a city in the location", () => {
+      const engine = CorrectionEngine.load([berkeley]);
+
+      expect(engine.apply("sep 4 thu Berkeleyt at Ashkenaz, Berkeleyt a/a")).toBe(
+        "sep 4 thu Berkeleyt at Ashkenaz, Berkeley a/a"
+      );
+    });
+
+    it("should respell artists in the lineup and venues after 'at'", () => {
+      const engine = CorrectionEngine.load([
+        {
+          id: "awake",
+          kind: "artist-name",
+          misspelling: "awakebutstillinbed",
+          name: "Awake But Still In Bed",
+          example: { input: "aug 21 fri awakebutstillinbed at X, Oakland", output: "aug 21 fri Awake But Still In Bed at X, Oakland" },
+        },
+        {
+          id: "bottom",
+          kind: "venue-name",
+          misspelling: "BVottom of the Hill",
+          name: "Bottom of the Hill",
+          example: { input: "mar 1 sun X at BVottom of the Hill, S.F.", output: "mar 1 sun X at Bottom of the Hill, S.F." },
+        },
+      ]);
+
+      expect(engine.apply("aug 21 fri Parting Gift, awakebutstillinbed at BVottom of the Hill, S.F. a/a")).toBe(
+        "aug 21 fri Parting Gift, Awake But Still In Bed at Bottom of the Hill, S.F. a/a"
+      );
+    });
+
+    it("should replace an entry matched by its hash, whatever its spacing", () => {
+      const line = "aug 1 fri X at Bar   (SF) $10 8pm";
+      const engine = CorrectionEngine.load([
+        {
+          id: "bar-override",
+          kind: "line-override",
+          hash: CorrectionEngine.hashLine(line),
+          line: "aug 1 fri X at Bar, S.F. $10 8pm",
+          example: { input: line, output: "aug 1 fri X at Bar, S.F. $10 8pm" },
+        },
+      ]);
+
+      expect(engine.apply("aug 1 fri X at Bar (SF) $10 8pm")).toBe("aug 1 fri X at Bar, S.F. $10 8pm");
+      expect(engine.apply("aug 2 sat X at Bar (SF) $10 8pm")).toBe("aug 2 sat X at Bar (SF) $10 8pm");
+    });
+  });
+
+  describe("check", () => {
+    it("should reject a rule whose example doesn't hold", () => {
+      const broken: CorrectionRule = { ...hopmonk, example: { ...hopmonk.example, output: hopmonk.example.input } };
+
+      expect(CorrectionEngine.check([broken])).toEqual([
+        `hopmonk-tavern-city: example gives '${hopmonk.example.output}', expected '${hopmonk.example.input}'`,
+      ]);
+      expect(() => CorrectionEngine.load([broken])).toThrow(/Invalid correction rules/);
+    });
+
+    it("should reject reused ids and patterns that don't compile", () => {
+      const problems = CorrectionEngine.check([
+        hopmonk,
+        { ...berkeley, id: "hopmonk-tavern-city" },
+        { id: "bad", kind: "pattern", pattern: "at (Gilman", replacement: "", example: { input: "", output: "" } },
+      ]);
+
+      expect(problems).toHaveLength(2);
+      expect(problems[0]).toMatch(/used more than once/);
+      expect(problems[1]).toMatch(/^bad: /);
+    });
+
+    it("should pass every rule in data/line-corrections.json", () => {
+      const rules = JSON.parse(readFileSync(join(process.cwd(), "data", "line-corrections.json"), "utf-8"));
+
+      expect(CorrectionEngine.check(rules)).toEqual([]);
+    });
+  });
+
+  describe("applyToContent", () => {
+    it("should correct wrapped entries and keep the line numbering", () => {
+      const engine = CorrectionEngine.load([berkeley]);
+      const content = "sep 3 wed Cava\nat 924 Gilman Street, Berkeleyt a/a $12\n\nsep 4 thu X\nat Y, Oakland\n";
+
+      expect(engine.applyToContent(content, "latest.txt")).toBe(
+        "sep 3 wed Cava at 924 Gilman Street, Berkeley a/a $12\n\n\nsep 4 thu X\nat Y, Oakland\n"
+      );
+      expect(engine.getHits()).toEqual([
+        {
+          ruleId: "berkeley-spelling",
+          source: "latest.txt",
+          lineNumber: 1,
+          before: "sep 3 wed Cava at 924 Gilman Street, Berkeleyt a/a $12",
+          after: "sep 3 wed Cava at 924 Gilman Street, Berkeley a/a $12",
+        },
+      ]);
+    });
+  });
+
+  describe("report", () => {
+    it("should list the rules that fired and the ones that went stale", () => {
+      const engine = CorrectionEngine.load([hopmonk, berkeley]);
+      engine.applyToContent("sep 3 2026 Cava at 924 Gilman Street, Berkeleyt a/a $12\n", "events.txt");
+      const report = engine.report();
+
+      expect(report.fired.map(({ rule, hits }) => [rule.id, hits.length])).toEqual([["berkeley-spelling", 1]]);
+      expect(report.stale.map((rule) => rule.id)).toEqual(["hopmonk-tavern-city"]);
+      expect(CorrectionEngine.formatReport(report)).toContain("events.txt:1 sep 3 2026 Cava");
+    });
+  });
+});
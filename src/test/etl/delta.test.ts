@@ -0,0 +1,71 @@
+/**
+ * Test suite for the delta manifest between dataset versions
+ */
+
+import { describe, it, expect } from "vitest";
+import { DeltaBuilder } from "@/lib/etl/delta.js";
+import type { ChunkInfo, DataManifest } from "@/types/data.js";
+
+const chunk = (chunkId: string, checksum: string): ChunkInfo => ({
+  filename: `events-${chunkId}.json`,
+  chunkId,
+  size: 100,
+  checksum,
+  eventCount: 1,
+  dateRange: { startEpochMs: 0, endEpochMs: 0 },
+});
+
+const makeManifest = (datasetVersion: string, chunks: ChunkInfo[], artists = "a1"): DataManifest =>
+  ({
+    datasetVersion,
+    chunks: {
+      events: chunks,
+      artists: { filename: "artists.json", size: 10, checksum: artists },
+      venues: { filename: "venues.json", size: 10, checksum: "v1" },
+      indexes: { filename: "indexes.json", size: 10, checksum: "i1" },
+    },
+  }) as DataManifest;
+
+describe("DeltaBuilder", () => {
+  it("should mark files by whether their checksum changed", () => {
+    const previous = makeManifest("v1", [chunk("2026-09", "x"), chunk("2026-10", "y"), chunk("2026-08", "old")]);
+    const next = makeManifest("v2", [chunk("2026-09", "x"), chunk("2026-10", "y2"), chunk("2026-11", "z")], "a2");
+
+    const delta = DeltaBuilder.build(previous, next);
+
+    expect(delta.datasetVersion).toBe("v2");
+    expect(delta.previousVersion).toBe("v1");
+    expect(delta.files["events-2026-09.json"]).toEqual({ checksum: "x", previousChecksum: "x", changed: false });
+    expect(delta.files["events-2026-10.json"]).toEqual({ checksum: "y2", previousChecksum: "y", changed: true });
+    expect(delta.files["events-2026-11.json"]).toEqual({ checksum: "z", previousChecksum: null, changed: true });
+    expect(delta.files["artists.json"].changed).toBe(true);
+    expect(delta.files["venues.json"].changed).toBe(false);
+    expect(delta.removed).toEqual(["events-2026-08.json"]);
+    expect(DeltaBuilder.formatSummary(delta)).toContain("3 of 6 files changed since v1");
+  });
+
+  it("should list every file as new on a first run", () => {
+    const delta = DeltaBuilder.build(null, makeManifest("v1", [chunk("2026-09", "x")]));
+
+    expect(delta.previousVersion).toBeNull();
+    expect(Object.values(delta.files).every((file) => file.changed && file.previousChecksum === null)).toBe(true);
+    expect(delta.removed).toEqual([]);
+  });
+
+  it("should give unchanged records their previous timestamps back", () => {
+    const previous = [
+      { id: 1, name: "Gilman", city: "Berkeley", createdAtEpochMs: 100, updatedAtEpochMs: 200 },
+      { id: 2, name: "Bottom of the Hill", city: "San Francisco", createdAtEpochMs: 100, updatedAtEpochMs: 200 },
+    ];
+    const records = [
+      { city: "Berkeley", name: "Gilman", id: 1, createdAtEpochMs: 900, updatedAtEpochMs: 900 },
+      { id: 2, name: "Bottom of the Hill", city: "S.F.", createdAtEpochMs: 900, updatedAtEpochMs: 900 },
+      { id: 3, name: "The Stork Club", city: "Oakland", createdAtEpochMs: 900, updatedAtEpochMs: 900 },
+    ];
+
+    expect(DeltaBuilder.carryTimestamps(records, previous)).toBe(1);
+    expect(records[0]).toMatchObject({ createdAtEpochMs: 100, updatedAtEpochMs: 200 });
+    expect(records[1]).toMatchObject({ createdAtEpochMs: 100, updatedAtEpochMs: 900 });
+    expect(records[2]).toMatchObject({ createdAtEpochMs: 900, updatedAtEpochMs: 900 });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Test suite for the Bay Area locality gazetteer
+ */
+
+import { describe, it, expect } from "vitest";
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+
+describe("Gazetteer", () => {
+  describe("resolve", () => {
+    it("should resolve abbreviations", () => {
+      expect(Gazetteer.resolve("S.F.")?.name).toBe("San Francisco");
+      expect(Gazetteer.resolve("S.f")?.name).toBe("San Francisco");
+      expect(Gazetteer.resolve("SF")?.name).toBe("San Francisco");
+    });
+
+    it("should resolve multi-word cities", () => {
+      expect(Gazetteer.resolve("Santa Cruz")?.name).toBe("Santa Cruz");
+      expect(Gazetteer.resolve("Walnut Creek")?.name).toBe("Walnut Creek");
+      expect(Gazetteer.resolve("El Cerrito")?.name).toBe("El Cerrito");
+      expect(Gazetteer.resolve("San Jose")?.name).toBe("San Jose");
+    });
+
+    it("should resolve known misspellings", () => {
+      expect(Gazetteer.resolve("Memlo Park")?.name).toBe("Menlo Park");
+      expect(Gazetteer.resolve("Berkely")?.name).toBe("Berkeley");
+      expect(Gazetteer.resolve("Mountain Veiw")?.name).toBe("Mountain View");
+      expect(Gazetteer.resolve("Santa CRuz")?.name).toBe("Santa Cruz");
+    });
+
+    it("should resolve landmarks to their city", () => {
+      expect(Gazetteer.resolve("Golden Gate Park")?.name).toBe("San Francisco");
+      expect(Gazetteer.resolve("UC Berkeley Campus")?.name).toBe("Berkeley");
+      expect(Gazetteer.resolve("Stanford Campus")?.name).toBe("Stanford");
+    });
+
+    it("should ignore trailing age, price and time", () => {
+      expect(Gazetteer.resolve("Walnut Creek a/a $10 7pm")?.name).toBe("Walnut Creek");
+    });
+
+    it("should prefer the longest match", () => {
+      expect(Gazetteer.resolve("South San Francisco")?.name).toBe("South San Francisco");
+    });
+
+    it("should return null for unknown text", () => {
+      expect(Gazetteer.resolve("Santa")).toBeNull();
+      expect(Gazetteer.resolve("525 Sansome Street")).toBeNull();
+      expect(Gazetteer.resolve("")).toBeNull();
+    });
+  });
+
+  describe("localities", () => {
+    it("should carry county, region and center", () => {
+      const locality = Gazetteer.resolve("Memlo Park");
+      expect(locality).toEqual({
+        name: "Menlo Park",
+        slug: "menlo-park",
+        county: "San Mateo",
+        region: "peninsula",
+        center: { lat: 37.453, lng: -122.1817 },
+      });
+    });
+
+    it("should list localities by region", () => {
+      const eastBay = Gazetteer.inRegion("east-bay").map((l) => l.name);
+      expect(eastBay).toContain("Oakland");
+      expect(eastBay).toContain("Walnut Creek");
+      expect(eastBay).not.toContain("San Francisco");
+    });
+
+    it("should only treat canonical names as canonical", () => {
+      expect(Gazetteer.isCanonical("San Francisco")).toBe(true);
+      expect(Gazetteer.isCanonical("S.f")).toBe(false);
+      expect(Gazetteer.isCanonical("Santa")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Test suite for placing venues from the coordinate file and the gazetteer
+ */
+
+import { describe, it, expect } from "vitest";
+import { VenueGeocoder } from "@/lib/etl/geocode.js";
+import type { Venue, VenueId } from "@/types/events.js";
+
+function venue(name: string, city: string, upcomingEventCount = 1): Venue {
+  return {
+    id: name.length as VenueId,
+    name,
+    slug: name.toLowerCase().replace(/\W+/g, "-"),
+    normalizedName: name.toLowerCase(),
+    address: "",
+    city,
+    ageRestriction: "all-ages",
+    upcomingEventCount,
+    totalEventCount: upcomingEventCount,
+    upcomingEvents: [],
+    createdAtEpochMs: 0,
+    updatedAtEpochMs: 0,
+    sourceLineNumber: 1,
+  };
+}
+
+describe("VenueGeocoder", () => {
+  it("should place venues from the file by normalized name or alias", () => {
+    const venues = [venue("the Fillmore", "San Francisco"), venue("Freight", "Berkeley")];
+    const report = VenueGeocoder.apply(
+      venues,
+      {
+        "San Francisco": { Fillmore: { lat: 37.784, lng: -122.433 } },
+        Berkeley: { "Freight and Salvage": { lat: 37.8713, lng: -122.269 } },
+      },
+      { "freight and salvage": "Freight" }
+    );
+
+    expect(report.placed).toBe(2);
+    expect(venues[0].coordinates).toEqual({ lat: 37.784, lng: -122.433, precision: "venue" });
+    expect(venues[1].coordinates?.precision).toBe("venue");
+    expect(report.unused).toEqual([]);
+  });
+
+  it("should only match a name in its own city", () => {
+    const venues = [venue("Arena", "Oakland"), venue("Arena", "San Jose"), venue("Civic Center", "SF")];
+    const report = VenueGeocoder.apply(venues, {
+      Oakland: { Arena: { lat: 37.7503, lng: -122.203 } },
+      "San Francisco": { "Civic Center": { lat: 37.7793, lng: -122.4193 } },
+    });
+
+    expect(venues[0].coordinates?.precision).toBe("venue");
+    expect(venues[1].coordinates?.precision).toBe("city");
+    expect(venues[2].coordinates).toEqual({ lat: 37.7793, lng: -122.4193, precision: "venue" });
+    expect(report.placed).toBe(2);
+  });
+
+  it("should fall back to the city's center and flag venues it can't place", () => {
+    const venues = [venue("Ivy Room", "Albany"), venue("Creek Park", "634")];
+    const report = VenueGeocoder.apply(venues, {});
+
+    expect(venues[0].coordinates).toEqual({ lat: 37.8869, lng: -122.2978, precision: "city" });
+    expect(report.approximate).toEqual([venues[0]]);
+    expect(venues[1].coordinates).toBeUndefined();
+    expect(report.missing).toEqual([venues[1]]);
+  });
+
+  it("should ignore entries outside the Bay Area and report unmatched ones", () => {
+    const venues = [venue("Fillmore", "San Francisco")];
+    const report = VenueGeocoder.apply(venues, {
+      "San Francisco": {
+        Fillmore: { lat: -37.784, lng: -122.433 },
+        "Nowhere Hall": { lat: 37.8, lng: -122.4 },
+      },
+    });
+
+    expect(report.outOfBounds).toEqual(["Fillmore, San Francisco"]);
+    expect(report.unused).toEqual(["Nowhere Hall, San Francisco"]);
+    expect(venues[0].coordinates?.precision).toBe("city");
+  });
+
+  it("should summarize coverage of the venues with upcoming shows", () => {
+    const venues = [venue("Fillmore", "San Francisco"), venue("Ivy Room", "Albany"), venue("Old Hall", "Albany", 0)];
+    const report = VenueGeocoder.apply(venues, {
+      "San Francisco": { Fillmore: { lat: 37.784, lng: -122.433 } },
+    });
+
+    expect(VenueGeocoder.formatCoverage(report, venues)).toBe(
+      "📍 1 of 2 venues with upcoming shows have coordinates, 1 placed at their city's center, 0 not on the map"
+    );
+  });
+});
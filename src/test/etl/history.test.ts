@@ -0,0 +1,81 @@
+/**
+ * Test suite for per-event change history between ETL runs
+ */
+
+import { describe, it, expect } from "vitest";
+import { EventParser } from "@/lib/etl/parsers.js";
+import { EventHistoryTracker } from "@/lib/etl/history.js";
+import type { Artist, ArtistId, Event } from "@/types/events.js";
+
+const run = (line: string) => {
+  const artistMap = new Map<string, Artist>();
+  const { events } = EventParser.normalizeEvents(
+    EventParser.parseEventsFile(line).rawEvents,
+    artistMap,
+    new Map()
+  );
+  const artistNames = new Map<ArtistId, string>(
+    [...artistMap.values()].map((a) => [a.id, a.name])
+  );
+  return { events, artistNames };
+};
+
+const previousRun = (line: string, history = {}) => {
+  const { events, artistNames } = run(line);
+  return {
+    events: new Map<number, Event>(events.map((e) => [e.id as number, e])),
+    artistNames,
+    history,
+  };
+};
+
+const CHANGED_AT = Date.UTC(2026, 7, 21);
+
+describe("EventHistoryTracker", () => {
+  it("should record price, lineup, age and status changes", () => {
+    const previous = previousRun("sep 4 2026 Sleepy, Mokosos at the Ivy Room, Albany 21+ $10 8pm");
+    const { events, artistNames } = run(
+      "sep 4 2026 Sleepy, Hex Key at the Ivy Room, Albany a/a $12/$15 8pm (sold out)"
+    );
+
+    const { history, changed } = EventHistoryTracker.record(previous, events, artistNames, CHANGED_AT);
+
+    expect(changed).toBe(1);
+    expect(events[0].changedAtEpochMs).toBe(CHANGED_AT);
+    expect(history[String(events[0].id)]).toEqual([
+      {
+        changedAtEpochMs: CHANGED_AT,
+        changes: [
+          { field: "lineup", before: "Sleepy, Mokosos", after: "Sleepy, Hex Key" },
+          { field: "ageRestriction", before: "21+", after: "all-ages" },
+          { field: "status", before: "confirmed", after: "sold-out" },
+          { field: "price", before: "$10", after: "$12 adv / $15 door" },
+        ],
+      },
+    ]);
+  });
+
+  it("should keep earlier history and the last change date for unchanged events", () => {
+    const line = "sep 4 2026 Sleepy at the Ivy Room, Albany 21+ $10 8pm";
+    const earlier = { changedAtEpochMs: Date.UTC(2026, 7, 14), changes: [] };
+    const previous = previousRun(line);
+    const id = String([...previous.events.keys()][0]);
+    previous.events.get(Number(id))!.changedAtEpochMs = earlier.changedAtEpochMs;
+    previous.history = { [id]: [earlier], "123": [earlier] };
+    const { events, artistNames } = run(line);
+
+    const { history, changed } = EventHistoryTracker.record(previous, events, artistNames, CHANGED_AT);
+
+    expect(changed).toBe(0);
+    expect(events[0].changedAtEpochMs).toBe(earlier.changedAtEpochMs);
+    expect(history).toEqual({ [id]: [earlier] }); // gone events are dropped
+  });
+
+  it("should not read chunks from before price tiers as price changes", () => {
+    const previous = previousRun("sep 4 2026 Sleepy at the Ivy Room, Albany 21+ $10 8pm");
+    for (const event of previous.events.values()) delete event.price;
+    const { events, artistNames } = run("sep 4 2026 Sleepy at the Ivy Room, Albany 21+ $10 8pm");
+
+    expect(EventHistoryTracker.record(previous, events, artistNames, CHANGED_AT).changed).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Test suite for iCalendar export
+ */
+
+import { describe, it, expect } from "vitest";
+import { EventParser } from "@/lib/etl/parsers.js";
+import { IcsBuilder } from "@/lib/etl/ics.js";
+import type { Artist, ArtistId, Venue, VenueId } from "@/types/events.js";
+
+const NOW = Date.UTC(2026, 7, 21, 15, 30);
+
+const build = (content: string) => {
+  const artistMap = new Map<string, Artist>();
+  const venueMap = new Map<string, Venue>();
+  const { events } = EventParser.normalizeEvents(
+    EventParser.parseEventsFile(content).rawEvents,
+    artistMap,
+    venueMap
+  );
+  const ics = IcsBuilder.buildCalendar(events, {
+    name: "Test shows",
+    artists: new Map<ArtistId, Artist>([...artistMap.values()].map((a) => [a.id, a])),
+    venues: new Map<VenueId, Venue>([...venueMap.values()].map((v) => [v.id, v])),
+    eventUrl: (e) => `https://example.com/events/${e.slug}`,
+    now: NOW,
+  });
+  // Unfold continuation lines to make assertions line-based
+  return { events, ics, lines: ics.replace(/\r\n /g, "").split("\r\n") };
+};
+
+describe("IcsBuilder", () => {
+  it("should write a calendar with Pacific wall-clock times", () => {
+    const { events, ics, lines } = build(
+      "sep 4 2026 Sleepy, Mokosos at the Ivy Room, Albany 21+ $12/$15 7pm/8pm til 11:30pm"
+    );
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("BEGIN:VTIMEZONE");
+    expect(lines).toContain(`UID:${events[0].id}@zivv`);
+    expect(lines).toContain("DTSTAMP:20260821T153000Z");
+    expect(lines).toContain("DTSTART;TZID=America/Los_Angeles:20260904T200000");
+    expect(lines).toContain("DTEND;TZID=America/Los_Angeles:20260904T233000");
+    expect(lines).toContain("SUMMARY:Sleepy at the Ivy Room");
+    expect(lines).toContain(
+      "DESCRIPTION:Sleepy\\, Mokosos\\nDoors 7pm\\, show 8pm\\, over by 11:30pm\\n$12 adv / $15 door · 21+"
+    );
+    expect(lines).toContain(`URL:https://example.com/events/${events[0].slug}`);
+    expect(lines).toContain("STATUS:CONFIRMED");
+  });
+
+  it("should make untimed shows all-day and mark cancellations", () => {
+    const { lines } = build("sep 4 2026 CANCELLED: Sleepy at the Ivy Room, Albany 21+ $10");
+
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260904");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260905");
+    expect(lines).toContain("SUMMARY:CANCELLED: Sleepy at the Ivy Room");
+    expect(lines).toContain("STATUS:CANCELLED");
+  });
+
+  it("should escape text values", () => {
+    expect(IcsBuilder.escapeText("a, b; c\\d\ne")).toBe("a\\, b\\; c\\\\d\\ne");
+  });
+
+  it("should fold long lines at 75 octets without splitting characters", () => {
+    const folded = IcsBuilder.foldLine(`DESCRIPTION:${"é".repeat(60)}`);
+    const encoder = new TextEncoder();
+
+    for (const line of folded.split("\r\n")) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`DESCRIPTION:${"é".repeat(60)}`);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Test suite for the entity ID registry
+ */
+
+import { describe, it, expect } from "vitest";
+import { IdRegistry } from "@/lib/etl/ids.js";
+import { EventParser, VenueParser } from "@/lib/etl/parsers.js";
+import { ArtistResolver, type ArtistRegistryEntry } from "@/lib/etl/artists.js";
+import type { Artist, Event, Venue } from "@/types/events.js";
+
+const venuesContent = "Freight, 2020 Addison St., Berkeley a/a\nFillmore, 1805 Geary Blvd., S.F. a/a\n";
+
+// Parse and normalize listings the way the ETL does
+function parse(
+  eventsContent: string,
+  options: { aliases?: Record<string, string>; registry?: ArtistRegistryEntry[] } = {}
+): { events: Event[]; artists: Artist[]; venues: Venue[] } {
+  const artistMap = new Map<string, Artist>();
+  const venueMap = new Map<string, Venue>();
+  const { rawEvents } = EventParser.parseEventsFile(eventsContent);
+  const { events } = EventParser.normalizeEvents(
+    rawEvents,
+    artistMap,
+    venueMap,
+    options.aliases ?? {},
+    new ArtistResolver(options.registry)
+  );
+  const { venues } = VenueParser.normalizeVenues(VenueParser.parseVenuesFile(venuesContent).rawVenues, venueMap);
+  return { events, artists: [...artistMap.values()], venues };
+}
+
+// A run against the registry as saved by the previous one
+function run(saved: unknown, eventsContent: string, options: Parameters<typeof parse>[1] = {}) {
+  const registry = IdRegistry.load(JSON.parse(JSON.stringify(saved ?? null)));
+  const data = parse(eventsContent, options);
+  const result = registry.assign(data.events, data.artists, data.venues, options.aliases);
+  return { ...data, result, registry, saved: registry.toJSON() };
+}
+
+describe("IdRegistry", () => {
+  it("should keep IDs and slugs when a run parses the same listings", () => {
+    const listing = "aug 22 2026 The Breeders, Jeff Parker at the Fillmore, S.F. a/a 7pm/8pm\n";
+    const first = run(null, listing);
+    const second = run(first.saved, listing);
+
+    expect(first.result.created).toEqual({ events: 1, artists: 2, venues: 2 });
+    expect(second.result.created).toEqual({ events: 0, artists: 0, venues: 0 });
+    expect(second.events[0].id).toBe(first.events[0].id);
+    expect(second.events[0].slug).toBe(first.events[0].slug);
+    expect(second.registry.redirects().events).toEqual({});
+  });
+
+  it("should keep an event's ID and redirect its slug when the venue is renamed", () => {
+    const first = run(null, "aug 22 2026 The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n");
+    const second = run(first.saved, "aug 22 2026 The Breeders at the Fillmore Auditorium, S.F. a/a 7pm/8pm\n");
+    const event = second.events[0];
+
+    expect(event.id).toBe(first.events[0].id);
+    expect(event.slug).toBe("2026-08-22-the-breeders-the-fillmore-auditorium");
+    expect(second.registry.redirects().events).toEqual({
+      "2026-08-22-the-breeders-the-fillmore": "2026-08-22-the-breeders-the-fillmore-auditorium",
+    });
+    expect(second.result.created.events).toBe(0);
+  });
+
+  it("should move an artist onto the merged spelling and redirect the other slug", () => {
+    const first = run(null, "aug 22 2026 2morrows June at the Freight, Berkeley a/a $20 8pm\n");
+    const second = run(first.saved, "aug 22 2026 2morrows June at the Freight, Berkeley a/a $20 8pm\n", {
+      registry: [{ name: "Two Morrows June", aliases: ["2morrows June"] }],
+    });
+    const artist = second.artists[0];
+
+    expect(artist.id).toBe(first.artists[0].id);
+    expect(artist.slug).toBe("two-morrows-june");
+    expect(second.registry.redirects().artists).toEqual({ "2morrows-june": "two-morrows-june" });
+    expect(second.events[0].headlinerArtistId).toBe(artist.id);
+    expect(second.events[0].lineup?.[0].artistId).toBe(artist.id);
+  });
+
+  it("should probe past a hash another entity already holds", () => {
+    const first = run(null, "aug 22 2026 The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n");
+    const held = first.artists[0].id;
+    const saved = first.saved;
+    // Another artist is registered under the hash Jeff Parker will get
+    const parker = parse("aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 8pm\n").artists[0];
+    saved.artists["somebodyelse"] = { id: parker.id, slug: "somebody-else" };
+
+    const second = run(saved, "aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 8pm\n");
+    const reassigned = second.artists[0];
+
+    expect(second.result.collisions).toEqual([
+      { kind: "artists", key: "jeffparker", takenBy: "somebodyelse", hash: parker.id, id: reassigned.id },
+    ]);
+    expect(reassigned.id).not.toBe(parker.id);
+    expect(reassigned.id).not.toBe(held);
+    expect(second.events[0].headlinerArtistId).toBe(reassigned.id);
+    expect(second.saved.collisions).toHaveLength(1);
+  });
+
+  it("should point chained redirects at the current slug and drop ones that are live again", () => {
+    const registry = IdRegistry.load({
+      artists: { jeffparker: { id: 1, slug: "jeff-parker" } },
+      redirects: {
+        events: {},
+        artists: { "j-parker": "jeff-parker-trio", "jeff-parker-trio": "jeff-parker-quartet", "jeff-parker": "x" },
+        venues: {},
+      },
+    });
+    const data = parse("aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 8pm\n");
+    registry.assign(data.events, data.artists, data.venues);
+
+    expect(registry.redirects().artists).toEqual({
+      "j-parker": "jeff-parker-quartet",
+      "jeff-parker-trio": "jeff-parker-quartet",
+    });
+  });
+
+  it("should seed from a previous output without changing anything", () => {
+    const listing = "aug 22 2026 The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n";
+    const previous = parse(listing);
+    const seeded = IdRegistry.seed(previous.events, previous.artists, previous.venues);
+    const data = parse(listing);
+    const result = seeded.assign(data.events, data.artists, data.venues);
+
+    expect(result.created).toEqual({ events: 0, artists: 0, venues: 0 });
+    expect(data.events[0].slug).toBe(previous.events[0].slug);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Test suite for merging a latest.txt edition into events.txt and venues.txt
+ */
+
+import { describe, it, expect } from "vitest";
+import { LatestMerger, type MergeInput } from "@/lib/etl/merge.js";
+
+const referenceDate = new Date("2026-08-21T12:00:00Z");
+
+function input(overrides: Partial<MergeInput>): MergeInput {
+  return {
+    latestContent: "",
+    eventsContent: "",
+    venuesContent: "Freight, 2020 Addison St., Berkeley a/a\nFillmore, 1805 Geary Blvd., S.F. a/a\n",
+    aliases: { "the freight": "Freight", "the fillmore": "Fillmore" },
+    corrections: [],
+    referenceDate,
+    ...overrides,
+  };
+}
+
+describe("LatestMerger", () => {
+  it("should skip entries already in events.txt and stamp a year on new ones", () => {
+    const result = LatestMerger.merge(
+      input({
+        latestContent: `aug 22 sat The Breeders at the Fillmore, S.F. a/a 7pm/8pm
+aug 23 sun Jeff Parker at the Freight, Berkeley a/a $39 7pm/8pm
+`,
+        eventsContent: "aug 22 2026 The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n",
+      })
+    );
+
+    expect(result.report.duplicates).toHaveLength(1);
+    expect(result.report.added).toEqual(["aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 7pm/8pm"]);
+    expect(result.eventsContent.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("should stamp next year on months more than six months past", () => {
+    const result = LatestMerger.merge(
+      input({ latestContent: "jan 9 sat Crimpshrine at the Fillmore, S.F. a/a $12\n" })
+    );
+
+    expect(result.report.added[0]).toMatch(/^jan 9 2027 /);
+  });
+
+  it("should replace a show whose lineup or price changed", () => {
+    const result = LatestMerger.merge(
+      input({
+        latestContent: "aug 23 sun Jeff Parker Eta Ivtet at the Freight, Berkeley a/a $39 7pm/8pm\n",
+        eventsContent: "aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $35 7pm/8pm\n",
+      })
+    );
+
+    expect(result.report.added).toEqual([]);
+    expect(result.report.changed).toHaveLength(1);
+    expect(result.report.changed[0]).toMatchObject({
+      date: "2026-08-23",
+      venue: "Freight",
+      differences: ["lineup", "price"],
+    });
+    expect(result.eventsContent).toBe("aug 23 2026 Jeff Parker Eta Ivtet at the Freight, Berkeley a/a $39 7pm/8pm\n");
+  });
+
+  it("should add rather than replace when the venue has more than one show that night", () => {
+    const result = LatestMerger.merge(
+      input({
+        latestContent: "aug 23 sun Jeff Parker at the Freight, Berkeley a/a $39 9:30pm\n",
+        eventsContent: `aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 7pm
+aug 23 2026 Jeff Parker at the Freight, Berkeley a/a $39 9pm
+`,
+      })
+    );
+
+    expect(result.report.changed).toEqual([]);
+    expect(result.report.added).toHaveLength(1);
+  });
+
+  it("should add rather than replace when the edition adds a second show to a listed night", () => {
+    const result = LatestMerger.merge(
+      input({
+        latestContent: `may 1 fri Alpha at Bottom of the Hill, S.F. a/a $15 8pm
+may 1 fri Gamma at Bottom of the Hill, S.F. a/a $12 10pm
+`,
+        eventsContent: "may 1 2026 Alpha at Bottom of the Hill, S.F. a/a $15 8pm\n",
+      })
+    );
+
+    expect(result.report.changed).toEqual([]);
+    expect(result.report.added).toEqual(["may 1 2026 Gamma at Bottom of the Hill, S.F. a/a $12 10pm"]);
+    expect(result.eventsContent).toBe(`may 1 2026 Alpha at Bottom of the Hill, S.F. a/a $15 8pm
+may 1 2026 Gamma at Bottom of the Hill, S.F. a/a $12 10pm
+`);
+  });
+
+  it("should flag a day of the week that doesn't match the stamped year", () => {
+    const result = LatestMerger.merge(
+      input({ latestContent: "sep 1 mon Hillbomb at the Fillmore, S.F. a/a $10 7pm\n" })
+    );
+
+    expect(result.report.yearAmbiguous).toEqual([
+      {
+        entry: "sep 1 2026 Hillbomb at the Fillmore, S.F. a/a $10 7pm",
+        year: 2026,
+        reason: "mon falls on sep 1 in 2025, not 2026",
+      },
+    ]);
+  });
+
+  it("should stub venues that venues.txt doesn't list", () => {
+    const result = LatestMerger.merge(
+      input({ latestContent: "aug 23 sun Jeff Parker at Ashkenaz, Berkeley a/a $20 8pm\n" })
+    );
+
+    expect(result.report.venues.stubs).toEqual(["Ashkenaz"]);
+    expect(result.venuesContent.trim().split("\n").pop()).toBe("Ashkenaz,,,,");
+    expect(result.venuesChanged).toBe(true);
+  });
+
+  it("should leave the files alone when the edition is already merged", () => {
+    const eventsContent = "aug 22 2026 The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n";
+    const result = LatestMerger.merge(
+      input({ latestContent: "aug 22 sat The Breeders at the Fillmore, S.F. a/a 7pm/8pm\n", eventsContent })
+    );
+
+    expect(result.eventsChanged).toBe(false);
+    expect(result.venuesChanged).toBe(false);
+    expect(result.eventsContent).toBe(eventsContent);
+  });
+
+  it("should format every section of the report", () => {
+    const result = LatestMerger.merge(
+      input({ latestContent: "aug 23 sun Jeff Parker at Ashkenaz, Berkeley a/a $20 8pm\n" })
+    );
+    const text = LatestMerger.formatReport(result.report, true);
+
+    expect(text).toContain("Dry run");
+    expect(text).toContain("+ aug 23 2026 Jeff Parker at Ashkenaz");
+    expect(text).toContain("+ Ashkenaz,,,,");
+  });
+});
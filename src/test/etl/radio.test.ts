@@ -0,0 +1,118 @@
+/**
+ * Test suite for the radio schedule parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { RadioParser } from "@/lib/etl/radio.js";
+
+const CURATED = [
+  "Pirate Cat Radio KPCR 92.9FM in Los Gatos  www.kpcr.org",
+  "KUBU-LP Altermative (96.5 FM) https://www.lightningstream.com/",
+  "Player.aspx?call=KUBU-LP",
+  "mon  Losin It With Luscious MMH Radio (UK) https://mmhradio.co.uk noon-2pm PST",
+  "  (https://mmhradio.co.uk/podcasts/losin-it-with-luscious/)",
+  "tue  dj Transister Sistor on UC Berkeley Radio KALX 90.7FM noon-3pm",
+  "  (every other Tuesday)",
+  "tue  Dead Air with dj Vicious and dj Tanner",
+  "  on Berkeley Liberation Radio 104.1FM 6pm-8pm",
+  "sat The Mothership Connection Radeio 89.5FM KZCT Vallejo 5pm to 6pm",
+  "sun  NewHotBands on public access TV Comcast Ch 29 12:30pm",
+  "sun  Neonate with Punk Roge on UC Davis Radio KDVS 90.3FM 12am-2am",
+].join("\n");
+
+describe("RadioParser", () => {
+  describe("parse", () => {
+    const { shows, links } = RadioParser.parse(CURATED);
+    const show = (id: string) => shows.find((s) => s.id === id);
+
+    it("should split name, host, station, call sign and frequency", () => {
+      expect(show("dead-air")).toMatchObject({
+        name: "Dead Air",
+        host: "dj Vicious and dj Tanner",
+        station: "Berkeley Liberation Radio 104.1FM",
+        frequency: "104.1 FM",
+        startTime: "18:00",
+        endTime: "20:00",
+      });
+      expect(show("dj-transister-sistor")?.callSign).toBe("KALX");
+      expect(show("the-mothership-connection")).toMatchObject({
+        station: "Radeio 89.5FM KZCT Vallejo",
+        callSign: "KZCT",
+        startTime: "17:00",
+        endTime: "18:00",
+      });
+    });
+
+    it("should find the station without 'on' and keep both URLs", () => {
+      expect(show("losin-it-with-luscious")).toMatchObject({
+        name: "Losin It With Luscious",
+        station: "MMH Radio (UK)",
+        startTime: "12:00",
+        endTime: "14:00",
+        url: "https://mmhradio.co.uk",
+        archiveUrl: "https://mmhradio.co.uk/podcasts/losin-it-with-luscious/",
+      });
+    });
+
+    it("should read every-other-week and late-night recurrences", () => {
+      expect(show("dj-transister-sistor")?.recurrence).toEqual({
+        frequency: "weekly",
+        interval: 2,
+        dayOfWeek: 2,
+      });
+      // Listed under Sunday night, airs early Monday
+      expect(show("neonate")?.recurrence.dayOfWeek).toBe(1);
+      expect(show("newhotbands")).toMatchObject({ startTime: "12:30", endTime: undefined });
+    });
+
+    it("should keep lines without a day as links, rejoining wrapped URLs", () => {
+      expect(links).toEqual([
+        {
+          name: "Pirate Cat Radio KPCR 92.9FM in Los Gatos",
+          callSign: "KPCR",
+          frequency: "92.9 FM",
+          url: "https://www.kpcr.org",
+        },
+        {
+          name: "KUBU-LP Altermative (96.5 FM)",
+          callSign: "KUBU",
+          frequency: "96.5 FM",
+          url: "https://www.lightningstream.com/Player.aspx?call=KUBU-LP",
+        },
+      ]);
+    });
+  });
+
+  describe("extractSection", () => {
+    it("should return the lines between the radio header and the club info", () => {
+      const content = [
+        "aug 21 fri Test Band at Test Venue, Oakland a/a $10 7pm",
+        "  Radio Shows and Other Links",
+        "  ---------------------------",
+        "mon  Next Big Thing on UC Berkeley Radio KALX 90.7FM 6pm-7pm",
+        " C L U B  I N F O R M A T I O N",
+        "Test Venue, 1 Main Street, Oakland a/a",
+      ].join("\n");
+
+      const section = RadioParser.extractSection(content);
+      expect(RadioParser.parse(section ?? "").shows.map((s) => s.id)).toEqual(["next-big-thing"]);
+      expect(RadioParser.extractSection("aug 21 fri Test Band at Test Venue")).toBeNull();
+    });
+  });
+
+  describe("merge", () => {
+    it("should keep the edition's schedule with the curated file's URLs", () => {
+      const edition = RadioParser.parse(
+        [
+          "mon  Losin It With Luscious MMH Radio (UK) https://tracker.example.com/f/a/abc [1]",
+          "noon-3pm PST",
+          "wed  Wednesday Night Live on Stanford Radio KZSU 90.1FM 9pm-10pm",
+        ].join("\n")
+      );
+      const merged = RadioParser.merge(edition, RadioParser.parse(CURATED));
+
+      expect(merged.shows.map((s) => s.id)).toEqual(["losin-it-with-luscious", "wednesday-night-live"]);
+      expect(merged.shows[0]).toMatchObject({ endTime: "15:00", url: "https://mmhradio.co.uk" });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Test suite for the latest.txt review session
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ReviewSession } from "@/lib/etl/review.js";
+import { CorrectionEngine } from "@/lib/etl/corrections.js";
+
+describe("ReviewSession", () => {
+  describe("session", () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = mkdtempSync(join(tmpdir(), "zivv-review-"));
+      writeFileSync(
+        join(dataDir, "latest.txt"),
+        `aug 21 fri Crimpshrine
+at Gilman, Berkeley a/a $12 5pm
+
+aug 22 sat Operation Ivy
+at 2708 Channing Way, Berkeley a/a $12 5pm
+`
+      );
+      writeFileSync(join(dataDir, "venues.txt"), "Gilman, 924 Gilman St. at 8th, Berkeley a/a\n");
+      writeFileSync(join(dataDir, "venue-aliases.json"), JSON.stringify({ "gilman st.": "Gilman" }));
+      writeFileSync(join(dataDir, "line-corrections.json"), "[]");
+    });
+
+    afterEach(() => {
+      rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it("should queue the address-only venues", () => {
+      const session = new ReviewSession(dataDir);
+      session.load();
+
+      const addressOnly = session.items.filter((item) => item.kind === "address-only");
+      expect(addressOnly).toHaveLength(1);
+    });
+
+    it("should write new aliases sorted with the existing ones", () => {
+      const session = new ReviewSession(dataDir);
+      session.load();
+      session.addAlias(["2708 Channing Way"], "Ashkenaz");
+      session.save();
+
+      const aliases = JSON.parse(readFileSync(join(dataDir, "venue-aliases.json"), "utf-8"));
+      expect(Object.keys(aliases)).toEqual(["2708 channing way", "gilman st."]);
+      expect(session.getSummary().aliases).toBe(1);
+    });
+
+    it("should write corrections with the item as their example", () => {
+      const session = new ReviewSession(dataDir);
+      session.load();
+
+      expect(() =>
+        session.addCorrection({ kind: "pattern", note: "bad", pattern: "at (Gilman", replacement: "" }, "at Gilman")
+      ).toThrow();
+      expect(() =>
+        session.addCorrection({ kind: "pattern", note: "no-op", pattern: "Ashkenaz", replacement: "x" }, "at Gilman")
+      ).toThrow(/doesn't change/);
+      const rule = session.addCorrection(
+        { kind: "pattern", note: "Address for Ashkenaz", pattern: "at 2708 Channing Way", replacement: "at Ashkenaz" },
+        "at 2708 Channing Way"
+      );
+      session.save();
+
+      const corrections = JSON.parse(readFileSync(join(dataDir, "line-corrections.json"), "utf-8"));
+      expect(corrections).toEqual([rule]);
+      expect(rule).toMatchObject({
+        id: "at-2708-channing-way",
+        kind: "pattern",
+        example: { input: "at 2708 Channing Way", output: "at Ashkenaz" },
+      });
+    });
+
+    it("should write typed corrections", () => {
+      const session = new ReviewSession(dataDir);
+      session.load();
+
+      const city = session.addCorrection(
+        { kind: "venue-city", venue: "Hopmonk Tavern", cities: ["Novato"] },
+        "aug 22 sat Tiny Moving Parts\nat Hopmonk Tavern Novato 21+ $20 8pm"
+      );
+      const artist = session.addCorrection(
+        { kind: "artist-name", misspelling: "Operation Ivey", name: "Operation Ivy" },
+        "aug 22 sat Operation Ivey at Ashkenaz, Berkeley a/a $12 5pm"
+      );
+      expect(() =>
+        session.addCorrection(
+          { kind: "venue-name", misspelling: "Operation Ivey", name: "Operation Ivy" },
+          "aug 22 sat Operation Ivey at Ashkenaz, Berkeley a/a $12 5pm"
+        )
+      ).toThrow(/doesn't change/);
+
+      expect(city).toMatchObject({
+        id: "hopmonk-tavern-novato",
+        kind: "venue-city",
+        example: {
+          input: "aug 22 sat Tiny Moving Parts at Hopmonk Tavern Novato 21+ $20 8pm",
+          output: "aug 22 sat Tiny Moving Parts at Hopmonk Tavern, Novato 21+ $20 8pm",
+        },
+      });
+      expect(artist).toMatchObject({
+        id: "operation-ivey",
+        kind: "artist-name",
+        example: { output: "aug 22 sat Operation Ivy at Ashkenaz, Berkeley a/a $12 5pm" },
+      });
+    });
+
+    it("should save a hand edit as an override of the whole entry", () => {
+      const session = new ReviewSession(dataDir);
+      session.load();
+
+      const rule = session.overrideLine(
+        "aug 22 sat Operation Ivy\nat 2708 Channing Way, Berkeley a/a $12 5pm",
+        "aug 22 sat Operation Ivy\nat Ashkenaz, Berkeley a/a $12 5pm"
+      );
+
+      expect(rule).toMatchObject({
+        kind: "line-override",
+        hash: CorrectionEngine.hashLine("aug 22 sat Operation Ivy at 2708 Channing Way, Berkeley a/a $12 5pm"),
+        line: "aug 22 sat Operation Ivy at Ashkenaz, Berkeley a/a $12 5pm",
+      });
+      expect(() => session.overrideLine("aug 1 fri X", "aug 1 fri  X")).toThrow();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Test suite for querying the data worker from the list pages
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useEventQuery } from "@/hooks/useFilteredEvents";
+import type { Event, EventId } from "@/types/events";
+
+const event = { id: 1 as EventId, dateEpochMs: 0 } as Event;
+
+const mockStoreState = {
+  events: new Map([[event.id, event]]),
+  artists: new Map(),
+  venues: new Map(),
+  queryEvents: vi.fn(),
+};
+const mockFilterState = { filters: {}, searchQuery: "" };
+
+vi.mock("@/stores/appStore.js", () => ({
+  useAppStore: Object.assign(
+    (selector: (state: typeof mockStoreState) => unknown) => selector(mockStoreState),
+    { getState: () => mockStoreState }
+  ),
+}));
+
+vi.mock("@/stores/filterStore.js", () => ({
+  useFilterStore: (selector: (state: typeof mockFilterState) => unknown) => selector(mockFilterState),
+}));
+
+describe("useEventQuery", () => {
+  beforeEach(() => {
+    mockStoreState.queryEvents.mockReset();
+  });
+
+  it("should return the page the worker matched", async () => {
+    mockStoreState.queryEvents.mockResolvedValue({ ids: [event.id], total: 3 });
+    const { result } = renderHook(() => useEventQuery({ limit: 1 }));
+
+    await waitFor(() => expect(result.current.pending).toBe(false));
+    expect(result.current.events).toEqual([event]);
+    expect(result.current.total).toBe(3);
+    expect(result.current.error).toBeNull();
+    expect(mockStoreState.queryEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 1 }),
+      expect.any(AbortSignal)
+    );
+  });
+
+  it("should stop pending and expose the error when the query fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockStoreState.queryEvents.mockRejectedValue(new Error("worker crashed"));
+    const { result } = renderHook(() => useEventQuery());
+
+    await waitFor(() => expect(result.current.pending).toBe(false));
+    expect(result.current.error?.message).toBe("worker crashed");
+    expect(result.current.events).toEqual([]);
+  });
+
+  it("should load every match without the page limit", async () => {
+    mockStoreState.queryEvents.mockResolvedValue({ ids: [event.id], total: 1 });
+    const { result } = renderHook(() => useEventQuery({ offset: 100, limit: 100 }));
+    await waitFor(() => expect(result.current.pending).toBe(false));
+
+    await expect(result.current.loadAll()).resolves.toEqual([event]);
+    const [query] = mockStoreState.queryEvents.mock.calls.at(-1)!;
+    expect(query).not.toHaveProperty("offset");
+    expect(query).not.toHaveProperty("limit");
+  });
+});
@@ -147,6 +147,12 @@ const createMockDataService = () => ({
   loadVenues: vi.fn().mockResolvedValue(mockVenues),
   loadIndexes: vi.fn().mockResolvedValue(mockIndexes),
   loadChunk: vi.fn().mockResolvedValue(mockEvents),
+  search: vi.fn().mockResolvedValue({
+    query: "punk",
+    events: mockEvents.map((item) => ({ item, score: 1 })),
+    artists: [],
+    venues: [],
+  }),
   searchEvents: vi.fn().mockResolvedValue(mockEvents),
   getCacheStats: vi.fn().mockResolvedValue({ size: 1024, itemCount: 10 }),
   refresh: vi.fn().mockResolvedValue(undefined),
@@ -221,6 +227,7 @@ describe("AppStore", () => {
         lastVisited: Date.now(),
       },
       showUpcomingOnly: true,
+      followedArtistIds: [],
       dataService: null,
       lastUpdated: {
         manifest: null,
@@ -393,6 +400,16 @@ describe("AppStore", () => {
       expect(useAppStore.getState().loading.search).toBe("success");
     });
 
+    it("should return grouped results and keep matched events", async () => {
+      const { search } = useAppStore.getState();
+
+      const results = await search("punk");
+
+      expect(results.events.map((hit) => hit.item)).toEqual(mockEvents);
+      expect(useAppStore.getState().events.get(mockEvents[0].id)).toEqual(mockEvents[0]);
+      expect(useAppStore.getState().loading.search).toBe("success");
+    });
+
     it("should handle search errors", async () => {
       const state = useAppStore.getState();
       const mockDataService = state.dataService as any;
@@ -532,6 +549,46 @@ describe("AppStore", () => {
     });
   });
 
+  describe("followed artists", () => {
+    it("should follow and unfollow an artist", () => {
+      const { toggleFollowArtist } = useAppStore.getState();
+
+      toggleFollowArtist(1 as any);
+      toggleFollowArtist(2 as any);
+      expect(useAppStore.getState().followedArtistIds).toEqual([1, 2]);
+
+      toggleFollowArtist(1 as any);
+      expect(useAppStore.getState().followedArtistIds).toEqual([2]);
+    });
+
+    it("should load the chunks holding an artist's upcoming shows", async () => {
+      await useAppStore.getState().initialize();
+      const dataService = useAppStore.getState().dataService!;
+      const january = Date.UTC(2024, 0, 1);
+      useAppStore.setState({
+        manifest: {
+          chunks: {
+            events: [
+              { chunkId: "2024-01", dateRange: { startEpochMs: january, endEpochMs: Date.UTC(2024, 0, 31) } },
+              { chunkId: "2024-02", dateRange: { startEpochMs: Date.UTC(2024, 1, 1), endEpochMs: Date.UTC(2024, 1, 29) } },
+            ],
+          },
+        } as any,
+        artists: new Map([
+          [2 as any, { ...mockArtists[1], upcomingEvents: [{ id: 2 as any, dateEpochMs: january }] } as any],
+        ]),
+        events: new Map(),
+        loadedChunks: new Set(),
+      });
+
+      const events = await useAppStore.getState().loadArtistEvents([2 as any]);
+
+      expect(dataService.loadChunk).toHaveBeenCalledTimes(1);
+      expect(dataService.loadChunk).toHaveBeenCalledWith("2024-01");
+      expect(events.map((event) => event.id)).toEqual([2]);
+    });
+  });
+
   describe("error handling", () => {
     it("should clear specific error", () => {
       // Set an error first
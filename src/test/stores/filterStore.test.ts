@@ -4,11 +4,14 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { useFilterStore } from "@/stores/filterStore";
+import { getTransitAnchor } from "@/utils/transit";
+import { persist } from "zustand/middleware";
 import type { EventFilters } from "@/types/events";
 
-// Mock zustand devtools middleware
+// Mock zustand devtools and persist middleware
 vi.mock("zustand/middleware", () => ({
   devtools: vi.fn((fn) => fn),
+  persist: vi.fn((fn) => fn),
 }));
 
 describe("FilterStore", () => {
@@ -272,6 +275,46 @@ describe("FilterStore", () => {
       expect(state.filters.isFree).toBe(true);
     });
 
+    it("should round-trip the distance filter through the URL", () => {
+      const { updateFilter, syncToURL, syncFromURL, clearFilters } =
+        useFilterStore.getState();
+
+      updateFilter("distance", {
+        anchor: getTransitAnchor("bart:19th-st")!,
+        radiusMiles: 2,
+      });
+      const params = syncToURL();
+      expect(params.get("near")).toBe("bart:19th-st");
+      expect(params.get("radius")).toBe("2");
+
+      clearFilters();
+      syncFromURL(new URLSearchParams("near=bart:macarthur&radius=0.5"));
+      const { distance } = useFilterStore.getState().filters;
+      expect(distance?.anchor.label).toBe("MacArthur");
+      expect(distance?.radiusMiles).toBe(0.5);
+
+      clearFilters();
+      syncFromURL(new URLSearchParams("near=bart:nowhere&radius=1"));
+      expect(useFilterStore.getState().filters.distance).toBeUndefined();
+    });
+
+    it("should keep the browser's location out of the URL and storage", () => {
+      const { updateFilter, syncToURL } = useFilterStore.getState();
+
+      updateFilter("distance", {
+        anchor: { id: "here", label: "My location", lat: 37.80441, lng: -122.27119 },
+        radiusMiles: 2,
+      });
+      const params = syncToURL();
+      expect(params.has("near")).toBe(false);
+      expect(params.has("radius")).toBe(false);
+
+      const { partialize } = vi.mocked(persist).mock.calls[0][1]!;
+      const persisted = partialize!(useFilterStore.getState()) as ReturnType<typeof useFilterStore.getState>;
+      expect(persisted.filters.distance).toBeUndefined();
+      expect(useFilterStore.getState().filters.distance?.radiusMiles).toBe(2);
+    });
+
     it("should handle empty URL parameters", () => {
       const { syncFromURL } = useFilterStore.getState();
 
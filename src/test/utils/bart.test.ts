@@ -0,0 +1,37 @@
+/**
+ * Test suite for the last-BART cutoff
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Event } from "@/types/events.js";
+import { endsBeforeBartCloses } from "@/utils/bart.js";
+
+const makeEvent = (end?: [number, number], start: [number, number] | null = [20, 0]): Event =>
+  ({
+    id: "e",
+    slug: "e",
+    date: "2026-04-24",
+    dateEpochMs: Date.UTC(2026, 3, 24),
+    startTimeEpochMs: start ? Date.UTC(2026, 3, 24, start[0], start[1]) : undefined,
+    endTimeEpochMs: end ? Date.UTC(2026, 3, 24, end[0], end[1]) : undefined,
+    isFree: false,
+    tags: [],
+    status: "confirmed",
+  }) as Event;
+
+describe("endsBeforeBartCloses", () => {
+  it("should keep shows that end with time to reach the platform", () => {
+    expect(endsBeforeBartCloses(makeEvent([22, 0]))).toBe(true);
+    expect(endsBeforeBartCloses(makeEvent([23, 30]))).toBe(true);
+    expect(endsBeforeBartCloses(makeEvent([23, 45]))).toBe(false);
+  });
+
+  it("should drop shows that run past midnight or have no known end", () => {
+    expect(endsBeforeBartCloses(makeEvent([25, 0]))).toBe(false);
+    expect(endsBeforeBartCloses(makeEvent())).toBe(false);
+  });
+
+  it("should drop untimed shows whose curfew landed at the start of their day", () => {
+    expect(endsBeforeBartCloses(makeEvent([0, 0], null))).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Test suite for calendar date math and timeline layout
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Event } from "@/types/events.js";
+import {
+  addMonths,
+  chunkIdsForRange,
+  formatPeriodTitle,
+  getEndMinutes,
+  getMonthGridKeys,
+  getStartMinutes,
+  getWeekKeys,
+  groupEventsByDate,
+  layoutDayTimeline,
+} from "@/utils/calendar.js";
+
+const makeEvent = (id: string, date: string, time?: [number, number]): Event => {
+  const [y, m, d] = date.split("-").map(Number);
+  return {
+    id,
+    slug: id,
+    date,
+    dateEpochMs: Date.UTC(y, m - 1, d),
+    startTimeEpochMs: time ? Date.UTC(y, m - 1, d, time[0], time[1]) : undefined,
+    headlinerArtistId: "artist-1",
+    artistIds: ["artist-1"],
+    venueId: "venue-1",
+    isFree: false,
+    tags: [],
+    status: "confirmed",
+    sourceLineNumber: 1,
+    createdAtEpochMs: 0,
+    updatedAtEpochMs: 0,
+  } as Event;
+};
+
+describe("calendar utils", () => {
+  describe("date math", () => {
+    it("should clamp the day when moving by months", () => {
+      expect(addMonths("2026-01-31", 1)).toBe("2026-02-28");
+      expect(addMonths("2026-03-15", -3)).toBe("2025-12-15");
+    });
+
+    it("should start weeks on Sunday", () => {
+      const week = getWeekKeys("2026-04-22"); // Wednesday
+      expect(week[0]).toBe("2026-04-19");
+      expect(week[6]).toBe("2026-04-25");
+    });
+
+    it("should cover the month with six full weeks", () => {
+      const keys = getMonthGridKeys("2026-04-22");
+      expect(keys).toHaveLength(42);
+      expect(keys[0]).toBe("2026-03-29");
+      expect(keys).toContain("2026-04-01");
+      expect(keys).toContain("2026-04-30");
+    });
+
+    it("should list month chunks overlapping a range", () => {
+      expect(chunkIdsForRange("2025-11-30", "2026-02-01")).toEqual([
+        "2025-11",
+        "2025-12",
+        "2026-01",
+        "2026-02",
+      ]);
+    });
+  });
+
+  describe("formatPeriodTitle", () => {
+    it("should format month and week titles", () => {
+      expect(formatPeriodTitle("month", "2026-04-22")).toBe("April 2026");
+      expect(formatPeriodTitle("week", "2026-04-22")).toBe("Apr 19 – 25, 2026");
+      expect(formatPeriodTitle("week", "2026-04-29")).toBe("Apr 26 – May 2, 2026");
+      expect(formatPeriodTitle("week", "2025-12-31")).toBe("Dec 28, 2025 – Jan 3, 2026");
+    });
+  });
+
+  describe("groupEventsByDate", () => {
+    it("should sort each day by start time with untimed shows last", () => {
+      const groups = groupEventsByDate([
+        makeEvent("late", "2026-04-22", [21, 0]),
+        makeEvent("tba", "2026-04-22"),
+        makeEvent("early", "2026-04-22", [19, 30]),
+        makeEvent("other", "2026-04-23", [20, 0]),
+      ]);
+
+      expect(groups.get("2026-04-22")!.map((e) => e.id)).toEqual(["early", "late", "tba"]);
+      expect(groups.get("2026-04-23")).toHaveLength(1);
+    });
+  });
+
+  describe("timeline layout", () => {
+    it("should read the wall-clock start time", () => {
+      expect(getStartMinutes(makeEvent("a", "2026-04-22", [20, 30]))).toBe(20 * 60 + 30);
+      expect(getStartMinutes(makeEvent("b", "2026-04-22"))).toBeNull();
+    });
+
+    it("should put overlapping shows in separate lanes", () => {
+      const blocks = layoutDayTimeline([
+        makeEvent("a", "2026-04-22", [19, 0]),
+        makeEvent("b", "2026-04-22", [20, 0]),
+        makeEvent("c", "2026-04-22", [22, 30]),
+      ]);
+      const byId = Object.fromEntries(blocks.map((b) => [b.event.id, b]));
+
+      expect(byId.a.lane).toBe(0);
+      expect(byId.b.lane).toBe(1);
+      expect(byId.c.lane).toBe(0); // a has ended by 10pm
+      expect(blocks.every((b) => b.laneCount === 2)).toBe(true);
+    });
+
+    it("should keep separate clusters at full width and skip untimed shows", () => {
+      const blocks = layoutDayTimeline(
+        [
+          makeEvent("a", "2026-04-22", [12, 0]),
+          makeEvent("b", "2026-04-22", [20, 0]),
+          makeEvent("tba", "2026-04-22"),
+        ],
+        120
+      );
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks.map((b) => [b.lane, b.laneCount])).toEqual([[0, 1], [0, 1]]);
+      expect(blocks[0].endMinutes).toBe(14 * 60);
+    });
+
+    it("should run shows to their end time", () => {
+      const late = { ...makeEvent("late", "2026-04-22", [21, 0]), endTimeEpochMs: Date.UTC(2026, 3, 23, 1, 0) };
+      const [block] = layoutDayTimeline([late]);
+
+      expect(getEndMinutes(late)).toBe(25 * 60);
+      expect(block.endMinutes).toBe(25 * 60);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Test suite for the distance filter's measurements and transit anchors
+ */
+
+import { describe, it, expect } from "vitest";
+import { distanceMiles, isVenueWithin } from "@/utils/distance.js";
+import { anchorFromParam, anchorToParam, getTransitAnchor } from "@/utils/transit.js";
+import type { Venue, VenueCoordinates } from "@/types/events.js";
+
+const makeVenue = (coordinates?: VenueCoordinates): Venue =>
+  ({ id: "v-1", name: "Test Venue", city: "Oakland", coordinates }) as Venue;
+
+describe("distanceMiles", () => {
+  it("should measure downtown SF to downtown Oakland at about eight miles", () => {
+    const miles = distanceMiles({ lat: 37.7749, lng: -122.4194 }, { lat: 37.8044, lng: -122.2712 });
+    expect(miles).toBeGreaterThan(8);
+    expect(miles).toBeLessThan(9);
+  });
+
+  it("should be zero for the same point", () => {
+    expect(distanceMiles({ lat: 37.8, lng: -122.27 }, { lat: 37.8, lng: -122.27 })).toBe(0);
+  });
+});
+
+describe("isVenueWithin", () => {
+  const macarthur = getTransitAnchor("bart:macarthur")!;
+
+  it("should include venues with exact coordinates inside the radius", () => {
+    const nearby = makeVenue({ lat: 37.8262, lng: -122.2654, precision: "venue" });
+    expect(isVenueWithin(nearby, { anchor: macarthur, radiusMiles: 0.5 })).toBe(true);
+
+    const berkeley = makeVenue({ lat: 37.8689, lng: -122.2689, precision: "venue" });
+    expect(isVenueWithin(berkeley, { anchor: macarthur, radiusMiles: 1 })).toBe(false);
+    expect(isVenueWithin(berkeley, { anchor: macarthur, radiusMiles: 5 })).toBe(true);
+  });
+
+  it("should leave out venues placed at their city's center or not at all", () => {
+    const approximate = makeVenue({ lat: 37.8044, lng: -122.2712, precision: "city" });
+    expect(isVenueWithin(approximate, { anchor: macarthur, radiusMiles: 5 })).toBe(false);
+    expect(isVenueWithin(makeVenue(), { anchor: macarthur, radiusMiles: 5 })).toBe(false);
+    expect(isVenueWithin(undefined, { anchor: macarthur, radiusMiles: 5 })).toBe(false);
+  });
+});
+
+describe("transit anchors", () => {
+  it("should round-trip stations by id", () => {
+    const station = getTransitAnchor("bart:19th-st")!;
+    expect(anchorToParam(station)).toBe("bart:19th-st");
+    expect(anchorFromParam("bart:19th-st")).toBe(station);
+  });
+
+  it("should keep the browser's location out of the URL", () => {
+    expect(anchorToParam({ id: "here", label: "My location", lat: 37.829, lng: -122.2671 })).toBeUndefined();
+    expect(anchorFromParam("37.8290,-122.2671")).toBeUndefined();
+    expect(anchorFromParam("bart:nowhere")).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Test suite for the resident event dataset the data worker queries
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventDataset } from "@/utils/eventDataset.js";
+import { lineupSearchText } from "@/utils/lineup.js";
+import type { Artist, Event, Venue } from "@/types/events.js";
+
+vi.mock("@/utils/lineup.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/utils/lineup.js")>();
+  return { ...original, lineupSearchText: vi.fn(original.lineupSearchText) };
+});
+
+const day = (date: string) => new Date(`${date}T20:00:00`).getTime();
+
+const makeEvent = (id: number, date: string, overrides: Partial<Event> = {}): Event =>
+  ({
+    id,
+    slug: `event-${id}`,
+    date,
+    dateEpochMs: day(date),
+    venueId: 1,
+    headlinerArtistId: 1,
+    artistIds: [1],
+    isFree: false,
+    priceMin: 10,
+    ageRestriction: "21+",
+    tags: [],
+    ...overrides,
+  }) as unknown as Event;
+
+const venues = [
+  { id: 1, name: "Gilman", city: "Berkeley" },
+  { id: 2, name: "Bottom of the Hill", city: "San Francisco" },
+] as unknown as Venue[];
+
+const artists = [
+  { id: 1, name: "The Mummies" },
+  { id: 2, name: "Neil Hamburger" },
+] as unknown as Artist[];
+
+describe("EventDataset", () => {
+  let dataset: EventDataset;
+
+  beforeEach(() => {
+    vi.mocked(lineupSearchText).mockClear();
+    dataset = new EventDataset();
+    dataset.setEntities({ artists, venues });
+    dataset.addEvents([
+      makeEvent(3, "2026-05-03", { venueId: 2 as never }),
+      makeEvent(1, "2026-05-01"),
+      makeEvent(2, "2026-05-02", { isFree: true, priceMin: 0, headlinerArtistId: 2 as never, artistIds: [2 as never] }),
+    ]);
+  });
+
+  it("should return matching IDs in date order with the total", async () => {
+    expect(await dataset.query({})).toEqual({ ids: [1, 2, 3], total: 3 });
+    expect(await dataset.query({ filters: { cities: ["Berkeley"] } })).toEqual({ ids: [1, 2], total: 2 });
+    expect(await dataset.query({ filters: { isFree: true } })).toEqual({ ids: [2], total: 1 });
+    expect(await dataset.query({ query: "hamburger" })).toEqual({ ids: [2], total: 1 });
+    expect(await dataset.query({ fromDate: "2026-05-02" })).toEqual({ ids: [2, 3], total: 2 });
+  });
+
+  it("should sort and page", async () => {
+    expect(await dataset.query({ sortBy: "date", sortOrder: "desc", limit: 2 })).toEqual({ ids: [3, 2], total: 3 });
+    expect(await dataset.query({ offset: 2, limit: 2 })).toEqual({ ids: [3], total: 3 });
+    expect((await dataset.query({ sortBy: "price" }))?.ids[0]).toBe(2);
+    expect((await dataset.query({ sortBy: "venue" }))?.ids).toEqual([3, 1, 2]);
+  });
+
+  it("should only check newly loaded events when the query is unchanged", async () => {
+    await dataset.query({ query: "gilman" });
+    const firstScan = vi.mocked(lineupSearchText).mock.calls.length;
+
+    dataset.addEvents([makeEvent(4, "2026-05-04", { venueId: 2 as never })]);
+    const result = await dataset.query({ query: "gilman" });
+
+    expect(result).toEqual({ ids: [1, 2], total: 2 });
+    expect(vi.mocked(lineupSearchText).mock.calls.length - firstScan).toBe(1);
+  });
+
+  it("should recheck only earlier matches when the search gets longer", async () => {
+    await dataset.query({ query: "the" });
+    vi.mocked(lineupSearchText).mockClear();
+
+    const result = await dataset.query({ query: "the lineup" });
+
+    expect(result).toEqual({ ids: [], total: 0 });
+    // Event 2 didn't match "the" and isn't looked at again
+    expect(vi.mocked(lineupSearchText)).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(lineupSearchText)).not.toHaveBeenCalledWith(expect.objectContaining({ id: 2 }));
+  });
+
+  it("should start over when venues change", async () => {
+    await dataset.query({ filters: { cities: ["San Francisco"] } });
+    dataset.setEntities({ venues: venues.map((v) => ({ ...v, city: "San Francisco" })) });
+
+    expect((await dataset.query({ filters: { cities: ["San Francisco"] } }))?.total).toBe(3);
+  });
+
+  it("should stop a long scan once cancelled", async () => {
+    dataset.addEvents(Array.from({ length: 4500 }, (_, i) => makeEvent(100 + i, "2026-06-01")));
+    let cancelled = false;
+
+    const running = dataset.query({ query: "nothing matches this" }, () => cancelled);
+    cancelled = true;
+
+    expect(await running).toBeNull();
+    // The cancelled scan isn't reused
+    expect((await dataset.query({ query: "nothing matches this" }))?.total).toBe(0);
+  });
+});
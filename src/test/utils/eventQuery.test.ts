@@ -0,0 +1,196 @@
+/**
+ * Test suite for the shared event query engine
+ * One table of filters runs against every view: the events list, the worker's
+ * resident dataset, and the show summaries the artists and venues pages list.
+ * Each view has to land on the same events for every row.
+ */
+
+import { describe, it, expect } from "vitest";
+import { EventQuery } from "@/utils/eventQuery.js";
+import { EventDataset } from "@/utils/eventDataset.js";
+import { getTransitAnchor } from "@/utils/transit.js";
+import type {
+  Artist,
+  ArtistUpcomingEvent,
+  Event,
+  EventId,
+  SearchQuery,
+  Venue,
+  VenueUpcomingEvent,
+} from "@/types/events.js";
+
+const noonUtc = (date: string) => Date.parse(`${date}T12:00:00Z`);
+
+const venues = [
+  { id: 1, name: "Gilman", city: "Berkeley", ageRestriction: "all ages" },
+  { id: 2, name: "Bottom of the Hill", city: "S.f", ageRestriction: "21+" },
+  {
+    id: 3,
+    name: "The Chapel",
+    city: "San Francisco",
+    ageRestriction: "18+",
+    coordinates: { lat: 37.8262, lng: -122.2654, precision: "venue" },
+  },
+] as unknown as Venue[];
+
+const artists = [
+  { id: 1, name: "The Mummies" },
+  { id: 2, name: "Neil Hamburger" },
+  { id: 3, name: "Shannon and the Clams" },
+] as unknown as Artist[];
+
+const makeEvent = (id: number, date: string, venueId: number, artistIds: number[], overrides: Partial<Event> = {}): Event =>
+  ({
+    id,
+    slug: `event-${id}`,
+    date,
+    dateEpochMs: noonUtc(date),
+    venueId,
+    headlinerArtistId: artistIds[0],
+    artistIds,
+    isFree: false,
+    ageRestriction: venues.find((v) => v.id === (venueId as never))!.ageRestriction,
+    tags: [],
+    ...overrides,
+  }) as unknown as Event;
+
+const events = [
+  makeEvent(1, "2026-05-01", 1, [1], { isFree: true, tags: ["free"] }),
+  makeEvent(2, "2026-05-02", 2, [2, 1], { priceMin: 15, advisories: { noInsOuts: true } as Event["advisories"] }),
+  makeEvent(3, "2026-05-03", 3, [3], { priceMin: 25, priceMax: 30 }),
+  makeEvent(4, "2026-05-10", 2, [3], { priceMin: 12 }),
+];
+
+const venueOf = (event: Event) => venues.find((v) => v.id === event.venueId)!;
+const artistOf = (id: unknown) => artists.find((a) => a.id === id);
+
+// The summaries the ETL embeds in artists and venues
+const venueShow = (event: Event): VenueUpcomingEvent =>
+  ({
+    id: event.id,
+    slug: event.slug,
+    dateEpochMs: event.dateEpochMs,
+    headlinerName: artistOf(event.headlinerArtistId)!.name,
+    isFree: event.isFree,
+    isSoldOut: false,
+    priceMin: event.priceMin,
+    priceMax: event.priceMax,
+  }) as VenueUpcomingEvent;
+
+const artistShow = (event: Event): ArtistUpcomingEvent =>
+  ({
+    ...venueShow(event),
+    venueId: event.venueId,
+    venueName: venueOf(event).name,
+    venueCity: venueOf(event).city,
+  }) as ArtistUpcomingEvent;
+
+const context = {
+  venue: (id: unknown) => venues.find((v) => v.id === id),
+  artist: artistOf,
+};
+
+interface Row {
+  name: string;
+  query: SearchQuery;
+  ids: number[];
+  eventOnly?: boolean; // needs facts the show summaries don't carry
+}
+
+const ROWS: Row[] = [
+  { name: "no filters", query: {}, ids: [1, 2, 3, 4] },
+  { name: "city, raw venue spelling", query: { filters: { cities: ["San Francisco"] } }, ids: [2, 3, 4] },
+  { name: "city, abbreviated filter", query: { filters: { cities: ["Berkeley", "S.F."] } }, ids: [1, 2, 3, 4] },
+  { name: "single day", query: { filters: { dates: ["2026-05-02"] } }, ids: [2] },
+  { name: "date range, inclusive", query: { filters: { dateRange: { startDate: "2026-05-02", endDate: "2026-05-03" } } }, ids: [2, 3] },
+  { name: "open-ended range", query: { filters: { dateRange: { startDate: "2026-05-03" } } }, ids: [3, 4] },
+  { name: "from today", query: { fromDate: "2026-05-03" }, ids: [3, 4] },
+  { name: "venue", query: { filters: { venues: ["Bottom of the Hill"] } }, ids: [2, 4] },
+  { name: "free", query: { filters: { isFree: true } }, ids: [1] },
+  { name: "price cap", query: { filters: { priceRange: { max: 15 } } }, ids: [1, 2, 4] },
+  { name: "price floor", query: { filters: { priceRange: { min: 20 } } }, ids: [3] },
+  { name: "all ages", query: { filters: { ageRestrictions: ["all-ages"] } }, ids: [1] },
+  { name: "21 and over", query: { filters: { ageRestrictions: ["21+"] } }, ids: [2, 4] },
+  { name: "18 and over or all ages", query: { filters: { ageRestrictions: ["18+", "all-ages"] } }, ids: [1, 3] },
+  {
+    name: "distance",
+    query: { filters: { distance: { anchor: getTransitAnchor("bart:macarthur")!, radiusMiles: 0.5 } } },
+    ids: [3],
+  },
+  {
+    name: "city and range together",
+    query: { filters: { cities: ["San Francisco"], dateRange: { startDate: "2026-05-01", endDate: "2026-05-05" } } },
+    ids: [2, 3],
+  },
+  { name: "search by headliner", query: { query: "clams" }, ids: [3, 4] },
+  { name: "search by venue", query: { query: "gilman" }, ids: [1] },
+  { name: "search by supporting act", query: { query: "mummies" }, ids: [1, 2], eventOnly: true },
+  { name: "tag", query: { filters: { tags: ["free"] } }, ids: [1], eventOnly: true },
+  { name: "advisory", query: { filters: { advisories: ["noInsOuts"] } }, ids: [2], eventOnly: true },
+];
+
+const sorted = (ids: Iterable<EventId | number>) => [...ids].map(Number).sort((a, b) => a - b);
+
+describe("EventQuery", () => {
+  describe.each(ROWS)("$name", ({ query, ids, eventOnly }) => {
+    const engine = new EventQuery(query, context as never);
+
+    it("should match on the events list", () => {
+      expect(sorted(engine.run(events).items.map((e) => e.id))).toEqual(ids);
+    });
+
+    it("should match in the worker's dataset", async () => {
+      const dataset = new EventDataset();
+      dataset.setEntities({ artists, venues });
+      dataset.addEvents(events);
+      expect(sorted((await dataset.query(query))!.ids)).toEqual(ids);
+    });
+
+    it.skipIf(eventOnly)("should match the shows on the artists page", () => {
+      const shows = new Set<number>();
+      for (const artist of artists) {
+        const upcoming = events.filter((e) => e.artistIds.includes(artist.id)).map(artistShow);
+        for (const show of upcoming) if (engine.matches(show)) shows.add(Number(show.id));
+      }
+      expect(sorted(shows)).toEqual(ids);
+    });
+
+    it.skipIf(eventOnly)("should match the shows on the venues page", () => {
+      const shows = venues.flatMap((venue) =>
+        events
+          .filter((e) => e.venueId === venue.id)
+          .map(venueShow)
+          .filter((show) => engine.matches({ ...show, venueId: venue.id }))
+      );
+      expect(sorted(shows.map((s) => s.id))).toEqual(ids);
+    });
+  });
+
+  it("should leave show summaries in when filtering on facts they don't carry", () => {
+    const engine = new EventQuery({ filters: { tags: ["festival"], endsBeforeBart: true } }, context as never);
+    expect(engine.run(events).total).toBe(0);
+    expect(events.map(artistShow).every((show) => engine.matches(show))).toBe(true);
+  });
+
+  it("should sort by price, venue or date and page the result", () => {
+    const byPrice = new EventQuery({ sortBy: "price", sortOrder: "desc" }, context as never);
+    expect(byPrice.run(events).items.map((e) => e.id)).toEqual([3, 2, 4, 1]);
+
+    const byVenue = new EventQuery({ sortBy: "venue" }, context as never);
+    expect(byVenue.run(events).items.map((e) => e.id)).toEqual([2, 4, 1, 3]);
+
+    const page = new EventQuery({ offset: 1, limit: 2 }).run(events);
+    expect(page).toEqual({ items: [events[1], events[2]], total: 4 });
+  });
+
+  it("should report whether anything narrows the list", () => {
+    expect(new EventQuery({ filters: {} }).isFiltering).toBe(false);
+    expect(new EventQuery({ query: "  " }).isFiltering).toBe(false);
+    expect(new EventQuery({ fromDate: "2026-05-01" }).isFiltering).toBe(true);
+  });
+
+  it("should key days by listing date, falling back to the noon UTC timestamp", () => {
+    expect(EventQuery.dateKey({ dateEpochMs: noonUtc("2026-12-31") })).toBe("2026-12-31");
+    expect(EventQuery.dateKey({ date: "2026-05-01", dateEpochMs: 0 })).toBe("2026-05-01");
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Test suite for the venue map's projection and clustering
+ */
+
+import { describe, it, expect } from "vitest";
+import { MAP_BOUNDS, MAP_HEIGHT, MAP_WIDTH, clusterPins, project } from "@/utils/map.js";
+
+describe("project", () => {
+  it("should map the bounds onto the viewBox corners", () => {
+    expect(project({ lat: MAP_BOUNDS.north, lng: MAP_BOUNDS.west })).toEqual({ x: 0, y: 0 });
+    const corner = project({ lat: MAP_BOUNDS.south, lng: MAP_BOUNDS.east });
+    expect(corner.x).toBeCloseTo(MAP_WIDTH);
+    expect(corner.y).toBeCloseTo(MAP_HEIGHT, 0);
+  });
+
+  it("should put Oakland east of San Francisco and San Jose south of both", () => {
+    const sf = project({ lat: 37.7749, lng: -122.4194 });
+    const oakland = project({ lat: 37.8044, lng: -122.2712 });
+    const sanJose = project({ lat: 37.3382, lng: -121.8863 });
+    expect(oakland.x).toBeGreaterThan(sf.x);
+    expect(sanJose.y).toBeGreaterThan(oakland.y);
+  });
+});
+
+describe("clusterPins", () => {
+  const pins = [
+    { x: 100, y: 100, item: "a" },
+    { x: 110, y: 105, item: "b" },
+    { x: 300, y: 300, item: "c" },
+  ];
+
+  it("should merge pins within the radius and place the cluster at their average", () => {
+    const clusters = clusterPins(pins, 20);
+    expect(clusters).toEqual([
+      { x: 105, y: 102.5, items: ["a", "b"] },
+      { x: 300, y: 300, items: ["c"] },
+    ]);
+  });
+
+  it("should split clusters apart as the radius shrinks with zoom", () => {
+    expect(clusterPins(pins, 5)).toHaveLength(3);
+    expect(clusterPins(pins, 400)).toHaveLength(1);
+  });
+
+  it("should find a cluster seeded in a neighboring grid cell", () => {
+    const clusters = clusterPins([
+      { x: 19, y: 0, item: "a" },
+      { x: 21, y: 0, item: "b" },
+    ], 20);
+    expect(clusters).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Test suite for the radio page's Pacific-time schedule helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import type { RadioShow } from "@/types/events.js";
+import { airsTonight, formatShowTime, isOnAir, pacificClock } from "@/utils/radio.js";
+
+const makeShow = (dayOfWeek: number, startTime: string, endTime?: string): RadioShow => ({
+  id: "show",
+  name: "Show",
+  station: "KALX",
+  recurrence: { frequency: "weekly", interval: 1, dayOfWeek },
+  startTime,
+  endTime,
+});
+
+describe("pacificClock", () => {
+  it("should read the day and time in Pacific time", () => {
+    // Tuesday 02:30 UTC is Monday 7:30pm PDT
+    expect(pacificClock(new Date(Date.UTC(2026, 7, 25, 2, 30)))).toEqual({ dayOfWeek: 1, minutes: 19 * 60 + 30 });
+  });
+});
+
+describe("isOnAir", () => {
+  it("should cover the show's slot, including past midnight", () => {
+    const show = makeShow(6, "21:00", "00:00"); // sat 9pm-midnight
+    expect(isOnAir(show, { dayOfWeek: 6, minutes: 23 * 60 })).toBe(true);
+    expect(isOnAir(show, { dayOfWeek: 0, minutes: 0 })).toBe(false);
+    expect(isOnAir(makeShow(6, "23:00", "01:00"), { dayOfWeek: 0, minutes: 30 })).toBe(true);
+  });
+
+  it("should give shows without an end time an hour", () => {
+    const show = makeShow(0, "12:30");
+    expect(isOnAir(show, { dayOfWeek: 0, minutes: 13 * 60 })).toBe(true);
+    expect(isOnAir(show, { dayOfWeek: 0, minutes: 13 * 60 + 30 })).toBe(false);
+  });
+});
+
+describe("airsTonight", () => {
+  it("should include later shows through the early morning", () => {
+    const clock = { dayOfWeek: 0, minutes: 20 * 60 }; // sunday 8pm
+    expect(airsTonight(makeShow(0, "22:00", "00:00"), clock)).toBe(true);
+    expect(airsTonight(makeShow(1, "00:00", "02:00"), clock)).toBe(true);
+    expect(airsTonight(makeShow(0, "18:00", "19:00"), clock)).toBe(false);
+    expect(airsTonight(makeShow(1, "18:00", "19:00"), clock)).toBe(false);
+  });
+});
+
+describe("formatShowTime", () => {
+  it("should name noon and midnight", () => {
+    expect(formatShowTime(makeShow(6, "21:00", "00:00"))).toBe("9pm-midnight");
+    expect(formatShowTime(makeShow(1, "12:00", "14:00"))).toBe("noon-2pm");
+    expect(formatShowTime(makeShow(0, "12:30"))).toBe("12:30pm");
+  });
+});
@@ -5,6 +5,9 @@ import type {
   EventId,
   ArtistId,
   VenueId,
+  BayAreaRegion,
+  RadioShow,
+  RadioLink,
 } from "./events.js";
 
 // Data manifest - describes the structure and metadata of processed data
@@ -33,6 +36,14 @@ export interface DataManifest {
     artists: FileInfo;
     venues: FileInfo;
     indexes: FileInfo;
+    search?: {
+      documents: FileInfo; // search-documents.json
+      terms: FileInfo; // search-terms.json
+    };
+    history?: FileInfo; // history.json
+    radio?: FileInfo; // radio.json
+    redirects?: FileInfo; // redirects.json
+    delta?: FileInfo; // delta.json
   };
 
   // Processing metadata
@@ -58,6 +69,21 @@ export interface ChunkInfo {
   };
 }
 
+// Which files changed since the previous dataset version (delta.json), so
+// clients can keep cached copies of the rest
+export interface DeltaManifest {
+  datasetVersion: string;
+  previousVersion: string | null; // null on a first run
+  files: Record<string, FileDelta>; // by filename, every file this version publishes
+  removed: string[]; // filenames the previous version had and this one doesn't
+}
+
+export interface FileDelta {
+  checksum: string;
+  previousChecksum: string | null; // null when the file is new in this version
+  changed: boolean;
+}
+
 export interface FileInfo {
   filename: string;
   size: number;
@@ -98,11 +124,14 @@ export interface DataIndexes {
 export interface CityInfo {
   name: string;
   slug: string;
+  county?: string; // from the gazetteer; absent for unknown localities
+  region?: BayAreaRegion;
   eventCount: number;
   venueCount: number;
   upcomingEventCount: number;
 }
 
+// Events are bucketed by entry price: the advance or lowest general-admission ticket
 export interface PriceRangeInfo {
   min: number;
   max: number;
@@ -112,6 +141,7 @@ export interface PriceRangeInfo {
     under50: number;
     under100: number;
     over100: number;
+    payWhatYouCan: number; // donation or sliding scale, also counted by entry price
   };
 }
 
@@ -122,6 +152,76 @@ export interface SearchIndexInfo {
   size: number; // bytes
 }
 
+// Full-text search index, built by the ETL and loaded on first search
+export type SearchDocumentType = "event" | "artist" | "venue";
+
+export interface SearchDocument {
+  id: number;
+  type: SearchDocumentType;
+  entityId: string;
+  title: string;
+  content: string;
+  city: string;
+  date: string; // YYYY-MM-DD for events, empty otherwise
+  tags: string[];
+  length: number; // token count, for BM25 length normalization
+}
+
+export type SearchPosting = [docId: number, termFrequency: number];
+
+export type SearchTermIndex = Record<string, SearchPosting[]>;
+
+// Per-event change history, diffed between ETL runs and loaded on demand
+export type TrackedEventField = "price" | "lineup" | "ageRestriction" | "status";
+
+export interface EventFieldChange {
+  field: TrackedEventField;
+  before: string; // display text, e.g. "$15 adv / $20 door"
+  after: string;
+}
+
+export interface EventChange {
+  changedAtEpochMs: number; // ingest date of the list edition that carried the change
+  changes: EventFieldChange[];
+}
+
+export type EventHistory = Record<string, EventChange[]>; // event ID -> changes, oldest first
+
+// Radio schedule from the list's "Radio Shows and Other Links" section
+export interface RadioSchedule {
+  shows: RadioShow[]; // by day of week, then start time
+  links: RadioLink[];
+}
+
+// Permanent IDs and slugs, kept between ETL runs in id-registry.json. Artists are
+// keyed by their folded name, venues by normalized name and events by
+// "date|venue|headliner" in the same forms.
+export type EntityKind = "events" | "artists" | "venues";
+
+export interface IdRecord {
+  id: number;
+  slug: string;
+}
+
+export interface IdCollision {
+  kind: EntityKind;
+  key: string;
+  takenBy: string; // key that already held the hash
+  hash: number;
+  id: number; // what the entity was given instead
+}
+
+export interface IdRegistryData {
+  events: Record<string, IdRecord>;
+  artists: Record<string, IdRecord>;
+  venues: Record<string, IdRecord>;
+  redirects: RedirectMap;
+  collisions: IdCollision[];
+}
+
+// Old slug -> current slug, per entity kind (redirects.json)
+export type RedirectMap = Record<EntityKind, Record<string, string>>;
+
 // Full dataset for initial load
 export interface Dataset {
   manifest: DataManifest;
@@ -15,8 +15,14 @@ export interface RawEventData {
 export interface RawVenueData {
   name: string;
   address: string;
+  city?: string; // canonical locality when one could be resolved
   ageRestriction: string;
+  ageRestrictions?: string[]; // every policy listed, in order: ["a/a", "21+"]
   phone?: string;
+  crossStreet?: string; // "20th", from "853 Valencia at 20th"
+  suite?: string; // "Suite D", "Downstairs"
+  notes?: string[]; // "shows over by 10pm", "$5 membership card now required"
+  curfew?: string; // HH:mm, from "(shows over by 10pm)"
   lineNumber: number;
 }
 
@@ -30,17 +36,32 @@ export interface Event {
   startTimeEpochMs?: number;
   timezone: string; // e.g., "America/Los_Angeles"
 
+  // Wall-clock times, HH:mm 24-hour: "7pm/8pm til 11pm" is doors 19:00, show 20:00, end 23:00.
+  // endTime falls back to the venue's curfew; epochs past midnight land on the next day.
+  doorsTime?: string;
+  showTime?: string;
+  endTime?: string;
+  doorsTimeEpochMs?: number;
+  showTimeEpochMs?: number; // same as startTimeEpochMs
+  endTimeEpochMs?: number;
+
   // Artists
   headlinerArtistId: ArtistId;
   artistIds: ArtistId[];
+  lineup?: LineupEntry[]; // one slot per artistIds entry; absent in chunks built before lineups were parsed
 
   // Venue
   venueId: VenueId;
 
+  // Sets, in order; multi-set nights ("7pm and 9:30pm") have one entry per set.
+  // startTimeEpochMs is the first set's show time.
+  performances?: Performance[];
+
   // Event details
-  priceMin?: number;
+  priceMin?: number; // lowest general-admission price, same as price.min
   priceMax?: number;
   isFree: boolean;
+  price?: PriceInfo; // absent in chunks built before tiers were parsed
   ageRestriction: AgeRestriction;
 
   // Optional details
@@ -50,15 +71,112 @@ export interface Event {
 
   // Status and metadata
   status: EventStatus;
+  statusNote?: string; // why a show is off when the listing didn't say, e.g. "Dropped from the Aug 21, 2026 list"
+  movedFrom?: string; // venue text from "(moved from the Regency Ballroom, S.F.)"
+  rescheduledTo?: EventLink; // set on a rescheduled listing
+  rescheduledFrom?: EventLink; // set on the listing it moved to
   tags: EventTag[];
   venueType: VenueType;
+  advisories?: EventAdvisory; // legend symbols; absent in chunks built before they were parsed
 
   // Source tracking
   createdAtEpochMs: number;
   updatedAtEpochMs: number;
+  changedAtEpochMs?: number; // ingest date of the latest change recorded in the event history
   sourceLineNumber: number;
 }
 
+// One set of an event with its own times and availability
+export interface Performance {
+  doorTime?: string; // HH:mm, 24-hour
+  showTime: string; // HH:mm, 24-hour
+  showTimeEpochMs: number; // same UTC-offset convention as Event.startTimeEpochMs
+  endTime?: string; // "til 11pm"
+  endTimeEpochMs?: number;
+  isSoldOut: boolean;
+}
+
+// One act on the bill: "Nekron 99 (album release)", "dj Aaron Axelsen"
+export interface LineupEntry {
+  artistId: ArtistId;
+  name: string; // the artist's resolved name, without notes
+  role: LineupRole;
+  order: number; // billing order, 0 for the act listed first
+  annotations: LineupAnnotation[];
+  notes?: string[]; // other notes as listed: "8:30pm", "comedian"
+}
+
+export type LineupRole = "headliner" | "support" | "dj";
+
+export interface LineupAnnotation {
+  type: LineupAnnotationType;
+  text: string; // as listed: "album release", "solo voice and piano", "feat. Sonny Rollins"
+  subject?: string; // who a tribute is to, or who is featured
+}
+
+export type LineupAnnotationType =
+  | "record-release"
+  | "debut"
+  | "farewell"
+  | "tribute-to"
+  | "reunion"
+  | "solo-set"
+  | "featuring";
+
+// Enough of another event to link to it without loading its chunk
+export interface EventLink {
+  id: EventId;
+  slug: string;
+  date: string; // YYYY-MM-DD
+}
+
+// One listed ticket price; general admission has no label
+export interface PriceTier {
+  amount: number;
+  label?: string; // "vip", "balcony", "2 day pass", ...
+}
+
+// Everything the venue line says about cost: "$64/$74/$84 ($140 vip) (under 21 plus $5)"
+export interface PriceInfo {
+  min?: number; // lowest general-admission price
+  max?: number; // highest general-admission price
+  isFree: boolean;
+  advance?: number; // "$15/$20" is $15 in advance...
+  door?: number; // ...and $20 at the door
+  tiers: PriceTier[]; // general admission first, then labeled tiers from notes
+  vip?: number;
+  isOpenEnded: boolean; // "$35+": more with fees or at the door
+  isDonation: boolean;
+  isSlidingScale: boolean;
+  under21Surcharge?: number; // "(under 21 plus $5)"
+}
+
+// Bay Area locality from the ETL gazetteer
+export type BayAreaRegion =
+  | "sf"
+  | "east-bay"
+  | "south-bay"
+  | "north-bay"
+  | "peninsula"
+  | "santa-cruz";
+
+export interface Locality {
+  name: string; // canonical city name, e.g. "Walnut Creek"
+  slug: string;
+  county: string;
+  region: BayAreaRegion;
+  center: GeoPoint; // downtown, where venues without their own coordinates are placed
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface VenueCoordinates extends GeoPoint {
+  precision: "venue" | "city"; // "city" is the locality's center, until the venue is added to venue-coordinates.json
+}
+
 export interface ArtistUpcomingEvent {
   id: EventId;
   slug: string;
@@ -70,9 +188,12 @@ export interface ArtistUpcomingEvent {
   headlinerName: string;
   isFree: boolean;
   isSoldOut: boolean;
+  status?: EventStatus; // absent in data built before status tracking
   priceMin?: number;
   priceMax?: number;
+  price?: PriceInfo;
   createdAtEpochMs: number;
+  changedAtEpochMs?: number;
 }
 
 export interface Artist {
@@ -100,9 +221,12 @@ export interface VenueUpcomingEvent {
   headlinerName: string;
   isFree: boolean;
   isSoldOut: boolean;
+  status?: EventStatus; // absent in data built before status tracking
   priceMin?: number;
   priceMax?: number;
+  price?: PriceInfo;
   createdAtEpochMs: number;
+  changedAtEpochMs?: number;
 }
 
 export interface Venue {
@@ -114,14 +238,20 @@ export interface Venue {
   // Location
   address: string;
   city: string;
+  crossStreet?: string; // "20th", from "853 Valencia at 20th"
+  suite?: string; // "Suite D", "Downstairs"
   neighborhood?: string;
   zipCode?: string;
+  coordinates?: VenueCoordinates; // absent when the city isn't in the gazetteer either
 
   // Details
   ageRestriction: AgeRestriction;
+  ageRestrictions?: AgeRestriction[]; // every policy from the club info, e.g. a/a and 21+ nights
   capacity?: number;
   phone?: string;
+  notes?: string[]; // free text from the club info: "shows over by 10pm"
   website?: string;
+  curfew?: string; // HH:mm the venue's shows are over by, used when a listing gives no end time
 
   // Computed fields
   upcomingEventCount: number;
@@ -134,6 +264,37 @@ export interface Venue {
   sourceLineNumber: number;
 }
 
+// Weekly radio and public-access TV shows from "Radio Shows and Other Links"
+export interface RadioShow {
+  id: string; // slug of the show name, stable across editions
+  name: string; // "Dead Air"
+  host?: string; // "dj Vicious and dj Tanner"
+  station: string; // "Berkeley Liberation Radio 104.1FM"
+  callSign?: string; // "KALX"
+  frequency?: string; // "90.7 FM"
+  recurrence: RadioRecurrence;
+  startTime: string; // HH:mm Pacific
+  endTime?: string; // HH:mm Pacific; at or before startTime when the show runs past midnight
+  url?: string;
+  archiveUrl?: string; // podcast or playlist page given after the station link
+}
+
+// RRULE-style weekly rule: FREQ=WEEKLY;INTERVAL=2;BYDAY=SU. The list never says
+// which weeks an every-other show airs, so there is no anchor date.
+export interface RadioRecurrence {
+  frequency: "weekly";
+  interval: number; // 1 every week, 2 every other week
+  dayOfWeek: number; // 0 = Sunday
+}
+
+// A station or site listed without a schedule
+export interface RadioLink {
+  name: string;
+  callSign?: string;
+  frequency?: string;
+  url?: string;
+}
+
 // Enums and unions
 export type AgeRestriction =
   | "all-ages"
@@ -163,6 +324,17 @@ export type EventTag =
   | "matinee"
   | "late-show";
 
+// Legend symbols from The List footer, e.g. "7pm/8pm # $"
+export interface EventAdvisory {
+  likelySellout: boolean; // "$" will probably sell out
+  moshPit: boolean; // "@" mosh pit warning
+  under21Surcharge: boolean; // "^" under 21 must pay more
+  noInsOuts: boolean; // "#" no ins/outs
+  starRating?: number; // number of "*" (recommendation stars)
+}
+
+export type AdvisoryFlag = Exclude<keyof EventAdvisory, "starRating">;
+
 export type VenueType =
   | "major"
   | "club"
@@ -198,11 +370,24 @@ export interface EventFilters {
   };
   venueTypes?: VenueType[];
   tags?: EventTag[];
+  advisories?: AdvisoryFlag[]; // events must carry every selected flag
+  endsBeforeBart?: boolean; // only shows known to end in time for the last BART train
+  distance?: {
+    anchor: DistanceAnchor;
+    radiusMiles: number;
+  }; // venues with exact coordinates within the radius
+}
+
+// Point a distance filter measures from, a transit anchor or the browser's location
+export interface DistanceAnchor extends GeoPoint {
+  id: string; // "bart:macarthur", or "here"
+  label: string;
 }
 
 export interface SearchQuery {
   query?: string;
   filters?: EventFilters;
+  fromDate?: string; // only events on or after this "YYYY-MM-DD" day, e.g. today
   sortBy?: "date" | "relevance" | "price" | "venue";
   sortOrder?: "asc" | "desc";
   limit?: number;
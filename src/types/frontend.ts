@@ -68,6 +68,19 @@ export interface SearchState {
   appliedAt: number;
 }
 
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+// Ranked search results grouped by entity type
+export interface SearchResults {
+  query: string;
+  events: SearchHit<Event>[];
+  artists: SearchHit<Artist>[];
+  venues: SearchHit<Venue>[];
+}
+
 export interface FilterState {
   cities: string[];
   dateRange: {
@@ -92,9 +105,11 @@ export interface ViewState {
   lastVisited: number;
 }
 
+export type CalendarView = "month" | "week" | "agenda";
+
 export interface CalendarState {
   currentDate: Date;
-  viewMode: "month" | "week" | "agenda";
+  viewMode: CalendarView;
   selectedDates: Set<string>; // ISO dates
   loadedMonths: Set<string>; // YYYY-MM format
   eventsVisible: boolean;
@@ -123,8 +138,11 @@ export interface DataSnapshot {
 export type WorkerMessageType =
   | "PARSE_JSON"
   | "BUILD_SEARCH_INDEX"
-  | "FILTER_EVENTS"
-  | "SORT_EVENTS"
+  | "LOAD_EVENTS"
+  | "LOAD_ENTITIES"
+  | "RESET_DATASET"
+  | "QUERY_EVENTS"
+  | "CANCEL"
   | "CALCULATE_STATS";
 
 export interface WorkerMessage<T = unknown> {
@@ -146,10 +164,25 @@ export interface ParseJsonPayload {
   expectedType: "events" | "artists" | "venues" | "indexes" | "manifest";
 }
 
-export interface FilterEventsPayload {
+// The worker keeps loaded events, artists, venues and indexes between queries
+export interface LoadEventsPayload {
   events: Event[];
-  filters: EventFilters;
-  searchQuery?: string;
+}
+
+export interface LoadEntitiesPayload {
+  artists?: Artist[];
+  venues?: Venue[];
+  indexes?: DataIndexes;
+}
+
+export interface CancelPayload {
+  requestId: string; // id of the QUERY_EVENTS message to stop
+}
+
+// A page of matching event IDs; QUERY_EVENTS takes a SearchQuery
+export interface EventQueryResult {
+  ids: EventId[];
+  total: number;
 }
 
 // Error types
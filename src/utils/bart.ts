@@ -0,0 +1,27 @@
+/**
+ * Last-train cutoff for the "done before BART closes" filter
+ * Show times are wall-clock minutes after midnight of Event.date, see utils/calendar
+ */
+
+import type { Event } from "@/types/events.js";
+import { getEndMinutes, getStartMinutes } from "./calendar.js";
+
+// BART stops running around midnight every night of the week
+export const BART_CLOSE_MINUTES = 24 * 60;
+
+// Time to get from the venue onto a platform
+export const BART_MARGIN_MINUTES = 30;
+
+/**
+ * Whether a show is known to end in time to catch the last train.
+ * Shows with no start time, or no end time from the listing or the venue's
+ * curfew, don't qualify: an end is only known relative to when the show starts.
+ */
+export function endsBeforeBartCloses(
+  event: Event,
+  marginMinutes = BART_MARGIN_MINUTES
+): boolean {
+  const start = getStartMinutes(event);
+  const end = getEndMinutes(event);
+  return start !== null && end !== null && end > start && end <= BART_CLOSE_MINUTES - marginMinutes;
+}
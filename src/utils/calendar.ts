@@ -0,0 +1,232 @@
+/**
+ * Date math and layout helpers for the calendar views
+ * Days are handled as "YYYY-MM-DD" keys, matching Event.date
+ */
+
+import type { Event } from "@/types/events.js";
+import type { CalendarView } from "@/types/frontend.js";
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Format a local Date as a "YYYY-MM-DD" key
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parse a "YYYY-MM-DD" key as local noon, which is safe across DST changes
+ */
+export function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d, 12);
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Move by whole months, clamping the day ("2026-01-31" + 1 month is "2026-02-28")
+ */
+export function addMonths(key: string, months: number): string {
+  const date = parseDateKey(key);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDay));
+  return toDateKey(date);
+}
+
+/**
+ * Sunday of the week containing the given day
+ */
+export function startOfWeek(key: string): string {
+  return addDays(key, -parseDateKey(key).getDay());
+}
+
+export function getWeekKeys(key: string): string[] {
+  const start = startOfWeek(key);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+/**
+ * Six full weeks covering the month of the given day, Sunday first
+ */
+export function getMonthGridKeys(key: string): string[] {
+  const first = `${key.slice(0, 7)}-01`;
+  const start = startOfWeek(first);
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+export function isSameMonth(a: string, b: string): boolean {
+  return a.slice(0, 7) === b.slice(0, 7);
+}
+
+/**
+ * Toolbar title for a view: "April 2026" for a month, "Apr 19 – 25, 2026" for a week
+ */
+export function formatPeriodTitle(view: CalendarView, key: string): string {
+  const date = parseDateKey(key);
+  if (view === "month") {
+    return date.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  if (view === "agenda") {
+    return `From ${date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`;
+  }
+
+  const week = getWeekKeys(key);
+  const start = parseDateKey(week[0]);
+  const end = parseDateKey(week[6]);
+  const startMonth = start.toLocaleDateString("en-US", { month: "short" });
+  const endMonth = end.toLocaleDateString("en-US", { month: "short" });
+
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${startMonth} ${start.getDate()}, ${start.getFullYear()} – ${endMonth} ${end.getDate()}, ${end.getFullYear()}`;
+  }
+  if (startMonth !== endMonth) {
+    return `${startMonth} ${start.getDate()} – ${endMonth} ${end.getDate()}, ${end.getFullYear()}`;
+  }
+  return `${startMonth} ${start.getDate()} – ${end.getDate()}, ${end.getFullYear()}`;
+}
+
+/**
+ * Month chunk ids ("YYYY-MM") overlapping an inclusive range of days
+ */
+export function chunkIdsForRange(startKey: string, endKey: string): string[] {
+  const ids: string[] = [];
+  let cursor = `${startKey.slice(0, 7)}-01`;
+  while (cursor.slice(0, 7) <= endKey.slice(0, 7)) {
+    ids.push(cursor.slice(0, 7));
+    cursor = addMonths(cursor, 1);
+  }
+  return ids;
+}
+
+/**
+ * Group events by Event.date, each day sorted by start time (untimed shows last)
+ */
+export function groupEventsByDate(events: Event[]): Map<string, Event[]> {
+  const groups = new Map<string, Event[]>();
+  for (const event of events) {
+    const day = groups.get(event.date);
+    if (day) day.push(event);
+    else groups.set(event.date, [event]);
+  }
+  for (const day of groups.values()) {
+    day.sort(
+      (a, b) =>
+        (a.startTimeEpochMs ?? Infinity) - (b.startTimeEpochMs ?? Infinity)
+    );
+  }
+  return groups;
+}
+
+/**
+ * Minutes after midnight of the show's wall-clock start time.
+ * The ETL stores Bay Area local times as UTC offsets from midnight of Event.date.
+ */
+export function getStartMinutes(event: Event): number | null {
+  if (event.startTimeEpochMs === undefined) return null;
+  const start = new Date(event.startTimeEpochMs);
+  return start.getUTCHours() * 60 + start.getUTCMinutes();
+}
+
+/**
+ * Minutes after midnight for an "HH:mm" time such as Event.doorsTime
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after midnight of Event.date that the show ends, past 1440 when it runs
+ * after midnight. Null when neither the listing nor the venue gives an end time.
+ */
+export function getEndMinutes(event: Event): number | null {
+  if (event.endTimeEpochMs === undefined) return null;
+  const [y, m, d] = event.date.split("-").map(Number);
+  return Math.round((event.endTimeEpochMs - Date.UTC(y, m - 1, d)) / MS_PER_MINUTE);
+}
+
+export function formatMinutes(minutes: number): string {
+  const date = new Date(Date.UTC(2000, 0, 1) + minutes * MS_PER_MINUTE);
+  return date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+export interface TimelineBlock {
+  event: Event;
+  startMinutes: number;
+  endMinutes: number;
+  lane: number; // column within the day for overlapping shows
+  laneCount: number;
+}
+
+/**
+ * Lay out one day's timed shows so overlapping ones sit side by side.
+ * Shows run to their end time or curfew, otherwise for a fixed duration.
+ */
+export function layoutDayTimeline(
+  events: Event[],
+  defaultDurationMinutes = 180
+): TimelineBlock[] {
+  const blocks = events
+    .map((event) => ({ event, startMinutes: getStartMinutes(event) }))
+    .filter((b): b is { event: Event; startMinutes: number } => b.startMinutes !== null)
+    .sort((a, b) => a.startMinutes - b.startMinutes)
+    .map((b) => {
+      const end = getEndMinutes(b.event);
+      return {
+        ...b,
+        endMinutes: end !== null && end > b.startMinutes ? end : b.startMinutes + defaultDurationMinutes,
+        lane: 0,
+        laneCount: 1,
+      };
+    });
+
+  // Greedy lane assignment within clusters of overlapping shows
+  let cluster: TimelineBlock[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const closeCluster = () => {
+    for (const block of cluster) block.laneCount = laneEnds.length;
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.startMinutes >= clusterEnd) closeCluster();
+
+    let lane = laneEnds.findIndex((end) => end <= block.startMinutes);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(block.endMinutes);
+    } else {
+      laneEnds[lane] = block.endMinutes;
+    }
+
+    block.lane = lane;
+    cluster.push(block);
+    clusterEnd = Math.max(clusterEnd, block.endMinutes);
+  }
+  closeCluster();
+
+  return blocks;
+}
@@ -0,0 +1,40 @@
+/**
+ * Browser side of the .ics export: downloads and links to the ETL's static feeds
+ * The calendar text itself comes from the ETL's IcsBuilder
+ */
+
+import { IcsBuilder, type IcsOptions } from "@/lib/etl/ics.js";
+import type { Event } from "@/types/events.js";
+
+/**
+ * Absolute link to an event page, for the URL property of exported events
+ */
+export function eventPageUrl(event: Pick<Event, "slug">): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}events/${event.slug}`;
+}
+
+/**
+ * webcal:// link to a feed written by the ETL, e.g. calendars/venues/the-ivy-room.ics
+ */
+export function calendarFeedUrl(kind: "venues" | "cities", slug: string): string {
+  return `webcal://${window.location.host}${import.meta.env.BASE_URL}data/calendars/${kind}/${slug}.ics`;
+}
+
+/**
+ * Save events as an .ics file through a temporary object URL
+ */
+export function downloadIcs(
+  filename: string,
+  events: Event[],
+  options: Omit<IcsOptions, "eventUrl">
+): void {
+  const ics = IcsBuilder.buildCalendar(events, { ...options, eventUrl: eventPageUrl });
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,39 @@
+/**
+ * Distances for the "near me" filter
+ * Great-circle distance between venues and the filter's anchor; only venues
+ * placed by their own coordinates count, since a city-center guess can be
+ * miles off in the East Bay
+ */
+
+import type { EventFilters, GeoPoint, Venue } from "@/types/events.js";
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Radius choices offered by the filter, walking distance up to a short ride
+export const DISTANCE_RADII_MILES = [0.5, 1, 2, 5];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance in miles
+ */
+export function distanceMiles(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Whether a venue is inside the distance filter's radius. Venues without
+ * exact coordinates never are
+ */
+export function isVenueWithin(
+  venue: Venue | undefined,
+  distance: NonNullable<EventFilters["distance"]>
+): boolean {
+  const point = venue?.coordinates;
+  if (!point || point.precision !== "venue") return false;
+  return distanceMiles(point, distance.anchor) <= distance.radiusMiles;
+}
@@ -0,0 +1,166 @@
+/**
+ * Resident event dataset - loaded events, artists, venues and indexes, queried by descriptor
+ * The data worker owns one so pages post a SearchQuery and get a page of event
+ * IDs back instead of shipping every event on each filter change. The matches
+ * of the last query are kept: a newly loaded chunk only has its own events
+ * checked, and a longer search only rechecks the previous matches. What
+ * matches and how it sorts is EventQuery's, the same rules the pages use.
+ */
+
+import type {
+  Artist,
+  ArtistId,
+  Event,
+  EventFilters,
+  EventId,
+  SearchQuery,
+  Venue,
+  VenueId,
+} from "@/types/events.js";
+import type { DataIndexes } from "@/types/data.js";
+import type { EventQueryResult } from "@/types/frontend.js";
+import { EventQuery } from "./eventQuery.js";
+
+// Events matched between checks for cancellation
+const SCAN_SLICE = 2000;
+
+interface MatchSet {
+  key: string; // filters and start day the matches were computed for
+  search: string;
+  entityRevision: number;
+  batches: number; // loaded batches that were checked
+  ids: Set<EventId>;
+}
+
+const yieldToQueue = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export class EventDataset {
+  private events = new Map<EventId, Event>();
+  private order = new Map<EventId, number>(); // load order, the tie-break when sorting
+  private batches: EventId[][] = [];
+  private artists = new Map<ArtistId, Artist>();
+  private venues = new Map<VenueId, Venue>();
+  private indexes: DataIndexes | null = null;
+  private entityRevision = 0;
+  private matches: MatchSet | null = null;
+
+  get size(): number {
+    return this.events.size;
+  }
+
+  /**
+   * Add a chunk, or any other batch of events; events already loaded are replaced
+   */
+  addEvents(events: Event[]): void {
+    const ids: EventId[] = [];
+    for (const event of events) {
+      this.events.set(event.id, event);
+      if (!this.order.has(event.id)) this.order.set(event.id, this.order.size);
+      ids.push(event.id);
+    }
+    this.batches.push(ids);
+  }
+
+  /**
+   * Replace artists, venues or indexes; earlier matches no longer hold
+   */
+  setEntities({ artists, venues, indexes }: { artists?: Artist[]; venues?: Venue[]; indexes?: DataIndexes }): void {
+    if (artists) this.artists = new Map(artists.map((artist) => [artist.id, artist]));
+    if (venues) this.venues = new Map(venues.map((venue) => [venue.id, venue]));
+    if (indexes) this.indexes = indexes;
+    this.entityRevision++;
+    this.matches = null;
+  }
+
+  clear(): void {
+    this.events.clear();
+    this.order.clear();
+    this.batches = [];
+    this.artists.clear();
+    this.venues.clear();
+    this.indexes = null;
+    this.entityRevision++;
+    this.matches = null;
+  }
+
+  /**
+   * Matching event IDs, sorted and paged. Yields between slices of the scan and
+   * resolves to null once isCancelled reports true
+   */
+  async query(query: SearchQuery, isCancelled: () => boolean = () => false): Promise<EventQueryResult | null> {
+    const filters = query.filters ?? {};
+    const key = JSON.stringify([filters, query.fromDate ?? null]);
+    const search = query.query?.toLowerCase().trim() ?? "";
+    const batches = this.batches.length;
+    const previous = this.matches;
+
+    let matched: Set<EventId>;
+    let candidates: EventId[];
+
+    if (
+      previous &&
+      previous.key === key &&
+      previous.entityRevision === this.entityRevision &&
+      search.includes(previous.search)
+    ) {
+      // Same filters: check only what was loaded since, plus the old matches when the search got longer
+      const fresh = this.batches.slice(previous.batches).flat();
+      if (search === previous.search) {
+        matched = new Set(previous.ids);
+        candidates = fresh;
+      } else {
+        matched = new Set();
+        candidates = [...previous.ids, ...fresh];
+      }
+    } else {
+      matched = new Set();
+      candidates = this.indexedCandidates(filters) ?? [...this.events.keys()];
+    }
+
+    const eventQuery = new EventQuery(query, {
+      venue: (id) => this.venues.get(id),
+      artist: (id) => this.artists.get(id),
+    });
+    for (let start = 0; start < candidates.length; start += SCAN_SLICE) {
+      if (start > 0) {
+        await yieldToQueue();
+        if (isCancelled()) return null;
+      }
+      for (const id of candidates.slice(start, start + SCAN_SLICE)) {
+        const event = this.events.get(id);
+        if (event && eventQuery.matches(event)) matched.add(id);
+      }
+    }
+    if (isCancelled()) return null;
+
+    this.matches = { key, search, entityRevision: this.entityRevision, batches, ids: matched };
+
+    const sorted = this.sort([...matched], eventQuery);
+    const offset = query.offset ?? 0;
+    return {
+      ids: query.limit === undefined ? sorted.slice(offset) : sorted.slice(offset, offset + query.limit),
+      total: sorted.length,
+    };
+  }
+
+  /**
+   * Events at the selected venues, from the venue index, so a venue filter
+   * doesn't scan everything loaded
+   */
+  private indexedCandidates(filters: EventFilters): EventId[] | null {
+    if (!filters.venues?.length || !this.indexes?.eventsByVenue) return null;
+    const names = new Set(filters.venues);
+    const ids: EventId[] = [];
+    for (const venue of this.venues.values()) {
+      if (names.has(venue.name)) ids.push(...(this.indexes.eventsByVenue[venue.id] ?? []));
+    }
+    return ids.filter((id) => this.events.has(id));
+  }
+
+  private sort(ids: EventId[], query: EventQuery): EventId[] {
+    return ids
+      .map((id) => this.events.get(id)!)
+      .sort((a, b) => query.compare(a, b) || (this.order.get(a.id) ?? 0) - (this.order.get(b.id) ?? 0))
+      .map((event) => event.id);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * EventQuery - what the toolbar filters, the search box and a sort order mean
+ * Every page and the data worker match events through here so their counts
+ * agree. It takes full events and the upcoming-show summaries embedded in
+ * artists and venues alike: an artist or venue is listed under a filter when
+ * one of its shows would be on the events list. Days compare as "YYYY-MM-DD"
+ * keys and cities by gazetteer locality, so "S.F." and "San Francisco" match.
+ */
+
+import type {
+  AgeRestriction,
+  Artist,
+  ArtistId,
+  Event,
+  SearchQuery,
+  Venue,
+  VenueId,
+} from "@/types/events.js";
+import { PriceUtils } from "@/lib/etl/utils.js";
+import { Gazetteer } from "@/lib/etl/gazetteer.js";
+import { endsBeforeBartCloses } from "./bart.js";
+import { isVenueWithin } from "./distance.js";
+import { lineupSearchText } from "./lineup.js";
+
+/**
+ * A full Event, or an ArtistUpcomingEvent / VenueUpcomingEvent summary (give
+ * venue summaries their venueId). Summaries carry no tags, advisories or end
+ * time, so those filters leave them in; their age policy is the venue's.
+ */
+export type QueryableEvent = Pick<Event, "id" | "dateEpochMs" | "isFree" | "priceMin" | "priceMax" | "price"> &
+  Partial<
+    Pick<
+      Event,
+      | "date"
+      | "venueId"
+      | "ageRestriction"
+      | "tags"
+      | "advisories"
+      | "artistIds"
+      | "headlinerArtistId"
+      | "lineup"
+      | "endTimeEpochMs"
+    >
+  > & {
+    venueName?: string;
+    venueCity?: string;
+    headlinerName?: string;
+  };
+
+// Lookups for facts an event only references
+export interface EventQueryContext {
+  venue?: (id: VenueId) => Venue | undefined;
+  artist?: (id: ArtistId) => Artist | undefined;
+}
+
+type Test = (event: QueryableEvent) => boolean;
+
+// Full events always list their artists; the embedded summaries never do
+const isFullEvent = (event: QueryableEvent): event is QueryableEvent & Event => event.artistIds !== undefined;
+
+export class EventQuery {
+  readonly query: SearchQuery;
+  private readonly context: EventQueryContext;
+  private readonly tests: Test[];
+
+  constructor(query: SearchQuery, context: EventQueryContext = {}) {
+    this.query = query;
+    this.context = context;
+    this.tests = this.compile();
+  }
+
+  /**
+   * Whether any filter, search or start date is set; with none, pages list everything
+   */
+  get isFiltering(): boolean {
+    return this.tests.length > 0;
+  }
+
+  matches(event: QueryableEvent): boolean {
+    return this.tests.every((test) => test(event));
+  }
+
+  /**
+   * Order by the query's sort field, then by date
+   */
+  compare(a: QueryableEvent, b: QueryableEvent): number {
+    const direction = this.query.sortOrder === "desc" ? -1 : 1;
+    const va = this.sortValue(a);
+    const vb = this.sortValue(b);
+    if (va !== vb) return (va < vb ? -1 : 1) * direction;
+    return a.dateEpochMs - b.dateEpochMs;
+  }
+
+  /**
+   * Matching events, sorted and paged, with the total before paging
+   */
+  run<T extends QueryableEvent>(events: Iterable<T>): { items: T[]; total: number } {
+    const matched: T[] = [];
+    for (const event of events) {
+      if (this.matches(event)) matched.push(event);
+    }
+    matched.sort((a, b) => this.compare(a, b));
+
+    const offset = this.query.offset ?? 0;
+    const end = this.query.limit === undefined ? undefined : offset + this.query.limit;
+    return { items: matched.slice(offset, end), total: matched.length };
+  }
+
+  /**
+   * The event's listing day; dateEpochMs is noon UTC on that day
+   */
+  static dateKey(event: Pick<QueryableEvent, "date" | "dateEpochMs">): string {
+    return event.date ?? new Date(event.dateEpochMs).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Gazetteer locality name for a venue city or filter value, else the text as given
+   */
+  static cityName(city: string): string {
+    return Gazetteer.resolve(city)?.name ?? city.trim();
+  }
+
+  /**
+   * Whether an age policy as written ("21+", "a/a", "All Ages") allows the wanted one
+   */
+  static allowsAge(policy: string | undefined, wanted: AgeRestriction | string): boolean {
+    const value = (policy ?? "").toLowerCase();
+    const target = wanted.toLowerCase();
+    if (target === "all-ages" || target === "all ages") {
+      return value.includes("all") || value.includes("a/a");
+    }
+    return value.includes(target);
+  }
+
+  /**
+   * Door price used for price filters and sorting; free is 0, unknown is undefined
+   */
+  static entryPrice(event: QueryableEvent): number | undefined {
+    if (event.isFree) return 0;
+    return PriceUtils.entryPrice(PriceUtils.fromEvent(event));
+  }
+
+  private venueOf(event: QueryableEvent): Venue | undefined {
+    return event.venueId === undefined ? undefined : this.context.venue?.(event.venueId);
+  }
+
+  private sortValue(event: QueryableEvent): number | string {
+    switch (this.query.sortBy) {
+      case "price":
+        return EventQuery.entryPrice(event) ?? 0;
+      case "venue":
+        return (this.venueOf(event)?.name ?? event.venueName ?? "").toLowerCase();
+      default:
+        // Nothing is scored, so relevance falls back to date order
+        return event.dateEpochMs;
+    }
+  }
+
+  private compile(): Test[] {
+    const { filters = {}, fromDate } = this.query;
+    const search = this.query.query?.toLowerCase().trim() ?? "";
+    const tests: Test[] = [];
+
+    if (fromDate) {
+      tests.push((e) => EventQuery.dateKey(e) >= fromDate);
+    }
+    if (filters.cities?.length) {
+      const cities = new Set(filters.cities.map(EventQuery.cityName));
+      tests.push((e) => {
+        const city = this.venueOf(e)?.city ?? e.venueCity;
+        return city !== undefined && cities.has(EventQuery.cityName(city));
+      });
+    }
+    if (filters.dates?.length) {
+      const dates = new Set(filters.dates);
+      tests.push((e) => dates.has(EventQuery.dateKey(e)));
+    }
+    const { startDate, endDate } = filters.dateRange ?? {};
+    if (startDate || endDate) {
+      tests.push((e) => {
+        const day = EventQuery.dateKey(e);
+        return (!startDate || day >= startDate) && (!endDate || day <= endDate);
+      });
+    }
+    if (filters.venues?.length) {
+      const venues = new Set(filters.venues);
+      tests.push((e) => {
+        const name = this.venueOf(e)?.name ?? e.venueName;
+        return name !== undefined && venues.has(name);
+      });
+    }
+    if (filters.isFree) {
+      tests.push((e) => e.isFree);
+    } else if (filters.priceRange?.min !== undefined || filters.priceRange?.max !== undefined) {
+      const { min, max } = filters.priceRange;
+      tests.push((e) => {
+        const price = EventQuery.entryPrice(e) ?? 0;
+        return (min === undefined || price >= min) && (max === undefined || price <= max);
+      });
+    }
+    if (filters.ageRestrictions?.length) {
+      const wanted = filters.ageRestrictions;
+      tests.push((e) => {
+        const venue = this.venueOf(e);
+        const policies = e.ageRestriction
+          ? [e.ageRestriction]
+          : venue?.ageRestrictions ?? (venue ? [venue.ageRestriction] : []);
+        return wanted.some((age) => policies.some((policy) => EventQuery.allowsAge(policy, age)));
+      });
+    }
+    if (filters.tags?.length) {
+      const tags = filters.tags;
+      tests.push((e) => !isFullEvent(e) || tags.some((tag) => e.tags?.includes(tag)));
+    }
+    if (filters.advisories?.length) {
+      const flags = filters.advisories;
+      tests.push((e) => !isFullEvent(e) || flags.every((flag) => e.advisories?.[flag]));
+    }
+    if (filters.endsBeforeBart) {
+      tests.push((e) => !isFullEvent(e) || endsBeforeBartCloses(e));
+    }
+    if (filters.distance) {
+      const distance = filters.distance;
+      tests.push((e) => isVenueWithin(this.venueOf(e), distance));
+    }
+    if (search) {
+      const artistMatches = (id: ArtistId | undefined) =>
+        id !== undefined && !!this.context.artist?.(id)?.name.toLowerCase().includes(search);
+      tests.push((e) =>
+        artistMatches(e.headlinerArtistId) ||
+        !!e.headlinerName?.toLowerCase().includes(search) ||
+        !!e.artistIds?.some(artistMatches) ||
+        !!(this.venueOf(e)?.name ?? e.venueName)?.toLowerCase().includes(search) ||
+        (isFullEvent(e) && lineupSearchText(e).includes(search))
+      );
+    }
+
+    return tests;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Display helpers for shows that are off: cancelled, postponed or moved to another date
+ * Called-off shows stay listed, struck through, rather than silently disappearing
+ */
+
+import type { EventStatus } from "@/types/events.js";
+
+// Full events and the upcoming-event summaries on artists and venues
+type WithStatus = { status?: EventStatus };
+
+const CALLED_OFF: ReadonlySet<EventStatus> = new Set(["cancelled", "postponed", "rescheduled"]);
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  confirmed: "Confirmed",
+  "sold-out": "Sold out",
+  cancelled: "Cancelled",
+  postponed: "Postponed",
+  rescheduled: "Moved",
+};
+
+/**
+ * Whether the show won't happen as listed
+ */
+export function isCalledOff(event: WithStatus): boolean {
+  return event.status !== undefined && CALLED_OFF.has(event.status);
+}
+
+/**
+ * Headliner class for a list row: struck through and dimmed when the show is off
+ */
+export function calledOffClass(event: WithStatus): string {
+  return isCalledOff(event) ? "line-through opacity-60" : "";
+}
+
+/**
+ * " · Cancelled" style suffix for tooltips, empty while the show is on
+ */
+export function statusSuffix(event: WithStatus): string {
+  return event.status && isCalledOff(event) ? ` · ${EVENT_STATUS_LABELS[event.status]}` : "";
+}
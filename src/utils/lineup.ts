@@ -0,0 +1,41 @@
+/**
+ * Display and search helpers for lineup annotations: album releases, debuts,
+ * tributes, solo sets and the rest of what the list notes beside an act
+ */
+
+import type { Event, LineupAnnotationType, LineupEntry } from "@/types/events.js";
+
+export const LINEUP_ANNOTATION_LABELS: Record<LineupAnnotationType, string> = {
+  "record-release": "Record release",
+  debut: "Debut",
+  farewell: "Farewell show",
+  "tribute-to": "Tribute",
+  reunion: "Reunion",
+  "solo-set": "Solo set",
+  featuring: "Featuring",
+};
+
+/**
+ * Lineup slots that carry at least one annotation, in billing order
+ */
+export function annotatedEntries(event: Pick<Event, "lineup">): LineupEntry[] {
+  return (event.lineup ?? []).filter((entry) => entry.annotations.length > 0);
+}
+
+/**
+ * Lowercase text a search query is matched against: each annotation as listed
+ * and by its label, so "record release" finds "(vinyl release)"
+ */
+export function lineupSearchText(event: Pick<Event, "lineup">): string {
+  return annotatedEntries(event)
+    .flatMap((entry) =>
+      entry.annotations.flatMap((annotation) => [
+        annotation.text,
+        LINEUP_ANNOTATION_LABELS[annotation.type],
+        annotation.subject ?? "",
+      ])
+    )
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
@@ -0,0 +1,92 @@
+/**
+ * Projection and clustering for the offline venue map
+ * Coordinates are projected into a fixed SVG viewBox (equirectangular, with
+ * longitude scaled for the Bay Area's latitude); pins within a radius of
+ * each other at the current zoom are drawn as one cluster
+ */
+
+import type { GeoPoint } from "@/types/events.js";
+
+// The area the map shows, Healdsburg to Watsonville
+export const MAP_BOUNDS = { south: 36.85, north: 38.65, west: -123.15, east: -121.55 };
+
+const LNG_SCALE = Math.cos((((MAP_BOUNDS.north + MAP_BOUNDS.south) / 2) * Math.PI) / 180);
+const UNITS_PER_DEGREE = 1000 / ((MAP_BOUNDS.east - MAP_BOUNDS.west) * LNG_SCALE);
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = Math.round((MAP_BOUNDS.north - MAP_BOUNDS.south) * UNITS_PER_DEGREE);
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapCluster<T> extends MapPoint {
+  items: T[];
+}
+
+/**
+ * Position of a coordinate in the map's viewBox
+ */
+export function project(point: GeoPoint): MapPoint {
+  return {
+    x: (point.lng - MAP_BOUNDS.west) * LNG_SCALE * UNITS_PER_DEGREE,
+    y: (MAP_BOUNDS.north - point.lat) * UNITS_PER_DEGREE,
+  };
+}
+
+/**
+ * SVG path for a ring of [lng, lat] pairs
+ */
+export function ringPath(ring: [number, number][]): string {
+  return (
+    ring
+      .map(([lng, lat], i) => {
+        const { x, y } = project({ lat, lng });
+        return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join("") + "Z"
+  );
+}
+
+/**
+ * Group pins that fall within `radius` viewBox units of a cluster's first
+ * pin, in order, and place each cluster at its pins' average position
+ */
+export function clusterPins<T>(pins: (MapPoint & { item: T })[], radius: number): MapCluster<T>[] {
+  const clusters: { seed: MapPoint; pins: (MapPoint & { item: T })[] }[] = [];
+  const cells = new Map<string, typeof clusters>();
+  const cellOf = (p: MapPoint) => [Math.floor(p.x / radius), Math.floor(p.y / radius)];
+
+  for (const pin of pins) {
+    const [cx, cy] = cellOf(pin);
+    let home: (typeof clusters)[number] | undefined;
+    for (let dx = -1; dx <= 1 && !home; dx++) {
+      for (let dy = -1; dy <= 1 && !home; dy++) {
+        home = cells
+          .get(`${cx + dx},${cy + dy}`)
+          ?.find((c) => Math.hypot(c.seed.x - pin.x, c.seed.y - pin.y) <= radius);
+      }
+    }
+
+    if (home) {
+      home.pins.push(pin);
+      continue;
+    }
+
+    const cluster = { seed: { x: pin.x, y: pin.y }, pins: [pin] };
+    clusters.push(cluster);
+    let list = cells.get(`${cx},${cy}`);
+    if (!list) {
+      list = [];
+      cells.set(`${cx},${cy}`, list);
+    }
+    list.push(cluster);
+  }
+
+  return clusters.map(({ pins: members }) => ({
+    x: members.reduce((sum, p) => sum + p.x, 0) / members.length,
+    y: members.reduce((sum, p) => sum + p.y, 0) / members.length,
+    items: members.map((p) => p.item),
+  }));
+}
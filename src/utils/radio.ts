@@ -0,0 +1,110 @@
+/**
+ * "On air now" and "tonight" for the weekly radio schedule
+ * Shows are scheduled in Pacific time whatever the visitor's own time zone is
+ */
+
+import type { RadioShow, RadioRecurrence } from "@/types/events.js";
+
+export const RADIO_TIME_ZONE = "America/Los_Angeles";
+
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Shows listed without an end time are assumed to run this long
+const DEFAULT_SHOW_MINUTES = 60;
+
+// "Tonight" runs until early the next morning, when late-night shows are over
+const NIGHT_ENDS_MINUTES = 5 * 60;
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+// Day of week and minutes after midnight, in Pacific time
+export interface PacificClock {
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export function pacificClock(now: Date = new Date()): PacificClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: RADIO_TIME_ZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    dayOfWeek: WEEKDAYS[part("weekday")] ?? 0,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Start and end as minutes into the week; the end can spill past Saturday night
+function weekWindow(show: RadioShow): [number, number] {
+  const start = show.recurrence.dayOfWeek * DAY_MINUTES + toMinutes(show.startTime);
+  if (!show.endTime) return [start, start + DEFAULT_SHOW_MINUTES];
+
+  let length = toMinutes(show.endTime) - toMinutes(show.startTime);
+  if (length <= 0) length += DAY_MINUTES; // "9pm-midnight"
+  return [start, start + length];
+}
+
+function weekMinutes(clock: PacificClock): number {
+  return clock.dayOfWeek * DAY_MINUTES + clock.minutes;
+}
+
+/**
+ * Whether the show's slot covers the clock. Every-other-week shows count on
+ * both weeks: the list doesn't say which one they air.
+ */
+export function isOnAir(show: RadioShow, clock: PacificClock): boolean {
+  const [start, end] = weekWindow(show);
+  const now = weekMinutes(clock);
+  return (now >= start && now < end) || (now + WEEK_MINUTES >= start && now + WEEK_MINUTES < end);
+}
+
+/**
+ * Whether the show starts later tonight, up to the early hours of tomorrow
+ */
+export function airsTonight(show: RadioShow, clock: PacificClock): boolean {
+  const [start] = weekWindow(show);
+  const now = weekMinutes(clock);
+  const nightEnds =
+    clock.minutes < NIGHT_ENDS_MINUTES
+      ? now - clock.minutes + NIGHT_ENDS_MINUTES
+      : now - clock.minutes + DAY_MINUTES + NIGHT_ENDS_MINUTES;
+
+  return [start, start + WEEK_MINUTES].some((s) => s > now && s < nightEnds);
+}
+
+// "every Tuesday", "every other Sunday"
+export function describeRecurrence(recurrence: RadioRecurrence): string {
+  const day = DAY_NAMES[recurrence.dayOfWeek];
+  return recurrence.interval === 2 ? `every other ${day}` : `every ${day}`;
+}
+
+// "6pm-7pm", "9pm-midnight", "12:30pm"
+export function formatShowTime(show: RadioShow): string {
+  const start = formatClock(show.startTime);
+  return show.endTime ? `${start}-${formatClock(show.endTime)}` : start;
+}
+
+function formatClock(time: string): string {
+  const minutes = toMinutes(time);
+  if (minutes === 0) return "midnight";
+  if (minutes === 12 * 60) return "noon";
+
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  const suffix = h < 12 ? "am" : "pm";
+  return m === 0 ? `${hour}${suffix}` : `${hour}:${String(m).padStart(2, "0")}${suffix}`;
+}
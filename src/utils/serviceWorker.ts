@@ -0,0 +1,34 @@
+/**
+ * Service worker registration and the connectivity messages it posts
+ * The worker itself is public/sw.js, served from the app's base path
+ */
+
+// Posted by the worker when data came from the network, or from its cache because the network failed
+export const CONNECTIVITY_MESSAGE = "zivv:connectivity";
+
+export interface ConnectivityMessage {
+  type: typeof CONNECTIVITY_MESSAGE;
+  online: boolean;
+}
+
+export function isConnectivityMessage(data: unknown): data is ConnectivityMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as ConnectivityMessage).type === CONNECTIVITY_MESSAGE &&
+    typeof (data as ConnectivityMessage).online === "boolean"
+  );
+}
+
+/**
+ * Register the worker in production builds; the dev server's modules aren't worth caching
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+      .catch((error) => console.warn("Service worker registration failed:", error));
+  });
+}
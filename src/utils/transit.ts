@@ -0,0 +1,94 @@
+/**
+ * Named transit anchors for the distance filter
+ * BART stations at their street entrances' midpoint; a filter anchor is one
+ * of these or the browser's location. Stations round-trip through the URL as
+ * `near=bart:macarthur`; the browser's location stays in memory, so it never
+ * lands in a shared link or in storage
+ */
+
+import type { DistanceAnchor } from "@/types/events.js";
+
+export interface TransitAnchor extends DistanceAnchor {
+  system: "BART";
+}
+
+export const HERE_ANCHOR_ID = "here";
+
+const station = (slug: string, label: string, lat: number, lng: number): TransitAnchor => ({
+  id: `bart:${slug}`,
+  label,
+  lat,
+  lng,
+  system: "BART",
+});
+
+// North to south along the Peninsula, then the East Bay lines
+export const BART_STATIONS: TransitAnchor[] = [
+  station("embarcadero", "Embarcadero", 37.7929, -122.3971),
+  station("montgomery", "Montgomery St", 37.7894, -122.4011),
+  station("powell", "Powell St", 37.7844, -122.408),
+  station("civic-center", "Civic Center/UN Plaza", 37.7797, -122.4139),
+  station("16th-st-mission", "16th St Mission", 37.765, -122.4197),
+  station("24th-st-mission", "24th St Mission", 37.7523, -122.4184),
+  station("glen-park", "Glen Park", 37.733, -122.4338),
+  station("balboa-park", "Balboa Park", 37.7217, -122.4474),
+  station("daly-city", "Daly City", 37.7063, -122.469),
+  station("colma", "Colma", 37.6846, -122.4661),
+  station("south-san-francisco", "South San Francisco", 37.6642, -122.444),
+  station("san-bruno", "San Bruno", 37.6377, -122.4163),
+  station("sfo", "SFO Airport", 37.6159, -122.3924),
+  station("millbrae", "Millbrae", 37.6, -122.3866),
+  station("west-oakland", "West Oakland", 37.8049, -122.2951),
+  station("12th-st", "12th St Oakland City Center", 37.8037, -122.2717),
+  station("19th-st", "19th St Oakland", 37.8085, -122.2685),
+  station("macarthur", "MacArthur", 37.829, -122.2671),
+  station("rockridge", "Rockridge", 37.8447, -122.2512),
+  station("orinda", "Orinda", 37.8784, -122.1837),
+  station("lafayette", "Lafayette", 37.8932, -122.1247),
+  station("walnut-creek", "Walnut Creek", 37.9055, -122.0675),
+  station("pleasant-hill", "Pleasant Hill/Contra Costa Centre", 37.9284, -122.056),
+  station("concord", "Concord", 37.9737, -122.029),
+  station("north-concord", "North Concord/Martinez", 38.0032, -122.0246),
+  station("pittsburg-bay-point", "Pittsburg/Bay Point", 38.0189, -121.9451),
+  station("pittsburg-center", "Pittsburg Center", 38.017, -121.8897),
+  station("antioch", "Antioch", 37.9956, -121.7803),
+  station("ashby", "Ashby", 37.8529, -122.27),
+  station("downtown-berkeley", "Downtown Berkeley", 37.8701, -122.2681),
+  station("north-berkeley", "North Berkeley", 37.874, -122.2834),
+  station("el-cerrito-plaza", "El Cerrito Plaza", 37.9026, -122.2989),
+  station("el-cerrito-del-norte", "El Cerrito del Norte", 37.9252, -122.3171),
+  station("richmond", "Richmond", 37.9369, -122.3533),
+  station("lake-merritt", "Lake Merritt", 37.7975, -122.2653),
+  station("fruitvale", "Fruitvale", 37.7748, -122.2242),
+  station("coliseum", "Coliseum", 37.7537, -122.1969),
+  station("oakland-airport", "Oakland Airport", 37.7132, -122.2122),
+  station("san-leandro", "San Leandro", 37.7219, -122.1608),
+  station("bay-fair", "Bay Fair", 37.697, -122.1265),
+  station("castro-valley", "Castro Valley", 37.6908, -122.0757),
+  station("west-dublin", "West Dublin/Pleasanton", 37.6997, -121.9282),
+  station("dublin-pleasanton", "Dublin/Pleasanton", 37.7017, -121.8992),
+  station("hayward", "Hayward", 37.67, -122.087),
+  station("south-hayward", "South Hayward", 37.6344, -122.0571),
+  station("union-city", "Union City", 37.5908, -122.0174),
+  station("fremont", "Fremont", 37.5574, -121.9766),
+  station("warm-springs", "Warm Springs/South Fremont", 37.5025, -121.9393),
+  station("milpitas", "Milpitas", 37.4103, -121.8914),
+  station("berryessa", "Berryessa/North San José", 37.3686, -121.8746),
+];
+
+const BY_ID = new Map(BART_STATIONS.map((anchor) => [anchor.id, anchor]));
+
+export function getTransitAnchor(id: string): TransitAnchor | undefined {
+  return BY_ID.get(id);
+}
+
+/**
+ * The `near` URL param for an anchor, or undefined for the browser's location
+ */
+export function anchorToParam(anchor: DistanceAnchor): string | undefined {
+  return BY_ID.has(anchor.id) ? anchor.id : undefined;
+}
+
+export function anchorFromParam(param: string): DistanceAnchor | undefined {
+  return BY_ID.get(param);
+}
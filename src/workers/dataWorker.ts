@@ -1,14 +1,17 @@
 /**
  * Web Worker for data processing operations
- * Handles JSON parsing, filtering, sorting, and search index building off the main thread
+ * Handles JSON parsing and search index building off the main thread, and keeps
+ * the loaded events resident so pages can filter, sort and page them by query
  */
 
-import type { Event, Artist, Venue } from "@/types/events.js";
+import type { Event, Artist, Venue, SearchQuery } from "@/types/events.js";
 import type {
   WorkerMessage,
   WorkerResponse,
   ParseJsonPayload,
-  FilterEventsPayload,
+  LoadEventsPayload,
+  LoadEntitiesPayload,
+  CancelPayload,
 } from "@/types/frontend.js";
 
 // Import type guards for validation
@@ -19,6 +22,12 @@ import {
   validateManifest,
   validateEventChunk,
 } from "../utils/typeGuards.js";
+import { EventDataset } from "../utils/eventDataset.js";
+
+const dataset = new EventDataset();
+
+// Queries still scanning, by request id, so CANCEL can stop them
+const runningQueries = new Map<string, { cancelled: boolean }>();
 
 /**
  * Main worker message handler
@@ -32,17 +41,31 @@ self.onmessage = function (e: MessageEvent<WorkerMessage>) {
         handleParseJson(id, payload as ParseJsonPayload);
         break;
 
-      case "FILTER_EVENTS":
-        handleFilterEvents(id, payload as FilterEventsPayload);
+      case "LOAD_EVENTS":
+        dataset.addEvents((payload as LoadEventsPayload).events);
+        sendSuccess(id, { eventCount: dataset.size });
         break;
 
-      case "SORT_EVENTS":
-        handleSortEvents(
-          id,
-          payload as { events: Event[]; sortField: string; sortOrder: string }
-        );
+      case "LOAD_ENTITIES":
+        dataset.setEntities(payload as LoadEntitiesPayload);
+        sendSuccess(id, { eventCount: dataset.size });
+        break;
+
+      case "RESET_DATASET":
+        dataset.clear();
+        sendSuccess(id, { eventCount: 0 });
+        break;
+
+      case "QUERY_EVENTS":
+        handleQueryEvents(id, payload as SearchQuery);
         break;
 
+      case "CANCEL": {
+        const running = runningQueries.get((payload as CancelPayload).requestId);
+        if (running) running.cancelled = true;
+        break;
+      }
+
       case "BUILD_SEARCH_INDEX":
         handleBuildSearchIndex(
           id,
@@ -128,188 +151,20 @@ function handleParseJson(id: string, payload: ParseJsonPayload) {
 }
 
 /**
- * Filter events based on criteria
- */
-function handleFilterEvents(id: string, payload: FilterEventsPayload) {
-  const { events, filters, searchQuery } = payload;
-
-  try {
-    let filteredEvents = [...events];
-
-    // Apply city filter
-    if (filters.cities && filters.cities.length > 0) {
-      filteredEvents = filteredEvents.filter((event) => {
-        if (!event.venueId) return false;
-
-        // Map full city names to normalized names for venue matching
-        const cityMapping: Record<string, string> = {
-          "San Francisco": "S.f",
-          Oakland: "Oakland",
-          Berkeley: "Berkeley",
-          "Santa Cruz": "Santa",
-        };
-
-        return filters.cities!.some((selectedCity) => {
-          const normalizedCity = cityMapping[selectedCity] || selectedCity;
-          return getVenueCity() === normalizedCity;
-        });
-      });
-    }
-
-    // Apply date range filter
-    if (filters.dateRange?.startDate || filters.dateRange?.endDate) {
-      filteredEvents = filteredEvents.filter((event) => {
-        const eventDate = new Date(event.dateEpochMs)
-          .toISOString()
-          .split("T")[0];
-
-        if (
-          filters.dateRange?.startDate &&
-          eventDate < filters.dateRange.startDate
-        ) {
-          return false;
-        }
-
-        if (
-          filters.dateRange?.endDate &&
-          eventDate > filters.dateRange.endDate
-        ) {
-          return false;
-        }
-
-        return true;
-      });
-    }
-
-    // Apply price range filter
-    if (
-      filters.priceRange?.min !== undefined ||
-      filters.priceRange?.max !== undefined
-    ) {
-      filteredEvents = filteredEvents.filter((event) => {
-        if (event.isFree) {
-          return (
-            filters.priceRange?.min === undefined || filters.priceRange.min <= 0
-          );
-        }
-
-        const price = event.priceMin || 0;
-
-        if (
-          filters.priceRange?.min !== undefined &&
-          price < filters.priceRange.min
-        ) {
-          return false;
-        }
-
-        if (
-          filters.priceRange?.max !== undefined &&
-          price > filters.priceRange.max
-        ) {
-          return false;
-        }
-
-        return true;
-      });
-    }
-
-    // Apply free events filter
-    if (filters.isFree === true) {
-      filteredEvents = filteredEvents.filter((event) => event.isFree);
-    }
-
-    // Apply age restrictions filter
-    if (filters.ageRestrictions && filters.ageRestrictions.length > 0) {
-      filteredEvents = filteredEvents.filter((event) =>
-        filters.ageRestrictions!.includes(event.ageRestriction)
-      );
-    }
-
-    // Apply tags filter
-    if (filters.tags && filters.tags.length > 0) {
-      filteredEvents = filteredEvents.filter((event) =>
-        filters.tags!.some((tag) => event.tags?.includes(tag))
-      );
-    }
-
-    // Apply text search if provided
-    if (searchQuery && searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filteredEvents = filteredEvents.filter((event) => {
-        // Search in event description and notes
-        const searchableText = [event.description || "", event.notes || ""]
-          .join(" ")
-          .toLowerCase();
-
-        return searchableText.includes(query);
-      });
-    }
-
-    sendSuccess(id, {
-      events: filteredEvents,
-      totalCount: filteredEvents.length,
-      originalCount: events.length,
-    });
-  } catch (error) {
-    sendError(id, `Filtering failed: ${error}`);
-  }
-}
-
-/**
- * Sort events by specified field and order
+ * Match, sort and page the resident events. A cancelled query sends nothing
+ * back; the caller has already given up on it
  */
-function handleSortEvents(
-  id: string,
-  payload: { events: Event[]; sortField: string; sortOrder: string }
-) {
-  const { events, sortField, sortOrder } = payload;
+async function handleQueryEvents(id: string, query: SearchQuery) {
+  const running = { cancelled: false };
+  runningQueries.set(id, running);
 
   try {
-    const sortedEvents = [...events].sort((a, b) => {
-      let aValue: string | number | Date;
-      let bValue: string | number | Date;
-
-      switch (sortField) {
-        case "date":
-          aValue = a.dateEpochMs;
-          bValue = b.dateEpochMs;
-          break;
-
-        case "price":
-          aValue = a.isFree ? 0 : a.priceMin || 0;
-          bValue = b.isFree ? 0 : b.priceMin || 0;
-          break;
-
-        case "artist":
-          // Would need artist data to sort by artist name
-          aValue = a.headlinerArtistId;
-          bValue = b.headlinerArtistId;
-          break;
-
-        case "venue":
-          // Would need venue data to sort by venue name
-          aValue = a.venueId;
-          bValue = b.venueId;
-          break;
-
-        default:
-          throw new Error(`Unsupported sort field: ${sortField}`);
-      }
-
-      let comparison = 0;
-      if (aValue < bValue) comparison = -1;
-      else if (aValue > bValue) comparison = 1;
-
-      return sortOrder === "desc" ? -comparison : comparison;
-    });
-
-    sendSuccess(id, {
-      events: sortedEvents,
-      sortField,
-      sortOrder,
-    });
+    const result = await dataset.query(query, () => running.cancelled);
+    if (result) sendSuccess(id, result);
   } catch (error) {
-    sendError(id, `Sorting failed: ${error}`);
+    sendError(id, `Query failed: ${error}`);
+  } finally {
+    runningQueries.delete(id);
   }
 }
 
@@ -472,12 +327,6 @@ function calculateMedian(numbers: number[]): number {
     : sorted[mid];
 }
 
-function getVenueCity(): string {
-  // This would need venue data to be passed to the worker
-  // For now, return empty string
-  return "";
-}
-
 function sendSuccess<T>(id: string, data: T): void {
   const response: WorkerResponse<T> = {
     id,